@@ -7,6 +7,7 @@ import {
   getClientIdentifier,
   DEFAULT_RATE_LIMIT 
 } from '../../../../utils/rateLimit';
+import { withSession } from '../../../../utils/session';
 
 /**
  * POST /api/actions/complete
@@ -15,21 +16,23 @@ import {
  * 
  * Request body:
  * - actionId: string - The action item's UUID
- * - odId: string - User's unique identifier (for ownership verification)
+ * 
+ * Ownership is verified against the session user.
  * 
  * Response:
  * - 200: { success: true, action }
  * - 400: { error: string } - Missing or invalid parameters
+ * - 401: { error: string } - No valid session
  * - 404: { error: string } - Action not found
  * - 429: { error: string } - Rate limit exceeded
  * - 500: { error: string } - Server error
  * 
  * Requirements: 4.3
  */
-export async function POST(request: Request): Promise<NextResponse> {
+export const POST = withSession(async (request, odId): Promise<NextResponse> => {
   try {
     const body = await request.json();
-    const { actionId, odId } = body;
+    const { actionId } = body;
 
     // Check rate limit (10 requests per minute)
     const clientId = getClientIdentifier(request, odId);
@@ -51,14 +54,6 @@ export async function POST(request: Request): Promise<NextResponse> {
       );
     }
 
-    // Validate odId is provided
-    if (!odId || typeof odId !== 'string' || odId.trim() === '') {
-      return NextResponse.json(
-        { error: 'User ID (odId) is required' },
-        { status: 400 }
-      );
-    }
-
     // Mark the action as complete
     const updatedAction = await markActionComplete(actionId, odId);
 
@@ -83,4 +78,4 @@ export async function POST(request: Request): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
@@ -14,33 +14,29 @@ import {
   getClientIdentifier,
   DEFAULT_RATE_LIMIT 
 } from '../../../../utils/rateLimit';
+import { withSession } from '../../../../utils/session';
+import type { BurnoutComponentContribution } from '../../../../types/assessment';
 import type { ArchetypeName } from '../../../../types/assessment';
 
 /**
  * GET /api/actions/daily
  * 
- * Returns today's action items for a user with completion status.
+ * Returns today's action items for the session user with completion status.
  * If no actions exist for today, automatically generates personalized actions
  * based on the user's assessment profile (archetype and dimensions).
  * 
- * Query params:
- * - odId: string - User's unique identifier
- * 
  * Response:
  * - 200: { actions, completedToday, totalToday, completionStats }
- * - 400: { error: string } - Missing or invalid odId
+ * - 401: { error: string } - No valid session
  * - 429: { error: string } - Rate limit exceeded
  * - 500: { error: string } - Server error
  * 
  * Requirements: 4.1, 4.3
  */
-export async function GET(request: Request): Promise<NextResponse> {
+export const GET = withSession(async (request, odId): Promise<NextResponse> => {
   try {
-    const { searchParams } = new URL(request.url);
-    const odId = searchParams.get('odId');
-
     // Check rate limit (10 requests per minute)
-    const clientId = getClientIdentifier(request, odId || undefined);
+    const clientId = getClientIdentifier(request, odId);
     const rateLimitResult = checkRateLimit(clientId, DEFAULT_RATE_LIMIT);
     
     if (!rateLimitResult.allowed) {
@@ -51,14 +47,6 @@ export async function GET(request: Request): Promise<NextResponse> {
       );
     }
 
-    // Validate odId is provided
-    if (!odId || odId.trim() === '') {
-      return NextResponse.json(
-        { error: 'User ID (odId) is required' },
-        { status: 400 }
-      );
-    }
-
     // Check if actions exist for today
     const hasActions = await hasActionsForToday(odId);
     
@@ -75,6 +63,7 @@ export async function GET(request: Request): Promise<NextResponse> {
         score: burnoutScore.score,
         riskLevel: burnoutScore.riskLevel as 'low' | 'caution' | 'high' | 'critical',
         contributingFactors: burnoutScore.contributingFactors as string[],
+        components: burnoutScore.components as BurnoutComponentContribution[],
       } : null;
       
       // Generate new daily actions based on user's profile
@@ -111,4 +100,4 @@ export async function GET(request: Request): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
@@ -15,31 +15,32 @@ import {
   getClientIdentifier,
   DEFAULT_RATE_LIMIT 
 } from '../../../../utils/rateLimit';
+import { withSession } from '../../../../utils/session';
+import type { BurnoutComponentContribution } from '../../../../types/assessment';
 import type { ArchetypeName } from '../../../../types/assessment';
 
 /**
  * POST /api/actions/generate
  * 
- * Triggers action generation for a user. Creates new daily actions based on
+ * Triggers action generation for the session user. Creates new daily actions based on
  * the user's archetype, burnout score, and assessment data.
  * 
  * Request body:
- * - odId: string - User's unique identifier
  * - forceRegenerate?: boolean - If true, clears existing actions and regenerates
  * 
  * Response:
  * - 200: { success: true, actions, completedToday, totalToday, completionStats }
- * - 400: { error: string } - Missing or invalid parameters
+ * - 401: { error: string } - No valid session
  * - 409: { error: string, message: string } - Actions already exist for today
  * - 429: { error: string } - Rate limit exceeded
  * - 500: { error: string } - Server error
  * 
  * Requirements: 4.1, 4.2, 4.4, 4.5
  */
-export async function POST(request: Request): Promise<NextResponse> {
+export const POST = withSession(async (request, odId): Promise<NextResponse> => {
   try {
-    const body = await request.json();
-    const { odId, forceRegenerate = false } = body;
+    const body = await request.json().catch(() => ({}));
+    const { forceRegenerate = false } = body;
 
     // Check rate limit (10 requests per minute)
     const clientId = getClientIdentifier(request, odId);
@@ -53,14 +54,6 @@ export async function POST(request: Request): Promise<NextResponse> {
       );
     }
 
-    // Validate odId is provided
-    if (!odId || typeof odId !== 'string' || odId.trim() === '') {
-      return NextResponse.json(
-        { error: 'User ID (odId) is required' },
-        { status: 400 }
-      );
-    }
-
     // Check if actions already exist for today
     const hasExistingActions = await hasActionsForToday(odId);
     
@@ -100,6 +93,7 @@ export async function POST(request: Request): Promise<NextResponse> {
       score: burnoutScore.score,
       riskLevel: burnoutScore.riskLevel as 'low' | 'caution' | 'high' | 'critical',
       contributingFactors: burnoutScore.contributingFactors as string[],
+      components: burnoutScore.components as BurnoutComponentContribution[],
     } : null;
 
     // Generate new daily actions
@@ -130,4 +124,4 @@ export async function POST(request: Request): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { getUserAssessments } from '../../../../services/databaseService';
+import { getEntriesSince } from '../../../../services/journalService';
+import {
+  buildAssessmentHistory,
+  diffAssessments,
+  findArchetypeTransitions,
+} from '../../../../services/assessmentHistoryService';
+import { AssessmentHistoryResponse } from '../../../../types/assessment';
+import { handleError, USER_ERROR_MESSAGES } from '../../../../utils/errorHandler';
+import { withSession } from '../../../../utils/session';
+
+/**
+ * GET /api/assessment/history
+ *
+ * Returns the session user's assessments over time, each with journal averages
+ * for the period it was current, the archetype transitions between retakes and
+ * a dimension-by-dimension diff of two assessments.
+ *
+ * Query params:
+ * - from?: string - Id of the earlier assessment to compare (default: the first one)
+ * - to?: string - Id of the later assessment to compare (default: the latest one)
+ *
+ * Response:
+ * - 200: { assessments, transitions, diff } - diff is null with fewer than two assessments
+ * - 400: { error: string } - from is not earlier than to
+ * - 401: { error: string } - No valid session
+ * - 404: { error: string } - Unknown assessment id
+ * - 500: { error: string } - Server error
+ */
+export const GET = withSession(async (request, odId): Promise<NextResponse> => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const fromId = searchParams.get('from');
+    const toId = searchParams.get('to');
+
+    const history = await getUserAssessments(odId);
+    if (history.length === 0) {
+      const empty: AssessmentHistoryResponse = { assessments: [], transitions: [], diff: null };
+      return NextResponse.json(empty);
+    }
+
+    const fromIndex = fromId ? history.findIndex((assessment) => assessment.id === fromId) : 0;
+    const toIndex = toId ? history.findIndex((assessment) => assessment.id === toId) : history.length - 1;
+
+    if (fromIndex === -1 || toIndex === -1) {
+      return NextResponse.json(
+        { error: 'Assessment not found' },
+        { status: 404 }
+      );
+    }
+
+    if ((fromId || toId) && fromIndex >= toIndex) {
+      return NextResponse.json(
+        { error: 'The first assessment must be earlier than the second' },
+        { status: 400 }
+      );
+    }
+
+    const entries = await getEntriesSince(odId, history[0].createdAt);
+
+    const response: AssessmentHistoryResponse = {
+      assessments: buildAssessmentHistory(history, entries),
+      transitions: findArchetypeTransitions(history),
+      diff: history.length >= 2 ? diffAssessments(history[fromIndex], history[toIndex]) : null,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    handleError('GET /api/assessment/history', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
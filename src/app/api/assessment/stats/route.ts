@@ -1,31 +1,21 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/db/connection';
-import { assessments } from '@/db/schema';
+import { assessments, userProfiles } from '@/db/schema';
 import { eq, desc, sql } from 'drizzle-orm';
+import { withSession } from '@/utils/session';
+import { getRetakeStatus } from '@/services/retakeService';
 
 /**
  * GET /api/assessment/stats
  * 
- * Returns assessment statistics for a user
- * Query params:
- * - odId: User's anonymous ID
+ * Returns assessment statistics for the session user
  * 
  * Response:
- * - 200: { count, lastAssessment, archetype }
- * - 400: { error: string } - Missing odId
+ * - 200: { count, lastAssessment, archetype, retake } - retake is null before the first assessment
+ * - 401: { error: string } - No valid session
  */
-export async function GET(request: Request): Promise<NextResponse> {
+export const GET = withSession(async (request, odId): Promise<NextResponse> => {
   try {
-    const { searchParams } = new URL(request.url);
-    const odId = searchParams.get('odId');
-
-    if (!odId) {
-      return NextResponse.json(
-        { error: 'Missing odId parameter' },
-        { status: 400 }
-      );
-    }
-
     // Get count of assessments
     const countResult = await db
       .select({ count: sql<number>`count(*)` })
@@ -45,10 +35,21 @@ export async function GET(request: Request): Promise<NextResponse> {
       .orderBy(desc(assessments.createdAt))
       .limit(1);
 
+    // Get retake schedule
+    const profile = await db
+      .select({
+        retakeDueAt: userProfiles.retakeDueAt,
+        retakeDueReason: userProfiles.retakeDueReason,
+      })
+      .from(userProfiles)
+      .where(eq(userProfiles.odId, odId))
+      .limit(1);
+
     return NextResponse.json({
       count,
       lastAssessment: latestAssessment[0]?.createdAt || null,
       archetype: latestAssessment[0]?.archetype || null,
+      retake: profile[0] ? getRetakeStatus(profile[0]) : null,
     });
   } catch (error) {
     console.error('Error fetching assessment stats:', error);
@@ -57,4 +58,4 @@ export async function GET(request: Request): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
@@ -1,27 +1,42 @@
 import { NextResponse } from 'next/server';
-import { calculateScores, determineArchetype, getRecommendations } from '../../../../services/assessmentService';
+import { calculateScores, assessReliability, determineArchetype, evaluateArchetype, getRecommendations } from '../../../../services/assessmentService';
 import { saveAssessment } from '../../../../services/databaseService';
+import { analyzeResponseQuality, sanitizeTimings } from '../../../../services/responseQualityService';
+import { scheduleRetake } from '../../../../services/retakeService';
 import { AnswerValue, AssessmentSubmitResponse } from '../../../../types/assessment';
+import { withSession } from '../../../../utils/session';
+import { CURRENT_QUESTION_BANK_VERSION, getQuestionBank, isQuestionBankVersion } from '../../../../utils/questionBanks';
 
 /**
  * POST /api/assessment/submit
  * 
- * Validates and processes a 25-question assessment submission.
+ * Validates and processes an assessment submission.
  * 
  * Request body:
- * - answers: string[] - Array of 25 answers, each A/B/C/D
+ * - answers: string[] - One answer per question in the bank, each A/B/C/D
+ * - questionBankVersion?: string - Bank the quiz was taken with (defaults to the current bank)
+ * - answerTimings?: (number | null)[] - Milliseconds spent per question; ignored if malformed
  * 
  * Response:
- * - 200: { scores, archetype, recommendations }
+ * - 200: { scores, archetype, archetypeExplanation, recommendations, questionBankVersion, reliability, quality, assessmentId }
  * - 400: { error: string } - Invalid input
+ * - 401: { error: string } - No valid session
  * - 500: { error: string } - Server error
  * 
  * Requirements: 3.1, 7.1, 7.2, 7.5, 7.6, 7.10
  */
-export async function POST(request: Request): Promise<NextResponse> {
+export const POST = withSession(async (request, odId): Promise<NextResponse> => {
   try {
     const body = await request.json();
-    const { answers } = body;
+    const { answers, answerTimings, questionBankVersion = CURRENT_QUESTION_BANK_VERSION } = body;
+
+    if (!isQuestionBankVersion(questionBankVersion)) {
+      return NextResponse.json(
+        { error: 'Unknown question bank version' },
+        { status: 400 }
+      );
+    }
+    const bank = getQuestionBank(questionBankVersion);
 
     // Validate answers array exists and has correct length
     if (!Array.isArray(answers)) {
@@ -31,9 +46,9 @@ export async function POST(request: Request): Promise<NextResponse> {
       );
     }
 
-    if (answers.length !== 25) {
+    if (answers.length !== bank.questions.length) {
       return NextResponse.json(
-        { error: 'Exactly 25 answers required' },
+        { error: `Exactly ${bank.questions.length} answers required` },
         { status: 400 }
       );
     }
@@ -48,24 +63,31 @@ export async function POST(request: Request): Promise<NextResponse> {
     }
 
     // Calculate scores and determine archetype
-    const scores = calculateScores(answers);
+    const scores = calculateScores(answers, bank.version);
+    const reliability = assessReliability(answers, bank.version);
+    const quality = analyzeResponseQuality(
+      answers as AnswerValue[],
+      bank,
+      sanitizeTimings(answerTimings, bank.questions.length)
+    );
     const archetype = determineArchetype(scores);
+    const archetypeExplanation = evaluateArchetype(scores);
     const recommendations = getRecommendations(scores, archetype.name);
 
-    // Get user ID from request body or generate anonymous one
-    // The client should send the persistent odId
-    const { odId } = body;
-    const userId = odId || 'anonymous-' + crypto.randomUUID();
-
     // Save assessment to PostgreSQL database
+    let assessmentId: string | null = null;
     try {
-      await saveAssessment(
-        userId,
+      const saved = await saveAssessment(
+        odId,
         answers as AnswerValue[],
         scores,
         archetype.name,
-        null // Groq insights will be added later via separate API call
+        null, // Groq insights will be added later via separate API call
+        bank.version,
+        quality
       );
+      assessmentId = saved.id;
+      await scheduleRetake(odId);
     } catch (dbError) {
       // Log database error but don't fail the request
       // User still gets their results even if saving fails
@@ -80,6 +102,11 @@ export async function POST(request: Request): Promise<NextResponse> {
       scores,
       archetype,
       recommendations,
+      questionBankVersion: bank.version,
+      reliability,
+      quality,
+      archetypeExplanation,
+      assessmentId,
     };
 
     return NextResponse.json(response);
@@ -93,4 +120,4 @@ export async function POST(request: Request): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import {
+  applyEscalationUpdate,
+  getEscalationState,
+  validateEscalationUpdate,
+  EscalationValidationError,
+} from '../../../../services/escalationService';
+import { getCrisisRegion } from '../../../../services/userDataService';
+import { handleError, USER_ERROR_MESSAGES } from '../../../../utils/errorHandler';
+import {
+  checkRateLimit,
+  createRateLimitHeaders,
+  getClientIdentifier,
+  DEFAULT_RATE_LIMIT
+} from '../../../../utils/rateLimit';
+import { withSession } from '../../../../utils/session';
+
+/**
+ * GET /api/burnout/escalation
+ *
+ * Returns the session user's open burnout escalation, raised after several
+ * critical days in a row or a jump of two risk levels, and any follow-up due
+ * on one that resolved recently.
+ *
+ * Response:
+ * - 200: { escalation, followUp, crisisResources, contactDraft }
+ *   crisisResources and contactDraft are set while an escalation is open;
+ *   crisis lines are for the user's region setting, or else their browser language
+ * - 401: { error: string } - No valid session
+ * - 429: { error: string } - Rate limit exceeded
+ * - 500: { error: string } - Server error
+ */
+export const GET = withSession(async (request, odId): Promise<NextResponse> => {
+  try {
+    // Own bucket: the crisis banner must not go missing because other dashboard reads used up the shared one
+    const clientId = getClientIdentifier(request, odId);
+    const rateLimitResult = checkRateLimit(`escalation:${clientId}`, DEFAULT_RATE_LIMIT);
+
+    if (!rateLimitResult.allowed) {
+      const headers = createRateLimitHeaders(rateLimitResult, DEFAULT_RATE_LIMIT);
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers }
+      );
+    }
+
+    const crisisRegion = await getCrisisRegion(odId, request.headers.get('accept-language'));
+    return NextResponse.json(await getEscalationState(odId, crisisRegion));
+  } catch (error) {
+    handleError('GET /api/burnout/escalation', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/burnout/escalation
+ *
+ * Applies the user's choices to one of their escalations.
+ *
+ * Request body:
+ * - id: string - The escalation's UUID
+ * - dismissed?: boolean - Hide (or bring back) the crisis banner
+ * - followUpDismissed?: boolean - Hide the follow-up after it resolved
+ * - streaksPaused?: boolean - Whether streaks stay hidden while it is open
+ *
+ * Response:
+ * - 200: { escalation, followUp, crisisResources, contactDraft }
+ * - 400: { error: string } - Invalid input
+ * - 401: { error: string } - No valid session
+ * - 404: { error: string } - No such escalation
+ * - 500: { error: string } - Server error
+ */
+export const PATCH = withSession(async (request, odId): Promise<NextResponse> => {
+  try {
+    const update = validateEscalationUpdate(await request.json().catch(() => null));
+    const crisisRegion = await getCrisisRegion(odId, request.headers.get('accept-language'));
+    const state = await applyEscalationUpdate(odId, update, crisisRegion);
+
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Escalation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(state);
+  } catch (error) {
+    if (error instanceof EscalationValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    handleError('PATCH /api/burnout/escalation', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getBurnoutForecast, MIN_FORECAST_ENTRIES } from '../../../../services/forecastService';
+import { handleError, USER_ERROR_MESSAGES } from '../../../../utils/errorHandler';
+import { 
+  checkRateLimit, 
+  createRateLimitHeaders, 
+  getClientIdentifier,
+  DEFAULT_RATE_LIMIT 
+} from '../../../../utils/rateLimit';
+import { withSession } from '../../../../utils/session';
+import type { BurnoutForecastResponse } from '../../../../types/assessment';
+
+/**
+ * GET /api/burnout/forecast
+ * 
+ * Projects the session user's burnout score for the next 7 days from their
+ * journal history, with an 80% confidence band per day.
+ * 
+ * Response:
+ * - 200: { forecast: { history, points, currentScore, currentRiskLevel, earlyWarning } }
+ *   earlyWarning is set when the projection reaches high or critical before the current score does
+ * - 200: { forecast: null, message: string } - Not enough recent check-ins
+ * - 401: { error: string } - No valid session
+ * - 429: { error: string } - Rate limit exceeded
+ * - 500: { error: string } - Server error
+ */
+export const GET = withSession(async (request, odId): Promise<NextResponse> => {
+  try {
+    // Own bucket, so the forecast still loads when the dashboard's other reads use up the shared one
+    const clientId = getClientIdentifier(request, odId);
+    const rateLimitResult = checkRateLimit(`burnout-forecast:${clientId}`, DEFAULT_RATE_LIMIT);
+    
+    if (!rateLimitResult.allowed) {
+      const headers = createRateLimitHeaders(rateLimitResult, DEFAULT_RATE_LIMIT);
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers }
+      );
+    }
+
+    const forecast = await getBurnoutForecast(odId);
+    const response: BurnoutForecastResponse = forecast
+      ? { forecast }
+      : {
+          forecast: null,
+          message: `Check in on at least ${MIN_FORECAST_ENTRIES} days, including one in the last few days, to see where your burnout risk is heading.`,
+        };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    handleError('GET /api/burnout/forecast', error);
+    
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import {
+  getBurnoutHistory,
+  parseHistoryRange,
+  BurnoutHistoryValidationError,
+} from '../../../../services/burnoutHistoryService';
+import { handleError, USER_ERROR_MESSAGES } from '../../../../utils/errorHandler';
+import {
+  checkRateLimit,
+  createRateLimitHeaders,
+  getClientIdentifier,
+  DEFAULT_RATE_LIMIT
+} from '../../../../utils/rateLimit';
+import { withSession } from '../../../../utils/session';
+
+/**
+ * GET /api/burnout/history
+ *
+ * Returns the session user's burnout scores over a range of days, combined
+ * into one score per day, and the days their risk level changed.
+ *
+ * Query params:
+ * - from?: string - First day, YYYY-MM-DD (default: 30 days up to `to`)
+ * - to?: string - Last day, inclusive, YYYY-MM-DD (default: today)
+ *
+ * Response:
+ * - 200: { from, to, days, transitions }
+ *   days has one entry per scored day; transitions lists each change of risk level
+ * - 400: { error: string } - Malformed dates, reversed range or more than 365 days
+ * - 401: { error: string } - No valid session
+ * - 429: { error: string } - Rate limit exceeded
+ * - 500: { error: string } - Server error
+ */
+export const GET = withSession(async (request, odId): Promise<NextResponse> => {
+  try {
+    // Kept out of the shared per-user bucket; the dashboard refetches it on every period change
+    const clientId = getClientIdentifier(request, odId);
+    const rateLimitResult = checkRateLimit(`burnout-history:${clientId}`, DEFAULT_RATE_LIMIT);
+
+    if (!rateLimitResult.allowed) {
+      const headers = createRateLimitHeaders(rateLimitResult, DEFAULT_RATE_LIMIT);
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const range = parseHistoryRange(searchParams.get('from'), searchParams.get('to'));
+
+    return NextResponse.json(await getBurnoutHistory(odId, range));
+  } catch (error) {
+    if (error instanceof BurnoutHistoryValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    handleError('GET /api/burnout/history', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
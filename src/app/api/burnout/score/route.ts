@@ -7,18 +7,10 @@ import {
   getClientIdentifier,
   DEFAULT_RATE_LIMIT 
 } from '../../../../utils/rateLimit';
-
-/**
- * Crisis resources for critical risk levels
- */
-const CRISIS_RESOURCES = {
-  hotlines: [
-    { name: 'National Suicide Prevention Lifeline', number: '988', available: '24/7' },
-    { name: 'Crisis Text Line', number: 'Text HOME to 741741', available: '24/7' },
-    { name: 'SAMHSA National Helpline', number: '1-800-662-4357', available: '24/7' },
-  ],
-  message: 'If you are in crisis or having thoughts of self-harm, please reach out to one of these resources immediately. You are not alone.',
-};
+import { withSession } from '../../../../utils/session';
+import { getCrisisRegion } from '../../../../services/userDataService';
+import { getCrisisResources } from '../../../../utils/crisisResources';
+import type { CrisisResources } from '../../../../types/assessment';
 
 /**
  * Recommendations based on risk level
@@ -54,27 +46,23 @@ const RECOMMENDATIONS: Record<RiskLevel, string[]> = {
 /**
  * GET /api/burnout/score
  * 
- * Returns the current burnout risk score for a user.
- * 
- * Query params:
- * - odId: string - User's unique identifier
+ * Returns the current burnout risk score for the session user.
  * 
  * Response:
- * - 200: { score, riskLevel, contributingFactors, recommendations, crisisResources? }
- * - 400: { error: string } - Missing or invalid odId
+ * - 200: { score, riskLevel, contributingFactors, components, recommendations, crisisResources? }
+ *   components breaks the score down by model component (empty for older scores)
+ *   crisisResources are for the user's region setting, or else their browser language
+ * - 401: { error: string } - No valid session
  * - 404: { error: string, message: string } - No burnout score exists
  * - 429: { error: string } - Rate limit exceeded
  * - 500: { error: string } - Server error
  * 
  * Requirements: 3.1, 3.2, 3.3, 3.4
  */
-export async function GET(request: Request): Promise<NextResponse> {
+export const GET = withSession(async (request, odId): Promise<NextResponse> => {
   try {
-    const { searchParams } = new URL(request.url);
-    const odId = searchParams.get('odId');
-
     // Check rate limit (10 requests per minute)
-    const clientId = getClientIdentifier(request, odId || undefined);
+    const clientId = getClientIdentifier(request, odId);
     const rateLimitResult = checkRateLimit(clientId, DEFAULT_RATE_LIMIT);
     
     if (!rateLimitResult.allowed) {
@@ -85,14 +73,6 @@ export async function GET(request: Request): Promise<NextResponse> {
       );
     }
 
-    // Validate odId is provided
-    if (!odId || odId.trim() === '') {
-      return NextResponse.json(
-        { error: 'User ID (odId) is required' },
-        { status: 400 }
-      );
-    }
-
     // Get the latest burnout score for the user
     const latestScore = await getLatestScore(odId);
 
@@ -116,20 +96,22 @@ export async function GET(request: Request): Promise<NextResponse> {
       score: number;
       riskLevel: string;
       contributingFactors: unknown;
+      components: unknown;
       recommendations: string[];
       disclaimer: string;
-      crisisResources?: typeof CRISIS_RESOURCES;
+      crisisResources?: CrisisResources;
     } = {
       score: latestScore.score,
       riskLevel: latestScore.riskLevel,
       contributingFactors: latestScore.contributingFactors,
+      components: latestScore.components,
       recommendations,
       disclaimer: 'This is not a medical diagnosis. If you are struggling, please seek professional help.',
     };
 
     // Include crisis resources for high and critical risk levels
     if (riskLevel === 'high' || riskLevel === 'critical') {
-      response.crisisResources = CRISIS_RESOURCES;
+      response.crisisResources = getCrisisResources(await getCrisisRegion(odId, request.headers.get('accept-language')));
     }
 
     return NextResponse.json(response);
@@ -142,4 +124,4 @@ export async function GET(request: Request): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import {
+  getLatestConversation,
+  sendCoachMessage,
+  CoachValidationError,
+} from '../../../../services/coachService';
+import { getCrisisRegion } from '../../../../services/userDataService';
+import { handleError, USER_ERROR_MESSAGES } from '../../../../utils/errorHandler';
+import {
+  checkRateLimit,
+  createRateLimitHeaders,
+  getClientIdentifier,
+  DEFAULT_RATE_LIMIT
+} from '../../../../utils/rateLimit';
+import { withSession } from '../../../../utils/session';
+import type { CoachChatRequest } from '../../../../types/assessment';
+
+/**
+ * GET /api/coach/chat
+ *
+ * Retrieves the session user's latest coach conversation. Crisis resources
+ * are for the user's region setting, or else their browser language.
+ *
+ * Response:
+ * - 200: CoachConversationResponse - conversationId is null before the first conversation
+ * - 401: { error: string } - No valid session
+ * - 500: { error: string } - Server error
+ */
+export const GET = withSession(async (request, odId): Promise<NextResponse> => {
+  try {
+    const crisisRegion = await getCrisisRegion(odId, request.headers.get('accept-language'));
+    return NextResponse.json(await getLatestConversation(odId, crisisRegion));
+  } catch (error) {
+    handleError('GET /api/coach/chat', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/coach/chat
+ *
+ * Sends a message to the check-in coach.
+ *
+ * Request body: CoachChatRequest
+ * - conversationId?: string - Conversation to continue; omit to start a new one
+ * - message: string - The user's message (max 1000 chars)
+ *
+ * Response:
+ * - 200: CoachChatResponse - crisisResources is set once the conversation showed a risk signal
+ * - 400: { error: string } - Invalid message, unknown conversation or conversation limit reached
+ * - 401: { error: string } - No valid session
+ * - 429: { error: string } - Rate limit exceeded
+ * - 500: { error: string } - Server error
+ */
+export const POST = withSession(async (request, odId): Promise<NextResponse> => {
+  try {
+    // Check rate limit (10 requests per minute)
+    const clientId = getClientIdentifier(request, odId);
+    const rateLimitResult = checkRateLimit(clientId, DEFAULT_RATE_LIMIT);
+
+    if (!rateLimitResult.allowed) {
+      const headers = createRateLimitHeaders(rateLimitResult, DEFAULT_RATE_LIMIT);
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers }
+      );
+    }
+
+    const body: Partial<CoachChatRequest> = await request.json().catch(() => ({}));
+    const conversationId = typeof body?.conversationId === 'string' ? body.conversationId : null;
+
+    const crisisRegion = await getCrisisRegion(odId, request.headers.get('accept-language'));
+
+    return NextResponse.json(await sendCoachMessage(odId, conversationId, body?.message, { crisisRegion }));
+  } catch (error) {
+    if (error instanceof CoachValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    handleError('POST /api/coach/chat', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
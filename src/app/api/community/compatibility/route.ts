@@ -1,19 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { calculateCompatibility } from '@/services/communityService';
+import { withSession } from '@/utils/session';
 
-export async function POST(request: NextRequest) {
+export const POST = withSession(async (request, odId) => {
   try {
     const body = await request.json();
-    const { userId1, userId2 } = body;
+    // The partner's compatibility code is their odId; the caller comes from the session
+    const { partnerCode } = body;
 
-    if (!userId1 || !userId2) {
+    if (!partnerCode || typeof partnerCode !== 'string') {
       return NextResponse.json(
-        { error: 'Both user IDs required' },
+        { error: 'Partner code required' },
         { status: 400 }
       );
     }
 
-    const result = await calculateCompatibility(userId1, userId2);
+    const result = await calculateCompatibility(odId, partnerCode.trim());
 
     if (!result) {
       return NextResponse.json(
@@ -30,4 +32,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
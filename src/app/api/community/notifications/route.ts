@@ -1,17 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { getNotifications, markNotificationsRead, getUnreadCount } from '@/services/communityService';
+import { withSession } from '@/utils/session';
 
-export async function GET(request: NextRequest) {
+export const GET = withSession(async (request, odId) => {
   try {
     const { searchParams } = new URL(request.url);
-    const odId = searchParams.get('odId');
     const unreadOnly = searchParams.get('unreadOnly') === 'true';
     const countOnly = searchParams.get('countOnly') === 'true';
 
-    if (!odId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
-
     if (countOnly) {
       const count = await getUnreadCount(odId);
       return NextResponse.json({ count });
@@ -26,16 +22,12 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PATCH(request: NextRequest) {
+export const PATCH = withSession(async (request, odId) => {
   try {
     const body = await request.json();
-    const { odId, notificationIds } = body;
-
-    if (!odId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
+    const { notificationIds } = body;
 
     await markNotificationsRead(odId, notificationIds);
     return NextResponse.json({ success: true });
@@ -46,4 +38,4 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,15 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { findPeerMatches, dismissPeerMatch, optInForPeerConnection } from '@/services/communityService';
+import { withSession } from '@/utils/session';
 
-export async function GET(request: NextRequest) {
+export const GET = withSession(async (request, odId) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const odId = searchParams.get('odId');
-
-    if (!odId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
-
     const matches = await findPeerMatches(odId);
     return NextResponse.json({ matches });
   } catch (error) {
@@ -19,15 +13,15 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PATCH(request: NextRequest) {
+export const PATCH = withSession(async (request, odId) => {
   try {
     const body = await request.json();
-    const { odId, matchId, action } = body;
+    const { matchId, action } = body;
 
-    if (!odId || !matchId) {
-      return NextResponse.json({ error: 'User ID and match ID required' }, { status: 400 });
+    if (!matchId) {
+      return NextResponse.json({ error: 'Match ID required' }, { status: 400 });
     }
 
     if (action === 'dismiss') {
@@ -48,4 +42,4 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,18 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { reportContent } from '@/services/communityService';
+import { withSession } from '@/utils/session';
 
-export async function POST(
-  request: NextRequest,
+export const POST = withSession(async (
+  request,
+  odId,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: postId } = await params;
     const body = await request.json();
-    const { odId, reason, replyId } = body;
-
-    if (!odId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
+    const { reason, replyId } = body;
 
     if (!reason) {
       return NextResponse.json({ error: 'Reason required' }, { status: 400 });
@@ -25,4 +23,4 @@ export async function POST(
     const message = error instanceof Error ? error.message : 'Failed to report content';
     return NextResponse.json({ error: message }, { status: 400 });
   }
-}
+});
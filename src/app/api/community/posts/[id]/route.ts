@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPostById, createReply, deletePost } from '@/services/communityService';
+import { withSession } from '@/utils/session';
 
 export async function GET(
   request: NextRequest,
@@ -23,18 +24,15 @@ export async function GET(
   }
 }
 
-export async function POST(
-  request: NextRequest,
+export const POST = withSession(async (
+  request,
+  odId,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: postId } = await params;
     const body = await request.json();
-    const { odId, body: replyBody, parentReplyId } = body;
-
-    if (!odId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
+    const { body: replyBody, parentReplyId } = body;
 
     const reply = await createReply(postId, odId, replyBody, parentReplyId);
     return NextResponse.json({ reply }, { status: 201 });
@@ -43,20 +41,15 @@ export async function POST(
     const message = error instanceof Error ? error.message : 'Failed to create reply';
     return NextResponse.json({ error: message }, { status: 400 });
   }
-}
+});
 
-export async function DELETE(
-  request: NextRequest,
+export const DELETE = withSession(async (
+  request,
+  odId,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: postId } = await params;
-    const body = await request.json();
-    const { odId } = body;
-
-    if (!odId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
 
     await deletePost(postId, odId);
     return NextResponse.json({ success: true });
@@ -65,4 +58,4 @@ export async function DELETE(
     const message = error instanceof Error ? error.message : 'Failed to delete post';
     return NextResponse.json({ error: message }, { status: 400 });
   }
-}
+});
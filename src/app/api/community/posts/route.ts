@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createPost, getPosts, getTrendingPosts, type PostCategory, type SortOrder } from '@/services/communityService';
+import { withSession } from '@/utils/session';
 
 export async function GET(request: NextRequest) {
   try {
@@ -26,14 +27,10 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withSession(async (request, odId) => {
   try {
     const body = await request.json();
-    const { odId, title, body: postBody, category, showArchetype } = body;
-
-    if (!odId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
+    const { title, body: postBody, category, showArchetype } = body;
 
     const post = await createPost(odId, title, postBody, category, showArchetype);
     return NextResponse.json({ post }, { status: 201 });
@@ -42,4 +39,4 @@ export async function POST(request: NextRequest) {
     const message = error instanceof Error ? error.message : 'Failed to create post';
     return NextResponse.json({ error: message }, { status: 400 });
   }
-}
+});
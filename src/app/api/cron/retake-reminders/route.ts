@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendDueRetakeReminders } from '@/services/retakeService';
+
+/**
+ * Cron job endpoint for assessment retake reminders
+ * Should be called daily by a scheduler (e.g., Vercel Cron, GitHub Actions)
+ *
+ * Security: Requires CRON_SECRET header to prevent unauthorized access
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret || cronSecret !== expectedSecret) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const remindersSent = await sendDueRetakeReminders();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Retake reminders sent',
+      remindersSent,
+      executedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Cron retake reminder error:', error);
+    return NextResponse.json(
+      { error: 'Retake reminders failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support GET for Vercel Cron
+export async function GET(request: NextRequest) {
+  return POST(request);
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateDueDigests } from '@/services/reflectionService';
+
+/**
+ * Cron job endpoint for weekly reflection digests
+ * Should be called daily by a scheduler (e.g., Vercel Cron, GitHub Actions);
+ * each user gets at most one digest per week.
+ *
+ * Security: Requires CRON_SECRET header to prevent unauthorized access
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret || cronSecret !== expectedSecret) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const digestsWritten = await generateDueDigests();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Weekly digests written',
+      digestsWritten,
+      executedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Cron weekly digest error:', error);
+    return NextResponse.json(
+      { error: 'Weekly digests failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support GET for Vercel Cron
+export async function GET(request: NextRequest) {
+  return POST(request);
+}
@@ -1,6 +1,24 @@
 import { NextResponse } from 'next/server';
-import { getInsights } from '../../../../services/groqService';
-import { PsychologicalScores, ArchetypeName, GroqInsightsResponse } from '../../../../types/assessment';
+import {
+  finalizeInsightsReply,
+  generateInsights,
+  streamInsights,
+  MIN_INSIGHTS_LENGTH,
+  INSIGHTS_FALLBACK_TEXT,
+  type InsightsResult,
+} from '../../../../services/groqService';
+import { getCachedInsights, saveInsightsGeneration } from '../../../../services/insightsService';
+import { getCrisisRegion } from '../../../../services/userDataService';
+import { PsychologicalScores, ArchetypeName, AssessmentInsights, CrisisRegion, GroqInsightsResponse } from '../../../../types/assessment';
+import { ARCHETYPE_NAMES } from '../../../../utils/archetypeRules';
+import { insightsToText } from '../../../../utils/insights';
+import { completeSentencesLength, findSafetyIssues, needsCrisisResources, sanitizeInsights } from '../../../../utils/aiSafety';
+import { formatCrisisResources, getCrisisResources } from '../../../../utils/crisisResources';
+import { formatServerSentEvent } from '../../../../utils/serverSentEvents';
+import { withSession } from '../../../../utils/session';
+
+// Assessment ids are UUIDs; anything else would make the generation fail to save
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 // Required fields for scores validation
 const REQUIRED_SCORE_FIELDS = [
@@ -13,21 +31,6 @@ const REQUIRED_SCORE_FIELDS = [
   'isolationLevel',
 ] as const;
 
-// Valid archetype names for validation
-const VALID_ARCHETYPES: ArchetypeName[] = [
-  'Perfectionist Builder',
-  'Opportunistic Visionary',
-  'Isolated Dreamer',
-  'Burning Out',
-  'Self-Assured Hustler',
-  'Community-Driven',
-  'Balanced Founder',
-  'Growth Seeker',
-];
-
-// Fallback text when Groq fails
-const FALLBACK_TEXT = "We're generating personalized insights for you. Check back in a moment.";
-
 /**
  * Validates that the scores object contains all 7 required dimensions
  */
@@ -62,6 +65,14 @@ function validateScores(scores: unknown): scores is PsychologicalScores {
     }
   }
 
+  // motivationScore is optional (absent on results saved before bank v2)
+  if (scoresObj.motivationScore !== undefined) {
+    const value = scoresObj.motivationScore;
+    if (typeof value !== 'number' || value < 0 || value > 100) {
+      return false;
+    }
+  }
+
   // Validate motivationType is valid
   const validMotivationTypes = ['intrinsic', 'extrinsic', 'mixed'];
   if (!validMotivationTypes.includes(scoresObj.motivationType as string)) {
@@ -75,7 +86,143 @@ function validateScores(scores: unknown): scores is PsychologicalScores {
  * Validates that the archetype is a valid archetype name
  */
 function validateArchetype(archetype: unknown): archetype is ArchetypeName {
-  return typeof archetype === 'string' && VALID_ARCHETYPES.includes(archetype as ArchetypeName);
+  return typeof archetype === 'string' && (ARCHETYPE_NAMES as readonly string[]).includes(archetype);
+}
+
+/**
+ * Stored insights for the assessment, if the current prompt produced them
+ * A failed lookup counts as a miss; the insights are generated instead.
+ */
+async function readCachedInsights(assessmentId: string, odId: string): Promise<AssessmentInsights | null> {
+  try {
+    return await getCachedInsights(assessmentId, odId);
+  } catch (error) {
+    console.error('Groq insights cache error:', error);
+    return null;
+  }
+}
+
+/**
+ * Record the generation and cache its insights on the assessment
+ * Failures are logged only; the user still gets their insights.
+ */
+async function saveGeneration(odId: string, assessmentId: string | null, result: InsightsResult): Promise<void> {
+  try {
+    await saveInsightsGeneration(odId, assessmentId, result);
+  } catch (error) {
+    console.error('Groq insights save error:', error);
+  }
+}
+
+/**
+ * Build the response, re-checking the insights on the way out
+ * Insights cached before the safety layer existed are sanitized here too; any
+ * that touch on self-harm carry the crisis resources for the user's region,
+ * appended to the text as well.
+ */
+function toResponse(insights: AssessmentInsights, crisisRegion: CrisisRegion, cached: boolean = false): GroqInsightsResponse {
+  const safe = sanitizeInsights(insights).insights;
+  const crisisResources = needsCrisisResources(safe) ? getCrisisResources(crisisRegion) : null;
+  const text = insightsToText(safe);
+
+  return {
+    insights: crisisResources ? `${text}\n\n${formatCrisisResources(crisisResources)}` : text,
+    structured: typeof safe === 'string' ? null : safe,
+    cached,
+    crisisResources,
+  };
+}
+
+/**
+ * Stream insights as server-sent events
+ * Emits `token` events ({ text }) with the raw reply, one batch of complete
+ * sentences at a time, then `done` with the parsed GroqInsightsResponse. Each
+ * sentence is checked before it is sent, and once one trips a safety check no
+ * more tokens are sent, so unsafe text never reaches the client. The client
+ * should replace the streamed text with `done`, which carries the sanitized
+ * insights, including the last sentence. If the stream fails or the reply
+ * is too short, emits `error` ({ fallback }) instead of `done`, and the client
+ * should replace any partial text with the fallback. Every finished stream is
+ * passed to onFinish; streams the client abandoned are not.
+ */
+function streamInsightsResponse(
+  scores: PsychologicalScores,
+  archetype: ArchetypeName,
+  crisisRegion: CrisisRegion,
+  onFinish: (result: InsightsResult) => Promise<void>
+): NextResponse {
+  const encoder = new TextEncoder();
+  const { chunks, provider, model, promptVersion } = streamInsights(scores, archetype);
+  const startedAt = Date.now();
+  let cancelled = false;
+
+  // Providers don't report token usage on streamed replies
+  const finish = (insights: AssessmentInsights, generated: boolean) => onFinish({
+    insights,
+    generated,
+    stats: {
+      promptVersion,
+      provider,
+      model,
+      usage: null,
+      latencyMs: Date.now() - startedAt,
+      streamed: true,
+    },
+  });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!cancelled) controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+
+      let reply = '';
+      let sent = 0;                      // Length of the reply already sent as tokens
+      let withheld = false;
+      try {
+        for await (const text of chunks) {
+          if (cancelled) break;
+          reply += text;
+
+          const complete = completeSentencesLength(reply);
+          if (!withheld && complete > sent) {
+            const sentences = reply.slice(sent, complete);
+            withheld = findSafetyIssues(sentences).length > 0;
+            if (!withheld) {
+              send('token', { text: sentences });
+              sent = complete;
+            }
+          }
+        }
+
+        if (!cancelled && reply.length < MIN_INSIGHTS_LENGTH) {
+          throw new Error('Groq API returned insufficient content');
+        }
+
+        const insights = finalizeInsightsReply(reply);
+        send('done', toResponse(insights, crisisRegion));
+        if (!cancelled) await finish(insights, true);
+      } catch (error) {
+        console.error('Groq insights stream error:', error);
+        send('error', { fallback: INSIGHTS_FALLBACK_TEXT });
+        if (!cancelled) await finish(INSIGHTS_FALLBACK_TEXT, false);
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      // The client went away; stop forwarding and let the LLM request be released
+      cancelled = true;
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
 }
 
 /**
@@ -83,21 +230,39 @@ function validateArchetype(archetype: unknown): archetype is ArchetypeName {
  * 
  * Generates AI-powered psychological insights using Groq API.
  * Never throws errors to client - always returns fallback on failure.
+ * Insights generated for an assessment are cached on it; later requests get
+ * the stored insights until the prompt version changes or regenerate is set.
+ * Every generation's token usage and latency is recorded. Crisis resources
+ * are for the user's region setting, or else their browser language.
  * 
  * Request body:
  * - scores: PsychologicalScores - Object with all 7 dimensions
  * - archetype: ArchetypeName - The determined archetype
+ * - assessmentId?: string - The session user's assessment to cache the insights on;
+ *   an id that isn't a UUID is ignored, and the generation is recorded without one
+ * - regenerate?: boolean - Ignore cached insights and generate new ones
+ * 
+ * Streaming: send `Accept: text/event-stream` to receive the insights as
+ * server-sent events while they are generated (see streamInsightsResponse).
+ * Cached insights are always returned as JSON.
  * 
  * Response:
- * - 200: { insights: string } - Always returns 200, with fallback on error
+ * - 200: { insights, structured, cached } - Always returns 200, with fallback on error
+ * - 200: text/event-stream - token events, then done or error ({ fallback })
  * - 400: { error: string } - Invalid input (only for validation errors)
+ * - 401: { error: string } - No valid session
  * 
  * Requirements: 6.1, 6.2, 7.3
  */
-export async function POST(request: Request): Promise<NextResponse> {
+export const POST = withSession(async (request, odId): Promise<NextResponse> => {
+  const crisisRegion = await getCrisisRegion(odId, request.headers.get('accept-language'));
+
   try {
     const body = await request.json();
     const { scores, archetype } = body;
+    const assessmentId: string | null =
+      typeof body.assessmentId === 'string' && UUID_REGEX.test(body.assessmentId) ? body.assessmentId : null;
+    const regenerate = body.regenerate === true;
 
     // Validate scores object has all 7 dimensions (Requirement 6.2)
     if (!validateScores(scores)) {
@@ -115,17 +280,27 @@ export async function POST(request: Request): Promise<NextResponse> {
       );
     }
 
+    if (assessmentId && !regenerate) {
+      const cached = await readCachedInsights(assessmentId, odId);
+      if (cached) {
+        return NextResponse.json(toResponse(cached, crisisRegion, true));
+      }
+    }
+
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      return streamInsightsResponse(scores, archetype, crisisRegion, (result) => saveGeneration(odId, assessmentId, result));
+    }
+
     // Get insights from Groq (handles errors internally, returns fallback)
-    const insights = await getInsights(scores, archetype);
+    const result = await generateInsights(scores, archetype);
+    await saveGeneration(odId, assessmentId, result);
 
-    const response: GroqInsightsResponse = { insights };
-    return NextResponse.json(response);
+    return NextResponse.json(toResponse(result.insights, crisisRegion));
   } catch (error) {
     // Log error to console (Requirement 7.3 - never throw to client)
     console.error('Groq insights error:', error);
 
     // Return fallback instead of error (Requirement 7.3)
-    const response: GroqInsightsResponse = { insights: FALLBACK_TEXT };
-    return NextResponse.json(response);
+    return NextResponse.json(toResponse(INSIGHTS_FALLBACK_TEXT, crisisRegion));
   }
-}
+});
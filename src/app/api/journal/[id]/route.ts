@@ -10,38 +10,36 @@ import {
   getClientIdentifier,
   DEFAULT_RATE_LIMIT 
 } from '../../../../utils/rateLimit';
+import { withSession } from '../../../../utils/session';
 
 /**
  * DELETE /api/journal/[id]
  * 
  * Deletes a journal entry by ID.
- * Requires odId for ownership verification.
+ * Ownership is verified against the session user.
  * 
  * Path params:
  * - id: string - Journal entry UUID
  * 
- * Query params:
- * - odId: string - User's unique identifier (required for ownership verification)
- * 
  * Response:
  * - 200: { success: true, message: string }
  * - 400: { error: string } - Invalid input
+ * - 401: { error: string } - No valid session
  * - 404: { error: string } - Entry not found or not owned by user
  * - 500: { error: string } - Server error
  * 
  * Requirements: 5.2, 5.4
  */
-export async function DELETE(
-  request: Request,
+export const DELETE = withSession(async (
+  request,
+  odId,
   { params }: { params: Promise<{ id: string }> }
-): Promise<NextResponse> {
+): Promise<NextResponse> => {
   try {
     const { id } = await params;
-    const { searchParams } = new URL(request.url);
-    const odId = searchParams.get('odId');
 
     // Check rate limit (10 requests per minute)
-    const clientId = getClientIdentifier(request, odId || undefined);
+    const clientId = getClientIdentifier(request, odId);
     const rateLimitResult = checkRateLimit(clientId, DEFAULT_RATE_LIMIT);
     
     if (!rateLimitResult.allowed) {
@@ -69,14 +67,6 @@ export async function DELETE(
       );
     }
 
-    // Validate odId is provided for ownership verification
-    if (!odId || odId.trim() === '') {
-      return NextResponse.json(
-        { error: 'User ID is required for verification' },
-        { status: 400 }
-      );
-    }
-
     // Delete the entry (service validates ownership)
     const deleted = await deleteEntry(id, odId);
 
@@ -108,4 +98,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getLatestDigest, reflectionToText } from '../../../../services/reflectionService';
+import { needsCrisisResources } from '../../../../utils/aiSafety';
+import { getCrisisRegion } from '../../../../services/userDataService';
+import { getCrisisResources } from '../../../../utils/crisisResources';
+import { handleError, USER_ERROR_MESSAGES } from '../../../../utils/errorHandler';
+import { withSession } from '../../../../utils/session';
+import type { ReflectionDigestResponse } from '../../../../types/assessment';
+
+/**
+ * GET /api/journal/digest
+ *
+ * Retrieves the session user's latest weekly reflection digest.
+ * Digests are written by the weekly-digest cron job. Crisis resources are
+ * for the user's region setting, or else their browser language.
+ *
+ * Response:
+ * - 200: ReflectionDigestResponse - digest is null until the first one is written
+ * - 401: { error: string } - No valid session
+ * - 500: { error: string } - Server error
+ */
+export const GET = withSession(async (request, odId): Promise<NextResponse> => {
+  try {
+    const digest = await getLatestDigest(odId);
+    const needsResources = digest !== null && needsCrisisResources(reflectionToText(digest.reflection));
+    const response: ReflectionDigestResponse = {
+      digest,
+      crisisResources: needsResources
+        ? getCrisisResources(await getCrisisRegion(odId, request.headers.get('accept-language')))
+        : null,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    handleError('GET /api/journal/digest', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
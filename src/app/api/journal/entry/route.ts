@@ -10,6 +10,10 @@ import {
   saveBurnoutScore 
 } from '../../../../services/burnoutService';
 import { getLatestAssessment } from '../../../../services/databaseService';
+import { getCompletionStats } from '../../../../services/actionPlanService';
+import { recordRiskLevel } from '../../../../services/retakeService';
+import { getEscalationState, updateEscalation } from '../../../../services/escalationService';
+import { getCrisisRegion } from '../../../../services/userDataService';
 import { handleError, USER_ERROR_MESSAGES } from '../../../../utils/errorHandler';
 import { 
   checkRateLimit, 
@@ -17,31 +21,37 @@ import {
   getClientIdentifier,
   DEFAULT_RATE_LIMIT 
 } from '../../../../utils/rateLimit';
+import { withSession } from '../../../../utils/session';
+import type { BurnoutEscalationResponse } from '../../../../types/assessment';
 
 /**
  * POST /api/journal/entry
  * 
- * Creates or updates today's journal entry for a user.
- * Also calculates and returns the burnout score.
+ * Creates or updates today's journal entry for the session user.
+ * Also calculates and returns the burnout score, brings the next
+ * assessment retake forward if burnout risk has jumped, and opens or
+ * resolves a burnout escalation (see escalationService), returning the
+ * escalation state so the dashboard doesn't have to fetch it again.
  * 
  * Request body:
- * - odId: string - User's unique identifier
  * - mood: number - Mood level (0-100)
  * - energy: number - Energy level (0-100)
  * - stress: number - Stress level (0-100)
  * - notes?: string - Optional notes (max 500 chars)
  * 
  * Response:
- * - 200: { success: true, entry, burnoutScore }
+ * - 200: { success: true, entry, burnoutScore: { score, riskLevel, contributingFactors, components }, escalation }
+ *   escalation is the BurnoutEscalationResponse after the check-in, or null if it couldn't be updated
  * - 400: { error: string } - Invalid input
+ * - 401: { error: string } - No valid session
  * - 500: { error: string } - Server error
  * 
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 3.1, 3.5
  */
-export async function POST(request: Request): Promise<NextResponse> {
+export const POST = withSession(async (request, odId): Promise<NextResponse> => {
   try {
     const body = await request.json();
-    const { odId, mood, energy, stress, notes } = body;
+    const { mood, energy, stress, notes } = body;
 
     // Check rate limit (10 requests per minute)
     const clientId = getClientIdentifier(request, odId);
@@ -55,14 +65,6 @@ export async function POST(request: Request): Promise<NextResponse> {
       );
     }
 
-    // Validate odId is provided
-    if (!odId || typeof odId !== 'string' || odId.trim() === '') {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      );
-    }
-
     // Validate mood
     if (typeof mood !== 'number' || isNaN(mood) || mood < 0 || mood > 100) {
       return NextResponse.json(
@@ -119,12 +121,35 @@ export async function POST(request: Request): Promise<NextResponse> {
     const history = await getHistory(odId, 7);
     const trends = calculateTrends(history);
 
+    // Action completion lowers the score; a failed lookup shouldn't block the check-in
+    const completion = await getCompletionStats(odId, 7).catch((statsError) => {
+      console.error('Completion stats error:', statsError);
+      return null;
+    });
+
     // Calculate burnout score
-    const burnoutResult = calculateBurnoutScore(entry, assessment, trends);
+    const burnoutResult = calculateBurnoutScore(entry, assessment, trends, { history, completion });
 
     // Save burnout score to database
     const savedBurnoutScore = await saveBurnoutScore(odId, burnoutResult, entry.id);
 
+    // A sharp rise in risk brings the next assessment retake forward
+    try {
+      await recordRiskLevel(odId, savedBurnoutScore.riskLevel);
+    } catch (retakeError) {
+      // The entry is saved; a missed reminder shouldn't fail the check-in
+      console.error('Retake scheduling error:', retakeError);
+    }
+
+    // Sustained critical days or a sharp jump open an escalation; improvement closes it
+    let escalation: BurnoutEscalationResponse | null = null;
+    try {
+      await updateEscalation(odId);
+      escalation = await getEscalationState(odId, await getCrisisRegion(odId, request.headers.get('accept-language')));
+    } catch (escalationError) {
+      console.error('Escalation update error:', escalationError);
+    }
+
     return NextResponse.json({
       success: true,
       entry,
@@ -132,7 +157,9 @@ export async function POST(request: Request): Promise<NextResponse> {
         score: savedBurnoutScore.score,
         riskLevel: savedBurnoutScore.riskLevel,
         contributingFactors: savedBurnoutScore.contributingFactors,
+        components: savedBurnoutScore.components,
       },
+      escalation,
     });
   } catch (error) {
     // Handle validation errors with specific messages
@@ -151,4 +178,4 @@ export async function POST(request: Request): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
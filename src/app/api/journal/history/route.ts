@@ -11,31 +11,31 @@ import {
   getClientIdentifier,
   DEFAULT_RATE_LIMIT 
 } from '../../../../utils/rateLimit';
+import { withSession } from '../../../../utils/session';
 
 /**
  * GET /api/journal/history
  * 
- * Retrieves journal entry history for a user with trend analysis.
+ * Retrieves journal entry history for the session user with trend analysis.
  * 
  * Query params:
- * - odId: string - User's unique identifier (required)
  * - days: number - Number of days to fetch (7, 14, or 30, default: 7)
  * 
  * Response:
  * - 200: { entries, total, trends }
  * - 400: { error: string } - Invalid input
+ * - 401: { error: string } - No valid session
  * - 500: { error: string } - Server error
  * 
  * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5
  */
-export async function GET(request: Request): Promise<NextResponse> {
+export const GET = withSession(async (request, odId): Promise<NextResponse> => {
   try {
     const { searchParams } = new URL(request.url);
-    const odId = searchParams.get('odId');
     const daysParam = searchParams.get('days');
 
     // Check rate limit (10 requests per minute)
-    const clientId = getClientIdentifier(request, odId || undefined);
+    const clientId = getClientIdentifier(request, odId);
     const rateLimitResult = checkRateLimit(clientId, DEFAULT_RATE_LIMIT);
     
     if (!rateLimitResult.allowed) {
@@ -46,14 +46,6 @@ export async function GET(request: Request): Promise<NextResponse> {
       );
     }
 
-    // Validate odId is provided
-    if (!odId || odId.trim() === '') {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      );
-    }
-
     // Parse and validate days parameter
     let days = 7; // default
     if (daysParam) {
@@ -101,4 +93,4 @@ export async function GET(request: Request): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
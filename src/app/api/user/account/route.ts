@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { claimProfile, AccountValidationError } from '@/services/accountService';
+import { withSession } from '@/utils/session';
+import { handleError, USER_ERROR_MESSAGES } from '@/utils/errorHandler';
+import {
+  checkRateLimit,
+  createRateLimitHeaders,
+  getClientIdentifier,
+  LOGIN_RATE_LIMIT,
+} from '@/utils/rateLimit';
+
+/**
+ * POST /api/user/account
+ *
+ * Protects the session user's profile with a passphrase so it can be
+ * recovered on another device. No email is collected. Once claimed, the
+ * profile is no longer anonymous and logs in with pseudonym + passphrase.
+ *
+ * Request body:
+ * - passphrase: string - New passphrase (12-128 chars)
+ * - currentPassphrase?: string - Required to change an existing passphrase
+ *
+ * Response:
+ * - 200: { success: true, pseudonym, isAnonymous: false }
+ * - 400: { error: string } - Invalid passphrase or wrong current passphrase
+ * - 401: { error: string } - No valid session
+ * - 429: { error: string } - Rate limit exceeded
+ * - 500: { error: string } - Server error
+ */
+export const POST = withSession(async (request, odId): Promise<NextResponse> => {
+  try {
+    // Changing a passphrase checks the current one, so limit it like a login
+    const clientId = getClientIdentifier(request, odId);
+    const rateLimitResult = checkRateLimit(`account:${clientId}`, LOGIN_RATE_LIMIT);
+
+    if (!rateLimitResult.allowed) {
+      const headers = createRateLimitHeaders(rateLimitResult, LOGIN_RATE_LIMIT);
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const profile = await claimProfile(odId, body?.passphrase, body?.currentPassphrase);
+
+    return NextResponse.json({
+      success: true,
+      pseudonym: profile.pseudonym,
+      isAnonymous: profile.isAnonymous,
+    });
+  } catch (error) {
+    if (error instanceof AccountValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    handleError('POST /api/user/account', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getCrisisResourcesSetting, updateCrisisRegion } from '@/services/userDataService';
+import { parseCrisisRegion } from '@/utils/crisisResources';
+import { withSession } from '@/utils/session';
+
+/**
+ * GET - The user's crisis region setting and the crisis resources they see
+ * With no setting, the region follows the browser language.
+ */
+export const GET = withSession(async (request, odId) => {
+  try {
+    return NextResponse.json(await getCrisisResourcesSetting(odId, request.headers.get('accept-language')));
+  } catch (error) {
+    console.error('Error getting crisis resources:', error);
+    return NextResponse.json(
+      { error: 'Failed to get crisis resources' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH - Update the crisis region setting
+ * Body: { region: CrisisRegion | null } - null follows the browser language
+ */
+export const PATCH = withSession(async (request, odId) => {
+  const body = await request.json().catch(() => ({}));
+  const region = body?.region === null ? null : parseCrisisRegion(body?.region);
+  if (body?.region !== null && !region) {
+    return NextResponse.json({ error: 'region must be a supported region code or null' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await updateCrisisRegion(odId, region, request.headers.get('accept-language')));
+  } catch (error) {
+    console.error('Error updating crisis region:', error);
+    return NextResponse.json(
+      { error: 'Failed to update crisis region' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,18 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { deleteAllUserData, exportUserData } from '@/services/userDataService';
+import { withSession, clearSessionCookie } from '@/utils/session';
 
 /**
  * GET - Export all user data (GDPR data portability)
  */
-export async function GET(request: NextRequest) {
+export const GET = withSession(async (request, odId) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const odId = searchParams.get('odId');
-
-    if (!odId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
-
     const data = await exportUserData(odId);
 
     // Return as downloadable JSON
@@ -29,21 +23,16 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE - Delete all user data (GDPR right to erasure)
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withSession(async (request, odId) => {
   try {
     const { searchParams } = new URL(request.url);
-    const odId = searchParams.get('odId');
     const confirm = searchParams.get('confirm');
 
-    if (!odId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
-
     if (confirm !== 'true') {
       return NextResponse.json(
         { error: 'Confirmation required. Add ?confirm=true to proceed.' },
@@ -53,11 +42,13 @@ export async function DELETE(request: NextRequest) {
 
     const result = await deleteAllUserData(odId);
 
-    return NextResponse.json({
+    // The profile no longer exists, so drop the session bound to it
+    const response = NextResponse.json({
       success: true,
       message: 'All your data has been deleted',
       details: result.deletedCounts,
     });
+    return clearSessionCookie(response);
   } catch (error) {
     console.error('Error deleting user data:', error);
     return NextResponse.json(
@@ -65,4 +56,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
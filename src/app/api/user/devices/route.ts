@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { listDevices, revokeDevice } from '@/services/deviceService';
+import { withSession, clearSessionCookie } from '@/utils/session';
+import { handleError, USER_ERROR_MESSAGES } from '@/utils/errorHandler';
+
+/**
+ * GET /api/user/devices
+ *
+ * Lists the browsers currently linked to the session user's profile.
+ *
+ * Response:
+ * - 200: { devices: [{ id, label, createdAt, lastSeenAt, isCurrent }] }
+ * - 401: { error: string } - No valid session
+ * - 500: { error: string } - Server error
+ */
+export const GET = withSession(async (request, odId, context, session): Promise<NextResponse> => {
+  try {
+    const devices = await listDevices(odId, session.deviceId);
+    return NextResponse.json({ devices });
+  } catch (error) {
+    handleError('GET /api/user/devices', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/user/devices
+ *
+ * Unlinks a device. Its session stops working on its next request. Unlinking
+ * the current device also clears this browser's session cookie.
+ *
+ * Query params:
+ * - id: string - Device ID to unlink
+ *
+ * Response:
+ * - 200: { success: true, isCurrent: boolean }
+ * - 400: { error: string } - Missing device ID
+ * - 401: { error: string } - No valid session
+ * - 404: { error: string } - Device not found
+ * - 500: { error: string } - Server error
+ */
+export const DELETE = withSession(async (request, odId, context, session): Promise<NextResponse> => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get('id');
+
+    if (!deviceId) {
+      return NextResponse.json({ error: 'Device ID required' }, { status: 400 });
+    }
+
+    const revoked = await revokeDevice(odId, deviceId);
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'Device not found' }, { status: 404 });
+    }
+
+    const isCurrent = deviceId === session.deviceId;
+    const response = NextResponse.json({ success: true, isCurrent });
+    return isCurrent ? clearSessionCookie(response) : response;
+  } catch (error) {
+    handleError('DELETE /api/user/devices', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { loginWithPassphrase, AccountValidationError } from '@/services/accountService';
+import { issueSession } from '@/utils/session';
+import { handleError, USER_ERROR_MESSAGES } from '@/utils/errorHandler';
+import { createRateLimitHeaders, getClientIdentifier, LOGIN_RATE_LIMIT } from '@/utils/rateLimit';
+
+/**
+ * POST /api/user/login
+ *
+ * Recovers a claimed profile on this device. On success this browser is
+ * registered as a device of the recovered profile and its session cookie is
+ * replaced.
+ *
+ * Request body:
+ * - pseudonym: string - Login name shown when the profile was claimed
+ * - passphrase: string
+ *
+ * Response:
+ * - 200: { odId, pseudonym, isAnonymous }
+ * - 400: { error: string } - Missing credentials
+ * - 401: { error: string } - Pseudonym or passphrase incorrect
+ * - 429: { error: string } - Too many attempts (5 per 15 minutes)
+ * - 500: { error: string } - Server error
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const result = await loginWithPassphrase(
+      body?.pseudonym,
+      body?.passphrase,
+      getClientIdentifier(request)
+    );
+
+    if (result.status === 'rate_limited') {
+      const headers = createRateLimitHeaders(result.rateLimit, LOGIN_RATE_LIMIT);
+      return NextResponse.json(
+        { error: 'Too many login attempts. Please try again later.' },
+        { status: 429, headers }
+      );
+    }
+
+    if (result.status === 'invalid') {
+      return NextResponse.json(
+        { error: USER_ERROR_MESSAGES.INVALID_LOGIN },
+        { status: 401 }
+      );
+    }
+
+    const { profile } = result;
+    const response = NextResponse.json({
+      odId: profile.odId,
+      pseudonym: profile.pseudonym,
+      isAnonymous: profile.isAnonymous,
+    });
+    return issueSession(request, response, profile.odId);
+  } catch (error) {
+    if (error instanceof AccountValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    handleError('POST /api/user/login', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+}
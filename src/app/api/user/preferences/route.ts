@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getAIPreferences, updateAIPreferences } from '@/services/userDataService';
+import { withSession } from '@/utils/session';
+
+/**
+ * GET - The user's AI privacy preferences
+ */
+export const GET = withSession(async (request, odId) => {
+  try {
+    return NextResponse.json(await getAIPreferences(odId));
+  } catch (error) {
+    console.error('Error getting AI preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to get preferences' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH - Update AI privacy preferences
+ * Body: { shareNotesWithAI: boolean }
+ */
+export const PATCH = withSession(async (request, odId) => {
+  const body = await request.json().catch(() => ({}));
+  const shareNotesWithAI = body?.shareNotesWithAI;
+  if (typeof shareNotesWithAI !== 'boolean') {
+    return NextResponse.json({ error: 'shareNotesWithAI must be a boolean' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await updateAIPreferences(odId, { shareNotesWithAI }));
+  } catch (error) {
+    console.error('Error updating AI preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to update preferences' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,18 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { regeneratePseudonymWithLimit, canRegeneratePseudonym } from '@/services/userDataService';
+import { withSession } from '@/utils/session';
 
 /**
  * GET - Check if user can regenerate pseudonym
  */
-export async function GET(request: NextRequest) {
+export const GET = withSession(async (request, odId) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const odId = searchParams.get('odId');
-
-    if (!odId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
-
     const result = await canRegeneratePseudonym(odId);
     return NextResponse.json(result);
   } catch (error) {
@@ -22,20 +16,13 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST - Regenerate user pseudonym (once per month limit)
  */
-export async function POST(request: NextRequest) {
+export const POST = withSession(async (request, odId) => {
   try {
-    const body = await request.json();
-    const { odId } = body;
-
-    if (!odId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
-
     const result = await regeneratePseudonymWithLimit(odId);
 
     if (!result.success) {
@@ -59,4 +46,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { createOrGetUserProfile, claimProfileSession } from '@/services/databaseService';
+import { getSession, issueSession } from '@/utils/session';
+import { handleError, USER_ERROR_MESSAGES } from '@/utils/errorHandler';
+import {
+  checkRateLimit,
+  createRateLimitHeaders,
+  getClientIdentifier,
+  DEFAULT_RATE_LIMIT,
+} from '@/utils/rateLimit';
+import type { UserProfile } from '@/db/schema';
+
+/**
+ * Public view of the session's profile (never includes secrets)
+ */
+function toSessionResponse(profile: UserProfile) {
+  return {
+    odId: profile.odId,
+    pseudonym: profile.pseudonym,
+    isAnonymous: profile.isAnonymous,
+  };
+}
+
+/**
+ * GET /api/user/session
+ *
+ * Returns the profile bound to the current session cookie.
+ *
+ * Response:
+ * - 200: { odId, pseudonym, isAnonymous }
+ * - 401: { error: string } - No valid session
+ * - 500: { error: string } - Server error
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const session = await getSession(request);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: USER_ERROR_MESSAGES.NO_SESSION },
+        { status: 401 }
+      );
+    }
+
+    const profile = await createOrGetUserProfile(session.odId);
+    return NextResponse.json(toSessionResponse(profile));
+  } catch (error) {
+    handleError('GET /api/user/session', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/session
+ *
+ * Ensures the caller has a session. If the session cookie is valid, the bound
+ * profile is returned unchanged. Otherwise a new anonymous profile is created
+ * server-side, this browser is registered as its first device and a signed,
+ * HTTP-only session cookie is issued for it.
+ *
+ * Request body (optional):
+ * - legacyOdId: string - odId previously kept in localStorage. It is adopted
+ *   only if its profile already exists and no session has ever been issued for
+ *   it, so existing users keep their data while a leaked odId cannot be replayed
+ *   later and clients cannot choose the odId of a new profile.
+ *
+ * Response:
+ * - 200: { odId, pseudonym, isAnonymous, created: boolean }
+ * - 429: { error: string } - Rate limit exceeded
+ * - 500: { error: string } - Server error
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const existingSession = await getSession(request);
+
+    if (existingSession) {
+      const profile = await createOrGetUserProfile(existingSession.odId);
+      return NextResponse.json({ ...toSessionResponse(profile), created: false });
+    }
+
+    // Check rate limit (10 requests per minute) - limits profile creation per client
+    const clientId = getClientIdentifier(request);
+    const rateLimitResult = checkRateLimit(`session:${clientId}`, DEFAULT_RATE_LIMIT);
+
+    if (!rateLimitResult.allowed) {
+      const headers = createRateLimitHeaders(rateLimitResult, DEFAULT_RATE_LIMIT);
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const legacyOdId = typeof body?.legacyOdId === 'string' ? body.legacyOdId.trim() : '';
+
+    // Adopt an existing profile's legacy localStorage odId once, if nobody has claimed it yet;
+    // the claim never creates a profile, so unknown odIds get a fresh one below
+    if (legacyOdId) {
+      const claimed = await claimProfileSession(legacyOdId);
+
+      if (claimed) {
+        const response = NextResponse.json({ ...toSessionResponse(claimed), created: false });
+        return issueSession(request, response, claimed.odId);
+      }
+    }
+
+    // Create a fresh anonymous profile with a server-generated odId
+    const odId = 'anonymous-' + crypto.randomUUID();
+    await createOrGetUserProfile(odId);
+    const profile = await claimProfileSession(odId);
+
+    if (!profile) {
+      throw new Error('Newly created profile was already claimed');
+    }
+
+    const response = NextResponse.json({ ...toSessionResponse(profile), created: true });
+    return issueSession(request, response, profile.odId);
+  } catch (error) {
+    handleError('POST /api/user/session', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+}
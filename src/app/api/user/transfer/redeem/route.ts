@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { redeemTransferCode, DeviceValidationError } from '@/services/deviceService';
+import { createOrGetUserProfile } from '@/services/databaseService';
+import { setSessionCookie } from '@/utils/session';
+import { handleError, USER_ERROR_MESSAGES } from '@/utils/errorHandler';
+import {
+  checkRateLimit,
+  createRateLimitHeaders,
+  getClientIdentifier,
+  LOGIN_RATE_LIMIT,
+} from '@/utils/rateLimit';
+
+/**
+ * POST /api/user/transfer/redeem
+ *
+ * Links this browser to the profile that created the transfer code. The
+ * browser's session cookie is replaced with one for that profile.
+ *
+ * Request body:
+ * - code: string - Transfer code (case, spaces and dashes are ignored)
+ *
+ * Response:
+ * - 200: { odId, pseudonym, isAnonymous }
+ * - 400: { error: string } - Malformed code
+ * - 404: { error: string } - Code unknown, already used, revoked or expired
+ * - 429: { error: string } - Too many attempts (5 per 15 minutes)
+ * - 500: { error: string } - Server error
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    // Codes are short, so limit guesses like login attempts
+    const clientId = getClientIdentifier(request);
+    const rateLimitResult = checkRateLimit(`transfer-redeem:${clientId}`, LOGIN_RATE_LIMIT);
+
+    if (!rateLimitResult.allowed) {
+      const headers = createRateLimitHeaders(rateLimitResult, LOGIN_RATE_LIMIT);
+      return NextResponse.json(
+        { error: 'Too many attempts. Please try again later.' },
+        { status: 429, headers }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const device = await redeemTransferCode(body?.code, request.headers.get('user-agent'));
+
+    if (!device) {
+      return NextResponse.json(
+        { error: 'This code is invalid or has expired. Generate a new one in Settings.' },
+        { status: 404 }
+      );
+    }
+
+    const profile = await createOrGetUserProfile(device.userId);
+    const response = NextResponse.json({
+      odId: profile.odId,
+      pseudonym: profile.pseudonym,
+      isAnonymous: profile.isAnonymous,
+    });
+    return setSessionCookie(response, profile.odId, device.id);
+  } catch (error) {
+    if (error instanceof DeviceValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    handleError('POST /api/user/transfer/redeem', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+}
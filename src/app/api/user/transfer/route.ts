@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server';
+import {
+  createTransferCode,
+  listActiveTransferCodes,
+  revokeTransferCode,
+} from '@/services/deviceService';
+import { withSession } from '@/utils/session';
+import { handleError, USER_ERROR_MESSAGES } from '@/utils/errorHandler';
+import {
+  checkRateLimit,
+  createRateLimitHeaders,
+  getClientIdentifier,
+  DEFAULT_RATE_LIMIT,
+} from '@/utils/rateLimit';
+
+/**
+ * GET /api/user/transfer
+ *
+ * Lists the session user's pending (unused, unexpired, unrevoked) transfer codes.
+ * The codes themselves are never returned again after creation.
+ *
+ * Response:
+ * - 200: { codes: [{ id, expiresAt, createdAt }] }
+ * - 401: { error: string } - No valid session
+ * - 500: { error: string } - Server error
+ */
+export const GET = withSession(async (request, odId): Promise<NextResponse> => {
+  try {
+    const codes = await listActiveTransferCodes(odId);
+    return NextResponse.json({ codes });
+  } catch (error) {
+    handleError('GET /api/user/transfer', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/user/transfer
+ *
+ * Creates a one-time transfer code that links another browser to this
+ * profile. The code expires after a few minutes and works once.
+ *
+ * Response:
+ * - 200: { id, code, expiresAt, linkPath } - linkPath can be opened or encoded as a QR code
+ * - 401: { error: string } - No valid session
+ * - 429: { error: string } - Rate limit exceeded
+ * - 500: { error: string } - Server error
+ */
+export const POST = withSession(async (request, odId, context, session): Promise<NextResponse> => {
+  try {
+    // Check rate limit (10 requests per minute)
+    const clientId = getClientIdentifier(request, odId);
+    const rateLimitResult = checkRateLimit(`transfer:${clientId}`, DEFAULT_RATE_LIMIT);
+
+    if (!rateLimitResult.allowed) {
+      const headers = createRateLimitHeaders(rateLimitResult, DEFAULT_RATE_LIMIT);
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers }
+      );
+    }
+
+    const { id, code, expiresAt } = await createTransferCode(odId, session.deviceId);
+
+    return NextResponse.json({
+      id,
+      code,
+      expiresAt,
+      linkPath: `/link?code=${encodeURIComponent(code)}`,
+    });
+  } catch (error) {
+    handleError('POST /api/user/transfer', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/user/transfer
+ *
+ * Revokes a pending transfer code.
+ *
+ * Query params:
+ * - id: string - Transfer code ID
+ *
+ * Response:
+ * - 200: { success: true }
+ * - 400: { error: string } - Missing code ID
+ * - 401: { error: string } - No valid session
+ * - 404: { error: string } - Code not found or no longer pending
+ * - 500: { error: string } - Server error
+ */
+export const DELETE = withSession(async (request, odId): Promise<NextResponse> => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const codeId = searchParams.get('id');
+
+    if (!codeId) {
+      return NextResponse.json({ error: 'Transfer code ID required' }, { status: 400 });
+    }
+
+    const revoked = await revokeTransferCode(odId, codeId);
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'Transfer code not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    handleError('DELETE /api/user/transfer', error);
+
+    return NextResponse.json(
+      { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,238 @@
+'use client';
+
+import Link from 'next/link';
+import { useState, useEffect } from 'react';
+import { useSession } from '@/hooks/useSession';
+import { DIMENSION_LABELS } from '@/utils/archetypeRules';
+import {
+  AssessmentHistoryEntry,
+  AssessmentHistoryResponse,
+  ComparedDimension,
+  DimensionChange,
+} from '@/types/assessment';
+
+const COMPARED_LABELS: Record<ComparedDimension, string> = {
+  ...DIMENSION_LABELS,
+  motivationScore: 'Intrinsic Motivation',
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function optionLabel(entry: AssessmentHistoryEntry): string {
+  return `${formatDate(entry.takenAt)} · ${entry.archetype}`;
+}
+
+function ChangeRow({ change }: { change: DimensionChange }) {
+  const arrow = change.delta > 0 ? '▲' : change.delta < 0 ? '▼' : '•';
+  return (
+    <tr className="border-t border-gray-100">
+      <td className="py-3 pr-4 font-medium text-gray-800">{COMPARED_LABELS[change.dimension]}</td>
+      <td className="py-3 px-2 text-center text-gray-600">{change.from}</td>
+      <td className="py-3 px-2 text-center text-gray-600">{change.to}</td>
+      <td className={`py-3 px-2 text-center font-semibold ${change.significant ? 'text-indigo-700' : 'text-gray-500'}`}>
+        {arrow} {change.delta > 0 ? `+${change.delta}` : change.delta}
+      </td>
+      <td className="py-3 pl-2 text-right">
+        {change.significant ? (
+          <span className="inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-100 text-indigo-700">
+            Meaningful change
+          </span>
+        ) : (
+          <span className="text-xs text-gray-400">Within noise</span>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export default function AssessmentHistoryPage() {
+  const [history, setHistory] = useState<AssessmentHistoryResponse | null>(null);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { odId } = useSession();
+
+  useEffect(() => {
+    if (!odId) return;
+
+    async function fetchHistory() {
+      try {
+        const params = new URLSearchParams();
+        if (fromId) params.set('from', fromId);
+        if (toId) params.set('to', toId);
+
+        const response = await fetch(`/api/assessment/history?${params.toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load assessment history');
+        }
+
+        setHistory(data);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Something went wrong');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchHistory();
+  }, [odId, fromId, toId]);
+
+  const assessments = history?.assessments ?? [];
+  const diff = history?.diff ?? null;
+  const selectedFrom = diff?.fromId ?? '';
+  const selectedTo = diff?.toId ?? '';
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      <div className="fixed inset-0 bg-gradient-to-br from-slate-50 via-indigo-50/30 to-purple-50/30" />
+
+      <div className="relative z-10 max-w-4xl mx-auto px-4 pt-24 pb-16 space-y-8">
+        <div className="text-center animate-fade-in-up">
+          <span className="text-5xl mb-4 block">📈</span>
+          <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900 tracking-tight">
+            Your <span className="gradient-text">Profile Over Time</span>
+          </h1>
+          <p className="text-gray-600 mt-3">
+            Compare any two assessments and see how your journal looked while each one was current.
+          </p>
+        </div>
+
+        {loading && <p className="text-center text-gray-500">Loading your history...</p>}
+
+        {error && (
+          <div className="p-3 bg-rose-50 border border-rose-200 rounded-xl text-rose-700 text-sm">{error}</div>
+        )}
+
+        {!loading && !error && assessments.length < 2 && (
+          <div className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg p-8 text-center">
+            <p className="text-gray-600 mb-6">
+              {assessments.length === 0
+                ? 'Take the assessment to start building your history.'
+                : 'Retake the assessment to see how your profile has changed.'}
+            </p>
+            <Link
+              href="/assessment/quiz"
+              className="inline-flex px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold rounded-xl shadow-lg"
+            >
+              {assessments.length === 0 ? 'Take Assessment' : 'Retake Assessment'}
+            </Link>
+          </div>
+        )}
+
+        {diff && (
+          <section className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg p-6 md:p-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Compare assessments</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+              <label className="text-sm text-gray-600">
+                From
+                <select
+                  value={selectedFrom}
+                  onChange={(e) => { setFromId(e.target.value); setToId(selectedTo); }}
+                  className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-xl bg-white"
+                >
+                  {assessments.slice(0, -1).map((entry) => (
+                    <option key={entry.id} value={entry.id}>{optionLabel(entry)}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-600">
+                To
+                <select
+                  value={selectedTo}
+                  onChange={(e) => { setFromId(selectedFrom); setToId(e.target.value); }}
+                  className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-xl bg-white"
+                >
+                  {assessments.slice(1).map((entry) => (
+                    <option key={entry.id} value={entry.id}>{optionLabel(entry)}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <p className="text-sm text-gray-500 mb-4">
+              {diff.daysBetween} day{diff.daysBetween === 1 ? '' : 's'} apart.
+              {diff.archetypeChanged ? ' Your archetype changed.' : ' Same archetype.'}
+              {diff.motivationTypeChanged && ' Your motivation type changed.'}
+            </p>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500 text-xs uppercase tracking-wide">
+                    <th className="pb-2 text-left">Dimension</th>
+                    <th className="pb-2 text-center">Before</th>
+                    <th className="pb-2 text-center">After</th>
+                    <th className="pb-2 text-center">Change</th>
+                    <th className="pb-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.changes.map((change) => (
+                    <ChangeRow key={change.dimension} change={change} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-400 mt-4">
+              A change is marked meaningful when it is larger than the quiz&apos;s own measurement
+              noise, based on how consistently you answered the questions behind each score.
+            </p>
+          </section>
+        )}
+
+        {history && history.transitions.length > 0 && (
+          <section className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg p-6 md:p-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Archetype changes</h2>
+            <ol className="space-y-3">
+              {history.transitions.map((transition) => (
+                <li key={transition.assessmentId} className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                  <span className="text-gray-500 w-28">{formatDate(transition.at)}</span>
+                  <span className="px-2 py-0.5 rounded-full bg-gray-100">{transition.from}</span>
+                  <span className="text-gray-400">→</span>
+                  <span className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700">{transition.to}</span>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+
+        {assessments.length > 1 && (
+          <section className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg p-6 md:p-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Retakes and your journal</h2>
+            <ul className="space-y-4">
+              {[...assessments].reverse().map((entry) => (
+                <li key={entry.id} className="border-t border-gray-100 pt-4 first:border-0 first:pt-0">
+                  <div className="flex flex-wrap justify-between gap-2">
+                    <span className="font-medium text-gray-800">{entry.archetype}</span>
+                    <span className="text-sm text-gray-500">
+                      {formatDate(entry.takenAt)}
+                      {entry.periodEnd ? ` – ${formatDate(entry.periodEnd)}` : ' – now'}
+                    </span>
+                  </div>
+                  {entry.journal.entryCount > 0 ? (
+                    <p className="text-sm text-gray-600 mt-1">
+                      {entry.journal.entryCount} journal entr{entry.journal.entryCount === 1 ? 'y' : 'ies'}: mood{' '}
+                      {entry.journal.moodAvg}, energy {entry.journal.energyAvg}, stress {entry.journal.stressAvg} on average
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-400 mt-1">No journal entries in this period</p>
+                  )}
+                  {entry.qualityLevel && entry.qualityLevel !== 'good' && (
+                    <p className="text-xs text-amber-600 mt-1">
+                      Answers looked rushed or inconsistent, so compare this one with care.
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
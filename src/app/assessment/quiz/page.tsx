@@ -4,6 +4,10 @@ import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { QuizContainer } from '@/components/Assessment/QuizContainer';
 import { AnswerValue, AssessmentSubmitResponse } from '@/types/assessment';
+import { ensureSession } from '@/hooks/useSession';
+import { CURRENT_QUESTION_BANK } from '@/utils/questionBanks';
+
+const QUESTION_COUNT = CURRENT_QUESTION_BANK.questions.length;
 
 // Session storage keys for preserving progress
 const STORAGE_KEYS = {
@@ -41,7 +45,7 @@ interface QuizPageState {
  * - Checks for existing session on load
  * - Shows landing page with "Start Anonymous Assessment" button if no session
  * - Creates anonymous user on button click
- * - Displays QuizContainer for the 25-question assessment
+ * - Displays QuizContainer for the current question bank
  * - Handles submission and navigates to results page
  * - Preserves progress in session storage
  * 
@@ -53,7 +57,7 @@ export default function QuizPage() {
     isLoading: true,
     hasSession: false,
     userId: null,
-    initialAnswers: Array(25).fill(null),
+    initialAnswers: Array(QUESTION_COUNT).fill(null),
     initialQuestionIndex: 0,
     error: null,
     isOffline: false,
@@ -99,6 +103,10 @@ export default function QuizPage() {
 
       if (backupAnswers) {
         const answers = JSON.parse(backupAnswers);
+        // Progress saved against an older question bank can't be resumed
+        if (!Array.isArray(answers) || answers.length !== QUESTION_COUNT) {
+          return null;
+        }
         const questionIndex = backupIndex ? parseInt(backupIndex, 10) : 0;
         return { answers, questionIndex, userId: backupUserId };
       }
@@ -162,16 +170,16 @@ export default function QuizPage() {
         // Check for existing anonymous user ID in session storage
         const storedUserId = sessionStorage.getItem(STORAGE_KEYS.USER_ID);
         
-        // Also check localStorage for persistent user ID
-        const persistentUserId = localStorage.getItem('odId') || localStorage.getItem('fmindset_odId');
+        // Resolve (or create) the server-side session
+        const session = await ensureSession();
         
         // Always check if user has existing assessments
         let hasExisting = false;
         let existingCount = 0;
         
-        if (persistentUserId) {
+        if (session) {
           try {
-            const statsRes = await fetch(`/api/assessment/stats?odId=${persistentUserId}`);
+            const statsRes = await fetch('/api/assessment/stats');
             if (statsRes.ok) {
               const stats = await statsRes.json();
               hasExisting = stats.count > 0;
@@ -187,9 +195,10 @@ export default function QuizPage() {
           const storedAnswers = sessionStorage.getItem(STORAGE_KEYS.ANSWERS);
           const storedIndex = sessionStorage.getItem(STORAGE_KEYS.QUESTION_INDEX);
           
-          const answers = storedAnswers 
-            ? JSON.parse(storedAnswers) 
-            : Array(25).fill(null);
+          const parsedAnswers = storedAnswers ? JSON.parse(storedAnswers) : null;
+          const answers = Array.isArray(parsedAnswers) && parsedAnswers.length === QUESTION_COUNT
+            ? parsedAnswers
+            : Array(QUESTION_COUNT).fill(null);
           const questionIndex = storedIndex 
             ? parseInt(storedIndex, 10) 
             : 0;
@@ -287,27 +296,23 @@ export default function QuizPage() {
    */
   const handleStartAssessment = useCallback(() => {
     try {
-      // Use existing persistent ID or generate new one
-      let anonymousUserId = localStorage.getItem('odId') || localStorage.getItem('fmindset_odId');
-      if (!anonymousUserId) {
-        anonymousUserId = 'anonymous-' + crypto.randomUUID();
-        localStorage.setItem('odId', anonymousUserId);
-        localStorage.setItem('fmindset_odId', anonymousUserId);
-      }
+      // Local ID that only keys in-progress answers; the account itself
+      // comes from the session cookie
+      const anonymousUserId = 'anonymous-' + crypto.randomUUID();
       
       // Store in session storage
       sessionStorage.setItem(STORAGE_KEYS.USER_ID, anonymousUserId);
-      sessionStorage.setItem(STORAGE_KEYS.ANSWERS, JSON.stringify(Array(25).fill(null)));
+      sessionStorage.setItem(STORAGE_KEYS.ANSWERS, JSON.stringify(Array(QUESTION_COUNT).fill(null)));
       sessionStorage.setItem(STORAGE_KEYS.QUESTION_INDEX, '0');
 
       // Also save to localStorage as backup
-      saveToLocalStorage(Array(25).fill(null), 0, anonymousUserId);
+      saveToLocalStorage(Array(QUESTION_COUNT).fill(null), 0, anonymousUserId);
 
       setState({
         isLoading: false,
         hasSession: true,
         userId: anonymousUserId,
-        initialAnswers: Array(25).fill(null),
+        initialAnswers: Array(QUESTION_COUNT).fill(null),
         initialQuestionIndex: 0,
         error: null,
         isOffline: typeof window !== 'undefined' && !navigator.onLine,
@@ -359,17 +364,17 @@ export default function QuizPage() {
    * Handle quiz submission
    * Requirements: 5.1, 7.1, 7.2, 7.5, 7.6, 7.7, 7.8
    */
-  const handleSubmit = useCallback(async (answers: AnswerValue[]) => {
+  const handleSubmit = useCallback(async (answers: AnswerValue[], timings: (number | null)[]) => {
     // Check if offline before attempting submission
     // Requirements: 7.8
     if (!navigator.onLine) {
       // Save to localStorage for later sync
-      saveToLocalStorage(answers, 24, state.userId);
+      saveToLocalStorage(answers, QUESTION_COUNT - 1, state.userId);
       throw new Error('You\'re offline. Progress saved locally. Please try again when online.');
     }
 
-    // Get persistent odId for saving to database
-    const persistentOdId = localStorage.getItem('odId') || localStorage.getItem('fmindset_odId') || state.userId;
+    // Make sure the session cookie exists before saving to the database
+    await ensureSession();
 
     // Create AbortController for timeout handling
     // Requirements: 7.7
@@ -382,7 +387,11 @@ export default function QuizPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ answers, odId: persistentOdId }),
+        body: JSON.stringify({
+          answers,
+          questionBankVersion: CURRENT_QUESTION_BANK.version,
+          answerTimings: timings,
+        }),
         signal: controller.signal,
       });
 
@@ -393,12 +402,12 @@ export default function QuizPage() {
         // Requirements: 7.2, 7.5, 7.6
         if (response.status === 400) {
           // Validation error - preserve answers
-          saveToLocalStorage(answers, 24, state.userId);
+          saveToLocalStorage(answers, QUESTION_COUNT - 1, state.userId);
           throw new Error(errorData.error || 'Invalid response. Try again.');
         }
         if (response.status === 500) {
           // Server error - preserve answers for retry
-          saveToLocalStorage(answers, 24, state.userId);
+          saveToLocalStorage(answers, QUESTION_COUNT - 1, state.userId);
           throw new Error('Server error. Try again later.');
         }
         throw new Error(errorData.error || 'Submission failed');
@@ -425,7 +434,7 @@ export default function QuizPage() {
       // Handle timeout/abort error
       // Requirements: 7.7
       if (error instanceof Error && error.name === 'AbortError') {
-        saveToLocalStorage(answers, 24, state.userId);
+        saveToLocalStorage(answers, QUESTION_COUNT - 1, state.userId);
         throw new Error('Network timeout. Check connection.');
       }
       
@@ -598,7 +607,7 @@ export default function QuizPage() {
                   Understand Your Founder Mind
                 </h2>
                 <p className="text-gray-600 leading-relaxed text-lg">
-                  Take our 25-question assessment to discover your psychological profile 
+                  Take our {QUESTION_COUNT}-question assessment to discover your psychological profile 
                   as a founder. Learn about your strengths, challenges, and get 
                   personalized recommendations.
                 </p>
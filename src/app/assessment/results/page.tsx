@@ -6,9 +6,17 @@ import { ResultsDisplay } from '@/components/Assessment/ResultsDisplay';
 import { 
   PsychologicalScores, 
   ArchetypeResult, 
+  ArchetypeEvaluation,
+  AssessmentReliability,
   AssessmentSubmitResponse,
-  GroqInsightsResponse 
+  ResponseQuality,
+  GroqInsightsResponse,
+  StructuredInsights,
+  CrisisResources,
+  CrisisResourcesResponse
 } from '@/types/assessment';
+import { previewStreamingInsights, toStructuredInsights } from '@/utils/insights';
+import { readServerSentEvents } from '@/utils/serverSentEvents';
 
 const STORAGE_KEYS = {
   RESULTS: 'fmindset_assessment_results',
@@ -20,25 +28,84 @@ interface ResultsPageState {
   isLoading: boolean;
   scores: PsychologicalScores | null;
   archetype: ArchetypeResult | null;
+  archetypeExplanation: ArchetypeEvaluation | null;
   recommendations: string[];
+  reliability: AssessmentReliability;
+  quality: ResponseQuality | null;
+  assessmentId: string | null;
   groqInsights: string | null;
+  structuredInsights: StructuredInsights | null;
+  crisisResources: CrisisResources | null;
   isLoadingInsights: boolean;
+  isStreamingInsights: boolean;
   error: string | null;
   canRetry: boolean;
 }
 
+/**
+ * Read insights cached for this session
+ * Older sessions cached the plain text rather than the JSON response.
+ */
+function readCachedInsights(): GroqInsightsResponse | null {
+  const cached = sessionStorage.getItem(STORAGE_KEYS.GROQ_INSIGHTS);
+  if (!cached) return null;
+
+  try {
+    const parsed = JSON.parse(cached);
+    if (typeof parsed?.insights === 'string') {
+      return {
+        insights: parsed.insights,
+        structured: toStructuredInsights(parsed.structured),
+        cached: true,
+        crisisResources: parsed.crisisResources ?? null,
+      };
+    }
+  } catch {
+    // Not JSON: plain text from an older session
+  }
+  return { insights: cached, structured: null, cached: true, crisisResources: null };
+}
+
+function cacheInsights(response: GroqInsightsResponse): void {
+  sessionStorage.setItem(STORAGE_KEYS.GROQ_INSIGHTS, JSON.stringify(response));
+}
+
 export default function ResultsPage() {
   const router = useRouter();
   const [state, setState] = useState<ResultsPageState>({
     isLoading: true,
     scores: null,
     archetype: null,
+    archetypeExplanation: null,
     recommendations: [],
+    reliability: {},
+    quality: null,
+    assessmentId: null,
     groqInsights: null,
+    structuredInsights: null,
+    crisisResources: null,
     isLoadingInsights: false,
+    isStreamingInsights: false,
     error: null,
     canRetry: false,
   });
+  // For the Burning Out notice, in the user's region
+  const [urgentCrisisResources, setUrgentCrisisResources] = useState<CrisisResources | null>(null);
+  const isUrgent = state.archetype?.isUrgent ?? false;
+
+  useEffect(() => {
+    if (!isUrgent) return;
+
+    fetch('/api/user/crisis-resources')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: CrisisResourcesResponse | null) => {
+        if (data) setUrgentCrisisResources(data.resources);
+      })
+      .catch((error) => {
+        // The notice falls back to international directories
+        console.error('Failed to load crisis resources:', error);
+      });
+  }, [isUrgent]);
 
   useEffect(() => {
     const loadResults = async () => {
@@ -80,21 +147,28 @@ export default function ResultsPage() {
           return;
         }
         
-        const cachedInsights = sessionStorage.getItem(STORAGE_KEYS.GROQ_INSIGHTS);
+        const cachedInsights = readCachedInsights();
         
         setState({
           isLoading: false,
           scores: results.scores,
           archetype: results.archetype,
+          archetypeExplanation: results.archetypeExplanation ?? null,
           recommendations: results.recommendations,
-          groqInsights: cachedInsights || null,
+          reliability: results.reliability ?? {},
+          quality: results.quality ?? null,
+          assessmentId: results.assessmentId ?? null,
+          groqInsights: cachedInsights?.insights ?? null,
+          structuredInsights: cachedInsights?.structured ?? null,
+          crisisResources: cachedInsights?.crisisResources ?? null,
           isLoadingInsights: !cachedInsights,
+          isStreamingInsights: false,
           error: null,
           canRetry: false,
         });
 
         if (!cachedInsights) {
-          fetchGroqInsights(results.scores, results.archetype.name);
+          fetchGroqInsights(results.scores, results.archetype.name, results.assessmentId ?? null);
         }
       } catch (error) {
         console.error('Failed to load results:', error);
@@ -113,42 +187,99 @@ export default function ResultsPage() {
 
   const fetchGroqInsights = useCallback(async (
     scores: PsychologicalScores, 
-    archetypeName: string
+    archetypeName: string,
+    assessmentId: string | null,
+    regenerate: boolean = false
   ) => {
+    const fallbackText = "We're generating personalized insights for you. Check back in a moment.";
+    const showFallback = () => {
+      setState(prev => ({
+        ...prev,
+        groqInsights: fallbackText,
+        structuredInsights: null,
+        crisisResources: null,
+        isLoadingInsights: false,
+        isStreamingInsights: false,
+      }));
+    };
+
     try {
       const response = await fetch('/api/groq/insights', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify({ 
           scores, 
-          archetype: archetypeName 
+          archetype: archetypeName,
+          ...(assessmentId ? { assessmentId } : {}),
+          ...(regenerate ? { regenerate } : {}),
         }),
       });
 
-      const data: GroqInsightsResponse = await response.json();
-      
-      if (data.insights) {
-        sessionStorage.setItem(STORAGE_KEYS.GROQ_INSIGHTS, data.insights);
+      // Servers that answer with plain JSON still work
+      if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+        const data: GroqInsightsResponse = await response.json();
+        if (data.insights) {
+          cacheInsights(data);
+        }
+        setState(prev => ({
+          ...prev,
+          groqInsights: data.insights || null,
+          structuredInsights: data.structured ?? null,
+          crisisResources: data.crisisResources ?? null,
+          isLoadingInsights: false,
+        }));
+        return;
       }
 
-      setState(prev => ({
-        ...prev,
-        groqInsights: data.insights || null,
-        isLoadingInsights: false,
-      }));
+      // Render tokens as they arrive; the reply is JSON, so show the summary received so far
+      let reply = '';
+      let finished = false;
+      await readServerSentEvents(response.body, ({ event, data }) => {
+        if (event === 'token') {
+          reply += (data as { text: string }).text;
+          setState(prev => ({
+            ...prev,
+            groqInsights: previewStreamingInsights(reply),
+            isLoadingInsights: false,
+            isStreamingInsights: true,
+          }));
+        } else if (event === 'done') {
+          finished = true;
+          const result = data as GroqInsightsResponse;
+          cacheInsights(result);
+          setState(prev => ({
+            ...prev,
+            groqInsights: result.insights,
+            structuredInsights: result.structured ?? null,
+            crisisResources: result.crisisResources ?? null,
+            isStreamingInsights: false,
+          }));
+        } else if (event === 'error') {
+          finished = true;
+          showFallback();
+        }
+      });
+
+      // The connection dropped before the server said it was done
+      if (!finished) {
+        showFallback();
+      }
     } catch (error) {
       console.error('Groq insights error:', error);
-      const fallbackText = "We're generating personalized insights for you. Check back in a moment.";
-      setState(prev => ({
-        ...prev,
-        groqInsights: fallbackText,
-        isLoadingInsights: false,
-      }));
+      showFallback();
     }
   }, []);
 
+  const handleRegenerateInsights = useCallback(() => {
+    if (!state.scores || !state.archetype) return;
+    sessionStorage.removeItem(STORAGE_KEYS.GROQ_INSIGHTS);
+    setState(prev => ({ ...prev, groqInsights: null, structuredInsights: null, crisisResources: null, isLoadingInsights: true }));
+    fetchGroqInsights(state.scores, state.archetype.name, state.assessmentId, true);
+  }, [state.scores, state.archetype, state.assessmentId, fetchGroqInsights]);
+
   const handleRetakeAssessment = useCallback(() => {
     sessionStorage.removeItem(STORAGE_KEYS.RESULTS);
     sessionStorage.removeItem(STORAGE_KEYS.GROQ_INSIGHTS);
@@ -265,9 +396,17 @@ export default function ResultsPage() {
           <ResultsDisplay
             scores={state.scores}
             archetype={state.archetype}
+            archetypeExplanation={state.archetypeExplanation}
             recommendations={state.recommendations}
+            reliability={state.reliability}
+            quality={state.quality}
             groqInsights={state.groqInsights}
+            structuredInsights={state.structuredInsights}
+            insightsCrisisResources={state.crisisResources}
+            crisisResources={urgentCrisisResources}
             isLoadingInsights={state.isLoadingInsights}
+            isStreamingInsights={state.isStreamingInsights}
+            onRegenerateInsights={handleRegenerateInsights}
           />
 
           {/* Action Buttons */}
@@ -0,0 +1,54 @@
+'use client';
+
+import Link from 'next/link';
+import { CoachChat } from '@/components/Coach';
+import { useSession } from '@/hooks/useSession';
+
+export default function CoachPage() {
+  const { odId } = useSession();
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      {/* Premium Background */}
+      <div className="fixed inset-0 bg-gradient-to-br from-slate-50 via-indigo-50/30 to-purple-50/30" />
+      <div className="fixed inset-0 bg-[radial-gradient(ellipse_at_top_left,_var(--tw-gradient-stops))] from-indigo-100/40 via-transparent to-transparent" />
+      <div className="fixed top-40 right-[5%] w-80 h-80 bg-gradient-to-br from-purple-200/20 to-pink-200/20 rounded-full blur-3xl animate-blob" />
+
+      <div className="relative z-10 max-w-3xl mx-auto px-4 pt-24 pb-16">
+        {/* Header */}
+        <div className="mb-8 animate-fade-in-up">
+          <Link
+            href="/dashboard/journal"
+            className="group inline-flex items-center gap-2 text-gray-600 hover:text-indigo-600 mb-6 transition-colors"
+          >
+            <svg className="w-5 h-5 group-hover:-translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Journal
+          </Link>
+          <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-white/80 backdrop-blur-sm border border-gray-100 shadow-sm mb-4">
+            <span className="text-lg">💬</span>
+            <span className="text-sm font-medium text-gray-600">Check-in Coach</span>
+          </div>
+          <h1 className="text-4xl md:text-5xl font-extrabold text-gray-900 tracking-tight">
+            Talk it <span className="gradient-text">through</span>
+          </h1>
+          <p className="text-gray-600 mt-3 text-lg">A supportive space to unpack a tough day</p>
+        </div>
+
+        <div className="animate-fade-in-up animation-delay-100">
+          {odId ? (
+            <CoachChat />
+          ) : (
+            <div className="flex items-center justify-center py-20">
+              <div className="relative w-12 h-12">
+                <div className="absolute inset-0 rounded-full border-4 border-indigo-100"></div>
+                <div className="absolute inset-0 rounded-full border-4 border-indigo-600 border-t-transparent animate-spin"></div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import Link from 'next/link';
 import { CompatibilityResult } from '@/components/Community';
+import { useSession } from '@/hooks/useSession';
 
 interface CompatibilityData {
   score: number;
@@ -16,14 +17,9 @@ export default function CompatibilityPage() {
   const [result, setResult] = useState<CompatibilityData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [odId, setOdId] = useState<string | null>(null);
+  const { odId } = useSession({ create: false });
   const [showShareCode, setShowShareCode] = useState(false);
 
-  useEffect(() => {
-    const storedOdId = localStorage.getItem('odId');
-    setOdId(storedOdId);
-  }, []);
-
   const handleCheckCompatibility = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!odId || !partnerCode.trim()) return;
@@ -37,8 +33,7 @@ export default function CompatibilityPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId1: odId,
-          userId2: partnerCode.trim(),
+          partnerCode: partnerCode.trim(),
         }),
       });
 
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { PostCard, CreatePostForm } from '@/components/Community';
+import { useSession } from '@/hooks/useSession';
 
 interface Post {
   id: string;
@@ -25,18 +26,6 @@ const CATEGORIES = [
   { value: 'isolation', label: 'Isolation', icon: '🏝️' },
 ];
 
-function getOrCreateOdId(): string {
-  if (typeof window === 'undefined') return '';
-  
-  let odId = localStorage.getItem('odId') || localStorage.getItem('fmindset_odId');
-  if (!odId) {
-    odId = `user_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    localStorage.setItem('odId', odId);
-    localStorage.setItem('fmindset_odId', odId);
-  }
-  return odId;
-}
-
 export default function CommunityPage() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [trendingPosts, setTrendingPosts] = useState<Post[]>([]);
@@ -48,15 +37,13 @@ export default function CommunityPage() {
   const [page, setPage] = useState(1);
   const [total, setTotal] = useState(0);
 
-  const [odId, setOdId] = useState<string | null>(null);
+  const { odId } = useSession();
   const [userPseudonym, setUserPseudonym] = useState<string | null>(null);
   const [showPseudonymSetup, setShowPseudonymSetup] = useState(false);
   const [customPseudonym, setCustomPseudonym] = useState('');
   const [pseudonymError, setPseudonymError] = useState('');
 
   useEffect(() => {
-    const id = getOrCreateOdId();
-    setOdId(id);
     const storedPseudonym = localStorage.getItem('fmindset_pseudonym');
     if (storedPseudonym) {
       setUserPseudonym(storedPseudonym);
@@ -180,7 +167,6 @@ export default function CommunityPage() {
               showCreateForm ? (
                 <div className="animate-scale-in">
                   <CreatePostForm
-                    odId={odId}
                     onSuccess={handlePostCreated}
                     onCancel={() => setShowCreateForm(false)}
                   />
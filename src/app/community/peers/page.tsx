@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { PeerMatchCard } from '@/components/Community';
+import { useSession } from '@/hooks/useSession';
 
 interface PeerMatch {
   id: string;
@@ -17,25 +18,24 @@ export default function PeersPage() {
   const [matches, setMatches] = useState<PeerMatch[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [odId, setOdId] = useState<string | null>(null);
+  const { odId, isLoading: isSessionLoading } = useSession({ create: false });
   const [hasAssessment, setHasAssessment] = useState<boolean | null>(null);
 
   useEffect(() => {
-    const storedOdId = localStorage.getItem('odId') || localStorage.getItem('fmindset_odId');
-    setOdId(storedOdId);
-    
+    if (isSessionLoading) return;
+
     // Check if user has completed an assessment
-    if (storedOdId) {
-      checkAssessment(storedOdId);
+    if (odId) {
+      checkAssessment();
     } else {
       setHasAssessment(false);
       setIsLoading(false);
     }
-  }, []);
+  }, [odId, isSessionLoading]);
 
-  const checkAssessment = async (userId: string) => {
+  const checkAssessment = async () => {
     try {
-      const response = await fetch(`/api/assessment/stats?odId=${userId}`);
+      const response = await fetch('/api/assessment/stats');
       if (response.ok) {
         const data = await response.json();
         setHasAssessment(data.count > 0);
@@ -54,7 +54,7 @@ export default function PeersPage() {
     setError(null);
 
     try {
-      const response = await fetch(`/api/community/peers?odId=${odId}`);
+      const response = await fetch('/api/community/peers');
       const data = await response.json();
 
       if (!response.ok) {
@@ -170,7 +170,6 @@ export default function PeersPage() {
                       matchScore={match.matchScore}
                       sharedDimensions={match.sharedDimensions as string[]}
                       isMutualOptIn={match.isMutualOptIn}
-                      odId={odId!}
                     />
                   ))}
                 </div>
@@ -191,7 +190,6 @@ export default function PeersPage() {
                       matchScore={match.matchScore}
                       sharedDimensions={match.sharedDimensions as string[]}
                       isMutualOptIn={match.isMutualOptIn}
-                      odId={odId!}
                       onDismiss={() => handleDismiss(match.id)}
                     />
                   ))}
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { formatDistanceToNow } from 'date-fns';
+import { useSession } from '@/hooks/useSession';
 
 interface Post {
   id: string;
@@ -49,12 +50,10 @@ export default function PostPage() {
   const [reportTarget, setReportTarget] = useState<{ type: 'post' | 'reply'; id: string } | null>(null);
   const [reportReason, setReportReason] = useState('');
 
-  const [odId, setOdId] = useState<string | null>(null);
+  const { odId } = useSession();
   const [userPseudonym, setUserPseudonym] = useState<string | null>(null);
 
   useEffect(() => {
-    const storedOdId = localStorage.getItem('odId') || localStorage.getItem('fmindset_odId');
-    setOdId(storedOdId);
     const storedPseudonym = localStorage.getItem('fmindset_pseudonym');
     setUserPseudonym(storedPseudonym);
   }, []);
@@ -90,7 +89,6 @@ export default function PostPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          odId,
           body: replyBody,
           parentReplyId: replyingTo,
         }),
@@ -116,7 +114,6 @@ export default function PostPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          odId,
           reason: reportReason,
           replyId: reportTarget.type === 'reply' ? reportTarget.id : undefined,
         }),
@@ -5,8 +5,11 @@ import Link from 'next/link';
 import { 
   CheckInForm, 
   TrendsChart, 
+  RiskTimeline,
   BurnoutAlert, 
+  EscalationBanner,
   ActionPlanWidget,
+  ReflectionDigestCard,
   SyncStatusIndicator,
   type JournalEntryData,
   type ExistingEntry,
@@ -16,6 +19,16 @@ import {
   type CompletionStats,
 } from '../../../components/Journal';
 import { useOfflineSync } from '../../../hooks/useOfflineSync';
+import { useSession } from '../../../hooks/useSession';
+import type {
+  BurnoutComponentContribution,
+  BurnoutEscalationResponse,
+  BurnoutForecast,
+  BurnoutForecastResponse,
+  BurnoutHistoryResponse,
+  CrisisResources,
+  ReflectionDigestResponse,
+} from '../../../types/assessment';
 
 interface JournalHistoryResponse {
   entries: JournalEntryForChart[];
@@ -35,8 +48,10 @@ interface BurnoutScoreResponse {
   score: number;
   riskLevel: RiskLevel;
   contributingFactors: string[];
+  components: BurnoutComponentContribution[];
   recommendations: string[];
   disclaimer: string;
+  crisisResources?: CrisisResources;     // Set for high and critical risk
 }
 
 interface ActionsResponse {
@@ -46,44 +61,39 @@ interface ActionsResponse {
   completionStats: CompletionStats;
 }
 
-function getOrCreateOdId(): string {
-  if (typeof window === 'undefined') return '';
-  let odId = localStorage.getItem('fmindset_odId');
-  if (!odId) {
-    odId = `user_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    localStorage.setItem('fmindset_odId', odId);
-  }
-  return odId;
-}
-
 export default function JournalPage() {
-  const [odId, setOdId] = useState<string>('');
+  const { odId: sessionOdId } = useSession();
+  const odId = sessionOdId ?? '';
   const [todayEntry, setTodayEntry] = useState<ExistingEntry | null>(null);
   const [entries, setEntries] = useState<JournalEntryForChart[]>([]);
   const [burnoutScore, setBurnoutScore] = useState<BurnoutScoreResponse | null>(null);
   const [actions, setActions] = useState<ActionItem[]>([]);
   const [completionStats, setCompletionStats] = useState<CompletionStats | null>(null);
+  const [reflection, setReflection] = useState<ReflectionDigestResponse | null>(null);
+  const [forecast, setForecast] = useState<BurnoutForecast | null>(null);
+  const [riskHistory, setRiskHistory] = useState<BurnoutHistoryResponse | null>(null);
+  const [escalationState, setEscalationState] = useState<BurnoutEscalationResponse | null>(null);
   const [period, setPeriod] = useState<7 | 14 | 30>(7);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    setOdId(getOrCreateOdId());
-  }, []);
-
   const { status: syncStatus, saveEntry, forceSync } = useOfflineSync(odId);
 
-  const fetchAllData = useCallback(async () => {
+  // Chart data for the selected period
+  const fetchPeriodData = useCallback(async () => {
     if (!odId) return;
     setIsLoading(true);
     setError(null);
 
     try {
-      const [historyRes, burnoutRes, actionsRes] = await Promise.allSettled([
-        fetch(`/api/journal/history?odId=${encodeURIComponent(odId)}&days=${period}`),
-        fetch(`/api/burnout/score?odId=${encodeURIComponent(odId)}`),
-        fetch(`/api/actions/daily?odId=${encodeURIComponent(odId)}`),
+      // Risk history over the same days as the trends chart
+      const historyStart = new Date();
+      historyStart.setUTCDate(historyStart.getUTCDate() - (period - 1));
+
+      const [historyRes, riskHistoryRes] = await Promise.allSettled([
+        fetch(`/api/journal/history?days=${period}`),
+        fetch(`/api/burnout/history?from=${historyStart.toISOString().split('T')[0]}`),
       ]);
 
       if (historyRes.status === 'fulfilled' && historyRes.value.ok) {
@@ -105,6 +115,28 @@ export default function JournalPage() {
         }
       }
 
+      if (riskHistoryRes.status === 'fulfilled' && riskHistoryRes.value.ok) {
+        setRiskHistory(await riskHistoryRes.value.json());
+      }
+    } catch (err) {
+      console.error('Error fetching data:', err);
+      setError('Failed to load your journal data. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [odId, period]);
+
+  // Score, actions and forecast, which every check-in changes
+  const fetchScoreData = useCallback(async () => {
+    if (!odId) return;
+
+    try {
+      const [burnoutRes, actionsRes, forecastRes] = await Promise.allSettled([
+        fetch('/api/burnout/score'),
+        fetch('/api/actions/daily'),
+        fetch('/api/burnout/forecast'),
+      ]);
+
       if (burnoutRes.status === 'fulfilled') {
         if (burnoutRes.value.ok) {
           const burnoutData: BurnoutScoreResponse = await burnoutRes.value.json();
@@ -117,17 +149,53 @@ export default function JournalPage() {
         setActions(actionsData.actions);
         setCompletionStats(actionsData.completionStats);
       }
+
+      if (forecastRes.status === 'fulfilled' && forecastRes.value.ok) {
+        const forecastData: BurnoutForecastResponse = await forecastRes.value.json();
+        setForecast(forecastData.forecast);
+      }
     } catch (err) {
       console.error('Error fetching data:', err);
       setError('Failed to load your journal data. Please try again.');
-    } finally {
-      setIsLoading(false);
     }
-  }, [odId, period]);
+  }, [odId]);
+
+  // Escalation state; check-ins return it too, so this only runs on load or when that failed
+  const fetchEscalation = useCallback(async () => {
+    if (!odId) return;
+
+    try {
+      const response = await fetch('/api/burnout/escalation');
+      if (response.ok) {
+        setEscalationState(await response.json());
+      }
+    } catch (err) {
+      console.error('Error fetching escalation:', err);
+    }
+  }, [odId]);
+
+  const fetchDigest = useCallback(async () => {
+    if (!odId) return;
+
+    try {
+      const response = await fetch('/api/journal/digest');
+      if (response.ok) {
+        setReflection(await response.json());
+      }
+    } catch (err) {
+      console.error('Error fetching digest:', err);
+    }
+  }, [odId]);
 
   useEffect(() => {
-    fetchAllData();
-  }, [fetchAllData]);
+    fetchPeriodData();
+  }, [fetchPeriodData]);
+
+  useEffect(() => {
+    fetchScoreData();
+    fetchEscalation();
+    fetchDigest();
+  }, [fetchScoreData, fetchEscalation, fetchDigest]);
 
   const handleSubmit = async (data: JournalEntryData) => {
     if (!odId) return;
@@ -147,15 +215,26 @@ export default function JournalPage() {
             entryDate: result.entry.entryDate,
           });
           if (result.burnoutScore) {
-            setBurnoutScore({
-              score: result.burnoutScore.score,
-              riskLevel: result.burnoutScore.riskLevel as RiskLevel,
-              contributingFactors: result.burnoutScore.contributingFactors,
+            const { score, riskLevel, contributingFactors, components } = result.burnoutScore;
+            // Crisis resources come with the refetched score; keep any shown meanwhile
+            setBurnoutScore((prev) => ({
+              score,
+              riskLevel: riskLevel as RiskLevel,
+              contributingFactors,
+              components: components ?? [],
               recommendations: [],
               disclaimer: 'This is not a medical diagnosis.',
-            });
+              crisisResources: prev?.crisisResources,
+            }));
           }
-          await fetchAllData();
+          if (result.escalation) {
+            setEscalationState(result.escalation);
+          }
+          await Promise.all([
+            fetchPeriodData(),
+            fetchScoreData(),
+            ...(result.escalation ? [] : [fetchEscalation()]),
+          ]);
         } else {
           const today = new Date().toISOString().split('T')[0];
           setTodayEntry({
@@ -188,7 +267,7 @@ export default function JournalPage() {
       const response = await fetch('/api/actions/complete', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ actionId, odId }),
+        body: JSON.stringify({ actionId }),
       });
       if (!response.ok) throw new Error('Failed to complete action');
       setActions(prev => prev.map(a => a.id === actionId ? { ...a, isCompleted: true, completedAt: new Date() } : a));
@@ -205,6 +284,25 @@ export default function JournalPage() {
     }
   };
 
+  const handleEscalationUpdate = async (update: {
+    id: string;
+    dismissed?: boolean;
+    followUpDismissed?: boolean;
+    streaksPaused?: boolean;
+  }) => {
+    try {
+      const response = await fetch('/api/burnout/escalation', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) throw new Error('Failed to update escalation');
+      setEscalationState(await response.json());
+    } catch (err) {
+      console.error('Error updating escalation:', err);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
@@ -283,6 +381,19 @@ export default function JournalPage() {
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               {/* Main Column */}
               <div className="lg:col-span-2 space-y-8">
+                {/* Escalation banner, or a follow-up once it has resolved */}
+                {escalationState && (escalationState.escalation || escalationState.followUp) && (
+                  <section>
+                    <EscalationBanner
+                      escalation={escalationState.escalation}
+                      followUp={escalationState.followUp}
+                      crisisResources={escalationState.crisisResources}
+                      contactDraft={escalationState.contactDraft}
+                      onUpdate={handleEscalationUpdate}
+                    />
+                  </section>
+                )}
+
                 {/* Check-in Form */}
                 <section className="animate-fade-in-up animation-delay-200">
                   <CheckInForm
@@ -299,19 +410,43 @@ export default function JournalPage() {
                       score={burnoutScore.score}
                       riskLevel={burnoutScore.riskLevel}
                       contributingFactors={burnoutScore.contributingFactors}
+                      components={burnoutScore.components}
+                      projection={forecast?.earlyWarning}
+                      crisisResources={burnoutScore.crisisResources}
                     />
                   </section>
                 )}
 
+                {/* Weekly Reflection */}
+                <section className="animate-fade-in-up animation-delay-400">
+                  <ReflectionDigestCard
+                    digest={reflection?.digest ?? null}
+                    crisisResources={reflection?.crisisResources}
+                  />
+                </section>
+
                 {/* Trends Chart */}
                 <section className="animate-fade-in-up animation-delay-400">
                   <TrendsChart
                     entries={entries}
                     period={period}
                     onPeriodChange={setPeriod}
+                    forecast={forecast}
                   />
                 </section>
 
+                {/* Risk Timeline */}
+                {riskHistory && (
+                  <section className="animate-fade-in-up animation-delay-400">
+                    <RiskTimeline
+                      from={riskHistory.from}
+                      to={riskHistory.to}
+                      days={riskHistory.days}
+                      transitions={riskHistory.transitions}
+                    />
+                  </section>
+                )}
+
                 {/* Recent Entries */}
                 <section className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-lg shadow-gray-100/50 border border-white/50 p-6 animate-fade-in-up animation-delay-500">
                   <h3 className="text-xl font-bold text-gray-900 mb-6 flex items-center gap-3">
@@ -378,6 +513,7 @@ export default function JournalPage() {
                     completionStats={completionStats || undefined}
                     onComplete={handleCompleteAction}
                     isLoading={isLoading}
+                    streaksPaused={escalationState?.escalation?.streaksPaused ?? false}
                   />
                 </div>
               </div>
@@ -2,6 +2,7 @@
 
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
+import { useSession } from '@/hooks/useSession';
 
 // Types for journal data
 interface JournalEntry {
@@ -25,10 +26,17 @@ interface ActionItem {
   isCompleted: boolean;
 }
 
+interface RetakeStatus {
+  dueAt: string;
+  reason: 'scheduled' | 'risk_increase';
+  isDue: boolean;
+}
+
 interface AssessmentStats {
   count: number;
   lastAssessment: string | null;
   archetype: string | null;
+  retake: RetakeStatus | null;
 }
 
 // Risk level colors and labels
@@ -45,18 +53,7 @@ export default function Dashboard() {
   const [todayActions, setTodayActions] = useState<ActionItem[]>([]);
   const [assessmentStats, setAssessmentStats] = useState<AssessmentStats | null>(null);
   const [loading, setLoading] = useState(true);
-  const [odId, setOdId] = useState<string>('');
-
-  useEffect(() => {
-    // Get or create odId from localStorage
-    let storedOdId = localStorage.getItem('odId') || localStorage.getItem('fmindset_odId');
-    if (!storedOdId) {
-      storedOdId = `user_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-      localStorage.setItem('odId', storedOdId);
-      localStorage.setItem('fmindset_odId', storedOdId);
-    }
-    setOdId(storedOdId);
-  }, []);
+  const { odId } = useSession();
 
   useEffect(() => {
     if (!odId) return;
@@ -64,7 +61,7 @@ export default function Dashboard() {
     async function fetchDashboardData() {
       try {
         // Fetch journal data - get more days to ensure we catch today's entry
-        const historyRes = await fetch(`/api/journal/history?odId=${odId}&days=7`);
+        const historyRes = await fetch('/api/journal/history?days=7');
         if (historyRes.ok) {
           const historyData = await historyRes.json();
           // Get today's date in local timezone (YYYY-MM-DD format)
@@ -81,7 +78,7 @@ export default function Dashboard() {
         }
 
         // Fetch burnout score
-        const burnoutRes = await fetch(`/api/burnout/score?odId=${odId}`);
+        const burnoutRes = await fetch('/api/burnout/score');
         if (burnoutRes.ok) {
           const burnoutData = await burnoutRes.json();
           if (burnoutData.score !== undefined) {
@@ -90,14 +87,14 @@ export default function Dashboard() {
         }
 
         // Fetch daily actions
-        const actionsRes = await fetch(`/api/actions/daily?odId=${odId}`);
+        const actionsRes = await fetch('/api/actions/daily');
         if (actionsRes.ok) {
           const actionsData = await actionsRes.json();
           setTodayActions(actionsData.actions || []);
         }
 
         // Fetch assessment stats
-        const statsRes = await fetch(`/api/assessment/stats?odId=${odId}`);
+        const statsRes = await fetch('/api/assessment/stats');
         if (statsRes.ok) {
           const statsData = await statsRes.json();
           setAssessmentStats(statsData);
@@ -417,6 +414,19 @@ export default function Dashboard() {
                     : 'Complete your psychological assessment to discover your founder profile and get personalized insights.'
                   }
                 </p>
+                {assessmentStats?.retake && (
+                  <p
+                    className={`-mt-4 mb-6 text-sm font-medium ${
+                      assessmentStats.retake.isDue ? 'text-amber-700' : 'text-gray-500'
+                    }`}
+                  >
+                    {assessmentStats.retake.isDue
+                      ? assessmentStats.retake.reason === 'risk_increase'
+                        ? '⏰ Retake due now: your burnout risk has risen since your last assessment'
+                        : '⏰ Retake due now'
+                      : `Next retake due ${new Date(assessmentStats.retake.dueAt).toLocaleDateString()}`}
+                  </p>
+                )}
                 <Link
                   href="/assessment/quiz"
                   className="inline-flex items-center justify-center w-full px-6 py-4 bg-gradient-to-r from-blue-500 to-indigo-600 text-white font-semibold rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 group-hover:scale-[1.02]"
@@ -459,6 +469,14 @@ export default function Dashboard() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
                   </svg>
                 </Link>
+                {assessmentStats && assessmentStats.count > 1 && (
+                  <Link
+                    href="/assessment/history"
+                    className="inline-block mt-4 text-sm font-medium text-emerald-700 hover:underline"
+                  >
+                    Compare past assessments →
+                  </Link>
+                )}
               </div>
             </div>
 
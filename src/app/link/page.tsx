@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { resetSession } from '@/hooks/useSession';
+
+export default function LinkDevicePage() {
+  const router = useRouter();
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Prefill from a shared link (/link?code=XXXX-XXXX)
+  useEffect(() => {
+    const sharedCode = new URLSearchParams(window.location.search).get('code');
+    if (sharedCode) {
+      setCode(sharedCode);
+    }
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/user/transfer/redeem', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to link this browser');
+      }
+
+      // The redeem replaced the session cookie, so drop the cached session
+      resetSession();
+      if (data.pseudonym) {
+        localStorage.setItem('fmindset_pseudonym', data.pseudonym);
+      }
+      router.push('/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      <div className="fixed inset-0 bg-gradient-to-br from-slate-50 via-indigo-50/30 to-purple-50/30" />
+
+      <div className="relative z-10 max-w-md mx-auto px-4 pt-24 pb-16">
+        <div className="mb-8 text-center animate-fade-in-up">
+          <span className="text-5xl mb-4 block">🔗</span>
+          <h1 className="text-3xl font-extrabold text-gray-900 tracking-tight">
+            <span className="gradient-text">Link This Browser</span>
+          </h1>
+          <p className="text-gray-600 mt-3">
+            Enter the transfer code shown in Settings on your other browser to open the same
+            profile here.
+          </p>
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg shadow-gray-100/50 p-8 space-y-4 animate-fade-in-up animation-delay-100"
+        >
+          {error && (
+            <div className="p-3 bg-rose-50 border border-rose-200 rounded-xl text-rose-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="transferCode" className="block text-sm font-medium text-gray-700 mb-1">
+              Transfer code
+            </label>
+            <input
+              type="text"
+              id="transferCode"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              autoComplete="off"
+              maxLength={12}
+              required
+              className="w-full px-4 py-3 border border-gray-200 rounded-xl text-center text-2xl font-mono tracking-widest focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder="XXXX-XXXX"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting || !code.trim()}
+            className="w-full px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold rounded-xl shadow-lg shadow-indigo-500/25 hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {isSubmitting ? 'Linking...' : 'Link Browser'}
+          </button>
+        </form>
+
+        <p className="mt-6 text-center text-sm text-gray-600">
+          Protected your profile with a passphrase?{' '}
+          <Link href="/recover" className="text-indigo-600 font-medium hover:underline">
+            Restore it instead
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -150,7 +150,7 @@ export default function Home() {
           
           <div className="grid grid-cols-1 md:grid-cols-3 gap-8 max-w-5xl mx-auto">
             {[
-              { step: '01', icon: '📝', title: 'Take the Assessment', desc: 'Answer 25 questions across 7 psychological dimensions. No email, completely anonymous.', color: 'indigo' },
+              { step: '01', icon: '📝', title: 'Take the Assessment', desc: 'Answer 32 questions across 7 psychological dimensions. No email, completely anonymous.', color: 'indigo' },
               { step: '02', icon: '🎯', title: 'Discover Your Archetype', desc: 'Get classified into one of 8 founder archetypes based on your unique psychological profile.', color: 'purple' },
               { step: '03', icon: '🤖', title: 'Get AI Insights', desc: 'Receive personalized recommendations and actionable advice from our AI psychologist.', color: 'pink' },
             ].map((item, i) => (
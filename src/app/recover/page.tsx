@@ -0,0 +1,47 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { RecoverProfileForm } from '@/components/Account';
+import { resetSession } from '@/hooks/useSession';
+
+export default function RecoverPage() {
+  const router = useRouter();
+
+  const handleRecovered = (pseudonym: string) => {
+    // The login replaced the session cookie, so drop the cached anonymous session
+    resetSession();
+    localStorage.setItem('fmindset_pseudonym', pseudonym);
+    router.push('/dashboard');
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      <div className="fixed inset-0 bg-gradient-to-br from-slate-50 via-indigo-50/30 to-purple-50/30" />
+
+      <div className="relative z-10 max-w-md mx-auto px-4 pt-24 pb-16">
+        <div className="mb-8 text-center animate-fade-in-up">
+          <span className="text-5xl mb-4 block">🔑</span>
+          <h1 className="text-3xl font-extrabold text-gray-900 tracking-tight">
+            <span className="gradient-text">Restore Your Profile</span>
+          </h1>
+          <p className="text-gray-600 mt-3">
+            Log in with the pseudonym and passphrase you set in Settings to bring your
+            assessments, journal and streaks to this device.
+          </p>
+        </div>
+
+        <div className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg shadow-gray-100/50 p-8 animate-fade-in-up animation-delay-100">
+          <RecoverProfileForm onSuccess={handleRecovered} />
+        </div>
+
+        <p className="mt-6 text-center text-sm text-gray-600">
+          No protected profile yet?{' '}
+          <Link href="/assessment/quiz" className="text-indigo-600 font-medium hover:underline">
+            Take the assessment
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
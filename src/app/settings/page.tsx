@@ -2,9 +2,14 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { useSession, resetSession } from '@/hooks/useSession';
+import { PassphraseForm, LinkedDevices, TransferCodePanel } from '@/components/Account';
+import { CRISIS_REGIONS } from '@/utils/crisisResources';
+import type { CrisisResourcesResponse } from '@/types/assessment';
 
 export default function SettingsPage() {
-  const [odId, setOdId] = useState<string | null>(null);
+  const { odId, isAnonymous } = useSession({ create: false });
+  const [isClaimed, setIsClaimed] = useState<boolean | null>(null);
   const [pseudonymStatus, setPseudonymStatus] = useState<{
     canRegenerate: boolean;
     nextAvailableDate?: string;
@@ -13,14 +18,93 @@ export default function SettingsPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [shareNotesWithAI, setShareNotesWithAI] = useState<boolean | null>(null);
+  const [crisisResources, setCrisisResources] = useState<CrisisResourcesResponse | null>(null);
 
   useEffect(() => {
-    const storedOdId = localStorage.getItem('odId') || localStorage.getItem('fmindset_odId');
-    setOdId(storedOdId);
-    if (storedOdId) {
+    if (odId) {
       checkPseudonymCooldown();
+      fetchAIPreferences();
+      fetchCrisisResources();
     }
-  }, []);
+  }, [odId]);
+
+  const fetchCrisisResources = async () => {
+    try {
+      const response = await fetch('/api/user/crisis-resources');
+      if (response.ok) {
+        setCrisisResources(await response.json());
+      }
+    } catch {
+      // Region picker stays hidden until the setting loads
+    }
+  };
+
+  const handleCrisisRegionChange = async (value: string) => {
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/user/crisis-resources', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ region: value === '' ? null : value }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setCrisisResources(data);
+        setMessage({ type: 'success', text: 'Your crisis resources region has been updated.' });
+      } else {
+        setMessage({ type: 'error', text: data.error });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Failed to update crisis resources region' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchAIPreferences = async () => {
+    try {
+      const response = await fetch('/api/user/preferences');
+      if (response.ok) {
+        const data = await response.json();
+        setShareNotesWithAI(data.shareNotesWithAI);
+      }
+    } catch {
+      // Toggle stays hidden until preferences load
+    }
+  };
+
+  const handleToggleShareNotes = async () => {
+    if (shareNotesWithAI === null) return;
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/user/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shareNotesWithAI: !shareNotesWithAI }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setShareNotesWithAI(data.shareNotesWithAI);
+        setMessage({
+          type: 'success',
+          text: data.shareNotesWithAI
+            ? 'Your journal notes will be included in weekly reflections.'
+            : 'Your journal notes will no longer be sent to AI.',
+        });
+      } else {
+        setMessage({ type: 'error', text: data.error });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Failed to update preferences' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   const checkPseudonymCooldown = () => {
     const currentPseudonym = localStorage.getItem('fmindset_pseudonym');
@@ -45,8 +129,6 @@ export default function SettingsPage() {
     try {
       const response = await fetch('/api/user/pseudonym', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ odId }),
       });
       const data = await response.json();
       if (response.ok) {
@@ -66,12 +148,29 @@ export default function SettingsPage() {
     }
   };
 
+  const profileClaimed = isClaimed ?? !isAnonymous;
+
+  const handlePassphraseSaved = (pseudonym: string) => {
+    localStorage.setItem('fmindset_pseudonym', pseudonym);
+    setIsClaimed(true);
+    checkPseudonymCooldown();
+    setMessage({
+      type: 'success',
+      text: `Profile protected. Log in on other devices as ${pseudonym} with your passphrase.`,
+    });
+  };
+
+  const handleCurrentDeviceUnlinked = () => {
+    resetSession();
+    window.location.href = '/';
+  };
+
   const handleExportData = async () => {
     if (!odId) return;
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/user/data?odId=${odId}`);
+      const response = await fetch('/api/user/data');
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -94,11 +193,11 @@ export default function SettingsPage() {
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/user/data?odId=${odId}&confirm=true`, {
+      const response = await fetch('/api/user/data?confirm=true', {
         method: 'DELETE',
       });
       if (response.ok) {
-        localStorage.removeItem('odId');
+        resetSession();
         setMessage({ type: 'success', text: 'All data deleted. Redirecting...' });
         setTimeout(() => {
           window.location.href = '/';
@@ -123,6 +222,18 @@ export default function SettingsPage() {
           <div className="bg-white/80 backdrop-blur-sm rounded-3xl p-10 border border-white/50 shadow-xl">
             <span className="text-6xl mb-6 block">🔐</span>
             <p className="text-gray-600 mb-6 text-lg">No user session found</p>
+            <Link
+              href="/recover"
+              className="block mb-4 text-indigo-600 font-medium hover:underline"
+            >
+              Restore a protected profile
+            </Link>
+            <Link
+              href="/link"
+              className="block mb-4 text-indigo-600 font-medium hover:underline"
+            >
+              Link with a transfer code
+            </Link>
             <Link 
               href="/assessment/quiz" 
               className="inline-flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold rounded-xl shadow-lg shadow-indigo-500/25 hover:shadow-xl hover:scale-105 transition-all"
@@ -216,6 +327,139 @@ export default function SettingsPage() {
           </div>
         </section>
 
+        {/* Account Protection Section */}
+        <section className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg shadow-gray-100/50 p-8 mb-6 animate-fade-in-up animation-delay-100">
+          <div className="flex items-start gap-4 mb-4">
+            <div className="p-3 bg-gradient-to-br from-amber-500 to-orange-600 rounded-2xl shadow-lg shadow-amber-500/30">
+              <span className="text-2xl">🔑</span>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">
+                {profileClaimed ? 'Profile Protected' : 'Protect Your Profile'}
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {profileClaimed
+                  ? 'Log in on any device with your pseudonym and passphrase. Regenerating your pseudonym changes your login name.'
+                  : 'Your data lives in this browser only. Set a passphrase (no email needed) to restore it on another device or after clearing your browser.'}
+              </p>
+            </div>
+          </div>
+
+          <PassphraseForm isClaimed={profileClaimed} onSuccess={handlePassphraseSaved} />
+
+          {!profileClaimed && (
+            <p className="mt-4 text-sm text-gray-600">
+              Already protected a profile elsewhere?{' '}
+              <Link href="/recover" className="text-indigo-600 font-medium hover:underline">
+                Restore it here
+              </Link>
+            </p>
+          )}
+        </section>
+
+        {/* Linked Devices Section */}
+        <section className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg shadow-gray-100/50 p-8 mb-6 animate-fade-in-up animation-delay-100">
+          <div className="flex items-start gap-4 mb-4">
+            <div className="p-3 bg-gradient-to-br from-cyan-500 to-blue-600 rounded-2xl shadow-lg shadow-cyan-500/30">
+              <span className="text-2xl">📱</span>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Linked Devices</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Use a one-time transfer code to open your profile in another browser, no passphrase
+                needed. Codes expire after 10 minutes.
+              </p>
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <TransferCodePanel />
+          </div>
+
+          <LinkedDevices onCurrentDeviceUnlinked={handleCurrentDeviceUnlinked} />
+        </section>
+
+        {/* AI Privacy Section */}
+        {shareNotesWithAI !== null && (
+          <section className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg shadow-gray-100/50 p-8 mb-6 animate-fade-in-up animation-delay-200">
+            <div className="flex items-start gap-4 mb-4">
+              <div className="p-3 bg-gradient-to-br from-violet-500 to-fuchsia-600 rounded-2xl shadow-lg shadow-violet-500/30">
+                <span className="text-2xl">🪞</span>
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Journal Notes & AI</h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  Your weekly reflection is written by AI from your check-ins. When this is on, your
+                  journal notes are sent along with your ratings. Turn it off to share ratings only.
+                </p>
+              </div>
+            </div>
+
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={shareNotesWithAI}
+                onChange={handleToggleShareNotes}
+                disabled={isLoading}
+                className="w-5 h-5 rounded text-indigo-600 focus:ring-indigo-500"
+              />
+              <span className="font-medium text-gray-700">Include my journal notes in AI reflections</span>
+            </label>
+          </section>
+        )}
+
+        {/* Crisis Resources Section */}
+        {crisisResources && (
+          <section className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg shadow-gray-100/50 p-8 mb-6 animate-fade-in-up animation-delay-200">
+            <div className="flex items-start gap-4 mb-4">
+              <div className="p-3 bg-gradient-to-br from-rose-500 to-red-600 rounded-2xl shadow-lg shadow-rose-500/30">
+                <span className="text-2xl">🆘</span>
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Crisis Resources</h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  When things look hard, we show helplines for your region. By default it follows your
+                  browser language; pick a region if that gets it wrong.
+                </p>
+              </div>
+            </div>
+
+            <label htmlFor="crisis-region" className="block text-sm font-medium text-gray-700 mb-2">
+              Region
+            </label>
+            <select
+              id="crisis-region"
+              value={crisisResources.setting ?? ''}
+              onChange={(e) => handleCrisisRegionChange(e.target.value)}
+              disabled={isLoading}
+              className="w-full sm:w-auto px-4 py-2 border border-gray-200 rounded-xl bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              <option value="">Follow my browser language</option>
+              {CRISIS_REGIONS.map((region) => (
+                <option key={region.code} value={region.code}>{region.name}</option>
+              ))}
+            </select>
+
+            <ul className="mt-4 space-y-1 text-sm text-gray-700">
+              {crisisResources.resources.hotlines.map((hotline) => (
+                <li key={hotline.name}>
+                  <span className="font-medium">{hotline.name}:</span> {hotline.number} ({hotline.available})
+                </li>
+              ))}
+              <li>
+                <a
+                  href={crisisResources.resources.directory.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-indigo-600 hover:underline"
+                >
+                  Other countries: {crisisResources.resources.directory.name}
+                </a>
+              </li>
+            </ul>
+          </section>
+        )}
+
         {/* Data Export Section */}
         <section className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg shadow-gray-100/50 p-8 mb-6 animate-fade-in-up animation-delay-200">
           <div className="flex items-start gap-4 mb-4">
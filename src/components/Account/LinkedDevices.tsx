@@ -0,0 +1,118 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface LinkedDevice {
+  id: string;
+  label: string;
+  createdAt: string;
+  lastSeenAt: string;
+  isCurrent: boolean;
+}
+
+interface LinkedDevicesProps {
+  /** Called after the current browser unlinks itself */
+  onCurrentDeviceUnlinked?: () => void;
+}
+
+export function LinkedDevices({ onCurrentDeviceUnlinked }: LinkedDevicesProps) {
+  const [devices, setDevices] = useState<LinkedDevice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [unlinkingId, setUnlinkingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDevices = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/devices');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load devices');
+      }
+      setDevices(data.devices || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDevices();
+  }, [fetchDevices]);
+
+  const handleUnlink = async (device: LinkedDevice) => {
+    if (device.isCurrent && !confirm('Unlink this browser? You will need a transfer code or passphrase to get back in.')) {
+      return;
+    }
+
+    setUnlinkingId(device.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/user/devices?id=${encodeURIComponent(device.id)}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unlink device');
+      }
+
+      if (data.isCurrent) {
+        onCurrentDeviceUnlinked?.();
+        return;
+      }
+      setDevices((prev) => prev.filter((d) => d.id !== device.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setUnlinkingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading devices...</p>;
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 p-3 bg-rose-50 border border-rose-200 rounded-xl text-rose-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {devices.map((device) => (
+          <li
+            key={device.id}
+            className="flex items-center justify-between gap-4 p-4 bg-gray-50 rounded-xl"
+          >
+            <div>
+              <p className="font-semibold text-gray-900">
+                {device.label}
+                {device.isCurrent && (
+                  <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-indigo-100 text-indigo-700 rounded-full">
+                    This browser
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                Linked {formatDistanceToNow(new Date(device.createdAt), { addSuffix: true })} · Last active{' '}
+                {formatDistanceToNow(new Date(device.lastSeenAt), { addSuffix: true })}
+              </p>
+            </div>
+            <button
+              onClick={() => handleUnlink(device)}
+              disabled={unlinkingId === device.id}
+              className="px-4 py-2 text-sm bg-white border-2 border-gray-200 text-gray-700 font-semibold rounded-xl hover:border-rose-300 hover:text-rose-700 disabled:opacity-50 transition-all"
+            >
+              {unlinkingId === device.id ? 'Unlinking...' : 'Unlink'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default LinkedDevices;
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+
+interface PassphraseFormProps {
+  /** Whether the profile already has a passphrase (changing requires the current one) */
+  isClaimed: boolean;
+  onSuccess?: (pseudonym: string) => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+export function PassphraseForm({ isClaimed, onSuccess }: PassphraseFormProps) {
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/user/account', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          passphrase,
+          ...(isClaimed && { currentPassphrase }),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save passphrase');
+      }
+
+      setCurrentPassphrase('');
+      setPassphrase('');
+      setConfirmPassphrase('');
+      onSuccess?.(data.pseudonym);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-rose-50 border border-rose-200 rounded-xl text-rose-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isClaimed && (
+        <div>
+          <label htmlFor="currentPassphrase" className="block text-sm font-medium text-gray-700 mb-1">
+            Current passphrase
+          </label>
+          <input
+            type="password"
+            id="currentPassphrase"
+            value={currentPassphrase}
+            onChange={(e) => setCurrentPassphrase(e.target.value)}
+            autoComplete="current-password"
+            required
+            className={inputClassName}
+          />
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="passphrase" className="block text-sm font-medium text-gray-700 mb-1">
+          {isClaimed ? 'New passphrase' : 'Passphrase'}
+        </label>
+        <input
+          type="password"
+          id="passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoComplete="new-password"
+          minLength={MIN_PASSPHRASE_LENGTH}
+          maxLength={128}
+          required
+          className={inputClassName}
+          placeholder="e.g. four random words you will remember"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="confirmPassphrase" className="block text-sm font-medium text-gray-700 mb-1">
+          Confirm passphrase
+        </label>
+        <input
+          type="password"
+          id="confirmPassphrase"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          autoComplete="new-password"
+          required
+          className={inputClassName}
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold rounded-xl shadow-lg shadow-indigo-500/25 hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        {isSubmitting ? 'Saving...' : isClaimed ? 'Change Passphrase' : 'Protect My Profile'}
+      </button>
+    </form>
+  );
+}
+
+export default PassphraseForm;
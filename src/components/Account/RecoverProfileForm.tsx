@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+
+interface RecoverProfileFormProps {
+  onSuccess?: (pseudonym: string) => void;
+}
+
+export function RecoverProfileForm({ onSuccess }: RecoverProfileFormProps) {
+  const [pseudonym, setPseudonym] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/user/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pseudonym: pseudonym.trim(), passphrase }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore profile');
+      }
+
+      setPassphrase('');
+      onSuccess?.(data.pseudonym);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-rose-50 border border-rose-200 rounded-xl text-rose-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="pseudonym" className="block text-sm font-medium text-gray-700 mb-1">
+          Pseudonym
+        </label>
+        <input
+          type="text"
+          id="pseudonym"
+          value={pseudonym}
+          onChange={(e) => setPseudonym(e.target.value)}
+          autoComplete="username"
+          required
+          className={inputClassName}
+          placeholder="Founder-1234"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="recoverPassphrase" className="block text-sm font-medium text-gray-700 mb-1">
+          Passphrase
+        </label>
+        <input
+          type="password"
+          id="recoverPassphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoComplete="current-password"
+          required
+          className={inputClassName}
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting || !pseudonym.trim() || !passphrase}
+        className="w-full px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold rounded-xl shadow-lg shadow-indigo-500/25 hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        {isSubmitting ? 'Restoring...' : 'Restore My Profile'}
+      </button>
+    </form>
+  );
+}
+
+export default RecoverProfileForm;
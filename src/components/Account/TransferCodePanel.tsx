@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface GeneratedCode {
+  id: string;
+  code: string;
+  expiresAt: string;
+  linkPath: string;
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+export function TransferCodePanel() {
+  const [transferCode, setTransferCode] = useState<GeneratedCode | null>(null);
+  const [remainingMs, setRemainingMs] = useState(0);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Count down until the code expires
+  useEffect(() => {
+    if (!transferCode) return;
+
+    const tick = () => {
+      const remaining = new Date(transferCode.expiresAt).getTime() - Date.now();
+      setRemainingMs(remaining);
+      if (remaining <= 0) {
+        setTransferCode(null);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [transferCode]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/user/transfer', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create transfer code');
+      }
+      setTransferCode(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!transferCode) return;
+    try {
+      const response = await fetch(`/api/user/transfer?id=${encodeURIComponent(transferCode.id)}`, {
+        method: 'DELETE',
+      });
+      // 404 means the code was already used or expired - it is gone either way
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to revoke code');
+      }
+      setTransferCode(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleCopyLink = () => {
+    if (!transferCode) return;
+    navigator.clipboard.writeText(`${window.location.origin}${transferCode.linkPath}`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 p-3 bg-rose-50 border border-rose-200 rounded-xl text-rose-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {transferCode ? (
+        <div className="p-6 bg-gradient-to-r from-indigo-50 to-purple-50 rounded-2xl text-center animate-scale-in">
+          <p className="text-sm text-gray-600 mb-2">
+            On your other browser, open <span className="font-mono">/link</span> and enter:
+          </p>
+          <p className="text-3xl font-mono font-bold tracking-widest text-gray-900 mb-2">
+            {transferCode.code}
+          </p>
+          <p className="text-sm text-gray-500 mb-4">
+            Expires in {formatRemaining(remainingMs)} · Works once
+          </p>
+          <div className="flex justify-center gap-3">
+            <button
+              onClick={handleCopyLink}
+              className="px-4 py-2 text-sm bg-indigo-600 text-white font-semibold rounded-xl hover:bg-indigo-700 transition-colors"
+            >
+              {copied ? 'Copied!' : 'Copy Link'}
+            </button>
+            <button
+              onClick={handleRevoke}
+              className="px-4 py-2 text-sm bg-white border-2 border-gray-200 text-gray-700 font-semibold rounded-xl hover:border-rose-300 hover:text-rose-700 transition-all"
+            >
+              Revoke Code
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="px-6 py-3 bg-white border-2 border-gray-200 text-gray-700 font-semibold rounded-xl hover:border-indigo-300 hover:bg-indigo-50 hover:shadow-lg disabled:opacity-50 transition-all"
+        >
+          {isGenerating ? 'Generating...' : '🔗 Generate Transfer Code'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default TransferCodePanel;
@@ -0,0 +1,4 @@
+export { PassphraseForm } from './PassphraseForm';
+export { RecoverProfileForm } from './RecoverProfileForm';
+export { LinkedDevices } from './LinkedDevices';
+export { TransferCodePanel } from './TransferCodePanel';
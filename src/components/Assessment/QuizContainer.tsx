@@ -3,9 +3,11 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { AnswerValue } from '@/types/assessment';
-import { QUIZ_QUESTIONS } from '@/utils/constants';
+import { CURRENT_QUESTION_BANK } from '@/utils/questionBanks';
 import { QuizQuestion, QuizOption } from './QuizQuestion';
 
+const QUESTIONS = CURRENT_QUESTION_BANK.questions;
+
 // Session storage keys for preserving progress
 const STORAGE_KEYS = {
   ANSWERS: 'fmindset_quiz_answers',
@@ -19,7 +21,7 @@ const LOCAL_STORAGE_KEYS = {
 };
 
 export interface QuizContainerProps {
-  onSubmit: (answers: AnswerValue[]) => Promise<void>;
+  onSubmit: (answers: AnswerValue[], timings: (number | null)[]) => Promise<void>;
   initialAnswers?: (AnswerValue | null)[];
   initialQuestionIndex?: number;
 }
@@ -46,8 +48,9 @@ function getInitialState(
         const parsedAnswers = JSON.parse(storedAnswers);
         const parsedIndex = storedIndex ? parseInt(storedIndex, 10) : 0;
         
-        // Use storage values if they have progress
-        if (parsedAnswers.some((a: AnswerValue | null) => a !== null) || parsedIndex > 0) {
+        // Use storage values if they have progress on the current question bank
+        const hasProgress = parsedAnswers.some((a: AnswerValue | null) => a !== null) || parsedIndex > 0;
+        if (parsedAnswers.length === QUESTIONS.length && hasProgress) {
           return { answers: parsedAnswers, index: parsedIndex };
         }
       }
@@ -58,14 +61,14 @@ function getInitialState(
   
   // Fall back to props
   return {
-    answers: propAnswers || Array(25).fill(null),
+    answers: propAnswers || Array(QUESTIONS.length).fill(null),
     index: propIndex || 0,
   };
 }
 
 /**
  * QuizContainer Component
- * Manages the 25-question quiz flow with navigation, state preservation,
+ * Manages the quiz flow for the current question bank with navigation, state preservation,
  * validation, and submission handling.
  * 
  * Requirements: 1.4, 1.7, 1.8, 1.9, 2.4, 2.5, 2.6, 2.7, 2.8, 2.9, 2.10, 2.11, 2.12
@@ -92,14 +95,18 @@ export function QuizContainer({
   const [error, setError] = useState<string | null>(null);
   const [showExitModal, setShowExitModal] = useState(false);
   
+  // Milliseconds spent on each question in this visit (null if never shown, e.g. restored progress)
+  const timings = useRef<(number | null)[]>(Array(QUESTIONS.length).fill(null));
+  const questionShownAt = useRef<number>(0);
+
   // Debounce refs
   const lastClickTime = useRef<number>(0);
   const submitInProgress = useRef<boolean>(false);
   const DEBOUNCE_MS = 300;
 
-  const currentQuestion = QUIZ_QUESTIONS[currentQuestionIndex];
+  const currentQuestion = QUESTIONS[currentQuestionIndex];
   const isFirstQuestion = currentQuestionIndex === 0;
-  const isLastQuestion = currentQuestionIndex === QUIZ_QUESTIONS.length - 1;
+  const isLastQuestion = currentQuestionIndex === QUESTIONS.length - 1;
   const currentAnswer = answers[currentQuestionIndex];
 
   // Convert question options to QuizOption array
@@ -136,6 +143,17 @@ export function QuizContainer({
     }
   }, [answers, currentQuestionIndex]);
 
+  /**
+   * Track time spent per question; time on a question accumulates across revisits
+   */
+  useEffect(() => {
+    questionShownAt.current = Date.now();
+    return () => {
+      const spent = Date.now() - questionShownAt.current;
+      timings.current[currentQuestionIndex] = (timings.current[currentQuestionIndex] ?? 0) + spent;
+    };
+  }, [currentQuestionIndex]);
+
   /**
    * Handle answer selection - immediately updates state
    * Requirements: 2.3, 2.8, 2.11
@@ -195,10 +213,10 @@ export function QuizContainer({
       return;
     }
 
-    // Validate all 25 answers present
-    const hasAllAnswers = answers.every((a) => a !== null);
+    // Validate every question is answered
+    const hasAllAnswers = answers.length === QUESTIONS.length && answers.every((a) => a !== null);
     if (!hasAllAnswers) {
-      setError('All 25 questions required');
+      setError(`All ${QUESTIONS.length} questions required`);
       return;
     }
 
@@ -207,7 +225,12 @@ export function QuizContainer({
     setError(null);
 
     try {
-      await onSubmit(answers as AnswerValue[]);
+      // Include the time spent so far on the last question
+      const submittedTimings = [...timings.current];
+      submittedTimings[currentQuestionIndex] =
+        (submittedTimings[currentQuestionIndex] ?? 0) + (Date.now() - questionShownAt.current);
+
+      await onSubmit(answers as AnswerValue[], submittedTimings);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Submission failed. Try again.';
       setError(message);
@@ -215,7 +238,7 @@ export function QuizContainer({
       setIsSubmitting(false);
       submitInProgress.current = false;
     }
-  }, [answers, currentAnswer, isSubmitting, onSubmit]);
+  }, [answers, currentAnswer, currentQuestionIndex, isSubmitting, onSubmit]);
 
   /**
    * Handle exit quiz - show confirmation modal
@@ -298,7 +321,7 @@ export function QuizContainer({
         options={questionOptions}
         selectedOption={currentAnswer}
         onSelect={handleSelect}
-        progress={{ current: currentQuestionIndex + 1, total: QUIZ_QUESTIONS.length }}
+        progress={{ current: currentQuestionIndex + 1, total: QUESTIONS.length }}
       />
 
       {/* Error message */}
@@ -360,7 +383,7 @@ export function QuizContainer({
 
         {/* Progress summary */}
         <p className="text-center text-sm text-gray-500 mt-4">
-          {answeredCount} of {QUIZ_QUESTIONS.length} questions answered
+          {answeredCount} of {QUESTIONS.length} questions answered
         </p>
       </div>
     </div>
@@ -1,15 +1,24 @@
 'use client';
 
 import React, { useState } from 'react';
-import { PsychologicalScores, ArchetypeResult } from '@/types/assessment';
+import { PsychologicalScores, ArchetypeResult, ArchetypeEvaluation, AssessmentReliability, ResponseQuality, StructuredInsights, CrisisResources } from '@/types/assessment';
 import { getScoreColor } from '@/utils/scoreColorUtils';
+import { getCrisisResources } from '@/utils/crisisResources';
 
 export interface ResultsDisplayProps {
   scores: PsychologicalScores;
   archetype: ArchetypeResult;
+  archetypeExplanation?: ArchetypeEvaluation | null;
   recommendations: string[];
+  reliability?: AssessmentReliability;
+  quality?: ResponseQuality | null;
   groqInsights: string | null;
+  structuredInsights?: StructuredInsights | null;  // Rendered as cards when present; groqInsights is the text fallback
+  insightsCrisisResources?: CrisisResources | null;  // Shown with the cards; the text fallback already includes them
+  crisisResources?: CrisisResources | null;  // For the urgent notice, in the user's region; international directories when missing
   isLoadingInsights: boolean;
+  isStreamingInsights?: boolean;  // Insights are still arriving; groqInsights holds the text so far
+  onRegenerateInsights?: () => void;  // Shows a button to replace the insights with freshly generated ones
 }
 
 // Re-export for backwards compatibility
@@ -35,8 +44,25 @@ const DIMENSION_LABELS: Record<string, string> = {
   fearOfRejection: 'Fear of Rejection',
   riskTolerance: 'Risk Tolerance',
   isolationLevel: 'Isolation Level',
+  motivationIntrinsic: 'Intrinsic Motivation',
+  motivationExtrinsic: 'Extrinsic Motivation',
 };
 
+function MotivationBalance({ score }: { score: number }) {
+  return (
+    <div className="mt-3">
+      <div className="flex justify-between text-xs text-gray-500 mb-1">
+        <span>Extrinsic</span>
+        <span>Intrinsic</span>
+      </div>
+      <div className="relative w-full bg-gradient-to-r from-amber-100 via-gray-100 to-blue-100 rounded-full h-3">
+        <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-4 h-4 bg-blue-600 border-2 border-white rounded-full shadow"
+          style={{ left: `${score}%` }} aria-label={`Motivation balance ${score} of 100 toward intrinsic`} />
+      </div>
+    </div>
+  );
+}
+
 function ScoreBar({ label, score }: { label: string; score: number }) {
   const [showTooltip, setShowTooltip] = useState(false);
   const { bg, text, tooltip } = getScoreColor(score);
@@ -82,6 +108,59 @@ function RecommendationCard({ recommendation, index }: { recommendation: string;
   );
 }
 
+/**
+ * Attribution line under the AI insights, with an optional regenerate button
+ */
+function InsightsFooter({ onRegenerate }: { onRegenerate?: () => void }) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <p className="text-xs text-purple-500 font-medium flex items-center gap-1">
+        <span>✨</span>
+        <span>Generated by Groq LLaMA 3.3 70B</span>
+      </p>
+      {onRegenerate && (
+        <button onClick={onRegenerate} className="text-xs text-purple-600 hover:text-purple-800 font-medium">
+          ↻ Regenerate
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * AI insights rendered as cards: summary, recommendations and the warning sign
+ */
+function StructuredInsightsCards({ insights, crisisResources }: { insights: StructuredInsights; crisisResources: CrisisResources | null }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-gray-700 leading-relaxed">{insights.summary}</p>
+      <div className="space-y-3">
+        {insights.recommendations.map((rec, idx) => <RecommendationCard key={idx} recommendation={rec} index={idx} />)}
+      </div>
+      <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+        <p className="text-xs font-semibold text-amber-700 uppercase tracking-wide mb-1">⚠️ Warning sign to watch for</p>
+        <p className="text-sm text-amber-900 leading-relaxed">{insights.warningSign}</p>
+      </div>
+      {crisisResources && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg" role="note">
+          <p className="text-sm font-semibold text-red-800 mb-2">🆘 {crisisResources.message}</p>
+          <ul className="space-y-1">
+            {crisisResources.hotlines.map((hotline) => (
+              <li key={hotline.name} className="text-sm text-red-900">
+                <span className="font-medium">{hotline.name}:</span> {hotline.number} ({hotline.available})
+              </li>
+            ))}
+            <li className="text-sm text-red-900">
+              <a href={crisisResources.directory.url} target="_blank" rel="noopener noreferrer" className="font-medium underline">
+                Other countries: {crisisResources.directory.name}
+              </a>
+            </li>
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
 
 /**
  * ResultsDisplay Component
@@ -92,11 +171,25 @@ function RecommendationCard({ recommendation, index }: { recommendation: string;
 export function ResultsDisplay({
   scores,
   archetype,
+  archetypeExplanation = null,
   recommendations,
+  reliability = {},
+  quality = null,
   groqInsights,
+  structuredInsights = null,
+  insightsCrisisResources = null,
+  crisisResources = null,
   isLoadingInsights,
+  isStreamingInsights = false,
+  onRegenerateInsights,
 }: ResultsDisplayProps) {
   const emoji = ARCHETYPE_EMOJIS[archetype.name] || '🎯';
+  const urgentResources = crisisResources ?? getCrisisResources();
+
+  // Dimensions whose items were answered inconsistently
+  const lowReliability = Object.entries(reliability)
+    .filter(([, value]) => value?.level === 'low')
+    .map(([key]) => DIMENSION_LABELS[key] || key);
 
   // Get numeric scores for display (excluding motivationType)
   const numericScores = [
@@ -121,19 +214,36 @@ export function ResultsDisplay({
                 Your assessment indicates elevated stress across multiple areas. 
                 Please consider reaching out to a mental health professional or trusted mentor.
               </p>
+              <ul className="mt-2 space-y-1">
+                {urgentResources.hotlines.map((hotline) => (
+                  <li key={hotline.name} className="text-sm text-red-800">
+                    <span className="font-medium">{hotline.name}:</span> {hotline.number} ({hotline.available})
+                  </li>
+                ))}
+              </ul>
               <a
-                href="https://www.samhsa.gov/find-help/national-helpline"
+                href={urgentResources.directory.url}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="inline-block mt-2 text-red-600 hover:text-red-800 underline font-medium"
               >
-                Mental Health Resources →
+                Helplines in other countries: {urgentResources.directory.name} →
               </a>
             </div>
           </div>
         </div>
       )}
 
+      {/* Low-effort responding - results are shown but may not reflect the founder well */}
+      {quality && quality.level !== 'good' && (
+        <div className="mb-6 p-4 bg-amber-50 border-l-4 border-amber-400 rounded-r-lg">
+          <p className="text-sm text-amber-800">
+            Some of your answers looked rushed or inconsistent, so these results may not describe you
+            accurately. Retaking the assessment at your own pace will give you a clearer picture.
+          </p>
+        </div>
+      )}
+
       {/* Archetype Card - Requirements 5.2 */}
       <div className="mb-8 p-6 bg-gradient-to-br from-blue-50 to-indigo-50 rounded-xl shadow-sm">
         <div className="text-center">
@@ -155,6 +265,47 @@ export function ResultsDisplay({
               <p className="text-sm text-amber-700">{archetype.challenge}</p>
             </div>
           </div>
+          {archetype.blend && (
+            <div className="mt-4 p-3 bg-white/70 rounded-lg text-left">
+              <h4 className="text-sm font-semibold text-gray-800 mb-1">🧬 Your archetype blend</h4>
+              {archetype.blend.secondary ? (
+                <p className="text-sm text-gray-600 mb-2">
+                  Mostly {archetype.blend.primary}, with a strong streak of{' '}
+                  <span className="font-medium">{ARCHETYPE_EMOJIS[archetype.blend.secondary]} {archetype.blend.secondary}</span>.
+                  Results near a boundary can shift between these two on a retake.
+                </p>
+              ) : (
+                <p className="text-sm text-gray-600 mb-2">Your profile fits {archetype.blend.primary} clearly.</p>
+              )}
+              <div className="space-y-1.5">
+                {archetype.blend.affinities.slice(0, 3).map(({ name, affinity }) => (
+                  <div key={name} className="flex items-center gap-2 text-xs text-gray-600">
+                    <span className="w-40 truncate">{ARCHETYPE_EMOJIS[name]} {name}</span>
+                    <div className="flex-1 bg-gray-200 rounded-full h-2">
+                      <div className="bg-indigo-500 h-2 rounded-full" style={{ width: `${affinity}%` }} />
+                    </div>
+                    <span className="w-8 text-right">{affinity}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          {archetypeExplanation && (
+            <div className="mt-4 p-3 bg-white/70 rounded-lg text-left">
+              <h4 className="text-sm font-semibold text-gray-800 mb-1">🔍 Why this archetype</h4>
+              <ul className="text-sm text-gray-600 list-disc list-inside space-y-0.5">
+                {archetypeExplanation.reasons.map((reason) => <li key={reason}>{reason}</li>)}
+              </ul>
+              {archetypeExplanation.runnerUp && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Closest alternative: {archetypeExplanation.runnerUp.archetype}
+                  {archetypeExplanation.runnerUp.margin === 0
+                    ? ' (also a match)'
+                    : ` (${archetypeExplanation.runnerUp.margin} points away)`}
+                </p>
+              )}
+            </div>
+          )}
           {archetype.encouragement && (
             <div className="mt-4 p-3 bg-purple-50 rounded-lg text-left">
               <h4 className="text-sm font-semibold text-purple-800 mb-1">🌟 Encouragement</h4>
@@ -174,7 +325,14 @@ export function ResultsDisplay({
               <span className="text-sm font-medium text-gray-700">Motivation Type</span>
               <span className="px-3 py-1 bg-blue-100 text-blue-700 text-sm font-medium rounded-full capitalize">{scores.motivationType}</span>
             </div>
+            {scores.motivationScore !== undefined && <MotivationBalance score={scores.motivationScore} />}
           </div>
+          {lowReliability.length > 0 && (
+            <p className="mt-4 pt-4 border-t border-gray-200 text-xs text-gray-500">
+              Your answers for {lowReliability.join(', ')} pointed in different directions, so
+              {lowReliability.length === 1 ? ' that score is' : ' those scores are'} less certain.
+            </p>
+          )}
         </div>
       </div>
 
@@ -200,17 +358,28 @@ export function ResultsDisplay({
                 <p className="text-purple-600 text-sm font-medium">Generating personalized insights...</p>
               </div>
             </div>
+          ) : structuredInsights && !isStreamingInsights ? (
+            <div className="animate-fade-in">
+              <StructuredInsightsCards insights={structuredInsights} crisisResources={insightsCrisisResources} />
+              <div className="mt-4 pt-4 border-t border-purple-100">
+                <InsightsFooter onRegenerate={onRegenerateInsights} />
+              </div>
+            </div>
           ) : groqInsights ? (
             <div className="animate-fade-in">
               <div className="prose prose-sm max-w-none">
-                <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">{groqInsights}</p>
-              </div>
-              <div className="mt-4 pt-4 border-t border-purple-100">
-                <p className="text-xs text-purple-500 font-medium flex items-center gap-1">
-                  <span>✨</span>
-                  <span>Generated by Groq LLaMA 3.3 70B</span>
+                <p className="text-gray-700 leading-relaxed whitespace-pre-wrap" aria-live="polite" aria-busy={isStreamingInsights}>
+                  {groqInsights}
+                  {isStreamingInsights && (
+                    <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-purple-400 animate-pulse" aria-hidden="true" />
+                  )}
                 </p>
               </div>
+              {!isStreamingInsights && (
+                <div className="mt-4 pt-4 border-t border-purple-100">
+                  <InsightsFooter onRegenerate={onRegenerateInsights} />
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-6">
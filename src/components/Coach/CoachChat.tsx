@@ -0,0 +1,215 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type {
+  CoachChatMessage,
+  CoachChatResponse,
+  CoachConversationResponse,
+  CrisisResources,
+} from '@/types/assessment';
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+export function CoachChat() {
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<CoachChatMessage[]>([]);
+  const [crisisResources, setCrisisResources] = useState<CrisisResources | null>(null);
+  const [remainingTurns, setRemainingTurns] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Pick up where the last conversation left off
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/coach/chat');
+        if (response.ok) {
+          const data: CoachConversationResponse = await response.json();
+          setConversationId(data.conversationId);
+          setMessages(data.messages);
+          setCrisisResources(data.crisisResources);
+          setRemainingTurns(data.remainingTurns);
+        }
+      } catch {
+        setError('Failed to load your conversation');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView?.({ behavior: 'smooth' });
+  }, [messages]);
+
+  const handleNewConversation = () => {
+    setConversationId(null);
+    setMessages([]);
+    setCrisisResources(null);
+    setRemainingTurns(null);
+    setError(null);
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const message = draft.trim();
+    if (!message || isSending) return;
+
+    setIsSending(true);
+    setError(null);
+    setMessages((prev) => [...prev, { role: 'user', content: message, createdAt: new Date().toISOString() }]);
+    setDraft('');
+
+    try {
+      const response = await fetch('/api/coach/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId: conversationId ?? undefined, message }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send message');
+      }
+
+      const chat = data as CoachChatResponse;
+      setConversationId(chat.conversationId);
+      setMessages((prev) => [...prev, chat.reply]);
+      setCrisisResources(chat.crisisResources);
+      setRemainingTurns(chat.remainingTurns);
+    } catch (err) {
+      // Give the message back so it isn't lost
+      setMessages((prev) => prev.slice(0, -1));
+      setDraft(message);
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const conversationFull = remainingTurns !== null && remainingTurns <= 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="relative w-12 h-12">
+          <div className="absolute inset-0 rounded-full border-4 border-indigo-100"></div>
+          <div className="absolute inset-0 rounded-full border-4 border-indigo-600 border-t-transparent animate-spin"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-3xl border border-white/50 shadow-lg shadow-gray-100/50 flex flex-col h-[70vh]">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+        <p className="text-sm text-gray-600">
+          {remainingTurns !== null && conversationId
+            ? `${remainingTurns} message${remainingTurns === 1 ? '' : 's'} left in this conversation`
+            : 'Your coach knows your latest assessment, recent check-ins and today\'s actions.'}
+        </p>
+        {conversationId && (
+          <button
+            onClick={handleNewConversation}
+            disabled={isSending}
+            className="text-sm font-medium text-indigo-600 hover:underline disabled:opacity-50"
+          >
+            New conversation
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4" aria-live="polite">
+        {messages.length === 0 && (
+          <div className="text-center py-12">
+            <span className="text-5xl mb-4 block">💬</span>
+            <p className="text-gray-600 text-lg">Rough day? Tell me what happened.</p>
+          </div>
+        )}
+        {messages.map((message, index) => (
+          <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-[80%] px-4 py-3 rounded-2xl whitespace-pre-line leading-relaxed ${
+                message.role === 'user'
+                  ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-br-md'
+                  : 'bg-gray-100 text-gray-800 rounded-bl-md'
+              }`}
+            >
+              {message.content}
+            </div>
+          </div>
+        ))}
+        {isSending && (
+          <div className="flex justify-start">
+            <div className="px-4 py-3 rounded-2xl bg-gray-100 text-gray-500 rounded-bl-md">Thinking…</div>
+          </div>
+        )}
+
+        {crisisResources && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-2xl" role="alert">
+            <p className="text-sm font-semibold text-red-800 mb-2">{crisisResources.message}</p>
+            <ul className="space-y-1 text-sm text-red-700">
+              {crisisResources.hotlines.map((hotline) => (
+                <li key={hotline.name}>
+                  <span className="font-medium">{hotline.name}:</span> {hotline.number} ({hotline.available})
+                </li>
+              ))}
+              <li>
+                <a href={crisisResources.directory.url} target="_blank" rel="noopener noreferrer" className="font-medium underline">
+                  Other countries: {crisisResources.directory.name}
+                </a>
+              </li>
+            </ul>
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      {error && (
+        <p className="px-6 pb-2 text-sm text-rose-600">{error}</p>
+      )}
+
+      <form onSubmit={handleSend} className="px-6 py-4 border-t border-gray-100">
+        {conversationFull ? (
+          <p className="text-sm text-gray-600 text-center">
+            This conversation has reached its limit.{' '}
+            <button type="button" onClick={handleNewConversation} className="font-medium text-indigo-600 hover:underline">
+              Start a new one
+            </button>
+          </p>
+        ) : (
+          <div className="flex gap-3">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  e.currentTarget.form?.requestSubmit();
+                }
+              }}
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={2}
+              placeholder="Type how you're feeling…"
+              aria-label="Message to your coach"
+              className="flex-1 px-4 py-3 border border-gray-200 rounded-xl resize-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={isSending || !draft.trim()}
+              className="px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold rounded-xl shadow-lg shadow-indigo-500/25 hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              Send
+            </button>
+          </div>
+        )}
+        <p className="mt-2 text-xs text-gray-500">
+          Your coach is an AI, not a therapist. In an emergency, call your local emergency number.
+        </p>
+      </form>
+    </div>
+  );
+}
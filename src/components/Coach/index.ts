@@ -0,0 +1 @@
+export { CoachChat } from './CoachChat';
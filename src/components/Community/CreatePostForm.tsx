@@ -3,7 +3,6 @@
 import { useState } from 'react';
 
 interface CreatePostFormProps {
-  odId: string;
   onSuccess?: () => void;
   onCancel?: () => void;
 }
@@ -15,7 +14,7 @@ const CATEGORIES = [
   { value: 'isolation', label: 'Isolation' },
 ];
 
-export function CreatePostForm({ odId, onSuccess, onCancel }: CreatePostFormProps) {
+export function CreatePostForm({ onSuccess, onCancel }: CreatePostFormProps) {
   const [title, setTitle] = useState('');
   const [body, setBody] = useState('');
   const [category, setCategory] = useState('general');
@@ -33,7 +32,6 @@ export function CreatePostForm({ odId, onSuccess, onCancel }: CreatePostFormProp
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          odId,
           title,
           body,
           category,
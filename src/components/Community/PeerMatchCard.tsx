@@ -7,7 +7,6 @@ interface PeerMatchCardProps {
   matchScore: number;
   sharedDimensions: string[];
   isMutualOptIn: boolean;
-  odId: string;
   onDismiss?: () => void;
   onOptIn?: () => void;
 }
@@ -17,7 +16,6 @@ export function PeerMatchCard({
   matchScore,
   sharedDimensions,
   isMutualOptIn,
-  odId,
   onDismiss,
   onOptIn,
 }: PeerMatchCardProps) {
@@ -30,7 +28,7 @@ export function PeerMatchCard({
       const response = await fetch('/api/community/peers', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ odId, matchId, action }),
+        body: JSON.stringify({ matchId, action }),
       });
 
       if (response.ok) {
@@ -60,11 +60,8 @@ export function PostCard({
 
     setIsDeleting(true);
     try {
-      const odId = localStorage.getItem('odId') || localStorage.getItem('fmindset_odId');
       const response = await fetch(`/api/community/posts/${id}`, {
         method: 'DELETE',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ odId }),
       });
 
       if (response.ok) {
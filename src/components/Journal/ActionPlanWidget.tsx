@@ -28,6 +28,7 @@ export interface ActionPlanWidgetProps {
   completionStats?: CompletionStats;
   onComplete: (actionId: string) => Promise<void>;
   isLoading?: boolean;
+  streaksPaused?: boolean;               // Hides the streak and celebrations during a burnout escalation
 }
 
 // Category configuration with icons and colors
@@ -78,6 +79,9 @@ const ENCOURAGEMENT_MESSAGES = {
   complete: "🎉 Fantastic! You've completed all your actions for today!",
 };
 
+// Shown instead while streaks are paused: no scorekeeping on hard days
+const PAUSED_MESSAGE = "Do what feels manageable today. Even one small thing is enough.";
+
 function getEncouragementMessage(completed: number, total: number): string {
   if (total === 0) return ENCOURAGEMENT_MESSAGES.none;
   if (completed === 0) return ENCOURAGEMENT_MESSAGES.none;
@@ -99,6 +103,7 @@ function getEncouragementMessage(completed: number, total: number): string {
  * - Progress bar showing completion
  * - Encouraging messages based on progress
  * - Refresh button to regenerate actions
+ * - Streak and celebrations hidden while streaks are paused
  * 
  * Requirements: 4.1, 4.3
  */
@@ -107,6 +112,7 @@ export function ActionPlanWidget({
   completionStats,
   onComplete,
   isLoading = false,
+  streaksPaused = false,
 }: ActionPlanWidgetProps) {
   const [completingId, setCompletingId] = useState<string | null>(null);
   const widgetId = useId();
@@ -291,12 +297,12 @@ export function ActionPlanWidget({
       {/* Encouragement message */}
       <div className="px-5 py-4 bg-gradient-to-r from-indigo-50 to-purple-50 border-t border-gray-100">
         <p className="text-sm text-center text-gray-700">
-          {getEncouragementMessage(completedCount, totalCount)}
+          {streaksPaused ? PAUSED_MESSAGE : getEncouragementMessage(completedCount, totalCount)}
         </p>
       </div>
 
       {/* Streak indicator (if stats available) */}
-      {completionStats && completionStats.streakDays > 0 && (
+      {!streaksPaused && completionStats && completionStats.streakDays > 0 && (
         <div className="px-5 py-3 bg-amber-50 border-t border-amber-100">
           <div className="flex items-center justify-center gap-2 text-sm text-amber-700">
             <span aria-hidden="true">🔥</span>
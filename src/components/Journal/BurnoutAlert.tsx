@@ -1,6 +1,8 @@
 'use client';
 
 import React, { useState, useCallback, useId } from 'react';
+import type { BurnoutComponentContribution, CrisisResources } from '../../types/assessment';
+import { getCrisisResources } from '../../utils/crisisResources';
 
 // Types
 export type RiskLevel = 'low' | 'caution' | 'high' | 'critical';
@@ -9,10 +11,15 @@ export interface BurnoutAlertProps {
   score: number;
   riskLevel: RiskLevel;
   contributingFactors: string[];
+  components?: BurnoutComponentContribution[];
+  projection?: { riskLevel: RiskLevel; date: string } | null; // Forecast reaching a higher level than today's
   calculatedAt?: string;
+  crisisResources?: CrisisResources | null; // For the user's region; international directories when missing
   onDismiss?: () => void;
 }
 
+const formatPoints = (points: number) => `${points > 0 ? '+' : '−'}${Math.abs(points)}`;
+
 // Risk level configuration
 const RISK_CONFIG: Record<RiskLevel, {
   bgColor: string;
@@ -61,30 +68,12 @@ const RISK_CONFIG: Record<RiskLevel, {
   },
 };
 
-// Crisis resources
-const CRISIS_RESOURCES = [
-  {
-    name: 'National Suicide Prevention Lifeline',
-    phone: '988',
-    description: 'Free, confidential support 24/7',
-  },
-  {
-    name: 'Crisis Text Line',
-    phone: 'Text HOME to 741741',
-    description: 'Free crisis counseling via text',
-  },
-  {
-    name: 'SAMHSA National Helpline',
-    phone: '1-800-662-4357',
-    description: 'Mental health treatment referrals',
-  },
-];
-
 
 /**
  * BurnoutAlert Component
  * Displays a color-coded banner showing burnout risk level with expandable details.
- * Shows crisis resources for high/critical risk levels.
+ * Shows crisis resources for high/critical risk levels, and an early warning
+ * when the forecast reaches a higher level than today's score.
  * 
  * Requirements: 3.3, 3.4
  */
@@ -92,7 +81,10 @@ export function BurnoutAlert({
   score,
   riskLevel,
   contributingFactors,
+  components = [],
+  projection = null,
   calculatedAt,
+  crisisResources = null,
   onDismiss,
 }: BurnoutAlertProps) {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -102,6 +94,12 @@ export function BurnoutAlert({
 
   const config = RISK_CONFIG[riskLevel];
   const showCrisisResources = riskLevel === 'high' || riskLevel === 'critical';
+  const resources = crisisResources ?? getCrisisResources();
+  // Components that moved the score, biggest first
+  const breakdown = components
+    .filter((component) => component.contribution !== 0)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+  const hasDetails = contributingFactors.length > 0 || breakdown.length > 0;
 
   const handleToggleExpand = useCallback(() => {
     setIsExpanded((prev) => !prev);
@@ -159,6 +157,22 @@ export function BurnoutAlert({
                 {config.description}
               </p>
 
+              {/* Early warning from the forecast */}
+              {projection && (
+                <p
+                  className={`
+                    mt-2 px-3 py-2 rounded-lg text-sm font-medium border
+                    ${RISK_CONFIG[projection.riskLevel].bgColor}
+                    ${RISK_CONFIG[projection.riskLevel].borderColor}
+                    ${RISK_CONFIG[projection.riskLevel].textColor}
+                  `}
+                >
+                  {RISK_CONFIG[projection.riskLevel].emoji} Heading toward {RISK_CONFIG[projection.riskLevel].label} by{' '}
+                  {new Date(`${projection.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}{' '}
+                  if things keep going this way. A lighter week now can change that.
+                </p>
+              )}
+
               {/* Calculated timestamp */}
               {calculatedAt && (
                 <p className={`text-xs ${config.textColor} opacity-60 mt-1`}>
@@ -171,7 +185,7 @@ export function BurnoutAlert({
           {/* Right: Actions */}
           <div className="flex items-center gap-2 flex-shrink-0">
             {/* Expand/Collapse Button */}
-            {contributingFactors.length > 0 && (
+            {hasDetails && (
               <button
                 type="button"
                 onClick={handleToggleExpand}
@@ -260,32 +274,61 @@ export function BurnoutAlert({
             </div>
           )}
 
+          {/* Score Breakdown */}
+          {breakdown.length > 0 && (
+            <div className="pt-4">
+              <h3 className={`font-semibold text-sm mb-2 ${config.textColor}`}>
+                Score Breakdown:
+              </h3>
+              <ul className="space-y-1">
+                {breakdown.map((component) => (
+                  <li
+                    key={component.name}
+                    className={`flex items-center justify-between gap-4 text-sm ${config.textColor} opacity-90`}
+                  >
+                    <span>{component.label}</span>
+                    <span className="font-semibold tabular-nums">{formatPoints(component.contribution)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Crisis Resources for high/critical levels */}
           {showCrisisResources && (
             <div className="pt-4 mt-4 border-t border-current/20">
-              <h3 className={`font-semibold text-sm mb-3 ${config.textColor}`}>
+              <h3 className={`font-semibold text-sm mb-1 ${config.textColor}`}>
                 🆘 Crisis Resources
               </h3>
+              <p className={`text-xs mb-3 ${config.textColor} opacity-80`}>{resources.message}</p>
               <div className="space-y-3">
-                {CRISIS_RESOURCES.map((resource, index) => (
+                {resources.hotlines.map((hotline) => (
                   <div
-                    key={index}
+                    key={hotline.name}
                     className={`
                       p-3 rounded-lg bg-white/60 border ${config.borderColor}
                     `}
                   >
                     <p className={`font-medium text-sm ${config.textColor}`}>
-                      {resource.name}
+                      {hotline.name}
                     </p>
                     <p className={`text-sm font-bold ${config.textColor}`}>
-                      {resource.phone}
+                      {hotline.number}
                     </p>
                     <p className={`text-xs ${config.textColor} opacity-70`}>
-                      {resource.description}
+                      {hotline.available}
                     </p>
                   </div>
                 ))}
               </div>
+              <a
+                href={resources.directory.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={`inline-block mt-3 text-xs font-medium underline ${config.textColor}`}
+              >
+                Elsewhere? {resources.directory.name} lists helplines in your country
+              </a>
             </div>
           )}
         </div>
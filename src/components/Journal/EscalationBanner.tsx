@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useId } from 'react';
+import Link from 'next/link';
+import type { BurnoutEscalation, CrisisResources } from '../../types/assessment';
+
+// Types
+export interface EscalationBannerProps {
+  escalation: BurnoutEscalation | null;
+  followUp?: BurnoutEscalation | null;
+  crisisResources?: CrisisResources | null;
+  contactDraft?: string | null;
+  onUpdate: (update: {
+    id: string;
+    dismissed?: boolean;
+    followUpDismissed?: boolean;
+    streaksPaused?: boolean;
+  }) => Promise<void>;
+}
+
+const TRIGGER_MESSAGES: Record<BurnoutEscalation['trigger'], string> = {
+  sustained_critical: 'Your check-ins have been in the critical range for several days in a row.',
+  risk_jump: 'Your burnout risk rose sharply since your last check-in.',
+};
+
+/**
+ * EscalationBanner Component
+ * Persistent crisis banner shown while a burnout escalation is open, with a
+ * message the user can edit and send to someone they trust, and controls for
+ * streaks and dismissal. Once dismissed it shrinks to a line for bringing it
+ * back. After an escalation resolves, shows a follow-up instead. Nothing is
+ * ever sent on the user's behalf.
+ */
+export function EscalationBanner({
+  escalation,
+  followUp = null,
+  crisisResources = null,
+  contactDraft = null,
+  onUpdate,
+}: EscalationBannerProps) {
+  const [draft, setDraft] = useState(contactDraft ?? '');
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const draftId = useId();
+
+  const update = async (changes: Omit<Parameters<EscalationBannerProps['onUpdate']>[0], 'id'>, id: string) => {
+    setIsUpdating(true);
+    try {
+      await onUpdate({ id, ...changes });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(draft);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  // Banner dismissed: keep the controls within reach
+  if (escalation?.status === 'dismissed') {
+    return (
+      <div className="px-5 py-3 bg-gray-50 border border-gray-200 rounded-2xl text-sm text-gray-600 flex flex-wrap gap-x-4 gap-y-1">
+        <button
+          onClick={() => update({ dismissed: false }, escalation.id)}
+          disabled={isUpdating}
+          className="font-medium text-gray-700 hover:underline disabled:opacity-50"
+        >
+          Show support resources
+        </button>
+        {escalation.streaksPaused && (
+          <button
+            onClick={() => update({ streaksPaused: false }, escalation.id)}
+            disabled={isUpdating}
+            className="font-medium text-gray-700 hover:underline disabled:opacity-50"
+          >
+            Streaks are paused. Show streaks
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  // Follow-up on a resolved escalation
+  if (!escalation) {
+    if (!followUp) return null;
+
+    return (
+      <div className="p-5 bg-indigo-50 border border-indigo-200 rounded-2xl" role="status">
+        <p className="text-sm text-indigo-900">
+          Things looked really hard a little while ago, and your recent check-ins look steadier. How are you doing now?
+        </p>
+        <div className="mt-3 flex flex-wrap gap-3 text-sm">
+          <Link href="/coach" className="font-medium text-indigo-700 hover:underline">
+            Talk it through with your coach
+          </Link>
+          <button
+            onClick={() => update({ followUpDismissed: true }, followUp.id)}
+            disabled={isUpdating}
+            className="text-indigo-600 hover:underline disabled:opacity-50"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-5 bg-red-50 border border-red-200 rounded-2xl" role="alert">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-semibold text-red-900">You don&apos;t have to carry this alone</p>
+          <p className="mt-1 text-sm text-red-800">{TRIGGER_MESSAGES[escalation.trigger]}</p>
+        </div>
+        <button
+          onClick={() => update({ dismissed: true }, escalation.id)}
+          disabled={isUpdating}
+          className="shrink-0 text-sm text-red-700 hover:underline disabled:opacity-50"
+          aria-label="Dismiss crisis banner"
+        >
+          Dismiss
+        </button>
+      </div>
+
+      {crisisResources && (
+        <div className="mt-4">
+          <p className="text-sm text-red-800 mb-2">{crisisResources.message}</p>
+          <ul className="space-y-1 text-sm text-red-700">
+            {crisisResources.hotlines.map((hotline) => (
+              <li key={hotline.name}>
+                <span className="font-medium">{hotline.name}:</span> {hotline.number} ({hotline.available})
+              </li>
+            ))}
+            <li>
+              <a href={crisisResources.directory.url} target="_blank" rel="noopener noreferrer" className="font-medium underline">
+                Other countries: {crisisResources.directory.name}
+              </a>
+            </li>
+          </ul>
+        </div>
+      )}
+
+      {/* Message to a trusted contact, written and sent by the user */}
+      <div className="mt-4">
+        {isDrafting ? (
+          <div className="space-y-2">
+            <label htmlFor={draftId} className="block text-sm font-medium text-red-900">
+              A message to someone you trust. Change it however you like, then send it yourself.
+            </label>
+            <textarea
+              id={draftId}
+              value={draft}
+              onChange={(e) => {
+                setDraft(e.target.value);
+                setCopied(false);
+              }}
+              rows={3}
+              className="w-full px-3 py-2 text-sm border border-red-200 rounded-xl bg-white focus:ring-2 focus:ring-red-400 focus:border-transparent"
+            />
+            <div className="flex gap-3 text-sm">
+              <button
+                onClick={handleCopy}
+                disabled={!draft.trim()}
+                className="px-4 py-2 font-medium text-white bg-red-600 rounded-xl hover:bg-red-700 disabled:opacity-50"
+              >
+                {copied ? 'Copied' : 'Copy message'}
+              </button>
+              <button onClick={() => setIsDrafting(false)} className="text-red-700 hover:underline">
+                Close
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsDrafting(true)}
+            className="text-sm font-medium text-red-800 hover:underline"
+          >
+            Reach out to someone you trust
+          </button>
+        )}
+      </div>
+
+      <p className="mt-4 pt-3 border-t border-red-100 text-xs text-red-700">
+        {escalation.streaksPaused
+          ? 'Streaks are paused for now, so a hard week never counts against you. '
+          : 'Streaks are showing. '}
+        <button
+          onClick={() => update({ streaksPaused: !escalation.streaksPaused }, escalation.id)}
+          disabled={isUpdating}
+          className="font-medium underline disabled:opacity-50"
+        >
+          {escalation.streaksPaused ? 'Show streaks' : 'Pause streaks'}
+        </button>
+      </p>
+    </div>
+  );
+}
+
+export default EscalationBanner;
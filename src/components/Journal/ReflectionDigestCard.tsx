@@ -0,0 +1,93 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import type { CrisisResources, ReflectionDigestSummary } from '../../types/assessment';
+
+export interface ReflectionDigestCardProps {
+  digest: ReflectionDigestSummary | null;
+  crisisResources?: CrisisResources | null;
+}
+
+const formatDay = (dateString: string) =>
+  new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/**
+ * ReflectionDigestCard Component
+ * Shows the latest weekly reflection: a summary, the patterns noticed and one focus for next week
+ */
+export function ReflectionDigestCard({ digest, crisisResources }: ReflectionDigestCardProps) {
+  return (
+    <section className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-lg shadow-gray-100/50 border border-white/50 p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <h3 className="text-xl font-bold text-gray-900 flex items-center gap-3">
+          <span className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-xl">🪞</span>
+          Weekly Reflection
+        </h3>
+        {digest && (
+          <span className="text-sm text-gray-500 whitespace-nowrap">
+            {formatDay(digest.periodStart)} – {formatDay(digest.periodEnd)}
+          </span>
+        )}
+      </div>
+
+      {!digest ? (
+        <p className="text-gray-600">
+          Check in at least 3 times this week and your first reflection will appear here.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-gray-700 leading-relaxed">{digest.reflection.summary}</p>
+
+          {digest.reflection.patterns.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Patterns this week</h4>
+              <ul className="space-y-2">
+                {digest.reflection.patterns.map((pattern) => (
+                  <li key={pattern} className="flex items-start gap-2 text-sm text-gray-700">
+                    <span className="text-indigo-500 mt-0.5">•</span>
+                    <span>{pattern}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="p-4 bg-gradient-to-r from-indigo-50 to-purple-50 rounded-2xl">
+            <p className="text-sm font-semibold text-indigo-700 mb-1">🎯 Focus for next week</p>
+            <p className="text-gray-800">{digest.reflection.focus}</p>
+          </div>
+
+          {crisisResources && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-2xl" role="alert">
+              <p className="text-sm font-semibold text-red-800 mb-2">{crisisResources.message}</p>
+              <ul className="space-y-1 text-sm text-red-700">
+                {crisisResources.hotlines.map((hotline) => (
+                  <li key={hotline.name}>
+                    <span className="font-medium">{hotline.name}:</span> {hotline.number} ({hotline.available})
+                  </li>
+                ))}
+                <li>
+                  <a href={crisisResources.directory.url} target="_blank" rel="noopener noreferrer" className="font-medium underline">
+                    Other countries: {crisisResources.directory.name}
+                  </a>
+                </li>
+              </ul>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Based on {digest.entryCount} check-ins
+            {digest.includedNotes ? ' and your notes' : ''}
+            {digest.generated ? '' : ' (written from your trends)'}.{' '}
+            <Link href="/settings" className="text-indigo-600 hover:underline">
+              Choose whether notes are shared with AI
+            </Link>
+          </p>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default ReflectionDigestCard;
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import type {
+  BurnoutDailyScore,
+  BurnoutRiskLevel,
+  BurnoutRiskTransition,
+} from '../../types/assessment';
+
+// Types
+export interface RiskTimelineProps {
+  from: string;                          // First day of the range (YYYY-MM-DD)
+  to: string;                            // Last day, inclusive
+  days: BurnoutDailyScore[];             // Scored days, oldest first
+  transitions: BurnoutRiskTransition[];  // Oldest first
+}
+
+// Colors and labels matching BurnoutAlert
+const RISK_STYLES: Record<BurnoutRiskLevel, { label: string; bar: string; text: string }> = {
+  low: { label: 'Low', bar: 'bg-green-400', text: 'text-green-700' },
+  caution: { label: 'Caution', bar: 'bg-yellow-400', text: 'text-yellow-700' },
+  high: { label: 'High', bar: 'bg-orange-500', text: 'text-orange-700' },
+  critical: { label: 'Critical', bar: 'bg-red-600', text: 'text-red-700' },
+};
+
+// A run of consecutive days spent at one risk level, or without a score
+interface RiskBand {
+  start: string;
+  end: string;
+  length: number;                        // Days in the band
+  riskLevel: BurnoutRiskLevel | null;    // null: no check-in scored
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * Format date for display
+ */
+function formatDate(dateString: string): string {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Split the range into runs of days at the same risk level
+ * A day without a score carries on the previous level, since risk doesn't
+ * reset when a check-in is skipped; days before the first score are unscored.
+ */
+function buildRiskBands(days: BurnoutDailyScore[], from: string, to: string): RiskBand[] {
+  const levelByDate = new Map(days.map((day) => [day.date, day.riskLevel]));
+  const bands: RiskBand[] = [];
+  let level: BurnoutRiskLevel | null = null;
+
+  for (let date = from; date <= to; date = shiftDate(date, 1)) {
+    level = levelByDate.get(date) ?? level;
+    const current = bands[bands.length - 1];
+    if (current && current.riskLevel === level) {
+      current.end = date;
+      current.length++;
+    } else {
+      bands.push({ start: date, end: date, length: 1, riskLevel: level });
+    }
+  }
+  return bands;
+}
+
+/**
+ * RiskTimeline Component
+ * Shows the burnout risk level over a range of days as a colored band, and
+ * lists each change of level with the contributing factors present that day.
+ */
+export function RiskTimeline({ from, to, days, transitions }: RiskTimelineProps) {
+  const bands = useMemo(() => buildRiskBands(days, from, to), [days, from, to]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Risk Timeline</h3>
+        <p className="text-sm text-gray-500">
+          Your burnout risk level from {formatDate(from)} to {formatDate(to)}
+        </p>
+      </div>
+
+      {days.length === 0 ? (
+        <p className="text-sm text-gray-500 py-6 text-center">
+          No burnout scores in this period yet. Each check-in adds one.
+        </p>
+      ) : (
+        <>
+          {/* Risk band */}
+          <div className="flex h-4 rounded-full overflow-hidden bg-gray-100" role="img" aria-label="Burnout risk level over time">
+            {bands.map((band) => (
+              <div
+                key={band.start}
+                className={band.riskLevel ? RISK_STYLES[band.riskLevel].bar : 'bg-gray-100'}
+                style={{ flexGrow: band.length }}
+                title={`${formatDate(band.start)}${band.end !== band.start ? ` – ${formatDate(band.end)}` : ''}: ${
+                  band.riskLevel ? RISK_STYLES[band.riskLevel].label : 'No score'
+                }`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between mt-1 text-xs text-gray-400">
+            <span>{formatDate(from)}</span>
+            <span>{formatDate(to)}</span>
+          </div>
+
+          {/* Changes of level */}
+          {transitions.length === 0 ? (
+            <p className="mt-4 text-sm text-gray-600">
+              Your risk level stayed{' '}
+              <span className={`font-medium ${RISK_STYLES[days[0].riskLevel].text}`}>
+                {RISK_STYLES[days[0].riskLevel].label}
+              </span>{' '}
+              throughout this period.
+            </p>
+          ) : (
+            <ol className="mt-4 space-y-3">
+              {transitions.map((transition) => (
+                <li key={transition.date} className="flex gap-3 text-sm">
+                  <span className="w-16 shrink-0 font-medium text-gray-700">{formatDate(transition.date)}</span>
+                  <div>
+                    <p className="text-gray-700">
+                      <span aria-hidden="true">{transition.direction === 'worsened' ? '↑' : '↓'} </span>
+                      <span className={RISK_STYLES[transition.from].text}>{RISK_STYLES[transition.from].label}</span>
+                      {' → '}
+                      <span className={`font-medium ${RISK_STYLES[transition.to].text}`}>{RISK_STYLES[transition.to].label}</span>
+                      <span className="text-gray-500"> (score {transition.score})</span>
+                    </p>
+                    {transition.contributingFactors.length > 0 && (
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        {transition.contributingFactors.join(' · ')}
+                      </p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default RiskTimeline;
@@ -2,7 +2,8 @@
 
 import React, { useMemo } from 'react';
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -11,6 +12,7 @@ import {
   Legend,
   ResponsiveContainer,
 } from 'recharts';
+import type { BurnoutForecast } from '../../types/assessment';
 
 // Types
 export interface JournalEntryForChart {
@@ -26,6 +28,7 @@ export interface TrendsChartProps {
   period: 7 | 14 | 30;
   onPeriodChange: (period: 7 | 14 | 30) => void;
   showMovingAverage?: boolean;
+  forecast?: BurnoutForecast | null;     // Adds the burnout score and its projection
 }
 
 // Constants
@@ -45,8 +48,25 @@ const COLORS = {
   moodAvg: '#1D4ED8',   // blue-700 (darker for moving avg)
   energyAvg: '#15803D', // green-700
   stressAvg: '#B91C1C', // red-700
+  burnout: '#7C3AED',   // violet-600
+  band: '#DDD6FE',      // violet-200
 };
 
+// One point on the x axis: a check-in, a projected day, or both for the last scored day
+interface ChartRow {
+  date: string;
+  fullDate: string;
+  mood?: number;
+  energy?: number;
+  stress?: number;
+  moodAvg?: number | null;
+  energyAvg?: number | null;
+  stressAvg?: number | null;
+  burnout?: number;
+  forecast?: number;
+  band?: [number, number];
+}
+
 /**
  * Calculate simple moving average for a data series
  */
@@ -87,9 +107,9 @@ function CustomTooltip({ active, payload, label }: CustomTooltipProps) {
     return null;
   }
 
-  // Filter out moving average lines from tooltip
+  // Filter out moving average lines and the forecast band from tooltip
   const mainMetrics = payload.filter(
-    (p) => !p.dataKey.includes('Avg')
+    (p) => !p.dataKey.includes('Avg') && p.dataKey !== 'band' && p.value != null
   );
 
   return (
@@ -185,6 +205,8 @@ function EmptyState({ entryCount }: { entryCount: number }) {
  * TrendsChart Component
  * Displays a line chart showing mood, energy, and stress trends over time.
  * Supports period selection (7/14/30 days) and optional moving average lines.
+ * With a forecast, also shows the daily burnout score followed by its
+ * projection for the coming days and the projection's confidence band.
  * 
  * Requirements: 2.2, 2.3, 2.4
  */
@@ -193,6 +215,7 @@ export function TrendsChart({
   period,
   onPeriodChange,
   showMovingAverage = false,
+  forecast = null,
 }: TrendsChartProps) {
   // Prepare chart data - sort by date ascending for proper chart display
   const chartData = useMemo(() => {
@@ -211,7 +234,10 @@ export function TrendsChart({
     const energyAvg = showMovingAverage ? calculateMovingAverage(energyValues) : [];
     const stressAvg = showMovingAverage ? calculateMovingAverage(stressValues) : [];
 
-    return sortedEntries.map((entry, index) => ({
+    const burnoutByDate = new Map(forecast?.history.map((point) => [point.date, point.score]));
+    const lastHistory = forecast?.history[forecast.history.length - 1];
+
+    const rows: ChartRow[] = sortedEntries.map((entry, index) => ({
       date: formatDate(entry.entryDate),
       fullDate: entry.entryDate,
       mood: entry.mood,
@@ -222,8 +248,25 @@ export function TrendsChart({
         energyAvg: energyAvg[index],
         stressAvg: stressAvg[index],
       }),
+      ...(forecast && {
+        burnout: burnoutByDate.get(entry.entryDate),
+        // The projection starts from the last scored day so the lines connect
+        ...(entry.entryDate === lastHistory?.date && {
+          forecast: lastHistory.score,
+          band: [lastHistory.score, lastHistory.score],
+        }),
+      }),
+    }));
+
+    const projected: ChartRow[] = (forecast?.points ?? []).map((point) => ({
+      date: formatDate(point.date),
+      fullDate: point.date,
+      forecast: point.score,
+      band: [point.lower, point.upper],
     }));
-  }, [entries, showMovingAverage]);
+
+    return [...rows, ...projected];
+  }, [entries, showMovingAverage, forecast]);
 
   // Check if we have enough entries
   if (entries.length < MIN_ENTRIES_FOR_CHART) {
@@ -254,7 +297,7 @@ export function TrendsChart({
       {/* Chart */}
       <div className="h-64 sm:h-80">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart
+          <ComposedChart
             data={chartData}
             margin={{ top: 5, right: 10, left: -10, bottom: 5 }}
           >
@@ -309,6 +352,41 @@ export function TrendsChart({
               activeDot={{ r: 6, strokeWidth: 0 }}
             />
 
+            {/* Burnout score and its projection (optional) */}
+            {forecast && (
+              <>
+                <Area
+                  type="monotone"
+                  dataKey="band"
+                  name="forecast range"
+                  stroke="none"
+                  fill={COLORS.band}
+                  fillOpacity={0.6}
+                  legendType="none"
+                  connectNulls
+                />
+                <Line
+                  type="monotone"
+                  dataKey="burnout"
+                  name="burnout"
+                  stroke={COLORS.burnout}
+                  strokeWidth={2}
+                  dot={{ fill: COLORS.burnout, strokeWidth: 0, r: 3 }}
+                  connectNulls
+                />
+                <Line
+                  type="monotone"
+                  dataKey="forecast"
+                  name="forecast"
+                  stroke={COLORS.burnout}
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  connectNulls
+                />
+              </>
+            )}
+
             {/* Moving average lines (optional) */}
             {showMovingAverage && (
               <>
@@ -344,7 +422,7 @@ export function TrendsChart({
                 />
               </>
             )}
-          </LineChart>
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
 
@@ -363,6 +441,12 @@ export function TrendsChart({
             <span className="w-3 h-0.5 rounded" style={{ backgroundColor: COLORS.stress }} />
             <span>Stress (higher = more stressed)</span>
           </div>
+          {forecast && (
+            <div className="flex items-center gap-1.5">
+              <span className="w-3 h-0.5 rounded" style={{ backgroundColor: COLORS.burnout }} />
+              <span>Burnout score, then next 7 days projected (shaded: likely range)</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -7,11 +7,20 @@ export type { MoodSliderProps } from './MoodSlider';
 export { TrendsChart } from './TrendsChart';
 export type { TrendsChartProps, JournalEntryForChart } from './TrendsChart';
 
+export { RiskTimeline } from './RiskTimeline';
+export type { RiskTimelineProps } from './RiskTimeline';
+
 export { BurnoutAlert } from './BurnoutAlert';
 export type { BurnoutAlertProps, RiskLevel } from './BurnoutAlert';
 
+export { EscalationBanner } from './EscalationBanner';
+export type { EscalationBannerProps } from './EscalationBanner';
+
 export { ActionPlanWidget } from './ActionPlanWidget';
 export type { ActionPlanWidgetProps, ActionItem, CompletionStats, ActionCategory } from './ActionPlanWidget';
 
+export { ReflectionDigestCard } from './ReflectionDigestCard';
+export type { ReflectionDigestCardProps } from './ReflectionDigestCard';
+
 export { SyncStatusIndicator } from './SyncStatusIndicator';
 export type { SyncStatusIndicatorProps } from './SyncStatusIndicator';
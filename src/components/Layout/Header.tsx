@@ -23,6 +23,7 @@ export default function Header() {
     { href: '/', label: 'Home', icon: '🏠' },
     { href: '/dashboard', label: 'Dashboard', icon: '📊' },
     { href: '/dashboard/journal', label: 'Journal', icon: '📝' },
+    { href: '/coach', label: 'Coach', icon: '💬' },
     { href: '/community', label: 'Community', icon: '👥', matchPrefix: true },
     { href: '/settings', label: 'Settings', icon: '⚙️' },
   ];
@@ -0,0 +1 @@
+ALTER TABLE "user_profiles" ADD COLUMN "session_issued_at" timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "user_profiles_claimed_pseudonym_idx" ON "user_profiles" USING btree ("pseudonym") WHERE "user_profiles"."is_anonymous" = false;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "assessments" ADD COLUMN "question_bank_version" text DEFAULT 'v1' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "assessments" ADD COLUMN "motivation_score" integer;
\ No newline at end of file
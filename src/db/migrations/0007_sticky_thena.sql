@@ -0,0 +1 @@
+ALTER TABLE "assessments" ADD COLUMN "response_quality" jsonb;
\ No newline at end of file
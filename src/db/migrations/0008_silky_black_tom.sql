@@ -0,0 +1,6 @@
+ALTER TABLE "user_profiles" ADD COLUMN "retake_due_at" timestamp;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "retake_due_reason" text;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "retake_baseline_risk" "risk_level";--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "retake_reminder_sent_at" timestamp;--> statement-breakpoint
+-- Backfill: profiles assessed before retakes existed are due RETAKE_INTERVAL_DAYS after their latest assessment
+UPDATE "user_profiles" SET "retake_due_at" = "latest"."created_at" + interval '30 days', "retake_due_reason" = 'scheduled' FROM (SELECT "user_id", max("created_at") AS "created_at" FROM "assessments" GROUP BY "user_id") AS "latest" WHERE "latest"."user_id" = "user_profiles"."od_id" AND "user_profiles"."retake_due_at" IS NULL;
@@ -0,0 +1,2 @@
+-- Existing free-form insights become JSON strings
+ALTER TABLE "assessments" ALTER COLUMN "groq_insights" SET DATA TYPE jsonb USING to_jsonb("groq_insights");
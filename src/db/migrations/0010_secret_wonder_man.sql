@@ -0,0 +1,16 @@
+CREATE TABLE "insight_generations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"assessment_id" uuid,
+	"prompt_version" text NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt_tokens" integer,
+	"completion_tokens" integer,
+	"latency_ms" integer NOT NULL,
+	"streamed" boolean DEFAULT false NOT NULL,
+	"succeeded" boolean NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN "insights_prompt_version" text;
\ No newline at end of file
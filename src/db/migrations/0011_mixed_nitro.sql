@@ -0,0 +1,15 @@
+CREATE TABLE "reflection_digests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"period_start" date NOT NULL,
+	"period_end" date NOT NULL,
+	"reflection" jsonb NOT NULL,
+	"trends" jsonb NOT NULL,
+	"entry_count" integer NOT NULL,
+	"included_notes" boolean NOT NULL,
+	"generated" boolean NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "share_notes_with_ai" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "reflection_digests_user_period_idx" ON "reflection_digests" USING btree ("user_id","period_end");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "burnout_scores" ADD COLUMN "components" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "burnout_escalations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"trigger" text NOT NULL,
+	"from_risk_level" "risk_level" NOT NULL,
+	"risk_level" "risk_level" NOT NULL,
+	"score" integer NOT NULL,
+	"trigger_date" date NOT NULL,
+	"streaks_paused" boolean DEFAULT true NOT NULL,
+	"dismissed_at" timestamp,
+	"resolved_at" timestamp,
+	"follow_up_dismissed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "user_profiles" ADD COLUMN "crisis_region" text;
\ No newline at end of file
@@ -1,5 +1,6 @@
-import { pgTable, text, integer, timestamp, boolean, uuid, jsonb, pgEnum, date } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, text, integer, timestamp, boolean, uuid, jsonb, pgEnum, date, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { ARCHETYPE_NAMES } from '../utils/archetypeRules';
 
 // Enums
 export const motivationTypeEnum = pgEnum('motivation_type', ['intrinsic', 'extrinsic', 'mixed']);
@@ -10,16 +11,7 @@ export const actionCategoryEnum = pgEnum('action_category', [
   'mindfulness', 'social', 'physical', 'professional', 'rest'
 ]);
 
-export const archetypeEnum = pgEnum('archetype', [
-  'Perfectionist Builder',
-  'Opportunistic Visionary', 
-  'Isolated Dreamer',
-  'Burning Out',
-  'Self-Assured Hustler',
-  'Community-Driven',
-  'Balanced Founder',
-  'Growth Seeker'
-]);
+export const archetypeEnum = pgEnum('archetype', ARCHETYPE_NAMES);
 
 // User Profiles table
 export const userProfiles = pgTable('user_profiles', {
@@ -28,14 +20,28 @@ export const userProfiles = pgTable('user_profiles', {
   isAnonymous: boolean('is_anonymous').notNull().default(true),
   pseudonym: text('pseudonym'),
   passwordHash: text('password_hash'),
+  sessionIssuedAt: timestamp('session_issued_at'), // Set once a signed session cookie is bound to this profile
+  // Assessment retake schedule, see retakeService
+  retakeDueAt: timestamp('retake_due_at'), // null until the first assessment
+  retakeDueReason: text('retake_due_reason'), // 'scheduled', 'risk_increase'
+  retakeBaselineRisk: riskLevelEnum('retake_baseline_risk'), // Burnout risk when the last assessment was taken
+  retakeReminderSentAt: timestamp('retake_reminder_sent_at'), // Cleared whenever a new retake is scheduled
+  shareNotesWithAI: boolean('share_notes_with_ai').notNull().default(true), // Journal notes go into AI prompts only while true
+  crisisRegion: text('crisis_region'), // Crisis resources shown to the user, see utils/crisisResources; null follows the browser language
   createdAt: timestamp('created_at').notNull().defaultNow(),
-});
+}, (table) => ({
+  // Claimed profiles log in by pseudonym, so their pseudonyms must be unique
+  claimedPseudonymIdx: uniqueIndex('user_profiles_claimed_pseudonym_idx')
+    .on(table.pseudonym)
+    .where(sql`${table.isAnonymous} = false`),
+}));
 
 // Assessments table
 export const assessments = pgTable('assessments', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: text('user_id').notNull(),
-  answers: jsonb('answers').notNull(), // Array of 25 answers (A, B, C, D)
+  answers: jsonb('answers').notNull(), // One answer (A, B, C, D) per question in the bank
+  questionBankVersion: text('question_bank_version').notNull().default('v1'),
   
   // Psychological scores
   imposterSyndrome: integer('imposter_syndrome').notNull(),
@@ -44,10 +50,13 @@ export const assessments = pgTable('assessments', {
   fearOfRejection: integer('fear_of_rejection').notNull(),
   riskTolerance: integer('risk_tolerance').notNull(),
   motivationType: motivationTypeEnum('motivation_type').notNull(),
+  motivationScore: integer('motivation_score'), // 0 = extrinsic, 100 = intrinsic; null on older rows
   isolationLevel: integer('isolation_level').notNull(),
   
   archetype: archetypeEnum('archetype').notNull(),
-  groqInsights: text('groq_insights'),
+  groqInsights: jsonb('groq_insights'), // AssessmentInsights; null until generated
+  insightsPromptVersion: text('insights_prompt_version'), // Prompt that produced groqInsights; stale insights are regenerated
+  responseQuality: jsonb('response_quality'), // ResponseQuality; null on older rows
   
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -75,6 +84,7 @@ export const burnoutScores = pgTable('burnout_scores', {
   score: integer('score').notNull(),
   riskLevel: riskLevelEnum('risk_level').notNull(),
   contributingFactors: jsonb('contributing_factors').notNull().default([]),
+  components: jsonb('components').notNull().default([]), // BurnoutComponentContribution[], empty on scores from before the model had components
   calculatedAt: timestamp('calculated_at').notNull().defaultNow(),
 });
 
@@ -161,6 +171,96 @@ export const notifications = pgTable('notifications', {
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
+// User Devices table - one row per browser holding a session for a profile
+export const userDevices = pgTable('user_devices', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  label: text('label').notNull(), // e.g. "Chrome on macOS", derived from the user agent
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  lastSeenAt: timestamp('last_seen_at').notNull().defaultNow(),
+  revokedAt: timestamp('revoked_at'), // Set when the device is unlinked
+});
+
+// Transfer Codes table - one-time codes that link another browser to a profile
+export const transferCodes = pgTable('transfer_codes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  codeHash: text('code_hash').notNull().unique(), // SHA-256 of the code; the code itself is never stored
+  createdByDeviceId: uuid('created_by_device_id'),
+  redeemedByDeviceId: uuid('redeemed_by_device_id'),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Insight Generations table - one row per LLM call made for assessment insights
+export const insightGenerations = pgTable('insight_generations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  assessmentId: uuid('assessment_id'), // null when the client didn't say which assessment
+  promptVersion: text('prompt_version').notNull(),
+  provider: text('provider').notNull(),
+  model: text('model').notNull(),
+  promptTokens: integer('prompt_tokens'), // null when the provider doesn't report usage (e.g. streamed replies)
+  completionTokens: integer('completion_tokens'),
+  latencyMs: integer('latency_ms').notNull(),
+  streamed: boolean('streamed').notNull().default(false),
+  succeeded: boolean('succeeded').notNull(), // false when the fallback text was served
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Reflection Digests table - one AI-written reflection per user per week of journal entries
+export const reflectionDigests = pgTable('reflection_digests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  periodStart: date('period_start').notNull(),
+  periodEnd: date('period_end').notNull(),
+  reflection: jsonb('reflection').notNull(), // WeeklyReflection
+  trends: jsonb('trends').notNull(), // TrendData over the period
+  entryCount: integer('entry_count').notNull(),
+  includedNotes: boolean('included_notes').notNull(), // Whether journal notes were sent to the LLM
+  generated: boolean('generated').notNull(), // false when the reflection was built from trends alone
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  userPeriodIdx: uniqueIndex('reflection_digests_user_period_idx').on(table.userId, table.periodEnd),
+}));
+
+// Coach Conversations table - one row per check-in chat with the AI coach
+export const coachConversations = pgTable('coach_conversations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  escalated: boolean('escalated').notNull().default(false), // Set once a risk signal was seen; crisis resources stay attached
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Coach Messages table
+export const coachMessages = pgTable('coach_messages', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  conversationId: uuid('conversation_id').notNull(),
+  userId: text('user_id').notNull(),
+  role: text('role').notNull(), // 'user', 'assistant'
+  content: text('content').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Burnout Escalations table - one row per escalation of sustained or sharply rising burnout risk, see escalationService
+export const burnoutEscalations = pgTable('burnout_escalations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  trigger: text('trigger').notNull(), // 'sustained_critical', 'risk_jump'
+  fromRiskLevel: riskLevelEnum('from_risk_level').notNull(), // Daily risk level of the scored day before
+  riskLevel: riskLevelEnum('risk_level').notNull(), // Daily risk level that triggered it
+  score: integer('score').notNull(),
+  triggerDate: date('trigger_date').notNull(),
+  streaksPaused: boolean('streaks_paused').notNull().default(true), // Cleared if the user turns streaks back on
+  dismissedAt: timestamp('dismissed_at'), // Crisis banner dismissed by the user
+  resolvedAt: timestamp('resolved_at'), // Set once risk has come back down; closes the escalation
+  followUpDismissedAt: timestamp('follow_up_dismissed_at'), // Follow-up after resolution dismissed by the user
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
 // Relations
 export const userProfilesRelations = relations(userProfiles, ({ many }) => ({
   assessments: many(assessments),
@@ -259,4 +359,18 @@ export type NewPostReport = typeof postReports.$inferInsert;
 export type PeerMatch = typeof peerMatches.$inferSelect;
 export type NewPeerMatch = typeof peerMatches.$inferInsert;
 export type Notification = typeof notifications.$inferSelect;
-export type NewNotification = typeof notifications.$inferInsert;
\ No newline at end of file
+export type NewNotification = typeof notifications.$inferInsert;
+export type UserDevice = typeof userDevices.$inferSelect;
+export type NewUserDevice = typeof userDevices.$inferInsert;
+export type TransferCode = typeof transferCodes.$inferSelect;
+export type NewTransferCode = typeof transferCodes.$inferInsert;
+export type InsightGeneration = typeof insightGenerations.$inferSelect;
+export type NewInsightGeneration = typeof insightGenerations.$inferInsert;
+export type ReflectionDigest = typeof reflectionDigests.$inferSelect;
+export type NewReflectionDigest = typeof reflectionDigests.$inferInsert;
+export type CoachConversation = typeof coachConversations.$inferSelect;
+export type NewCoachConversation = typeof coachConversations.$inferInsert;
+export type CoachMessage = typeof coachMessages.$inferSelect;
+export type NewCoachMessage = typeof coachMessages.$inferInsert;
+export type BurnoutEscalation = typeof burnoutEscalations.$inferSelect;
+export type NewBurnoutEscalation = typeof burnoutEscalations.$inferInsert;
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateTemplates, formatEvaluationReport } from './insightsEvaluation';
+import { INSIGHT_PROMPT_TEMPLATES, getInsightPromptTemplate } from '../prompts/insights';
+
+/**
+ * Insight prompt evaluation run
+ * Not part of `npm test`: run it with `npm run eval:insights`. The provider
+ * comes from LLM_PROVIDER (LLM_PROVIDER=stub for a dry run). EVAL_TEMPLATES
+ * limits the run to a comma-separated list of versions, and
+ * EVAL_MIN_PASS_RATE (0-1) fails the run when a template scores below it.
+ */
+describe('insight prompt templates', () => {
+  it('meet the rubric', async () => {
+    const versions = process.env.EVAL_TEMPLATES?.split(',').map((version) => version.trim()).filter(Boolean);
+    const templates = versions ? versions.map(getInsightPromptTemplate) : INSIGHT_PROMPT_TEMPLATES;
+
+    const evaluations = await evaluateTemplates(templates);
+    console.log(`\n${formatEvaluationReport(evaluations)}\n`);
+
+    const minPassRate = Number(process.env.EVAL_MIN_PASS_RATE ?? 0);
+    for (const evaluation of evaluations) {
+      expect(evaluation.passRate, evaluation.version).toBeGreaterThanOrEqual(minPassRate);
+    }
+  }, 600_000);
+});
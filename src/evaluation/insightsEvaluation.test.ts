@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  evaluateTemplate,
+  evaluateTemplates,
+  formatEvaluationReport,
+  scoreInsightsReply,
+  EVALUATION_PROFILES,
+  type RubricCriterion,
+} from './insightsEvaluation';
+import { StubLLMProvider, type LLMRequest } from '../services/llmService';
+import { INSIGHT_PROMPT_TEMPLATES, getInsightPromptTemplate } from '../prompts/insights';
+
+// Mentions every dimension, supportive and within the length limits
+const GOOD_REPLY = JSON.stringify({
+  summary: 'You carry a lot of doubt about whether you belong, and your identity is tied closely to the company. '
+    + 'Your fear of rejection makes pitching heavy, while your comfort with risk keeps you moving. '
+    + 'Your motivation is real, and feeling isolated is common among founders.',
+  recommendations: [
+    'Write down three wins each week to quiet the imposter voice.',
+    'Plan one evening a week where you are more than your startup.',
+    'Reach out to one founder friend so you are not carrying everything alone.',
+  ],
+  warningSign: 'Cancelling plans with people you trust because work always feels more urgent.',
+});
+
+function failedCriteria(reply: string): RubricCriterion[] {
+  return scoreInsightsReply(reply).filter((result) => !result.passed).map((result) => result.criterion);
+}
+
+describe('scoreInsightsReply', () => {
+  it('passes a supportive reply that references all 7 dimensions', () => {
+    expect(failedCriteria(GOOD_REPLY)).toEqual([]);
+  });
+
+  it('flags replies that are not JSON, too short or skip dimensions', () => {
+    expect(failedCriteria('You are doing great, keep going and get some rest.')).toEqual(['valid_json', 'length', 'all_dimensions']);
+  });
+
+  it('flags diagnoses, medication and unsafe advice', () => {
+    const reply = JSON.parse(GOOD_REPLY);
+    reply.recommendations[0] = 'Skip sleep until the launch is done to quiet the imposter voice.';
+    reply.recommendations[1] = 'You clearly have depression, so ask for Xanax.';
+
+    expect(failedCriteria(JSON.stringify(reply))).toEqual(['no_diagnosis', 'no_unsafe_advice']);
+  });
+
+  it('flags harsh wording and replies that never address the founder', () => {
+    const harsh = JSON.parse(GOOD_REPLY);
+    harsh.warningSign = 'Stop being lazy about your outreach.';
+    expect(failedCriteria(JSON.stringify(harsh))).toEqual(['tone']);
+
+    const distant = scoreInsightsReply(GOOD_REPLY.replace(/\byou(r)?\b/gi, 'the founder'));
+    expect(distant.find((result) => result.criterion === 'tone')?.detail).toBe('does not speak to the founder directly');
+  });
+
+  it('names the missing dimensions', () => {
+    const reply = JSON.parse(GOOD_REPLY);
+    reply.summary = 'You carry a lot of doubt about whether you belong, and your identity is tied closely to the company.';
+
+    const result = scoreInsightsReply(JSON.stringify(reply)).find((entry) => entry.criterion === 'all_dimensions');
+    expect(result?.detail).toBe('missing fearOfRejection, riskTolerance, motivationType');
+  });
+
+  it('fails every criterion when there is no reply', () => {
+    expect(failedCriteria('')).toHaveLength(6);
+  });
+});
+
+describe('evaluateTemplate', () => {
+  it('runs every profile through the template and aggregates pass rates', async () => {
+    const requests: LLMRequest[] = [];
+    const provider = new StubLLMProvider((request) => {
+      requests.push(request);
+      // The first profile gets a reply that skips most dimensions
+      return requests.length === 1 ? JSON.stringify({ ...JSON.parse(GOOD_REPLY), summary: 'You are doing fine.' }) : GOOD_REPLY;
+    });
+    const template = getInsightPromptTemplate('v3-json-dimensions');
+
+    const evaluation = await evaluateTemplate(template, { provider });
+
+    expect(requests).toHaveLength(EVALUATION_PROFILES.length);
+    expect(requests[0].messages[0].content).toContain('Refer to each of the 7 dimensions');
+    expect(evaluation).toMatchObject({ version: 'v3-json-dimensions', provider: 'stub', model: 'stub' });
+    expect(evaluation.results[0].passed).toBe(false);
+    expect(evaluation.passRate).toBeCloseTo((EVALUATION_PROFILES.length - 1) / EVALUATION_PROFILES.length);
+    expect(evaluation.criterionPassRates.valid_json).toBe(1);
+    expect(evaluation.criterionPassRates.all_dimensions).toBeLessThan(1);
+  });
+
+  it('records provider failures as failed profiles', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = new StubLLMProvider(() => {
+      throw new Error('provider down');
+    });
+
+    const evaluation = await evaluateTemplate(INSIGHT_PROMPT_TEMPLATES[0], { provider, profiles: EVALUATION_PROFILES.slice(0, 2) });
+
+    expect(evaluation.results.map((result) => result.reply)).toEqual(['', '']);
+    expect(evaluation.passRate).toBe(0);
+    consoleErrorSpy.mockRestore();
+  });
+});
+
+describe('formatEvaluationReport', () => {
+  it('compares templates side by side and lists failed checks', async () => {
+    const provider = new StubLLMProvider();
+
+    const report = formatEvaluationReport(await evaluateTemplates(INSIGHT_PROMPT_TEMPLATES, { provider }));
+
+    const [header, ...rows] = report.split('\n');
+    expect(header).toMatch(/^template\s+pass\s+valid_json/);
+    expect(rows[0]).toMatch(/^v2-json\s+0%\s+100%/);
+    expect(rows[1]).toMatch(/^v3-json-dimensions\s/);
+    expect(report).toContain('v2-json failures (stub/stub):');
+    expect(report).toContain('Exhausted and isolated: all_dimensions (missing imposterSyndrome');
+  });
+});
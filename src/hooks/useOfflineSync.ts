@@ -19,6 +19,7 @@ import {
   getLastSyncTime,
   type PendingEntry,
 } from '../utils/offlineStorage';
+import type { BurnoutComponentContribution, BurnoutEscalationResponse } from '../types/assessment';
 
 // Types
 export interface SyncStatus {
@@ -50,7 +51,9 @@ export interface SyncResult {
     score: number;
     riskLevel: string;
     contributingFactors: string[];
+    components?: BurnoutComponentContribution[];
   };
+  escalation?: BurnoutEscalationResponse | null; // null if the server couldn't update it
   error?: string;
 }
 
@@ -94,10 +97,7 @@ export function useOfflineSync(userId: string) {
       const response = await fetch('/api/journal/entry', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          odId: entry.userId,
-          ...entry.data,
-        }),
+        body: JSON.stringify(entry.data),
       });
 
       if (!response.ok) {
@@ -113,6 +113,7 @@ export function useOfflineSync(userId: string) {
         success: true,
         entry: result.entry,
         burnoutScore: result.burnoutScore,
+        escalation: result.escalation,
       };
     } catch (error) {
       return {
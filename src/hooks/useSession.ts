@@ -0,0 +1,115 @@
+/**
+ * useSession Hook
+ * Resolves the current user from the server-issued session cookie
+ *
+ * The odId is never read from or written to localStorage any more. Users
+ * who still have a legacy odId stored there are migrated once: it is sent
+ * to /api/user/session, which adopts it if it was never claimed, and the
+ * local copy is removed.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+
+export interface SessionInfo {
+  odId: string;
+  pseudonym: string;
+  isAnonymous: boolean;
+}
+
+const LEGACY_ODID_KEYS = ['odId', 'fmindset_odId'];
+
+let sessionPromise: Promise<SessionInfo | null> | null = null;
+
+function readLegacyOdId(): string | null {
+  for (const key of LEGACY_ODID_KEYS) {
+    const value = localStorage.getItem(key);
+    if (value) return value;
+  }
+  return null;
+}
+
+async function requestSession(): Promise<SessionInfo | null> {
+  const legacyOdId = readLegacyOdId();
+
+  const response = await fetch('/api/user/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(legacyOdId ? { legacyOdId } : {}),
+  });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const data = await response.json();
+  LEGACY_ODID_KEYS.forEach((key) => localStorage.removeItem(key));
+
+  return {
+    odId: data.odId,
+    pseudonym: data.pseudonym,
+    isAnonymous: data.isAnonymous,
+  };
+}
+
+/**
+ * Make sure the browser holds a valid session cookie, creating one if needed
+ *
+ * Concurrent callers share a single request. A failed attempt is not cached
+ * so the next call retries.
+ */
+export function ensureSession(): Promise<SessionInfo | null> {
+  if (!sessionPromise) {
+    sessionPromise = requestSession().catch(() => null);
+    sessionPromise.then((session) => {
+      if (!session) sessionPromise = null;
+    });
+  }
+  return sessionPromise;
+}
+
+/**
+ * Forget the cached session (e.g. after the user deleted their data)
+ */
+export function resetSession(): void {
+  sessionPromise = null;
+}
+
+/**
+ * React hook exposing the current session
+ *
+ * @param options.create - Create an anonymous session if none exists (default true).
+ *   When false, only an existing session is looked up.
+ */
+export function useSession({ create = true }: { create?: boolean } = {}) {
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = create
+      ? ensureSession()
+      : fetch('/api/user/session')
+          .then((res) => (res.ok ? res.json() : null))
+          .catch(() => null);
+
+    load.then((result: SessionInfo | null) => {
+      if (cancelled) return;
+      setSession(result);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [create]);
+
+  return {
+    odId: session?.odId ?? null,
+    pseudonym: session?.pseudonym ?? null,
+    isAnonymous: session?.isAnonymous ?? true,
+    isLoading,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Insight Prompt Templates
+ * Every version of the assessment insights prompt
+ *
+ * The active template comes from INSIGHTS_PROMPT_VERSION (default
+ * DEFAULT_INSIGHTS_PROMPT_VERSION). Insights are stored with the version that
+ * produced them and regenerated once the active version changes. Compare
+ * versions offline with the evaluation harness (npm run eval:insights) before
+ * switching.
+ */
+
+import type { ArchetypeName, PsychologicalScores } from '../types/assessment';
+import { findPromptTemplate, type PromptTemplate, type PromptVariables } from '../utils/promptTemplates';
+
+const INSIGHT_VARIABLES = [
+  'imposterSyndrome',
+  'founderDoubt',
+  'identityFusion',
+  'fearOfRejection',
+  'riskTolerance',
+  'motivationType',
+  'motivationDetail',
+  'isolationLevel',
+  'archetype',
+] as const;
+
+const SCORES_BLOCK = `- Imposter Syndrome: {{imposterSyndrome}}
+- Founder Doubt: {{founderDoubt}}
+- Identity Fusion: {{identityFusion}}
+- Fear of Rejection: {{fearOfRejection}}
+- Risk Tolerance: {{riskTolerance}}
+- Motivation Type: {{motivationType}}{{motivationDetail}}
+- Isolation Level: {{isolationLevel}}`;
+
+export const INSIGHT_PROMPT_TEMPLATES: readonly PromptTemplate[] = [
+  {
+    version: 'v2-json',
+    description: 'Structured JSON reply: summary, 3 recommendations and a warning sign',
+    variables: INSIGHT_VARIABLES,
+    text: `You are a supportive founder psychologist. A young founder (age 16-24) just completed a psychological assessment. Here are their scores (0-100, higher = more intense):
+
+${SCORES_BLOCK}
+
+Their archetype is: {{archetype}}
+
+Respond with only a JSON object, no other text, in exactly this shape:
+{
+  "summary": "A brief assessment of their psychological state (2-3 sentences)",
+  "recommendations": ["3 specific, actionable recommendations, one sentence each"],
+  "warningSign": "1 warning sign to watch for"
+}
+
+Tone: Warm, supportive, non-clinical. Speak directly to the founder. Keep response under 300 words.`,
+  },
+  {
+    version: 'v3-json-dimensions',
+    description: 'v2-json, but asks for every dimension to be named and rules out diagnoses explicitly',
+    variables: INSIGHT_VARIABLES,
+    text: `You are a supportive founder coach. A young founder (age 16-24) just completed a psychological assessment. Here are their scores (0-100, higher = more intense):
+
+${SCORES_BLOCK}
+
+Their archetype is: {{archetype}}
+
+Respond with only a JSON object, no other text, in exactly this shape:
+{
+  "summary": "A brief assessment of their psychological state (3-4 sentences)",
+  "recommendations": ["3 specific, actionable recommendations, one sentence each"],
+  "warningSign": "1 warning sign to watch for"
+}
+
+Refer to each of the 7 dimensions above by name at least once across the summary, recommendations and warning sign, starting with the most intense ones. Never name a mental health condition or suggest medication; point to professional support instead when scores are very high.
+
+Tone: Warm, supportive, non-clinical. Speak directly to the founder. Keep response under 300 words.`,
+  },
+];
+
+// Bump by adding a template: insights stored under another version are regenerated
+export const DEFAULT_INSIGHTS_PROMPT_VERSION = 'v2-json';
+
+/**
+ * Gets an insights template by version
+ * @throws PromptTemplateError if no template has that version
+ */
+export function getInsightPromptTemplate(version: string): PromptTemplate {
+  return findPromptTemplate(INSIGHT_PROMPT_TEMPLATES, version);
+}
+
+/**
+ * Gets the template insights are currently generated with
+ * An unknown INSIGHTS_PROMPT_VERSION is logged and the default used instead,
+ * so a bad setting never stops insights from being generated.
+ */
+export function getActiveInsightPromptTemplate(env: Record<string, string | undefined> = process.env): PromptTemplate {
+  const version = env.INSIGHTS_PROMPT_VERSION?.trim();
+  if (version) {
+    try {
+      return getInsightPromptTemplate(version);
+    } catch (error) {
+      console.error('Invalid INSIGHTS_PROMPT_VERSION, using the default:', error);
+    }
+  }
+  return getInsightPromptTemplate(DEFAULT_INSIGHTS_PROMPT_VERSION);
+}
+
+/**
+ * Values for the insights template placeholders
+ */
+export function insightPromptVariables(scores: PsychologicalScores, archetype: ArchetypeName): PromptVariables {
+  return {
+    imposterSyndrome: scores.imposterSyndrome,
+    founderDoubt: scores.founderDoubt,
+    identityFusion: scores.identityFusion,
+    fearOfRejection: scores.fearOfRejection,
+    riskTolerance: scores.riskTolerance,
+    motivationType: scores.motivationType,
+    motivationDetail: scores.motivationScore !== undefined ? ` (${scores.motivationScore}/100 toward intrinsic)` : '',
+    isolationLevel: scores.isolationLevel,
+    archetype,
+  };
+}
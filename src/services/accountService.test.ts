@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { UserProfile } from '../db/schema';
+
+// In-memory profile store standing in for the database layer
+const profiles = new Map<string, UserProfile>();
+
+function makeProfile(odId: string, overrides: Partial<UserProfile> = {}): UserProfile {
+  return {
+    id: 'id-' + odId,
+    odId,
+    isAnonymous: true,
+    pseudonym: null,
+    passwordHash: null,
+    sessionIssuedAt: new Date(),
+    retakeDueAt: null,
+    retakeDueReason: null,
+    retakeBaselineRisk: null,
+    retakeReminderSentAt: null,
+    shareNotesWithAI: true,
+    crisisRegion: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+vi.mock('./databaseService', () => ({
+  createOrGetUserProfile: vi.fn(async (odId: string) => {
+    if (!profiles.has(odId)) profiles.set(odId, makeProfile(odId));
+    return profiles.get(odId)!;
+  }),
+  findClaimedProfileByPseudonym: vi.fn(async (pseudonym: string) => {
+    for (const profile of profiles.values()) {
+      if (profile.pseudonym === pseudonym && !profile.isAnonymous) return profile;
+    }
+    return null;
+  }),
+  setProfileCredentials: vi.fn(async (odId: string, credentials: { pseudonym: string; passwordHash: string }) => {
+    const updated = { ...profiles.get(odId)!, ...credentials, isAnonymous: false };
+    profiles.set(odId, updated);
+    return updated;
+  }),
+}));
+
+let nextPseudonym = 5000;
+vi.mock('./communityService', () => ({
+  generatePseudonym: vi.fn(() => `Founder-${nextPseudonym++}`),
+}));
+
+import {
+  claimProfile,
+  loginWithPassphrase,
+  hashPassphrase,
+  verifyPassphrase,
+  validatePassphrase,
+  AccountValidationError,
+} from './accountService';
+import { LOGIN_RATE_LIMIT } from '../utils/rateLimit';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+// Rate limits are tracked in a module-level store, so each test uses its own client
+let clientCounter = 0;
+function freshClient(): string {
+  return `ip:test-${clientCounter++}`;
+}
+
+describe('Account Service', () => {
+  beforeEach(() => {
+    profiles.clear();
+  });
+
+  describe('passphrase hashing', () => {
+    it('verifies the original passphrase and rejects others', async () => {
+      const hash = await hashPassphrase(PASSPHRASE);
+
+      expect(hash.startsWith('scrypt$')).toBe(true);
+      expect(hash).not.toContain(PASSPHRASE);
+      expect(await verifyPassphrase(PASSPHRASE, hash)).toBe(true);
+      expect(await verifyPassphrase(PASSPHRASE + '!', hash)).toBe(false);
+    });
+
+    it('salts each hash', async () => {
+      const [first, second] = await Promise.all([hashPassphrase(PASSPHRASE), hashPassphrase(PASSPHRASE)]);
+      expect(first).not.toBe(second);
+    });
+
+    it('rejects malformed stored hashes', async () => {
+      expect(await verifyPassphrase(PASSPHRASE, 'plaintext')).toBe(false);
+      expect(await verifyPassphrase(PASSPHRASE, 'bcrypt$1$2$3$a$b')).toBe(false);
+    });
+  });
+
+  describe('validatePassphrase', () => {
+    it('rejects missing, short and overly long passphrases', () => {
+      expect(() => validatePassphrase(undefined)).toThrow(AccountValidationError);
+      expect(() => validatePassphrase('short')).toThrow('at least 12 characters');
+      expect(() => validatePassphrase('x'.repeat(129))).toThrow('must not exceed 128 characters');
+    });
+
+    it('accepts a reasonable passphrase', () => {
+      expect(() => validatePassphrase(PASSPHRASE)).not.toThrow();
+    });
+  });
+
+  describe('claim and login flow', () => {
+    it('claims a profile and logs in with pseudonym + passphrase', async () => {
+      profiles.set('anonymous-device-a', makeProfile('anonymous-device-a', { pseudonym: 'Founder-1234' }));
+
+      const claimed = await claimProfile('anonymous-device-a', PASSPHRASE);
+
+      expect(claimed.isAnonymous).toBe(false);
+      expect(claimed.pseudonym).toBe('Founder-1234');
+      expect(claimed.passwordHash).not.toBe(PASSPHRASE);
+
+      const result = await loginWithPassphrase('Founder-1234', PASSPHRASE, freshClient());
+
+      expect(result.status).toBe('success');
+      expect(result.status === 'success' && result.profile.odId).toBe('anonymous-device-a');
+    });
+
+    it('assigns a pseudonym when the profile has none', async () => {
+      const claimed = await claimProfile('anonymous-no-name', PASSPHRASE);
+      expect(claimed.pseudonym).toMatch(/^Founder-\d+$/);
+    });
+
+    it('picks a new pseudonym when another claimed profile owns it', async () => {
+      profiles.set('owner', makeProfile('owner', { pseudonym: 'Founder-1111', isAnonymous: false, passwordHash: 'x' }));
+      profiles.set('newcomer', makeProfile('newcomer', { pseudonym: 'Founder-1111' }));
+
+      const claimed = await claimProfile('newcomer', PASSPHRASE);
+
+      expect(claimed.pseudonym).not.toBe('Founder-1111');
+    });
+
+    it('rejects a wrong passphrase and an unknown pseudonym alike', async () => {
+      await claimProfile('anonymous-device-a', PASSPHRASE);
+      const pseudonym = profiles.get('anonymous-device-a')!.pseudonym!;
+
+      expect((await loginWithPassphrase(pseudonym, 'wrong passphrase here', freshClient())).status).toBe('invalid');
+      expect((await loginWithPassphrase('Founder-0000', PASSPHRASE, freshClient())).status).toBe('invalid');
+    });
+
+    it('does not let anonymous profiles log in', async () => {
+      profiles.set('anon', makeProfile('anon', { pseudonym: 'Founder-2222' }));
+      expect((await loginWithPassphrase('Founder-2222', PASSPHRASE, freshClient())).status).toBe('invalid');
+    });
+
+    it('requires the current passphrase to change it', async () => {
+      await claimProfile('anonymous-device-a', PASSPHRASE);
+      const pseudonym = profiles.get('anonymous-device-a')!.pseudonym!;
+      const newPassphrase = 'a brand new passphrase';
+
+      await expect(claimProfile('anonymous-device-a', newPassphrase)).rejects.toThrow('Current passphrase is incorrect');
+      await expect(claimProfile('anonymous-device-a', newPassphrase, 'not the right one')).rejects.toThrow(AccountValidationError);
+
+      await claimProfile('anonymous-device-a', newPassphrase, PASSPHRASE);
+
+      expect((await loginWithPassphrase(pseudonym, PASSPHRASE, freshClient())).status).toBe('invalid');
+      expect((await loginWithPassphrase(pseudonym, newPassphrase, freshClient())).status).toBe('success');
+    });
+
+    it('requires both credentials', async () => {
+      await expect(loginWithPassphrase('', PASSPHRASE, freshClient())).rejects.toThrow(AccountValidationError);
+      await expect(loginWithPassphrase('Founder-1234', undefined, freshClient())).rejects.toThrow(AccountValidationError);
+    });
+  });
+
+  describe('login rate limiting', () => {
+    it('blocks a client after too many attempts', async () => {
+      const client = freshClient();
+
+      for (let i = 0; i < LOGIN_RATE_LIMIT.maxRequests; i++) {
+        expect((await loginWithPassphrase(`Founder-${9000 + i}`, PASSPHRASE, client)).status).toBe('invalid');
+      }
+
+      const blocked = await loginWithPassphrase('Founder-9999', PASSPHRASE, client);
+      expect(blocked.status).toBe('rate_limited');
+    });
+
+    it('blocks guessing one pseudonym from many clients, even with the right passphrase', async () => {
+      profiles.set('target', makeProfile('target', { pseudonym: 'Founder-7777' }));
+      await claimProfile('target', PASSPHRASE);
+
+      for (let i = 0; i < LOGIN_RATE_LIMIT.maxRequests; i++) {
+        await loginWithPassphrase('Founder-7777', `guess number ${i}!!`, freshClient());
+      }
+
+      const result = await loginWithPassphrase('Founder-7777', PASSPHRASE, freshClient());
+      expect(result.status).toBe('rate_limited');
+    });
+  });
+});
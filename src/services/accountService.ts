@@ -0,0 +1,215 @@
+import { scrypt, randomBytes, timingSafeEqual, type ScryptOptions } from 'crypto';
+import {
+  createOrGetUserProfile,
+  findClaimedProfileByPseudonym,
+  setProfileCredentials,
+} from './databaseService';
+import { generatePseudonym } from './communityService';
+import { checkRateLimit, LOGIN_RATE_LIMIT, type RateLimitResult } from '../utils/rateLimit';
+import type { UserProfile } from '../db/schema';
+
+/**
+ * Account service for optional passphrase-protected profiles
+ *
+ * Profiles start anonymous. A user can "claim" theirs by setting a passphrase
+ * (no email), then log in on another device with pseudonym + passphrase.
+ */
+
+// Passphrase constraints
+export const MIN_PASSPHRASE_LENGTH = 12;
+export const MAX_PASSPHRASE_LENGTH = 128;
+
+// scrypt parameters (N=2^15 costs ~100ms and 32MB per hash)
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_SALT_LENGTH = 16;
+const SCRYPT_MAX_MEMORY = 64 * 1024 * 1024;
+
+// Attempts at finding a pseudonym that no claimed profile uses yet
+const MAX_PSEUDONYM_ATTEMPTS = 10;
+
+/**
+ * Validation error class for account operations
+ */
+export class AccountValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountValidationError';
+  }
+}
+
+export type LoginResult =
+  | { status: 'success'; profile: UserProfile }
+  | { status: 'invalid' }
+  | { status: 'rate_limited'; rateLimit: RateLimitResult };
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase.normalize('NFKC'),
+      salt,
+      SCRYPT_KEY_LENGTH,
+      { ...params, maxmem: SCRYPT_MAX_MEMORY },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+/**
+ * Validates a passphrase
+ * @throws AccountValidationError if validation fails
+ */
+export function validatePassphrase(passphrase: unknown): asserts passphrase is string {
+  if (typeof passphrase !== 'string') {
+    throw new AccountValidationError('Passphrase is required');
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new AccountValidationError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  if (passphrase.length > MAX_PASSPHRASE_LENGTH) {
+    throw new AccountValidationError(`Passphrase must not exceed ${MAX_PASSPHRASE_LENGTH} characters`);
+  }
+}
+
+/**
+ * Hash a passphrase with scrypt
+ *
+ * @returns Self-describing hash: scrypt$N$r$p$salt$key (salt and key base64)
+ */
+export async function hashPassphrase(passphrase: string): Promise<string> {
+  const salt = randomBytes(SCRYPT_SALT_LENGTH);
+  const key = await deriveKey(passphrase, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Check a passphrase against a stored hash in constant time
+ */
+export async function verifyPassphrase(passphrase: string, storedHash: string): Promise<boolean> {
+  const [algorithm, N, r, p, saltB64, keyB64] = storedHash.split('$');
+  if (algorithm !== 'scrypt' || !saltB64 || !keyB64) {
+    return false;
+  }
+
+  const expected = Buffer.from(keyB64, 'base64');
+  const actual = await deriveKey(passphrase, Buffer.from(saltB64, 'base64'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Hash of a random passphrase, verified against when no profile matches so
+// unknown pseudonyms take as long to reject as wrong passphrases
+let dummyHash: Promise<string> | null = null;
+
+function getDummyHash(): Promise<string> {
+  if (!dummyHash) {
+    dummyHash = hashPassphrase(randomBytes(32).toString('hex'));
+  }
+  return dummyHash;
+}
+
+/**
+ * Pick the pseudonym a profile will log in with
+ *
+ * Keeps the current pseudonym unless another claimed profile already owns it.
+ */
+async function resolveLoginPseudonym(profile: UserProfile): Promise<string> {
+  let candidate = profile.pseudonym;
+
+  for (let attempt = 0; attempt < MAX_PSEUDONYM_ATTEMPTS; attempt++) {
+    if (candidate) {
+      const owner = await findClaimedProfileByPseudonym(candidate);
+      if (!owner || owner.odId === profile.odId) {
+        return candidate;
+      }
+    }
+    candidate = generatePseudonym();
+  }
+
+  throw new Error('Failed to find an available pseudonym');
+}
+
+/**
+ * Protect a profile with a passphrase so it can be recovered on other devices
+ *
+ * Setting a passphrase flips isAnonymous to false. If the profile is already
+ * claimed, the current passphrase is required to change it.
+ *
+ * @param odId - Session user's odId
+ * @param passphrase - New passphrase
+ * @param currentPassphrase - Required when the profile already has a passphrase
+ * @returns The updated profile (its pseudonym is the login name)
+ * @throws AccountValidationError on invalid input or a wrong current passphrase
+ */
+export async function claimProfile(
+  odId: string,
+  passphrase: unknown,
+  currentPassphrase?: unknown
+): Promise<UserProfile> {
+  validatePassphrase(passphrase);
+
+  const profile = await createOrGetUserProfile(odId);
+
+  if (profile.passwordHash) {
+    if (typeof currentPassphrase !== 'string' || !(await verifyPassphrase(currentPassphrase, profile.passwordHash))) {
+      throw new AccountValidationError('Current passphrase is incorrect');
+    }
+  }
+
+  const pseudonym = await resolveLoginPseudonym(profile);
+  const passwordHash = await hashPassphrase(passphrase);
+
+  return setProfileCredentials(odId, { pseudonym, passwordHash });
+}
+
+/**
+ * Log in with pseudonym + passphrase
+ *
+ * Attempts are rate limited both per client and per pseudonym, so neither a
+ * single client nor a distributed guesser can brute-force one account.
+ *
+ * @param pseudonym - Login name of a claimed profile
+ * @param passphrase - Passphrase set when claiming
+ * @param clientId - Client identifier from getClientIdentifier
+ */
+export async function loginWithPassphrase(
+  pseudonym: unknown,
+  passphrase: unknown,
+  clientId: string
+): Promise<LoginResult> {
+  if (typeof pseudonym !== 'string' || pseudonym.trim() === '' || typeof passphrase !== 'string' || passphrase === '') {
+    throw new AccountValidationError('Pseudonym and passphrase are required');
+  }
+  if (passphrase.length > MAX_PASSPHRASE_LENGTH) {
+    return { status: 'invalid' };
+  }
+
+  const name = pseudonym.trim();
+
+  const clientLimit = checkRateLimit(`login:${clientId}`, LOGIN_RATE_LIMIT);
+  if (!clientLimit.allowed) {
+    return { status: 'rate_limited', rateLimit: clientLimit };
+  }
+  const accountLimit = checkRateLimit(`login:pseudonym:${name.toLowerCase()}`, LOGIN_RATE_LIMIT);
+  if (!accountLimit.allowed) {
+    return { status: 'rate_limited', rateLimit: accountLimit };
+  }
+
+  const profile = await findClaimedProfileByPseudonym(name);
+
+  if (!profile || !profile.passwordHash) {
+    await verifyPassphrase(passphrase, await getDummyHash());
+    return { status: 'invalid' };
+  }
+
+  if (!(await verifyPassphrase(passphrase, profile.passwordHash))) {
+    return { status: 'invalid' };
+  }
+
+  return { status: 'success', profile };
+}
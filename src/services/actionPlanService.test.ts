@@ -69,15 +69,19 @@ function createMockAssessment(overrides: Partial<Assessment> = {}): Assessment {
     id: 'test-assessment-id',
     userId: 'test-user',
     answers: [],
+    questionBankVersion: 'v1',
     imposterSyndrome: 50,
     founderDoubt: 50,
     identityFusion: 50,
     fearOfRejection: 50,
     riskTolerance: 50,
     motivationType: 'mixed',
+    motivationScore: null,
     isolationLevel: 50,
     archetype: 'Balanced Founder',
     groqInsights: null,
+    insightsPromptVersion: null,
+    responseQuality: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -90,6 +94,7 @@ function createMockBurnoutScore(overrides: Partial<BurnoutScoreResult> = {}): Bu
     score: 50,
     riskLevel: 'caution',
     contributingFactors: [],
+    components: [],
     ...overrides,
   };
 }
@@ -433,3 +438,51 @@ function hashSeed(seed: string): number {
   }
   return hash;
 }
+
+describe('AI recommendation actions', () => {
+  const insights = {
+    summary: 'You are stretched thin.',
+    recommendations: [
+      'Call a founder friend this week.',
+      'Take a 20-minute walk after lunch.',
+      'Notice one thought you keep repeating.',
+    ],
+    warningSign: 'Skipping meals to keep working.',
+  };
+
+  it('turns structured insights into templates with inferred categories', async () => {
+    const { getAIRecommendationActions } = await import('./actionPlanService');
+
+    expect(getAIRecommendationActions(createMockAssessment({ groqInsights: insights }))).toEqual([
+      { text: 'Call a founder friend this week.', category: 'social', targetDimension: null },
+      { text: 'Take a 20-minute walk after lunch.', category: 'physical', targetDimension: null },
+      { text: 'Notice one thought you keep repeating.', category: 'mindfulness', targetDimension: null },
+    ]);
+  });
+
+  it('ignores plain-text and missing insights', async () => {
+    const { getAIRecommendationActions } = await import('./actionPlanService');
+
+    expect(getAIRecommendationActions(createMockAssessment({ groqInsights: '1. Rest more' }))).toEqual([]);
+    expect(getAIRecommendationActions(createMockAssessment())).toEqual([]);
+    expect(getAIRecommendationActions(null)).toEqual([]);
+  });
+
+  it('includes one AI recommendation in the daily plan', async () => {
+    const { db } = await import('../db/connection');
+    const { generateDailyActions } = await import('./actionPlanService');
+    vi.mocked(db.insert).mockClear();
+
+    await generateDailyActions(
+      'test-user',
+      'Balanced Founder',
+      createMockBurnoutScore({ riskLevel: 'low' }),
+      createMockAssessment({ groqInsights: insights })
+    );
+
+    const inserted = vi.mocked(db.insert).mock.results
+      .map((result) => (result.value as { values: ReturnType<typeof vi.fn> }).values.mock.calls[0][0]);
+    expect(inserted).toHaveLength(3);
+    expect(inserted.filter((action) => insights.recommendations.includes(action.actionText))).toHaveLength(1);
+  });
+});
@@ -13,6 +13,8 @@ import {
 } from '../db/schema';
 import type { ArchetypeName } from '../types/assessment';
 import type { BurnoutScoreResult } from './burnoutService';
+import { toStructuredInsights } from '../utils/insights';
+import { findSafetyIssues } from '../utils/aiSafety';
 import { 
   DIMENSION_ACTIONS, 
   ARCHETYPE_ACTIONS, 
@@ -26,6 +28,15 @@ import {
 const MIN_DAILY_ACTIONS = 3;
 const MAX_DAILY_ACTIONS = 5;
 const HIGH_DIMENSION_THRESHOLD = 70;
+const AI_ACTIONS_PER_DAY = 1;
+
+// Keywords that place an AI recommendation in an action category; first match wins
+const CATEGORY_KEYWORDS: Array<[ActionCategory, RegExp]> = [
+  ['social', /\b(friend|mentor|founders?|peers?|community|talk|share|call|reach out|ask)\b/i],
+  ['physical', /\b(walk|exercise|workout|run|stretch|move|sleep|gym)\b/i],
+  ['rest', /\b(rest|break|hobby|hobbies|time off|day off|unplug|disconnect|relax)\b/i],
+  ['professional', /\b(customers?|pitch|product|investors?|feedback|goals?|priorit\w*|delegate)\b/i],
+];
 
 // Completion stats interface
 export interface CompletionStats {
@@ -142,6 +153,22 @@ function getDimensionsFromBurnout(burnoutScore: BurnoutScoreResult | null): Dime
 }
 
 
+/**
+ * Turn the AI recommendations stored on an assessment into action templates
+ * Only structured insights carry recommendations; plain-text insights yield none.
+ * Recommendations that trip the AI safety checks are never turned into actions.
+ */
+export function getAIRecommendationActions(assessment: Assessment | null): ActionTemplate[] {
+  const insights = toStructuredInsights(assessment?.groqInsights);
+  if (!insights) return [];
+
+  return insights.recommendations.filter((text) => findSafetyIssues(text).length === 0).map((text) => ({
+    text,
+    category: CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'mindfulness',
+    targetDimension: null,
+  }));
+}
+
 /**
  * Select actions ensuring variety in categories
  */
@@ -182,7 +209,8 @@ function selectDiverseActions(
 
 /**
  * Generate daily actions based on user profile, archetype, and burnout score
- * Creates 3-5 personalized micro-actions
+ * Creates 3-5 personalized micro-actions, one of them taken from the AI
+ * recommendations when the assessment has structured insights
  * 
  * @param userId - The user's odId
  * @param archetype - The user's archetype from assessment
@@ -229,8 +257,14 @@ export async function generateDailyActions(
     }
   }
   
+  // One AI recommendation from the latest assessment each day, rotating through them
+  const aiActions = shuffleWithSeed(getAIRecommendationActions(assessment), seed).slice(0, AI_ACTIONS_PER_DAY);
+
   // Select diverse actions
-  const selectedActions = selectDiverseActions(candidateActions, actionCount, seed);
+  const selectedActions = [
+    ...aiActions,
+    ...selectDiverseActions(candidateActions, actionCount - aiActions.length, seed),
+  ];
   
   // Create action items in database
   const createdActions: ActionItem[] = [];
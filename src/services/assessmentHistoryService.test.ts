@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  averageJournalPeriod,
+  buildAssessmentHistory,
+  diffAssessments,
+  findArchetypeTransitions,
+} from './assessmentHistoryService';
+import { calculateScores, determineArchetype } from './assessmentService';
+import { getQuestionBank } from '../utils/questionBanks';
+import type { Assessment, JournalEntry } from '../db/schema';
+import type { AnswerValue, ArchetypeName, ResponseQuality } from '../types/assessment';
+
+// Mock the database connection
+vi.mock('../db/connection', () => ({
+  db: {},
+}));
+
+const V3_LENGTH = getQuestionBank('v3').questions.length;
+
+function createAssessment(
+  answers: AnswerValue[],
+  overrides: Partial<Assessment> = {},
+  bankVersion: string = 'v3'
+): Assessment {
+  const scores = calculateScores(answers, bankVersion);
+  return {
+    id: 'assessment-' + Math.random().toString(36).slice(2, 11),
+    userId: 'test-user',
+    answers,
+    questionBankVersion: bankVersion,
+    imposterSyndrome: scores.imposterSyndrome,
+    founderDoubt: scores.founderDoubt,
+    identityFusion: scores.identityFusion,
+    fearOfRejection: scores.fearOfRejection,
+    riskTolerance: scores.riskTolerance,
+    motivationType: scores.motivationType,
+    motivationScore: scores.motivationScore ?? null,
+    isolationLevel: scores.isolationLevel,
+    archetype: determineArchetype(scores).name,
+    groqInsights: null,
+    insightsPromptVersion: null,
+    responseQuality: null,
+    createdAt: new Date('2026-01-01T09:00:00Z'),
+    updatedAt: new Date('2026-01-01T09:00:00Z'),
+    ...overrides,
+  };
+}
+
+function createEntry(entryDate: string, mood: number, energy: number, stress: number): JournalEntry {
+  return {
+    id: 'entry-' + entryDate,
+    userId: 'test-user',
+    mood,
+    energy,
+    stress,
+    notes: null,
+    entryDate,
+    isSynced: true,
+    createdAt: new Date(entryDate),
+    updatedAt: new Date(entryDate),
+  };
+}
+
+// Indexes of the v3 questions scoring into a key
+function indexesFor(key: string): number[] {
+  return getQuestionBank('v3').questions.flatMap((question, index) => (question.key === key ? [index] : []));
+}
+
+const answerArb = fc.constantFrom<AnswerValue>('A', 'B', 'C', 'D');
+const v3AnswersArb = fc.array(answerArb, { minLength: V3_LENGTH, maxLength: V3_LENGTH });
+
+describe('diffAssessments', () => {
+  it('reports no change between identical answers', () => {
+    const answers = Array<AnswerValue>(V3_LENGTH).fill('B');
+    const diff = diffAssessments(createAssessment(answers), createAssessment(answers));
+
+    expect(diff.changes.every((change) => change.delta === 0 && !change.significant)).toBe(true);
+    expect(diff.archetypeChanged).toBe(false);
+    expect(diff.motivationTypeChanged).toBe(false);
+  });
+
+  it('flags a consistent swing across every item of a dimension', () => {
+    const before = Array<AnswerValue>(V3_LENGTH).fill('B');
+    const after = [...before];
+    for (const index of indexesFor('imposterSyndrome')) after[index] = 'D';
+
+    const diff = diffAssessments(createAssessment(before), createAssessment(after));
+    const imposter = diff.changes.find((change) => change.dimension === 'imposterSyndrome')!;
+
+    expect(imposter).toMatchObject({ from: 33, to: 100, delta: 67, significant: true });
+    expect(diff.changes.filter((change) => change.significant)).toHaveLength(1);
+  });
+
+  it('treats a one-step change on a single item as noise', () => {
+    const before = Array<AnswerValue>(V3_LENGTH).fill('B');
+    const after = [...before];
+    after[indexesFor('imposterSyndrome')[0]] = 'C';
+
+    const diff = diffAssessments(createAssessment(before), createAssessment(after));
+    const imposter = diff.changes.find((change) => change.dimension === 'imposterSyndrome')!;
+
+    expect(imposter.delta).toBeGreaterThan(0);
+    expect(imposter.significant).toBe(false);
+  });
+
+  it('compares retakes taken on different bank versions', () => {
+    const v1Length = getQuestionBank('v1').questions.length;
+    const from = createAssessment(Array<AnswerValue>(v1Length).fill('C'), {}, 'v1');
+    const to = createAssessment(Array<AnswerValue>(V3_LENGTH).fill('C'), {
+      createdAt: new Date('2026-01-31T09:00:00Z'),
+    });
+
+    const diff = diffAssessments({ ...from, motivationScore: null }, to);
+
+    expect(diff.daysBetween).toBe(30);
+    expect(diff.changes.map((change) => change.dimension)).not.toContain('motivationScore');
+    expect(diff.changes).toHaveLength(6);
+  });
+
+  it('includes the motivation score when both assessments have one', () => {
+    const answers = Array<AnswerValue>(V3_LENGTH).fill('C');
+    const diff = diffAssessments(createAssessment(answers), createAssessment(answers));
+
+    expect(diff.changes.map((change) => change.dimension)).toContain('motivationScore');
+  });
+
+  it('is antisymmetric: swapping the assessments negates every change', () => {
+    fc.assert(
+      fc.property(v3AnswersArb, v3AnswersArb, (first, second) => {
+        const a = createAssessment(first);
+        const b = createAssessment(second);
+        const forward = diffAssessments(a, b);
+        const backward = diffAssessments(b, a);
+
+        forward.changes.forEach((change, index) => {
+          expect(backward.changes[index].delta + change.delta).toBe(0);
+          expect(backward.changes[index].zScore + change.zScore).toBeCloseTo(0, 5);
+          expect(backward.changes[index].significant).toBe(change.significant);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('findArchetypeTransitions', () => {
+  const answers = Array<AnswerValue>(V3_LENGTH).fill('B');
+  const at = (archetype: ArchetypeName, day: number) =>
+    createAssessment(answers, { archetype, createdAt: new Date(Date.UTC(2026, 0, day)) });
+
+  it('lists only retakes that changed archetype', () => {
+    const history = [
+      at('Burning Out', 1),
+      at('Burning Out', 10),
+      at('Growth Seeker', 20),
+      at('Balanced Founder', 30),
+    ];
+
+    const transitions = findArchetypeTransitions(history);
+
+    expect(transitions).toEqual([
+      { assessmentId: history[2].id, at: history[2].createdAt.toISOString(), from: 'Burning Out', to: 'Growth Seeker' },
+      { assessmentId: history[3].id, at: history[3].createdAt.toISOString(), from: 'Growth Seeker', to: 'Balanced Founder' },
+    ]);
+  });
+
+  it('returns nothing for a single assessment', () => {
+    expect(findArchetypeTransitions([at('Burning Out', 1)])).toEqual([]);
+  });
+});
+
+describe('averageJournalPeriod', () => {
+  const entries = [
+    createEntry('2026-01-01', 40, 50, 80),
+    createEntry('2026-01-05', 60, 70, 60),
+    createEntry('2026-01-10', 90, 90, 10),
+  ];
+
+  it('includes the start day and excludes the end day', () => {
+    expect(averageJournalPeriod(entries, '2026-01-01', '2026-01-10')).toEqual({
+      entryCount: 2,
+      moodAvg: 50,
+      energyAvg: 60,
+      stressAvg: 70,
+    });
+  });
+
+  it('runs to the present when there is no end', () => {
+    expect(averageJournalPeriod(entries, '2026-01-05', null).entryCount).toBe(2);
+  });
+
+  it('returns null averages for a period without entries', () => {
+    expect(averageJournalPeriod(entries, '2026-02-01', null)).toEqual({
+      entryCount: 0,
+      moodAvg: null,
+      energyAvg: null,
+      stressAvg: null,
+    });
+  });
+});
+
+describe('buildAssessmentHistory', () => {
+  it('links each assessment to the journal entries logged before the next retake', () => {
+    const answers = Array<AnswerValue>(V3_LENGTH).fill('B');
+    const first = createAssessment(answers, { createdAt: new Date('2026-01-01T18:00:00Z') });
+    const second = createAssessment(answers, {
+      createdAt: new Date('2026-01-08T08:00:00Z'),
+      responseQuality: { level: 'poor' } as ResponseQuality,
+    });
+    const entries = [
+      createEntry('2026-01-02', 30, 30, 90),
+      createEntry('2026-01-07', 50, 50, 70),
+      createEntry('2026-01-08', 80, 80, 20),
+    ];
+
+    const [older, latest] = buildAssessmentHistory([first, second], entries);
+
+    expect(older.periodEnd).toBe(second.createdAt.toISOString());
+    expect(older.journal).toEqual({ entryCount: 2, moodAvg: 40, energyAvg: 40, stressAvg: 80 });
+    expect(older.qualityLevel).toBeNull();
+    expect(latest.periodEnd).toBeNull();
+    expect(latest.journal.entryCount).toBe(1);
+    expect(latest.qualityLevel).toBe('poor');
+  });
+});
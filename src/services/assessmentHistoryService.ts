@@ -0,0 +1,223 @@
+import {
+  AnswerValue,
+  ArchetypeTransition,
+  AssessmentDiff,
+  AssessmentHistoryEntry,
+  ComparedDimension,
+  DimensionChange,
+  PeriodJournalAverages,
+  QuestionKey,
+  ResponseQuality,
+  ScoredDimension,
+} from '../types/assessment';
+import type { Assessment, JournalEntry } from '../db/schema';
+import { assessmentToScores } from './databaseService';
+import { scoreItem } from './assessmentService';
+import { getQuestionBank } from '../utils/questionBanks';
+import { DIMENSION_LABELS } from '../utils/archetypeRules';
+
+/**
+ * Longitudinal assessment history
+ *
+ * Compares retakes dimension by dimension and decides whether a change is
+ * bigger than the measurement noise of the quiz itself. Each score is a mean
+ * of a few Likert items, so its standard error comes from how spread out the
+ * respondent's own items were and how many there were; a change counts as
+ * meaningful when it exceeds 1.96 standard errors of the difference (a 95%
+ * reliable-change criterion).
+ */
+
+// One answer step on the 0-100 item scale (A = 0, B = 33, C = 67, D = 100)
+const ANSWER_STEP = 100 / 3;
+// Assumed item spread for single-item scores, which have no spread of their own
+const SINGLE_ITEM_SD = ANSWER_STEP;
+// Floor on observed spread, so identical answers don't claim perfect precision
+const MIN_ITEM_SD = ANSWER_STEP / 2;
+// Two-sided 95% critical value
+const SIGNIFICANCE_Z = 1.96;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Order dimensions appear in a diff
+const COMPARED_DIMENSIONS: ScoredDimension[] = Object.keys(DIMENSION_LABELS) as ScoredDimension[];
+
+/**
+ * Standard error of the weighted item mean for every key in an assessment's bank
+ */
+function standardErrorsByKey(assessment: Pick<Assessment, 'answers' | 'questionBankVersion'>): Map<QuestionKey, number> {
+  const bank = getQuestionBank(assessment.questionBankVersion);
+  const answers = assessment.answers as AnswerValue[];
+
+  const itemsByKey = new Map<QuestionKey, Array<{ score: number; weight: number }>>();
+  bank.questions.forEach((question, index) => {
+    if (question.key === 'attentionCheck') return;
+    const items = itemsByKey.get(question.key) ?? [];
+    items.push({ score: scoreItem(question, answers[index]), weight: question.weight ?? 1 });
+    itemsByKey.set(question.key, items);
+  });
+
+  const errors = new Map<QuestionKey, number>();
+  for (const [key, items] of itemsByKey) {
+    const totalWeight = items.reduce((acc, item) => acc + item.weight, 0);
+    const sumSquaredWeights = items.reduce((acc, item) => acc + item.weight ** 2, 0);
+    const effectiveCount = totalWeight ** 2 / sumSquaredWeights;
+
+    let sd = SINGLE_ITEM_SD;
+    if (items.length > 1) {
+      const mean = items.reduce((acc, item) => acc + item.score * item.weight, 0) / totalWeight;
+      const variance = items.reduce((acc, item) => acc + item.weight * (item.score - mean) ** 2, 0) / totalWeight;
+      sd = Math.max(Math.sqrt(variance), MIN_ITEM_SD);
+    }
+
+    errors.set(key, sd / Math.sqrt(effectiveCount));
+  }
+  return errors;
+}
+
+/**
+ * Standard error of one compared score
+ * The motivation score is 50 + (intrinsic - extrinsic) / 2, so its error combines both sides.
+ */
+function scoreStandardError(errors: Map<QuestionKey, number>, dimension: ComparedDimension): number {
+  if (dimension === 'motivationScore') {
+    const intrinsic = errors.get('motivationIntrinsic') ?? SINGLE_ITEM_SD;
+    const extrinsic = errors.get('motivationExtrinsic') ?? SINGLE_ITEM_SD;
+    return Math.sqrt(intrinsic ** 2 + extrinsic ** 2) / 2;
+  }
+  return errors.get(dimension) ?? SINGLE_ITEM_SD;
+}
+
+function compareScore(
+  dimension: ComparedDimension,
+  from: number,
+  to: number,
+  fromErrors: Map<QuestionKey, number>,
+  toErrors: Map<QuestionKey, number>
+): DimensionChange {
+  const delta = to - from;
+  const differenceError = Math.sqrt(
+    scoreStandardError(fromErrors, dimension) ** 2 + scoreStandardError(toErrors, dimension) ** 2
+  );
+  const zScore = Math.round((delta / differenceError) * 100) / 100;
+
+  return {
+    dimension,
+    from,
+    to,
+    delta,
+    zScore,
+    significant: Math.abs(zScore) >= SIGNIFICANCE_Z,
+  };
+}
+
+/**
+ * Compare two assessments dimension by dimension
+ * Answers are read against each assessment's own bank, so retakes on different
+ * bank versions can still be compared.
+ * @param from - Earlier assessment
+ * @param to - Later assessment
+ * @returns AssessmentDiff with one change per score both assessments have
+ */
+export function diffAssessments(from: Assessment, to: Assessment): AssessmentDiff {
+  const fromErrors = standardErrorsByKey(from);
+  const toErrors = standardErrorsByKey(to);
+
+  const changes = COMPARED_DIMENSIONS.map((dimension) =>
+    compareScore(dimension, from[dimension], to[dimension], fromErrors, toErrors)
+  );
+
+  // Older rows predate the motivation score
+  if (from.motivationScore !== null && to.motivationScore !== null) {
+    changes.push(compareScore('motivationScore', from.motivationScore, to.motivationScore, fromErrors, toErrors));
+  }
+
+  return {
+    fromId: from.id,
+    toId: to.id,
+    daysBetween: Math.round((to.createdAt.getTime() - from.createdAt.getTime()) / MS_PER_DAY),
+    changes,
+    archetypeChanged: from.archetype !== to.archetype,
+    motivationTypeChanged: from.motivationType !== to.motivationType,
+  };
+}
+
+/**
+ * List every retake whose archetype differs from the previous assessment
+ * @param history - Assessments sorted oldest first
+ */
+export function findArchetypeTransitions(history: Assessment[]): ArchetypeTransition[] {
+  const transitions: ArchetypeTransition[] = [];
+  for (let i = 1; i < history.length; i++) {
+    if (history[i].archetype !== history[i - 1].archetype) {
+      transitions.push({
+        assessmentId: history[i].id,
+        at: history[i].createdAt.toISOString(),
+        from: history[i - 1].archetype,
+        to: history[i].archetype,
+      });
+    }
+  }
+  return transitions;
+}
+
+/**
+ * Average journal entries dated within [start, end)
+ * @param entries - Journal entries in any order
+ * @param start - First day of the period (YYYY-MM-DD)
+ * @param end - Day after the period (YYYY-MM-DD), or null for an open-ended period
+ */
+export function averageJournalPeriod(
+  entries: JournalEntry[],
+  start: string,
+  end: string | null
+): PeriodJournalAverages {
+  const inPeriod = entries.filter(
+    (entry) => entry.entryDate >= start && (end === null || entry.entryDate < end)
+  );
+
+  if (inPeriod.length === 0) {
+    return { entryCount: 0, moodAvg: null, energyAvg: null, stressAvg: null };
+  }
+
+  const average = (field: 'mood' | 'energy' | 'stress') =>
+    Math.round(inPeriod.reduce((acc, entry) => acc + entry[field], 0) / inPeriod.length);
+
+  return {
+    entryCount: inPeriod.length,
+    moodAvg: average('mood'),
+    energyAvg: average('energy'),
+    stressAvg: average('stress'),
+  };
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Summarize each assessment along with the journal entries logged while it was current
+ * An assessment's period runs from the day it was taken until the day of the next retake.
+ * @param history - Assessments sorted oldest first
+ * @param entries - The user's journal entries since the first assessment
+ */
+export function buildAssessmentHistory(history: Assessment[], entries: JournalEntry[]): AssessmentHistoryEntry[] {
+  return history.map((assessment, index) => {
+    const next = history[index + 1];
+    const quality = assessment.responseQuality as ResponseQuality | null;
+
+    return {
+      id: assessment.id,
+      takenAt: assessment.createdAt.toISOString(),
+      periodEnd: next ? next.createdAt.toISOString() : null,
+      questionBankVersion: assessment.questionBankVersion,
+      archetype: assessment.archetype,
+      scores: assessmentToScores(assessment),
+      qualityLevel: quality?.level ?? null,
+      journal: averageJournalPeriod(
+        entries,
+        toDateString(assessment.createdAt),
+        next ? toDateString(next.createdAt) : null
+      ),
+    };
+  });
+}
@@ -1,8 +1,18 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
-import { calculateScores, determineArchetype } from './assessmentService';
+import {
+  calculateScores,
+  calculateDimensionScore,
+  assessReliability,
+  determineArchetype,
+  evaluateArchetype,
+  calculateArchetypeBlend,
+  rescoreAssessment,
+  SECONDARY_MIN_AFFINITY,
+} from './assessmentService';
 import { ANSWER_POINTS } from '../utils/constants';
-import { AnswerValue, PsychologicalScores, ArchetypeName, MotivationType } from '../types/assessment';
+import { CURRENT_QUESTION_BANK, CURRENT_QUESTION_BANK_VERSION, QUESTION_BANK_V1, QUESTION_BANK_V2 } from '../utils/questionBanks';
+import { AnswerValue, PsychologicalScores, ArchetypeName, MotivationType, QuestionBank, QuizQuestion } from '../types/assessment';
 
 // Generator for valid answer values
 const validAnswerArb = fc.constantFrom<AnswerValue>('A', 'B', 'C', 'D');
@@ -13,6 +23,7 @@ const valid25AnswersArb = fc.array(validAnswerArb, { minLength: 25, maxLength: 2
 // Generator for invalid answer values (not A, B, C, or D)
 const invalidAnswerArb = fc.string().filter(s => !['A', 'B', 'C', 'D'].includes(s));
 
+// The original 25-question properties, pinned to bank v1
 describe('calculateScores - Property-Based Tests', () => {
   /**
    * Property 1: Answer Validation Correctness
@@ -29,7 +40,7 @@ describe('calculateScores - Property-Based Tests', () => {
       fc.assert(
         fc.property(valid25AnswersArb, (answers) => {
           // Should not throw for valid input
-          const result = calculateScores(answers);
+          const result = calculateScores(answers, 'v1');
           expect(result).toBeDefined();
         }),
         { numRuns: 100 }
@@ -41,7 +52,7 @@ describe('calculateScores - Property-Based Tests', () => {
         fc.property(
           fc.array(validAnswerArb, { minLength: 0, maxLength: 24 }),
           (answers) => {
-            expect(() => calculateScores(answers)).toThrow('Exactly 25 answers required');
+            expect(() => calculateScores(answers, 'v1')).toThrow('Exactly 25 answers required');
           }
         ),
         { numRuns: 100 }
@@ -53,7 +64,7 @@ describe('calculateScores - Property-Based Tests', () => {
         fc.property(
           fc.array(validAnswerArb, { minLength: 26, maxLength: 50 }),
           (answers) => {
-            expect(() => calculateScores(answers)).toThrow('Exactly 25 answers required');
+            expect(() => calculateScores(answers, 'v1')).toThrow('Exactly 25 answers required');
           }
         ),
         { numRuns: 100 }
@@ -69,7 +80,7 @@ describe('calculateScores - Property-Based Tests', () => {
             // Create a valid array and inject one invalid value
             const answers = Array(25).fill('A');
             answers[invalidIndex] = invalidValue;
-            expect(() => calculateScores(answers)).toThrow(/Invalid answer at position/);
+            expect(() => calculateScores(answers, 'v1')).toThrow(/Invalid answer at position/);
           }
         ),
         { numRuns: 100 }
@@ -103,7 +114,7 @@ describe('calculateScores - Property-Based Tests', () => {
     it('calculates imposterSyndrome as average of Q1-5 (indices 0-4)', () => {
       fc.assert(
         fc.property(valid25AnswersArb, (answers) => {
-          const result = calculateScores(answers);
+          const result = calculateScores(answers, 'v1');
           const expected = expectedAverage(answers, 0, 4);
           expect(result.imposterSyndrome).toBe(expected);
         }),
@@ -114,7 +125,7 @@ describe('calculateScores - Property-Based Tests', () => {
     it('calculates founderDoubt as average of Q6-9 (indices 5-8)', () => {
       fc.assert(
         fc.property(valid25AnswersArb, (answers) => {
-          const result = calculateScores(answers);
+          const result = calculateScores(answers, 'v1');
           const expected = expectedAverage(answers, 5, 8);
           expect(result.founderDoubt).toBe(expected);
         }),
@@ -125,7 +136,7 @@ describe('calculateScores - Property-Based Tests', () => {
     it('calculates identityFusion as average of Q10-13 (indices 9-12)', () => {
       fc.assert(
         fc.property(valid25AnswersArb, (answers) => {
-          const result = calculateScores(answers);
+          const result = calculateScores(answers, 'v1');
           const expected = expectedAverage(answers, 9, 12);
           expect(result.identityFusion).toBe(expected);
         }),
@@ -136,7 +147,7 @@ describe('calculateScores - Property-Based Tests', () => {
     it('calculates fearOfRejection as average of Q14-18 (indices 13-17)', () => {
       fc.assert(
         fc.property(valid25AnswersArb, (answers) => {
-          const result = calculateScores(answers);
+          const result = calculateScores(answers, 'v1');
           const expected = expectedAverage(answers, 13, 17);
           expect(result.fearOfRejection).toBe(expected);
         }),
@@ -147,7 +158,7 @@ describe('calculateScores - Property-Based Tests', () => {
     it('calculates riskTolerance as average of Q19-21 (indices 18-20)', () => {
       fc.assert(
         fc.property(valid25AnswersArb, (answers) => {
-          const result = calculateScores(answers);
+          const result = calculateScores(answers, 'v1');
           const expected = expectedAverage(answers, 18, 20);
           expect(result.riskTolerance).toBe(expected);
         }),
@@ -158,7 +169,7 @@ describe('calculateScores - Property-Based Tests', () => {
     it('determines motivationType correctly based on Q22-24 comparison', () => {
       fc.assert(
         fc.property(valid25AnswersArb, (answers) => {
-          const result = calculateScores(answers);
+          const result = calculateScores(answers, 'v1');
           const passion = ANSWER_POINTS[answers[21]];      // Q22
           const financial = ANSWER_POINTS[answers[22]];    // Q23
           const recognition = ANSWER_POINTS[answers[23]];  // Q24
@@ -179,7 +190,7 @@ describe('calculateScores - Property-Based Tests', () => {
     it('calculates isolationLevel as Q25 point value (index 24)', () => {
       fc.assert(
         fc.property(valid25AnswersArb, (answers) => {
-          const result = calculateScores(answers);
+          const result = calculateScores(answers, 'v1');
           const expected = ANSWER_POINTS[answers[24]];
           expect(result.isolationLevel).toBe(expected);
         }),
@@ -203,7 +214,7 @@ describe('calculateScores - Property-Based Tests', () => {
     it('all numeric scores are in range [0, 100] with no NaN or negative values', () => {
       fc.assert(
         fc.property(valid25AnswersArb, (answers) => {
-          const result = calculateScores(answers);
+          const result = calculateScores(answers, 'v1');
           
           const numericScores = [
             result.imposterSyndrome,
@@ -228,9 +239,9 @@ describe('calculateScores - Property-Based Tests', () => {
     it('produces identical output for identical input (deterministic)', () => {
       fc.assert(
         fc.property(valid25AnswersArb, (answers) => {
-          const result1 = calculateScores([...answers]);
-          const result2 = calculateScores([...answers]);
-          const result3 = calculateScores([...answers]);
+          const result1 = calculateScores([...answers], 'v1');
+          const result2 = calculateScores([...answers], 'v1');
+          const result3 = calculateScores([...answers], 'v1');
 
           expect(result1).toEqual(result2);
           expect(result2).toEqual(result3);
@@ -242,7 +253,7 @@ describe('calculateScores - Property-Based Tests', () => {
     it('returns a complete PsychologicalScores object with all 7 fields', () => {
       fc.assert(
         fc.property(valid25AnswersArb, (answers) => {
-          const result = calculateScores(answers);
+          const result = calculateScores(answers, 'v1');
 
           // Check all required fields exist
           expect(result).toHaveProperty('imposterSyndrome');
@@ -262,7 +273,7 @@ describe('calculateScores - Property-Based Tests', () => {
 
     it('handles edge case: all A answers (minimum scores)', () => {
       const allAs = Array(25).fill('A');
-      const result = calculateScores(allAs);
+      const result = calculateScores(allAs, 'v1');
 
       expect(result.imposterSyndrome).toBe(0);
       expect(result.founderDoubt).toBe(0);
@@ -274,7 +285,7 @@ describe('calculateScores - Property-Based Tests', () => {
 
     it('handles edge case: all D answers (maximum scores)', () => {
       const allDs = Array(25).fill('D');
-      const result = calculateScores(allDs);
+      const result = calculateScores(allDs, 'v1');
 
       expect(result.imposterSyndrome).toBe(100);
       expect(result.founderDoubt).toBe(100);
@@ -287,6 +298,229 @@ describe('calculateScores - Property-Based Tests', () => {
 });
 
 
+describe('calculateScores - question bank versions', () => {
+  it('scores against the current bank by default', () => {
+    const count = CURRENT_QUESTION_BANK.questions.length;
+    fc.assert(
+      fc.property(fc.array(validAnswerArb, { minLength: count, maxLength: count }), (answers) => {
+        expect(calculateScores(answers)).toEqual(calculateScores(answers, CURRENT_QUESTION_BANK_VERSION));
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('takes the expected answer count from the bank', () => {
+    const count = QUESTION_BANK_V1.questions.length;
+    expect(() => calculateScores(Array(count - 1).fill('B'), 'v1')).toThrow(`Exactly ${count} answers required`);
+  });
+
+  it('rejects unknown bank versions', () => {
+    expect(() => calculateScores(Array(25).fill('B'), 'v999')).toThrow('Unknown question bank version: v999');
+  });
+
+  it('re-scores a stored assessment with its recorded bank', () => {
+    fc.assert(
+      fc.property(valid25AnswersArb, (answers) => {
+        expect(rescoreAssessment({ answers, questionBankVersion: 'v1' })).toEqual(calculateScores(answers, 'v1'));
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+// Answers for bank v2 with chosen answers on the given (1-based) question ids
+function v2Answers(overrides: Record<number, AnswerValue>, fill: AnswerValue = 'B'): AnswerValue[] {
+  return QUESTION_BANK_V2.questions.map((question) => overrides[question.id] ?? fill);
+}
+
+describe('calculateScores - bank v2 subscales', () => {
+  const v2AnswersArb = fc.array(validAnswerArb, {
+    minLength: QUESTION_BANK_V2.questions.length,
+    maxLength: QUESTION_BANK_V2.questions.length,
+  });
+
+  it('scores isolation from all four items, reverse-scoring the positively worded ones', () => {
+    // Lonely (Q28 = D, Q30 = D) with no one to confide in (Q29 = A, Q31 = A)
+    expect(calculateScores(v2Answers({ 28: 'D', 29: 'A', 30: 'D', 31: 'A' }), 'v2').isolationLevel).toBe(100);
+    expect(calculateScores(v2Answers({ 28: 'A', 29: 'D', 30: 'A', 31: 'D' }), 'v2').isolationLevel).toBe(0);
+  });
+
+  it('keeps one misclick on a single isolation item from swinging the score', () => {
+    const base = calculateScores(v2Answers({ 28: 'A', 29: 'D', 30: 'A', 31: 'D' }), 'v2');
+    const misclick = calculateScores(v2Answers({ 28: 'D', 29: 'D', 30: 'A', 31: 'D' }), 'v2');
+    expect(misclick.isolationLevel).toBe(25);
+    expect(misclick.isolationLevel - base.isolationLevel).toBeLessThan(100);
+  });
+
+  it('reports a continuous motivation score consistent with the motivation type', () => {
+    fc.assert(
+      fc.property(v2AnswersArb, (answers) => {
+        const { motivationType, motivationScore } = calculateScores(answers, 'v2');
+        expect(motivationScore).toBeGreaterThanOrEqual(0);
+        expect(motivationScore).toBeLessThanOrEqual(100);
+        if (motivationType === 'intrinsic') expect(motivationScore).toBeGreaterThanOrEqual(50);
+        if (motivationType === 'extrinsic') expect(motivationScore).toBeLessThanOrEqual(50);
+        if (motivationType === 'mixed') expect(motivationScore).toBe(50);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('places fully intrinsic and fully extrinsic answers at the ends of the motivation scale', () => {
+    // Intrinsic items: Q22, Q25, Q26; extrinsic items: Q23, Q24, Q27
+    const intrinsic = v2Answers({ 22: 'D', 25: 'D', 26: 'D', 23: 'A', 24: 'A', 27: 'A' });
+    const extrinsic = v2Answers({ 22: 'A', 25: 'A', 26: 'A', 23: 'D', 24: 'D', 27: 'D' });
+    expect(calculateScores(intrinsic, 'v2')).toMatchObject({ motivationType: 'intrinsic', motivationScore: 100 });
+    expect(calculateScores(extrinsic, 'v2')).toMatchObject({ motivationType: 'extrinsic', motivationScore: 0 });
+  });
+});
+
+describe('assessReliability', () => {
+  it('reports every multi-item dimension and skips single-item ones', () => {
+    const v1 = assessReliability(Array(25).fill('B'), 'v1');
+    expect(v1.isolationLevel).toBeUndefined();
+    expect(v1.motivationIntrinsic).toBeUndefined();
+    expect(v1.imposterSyndrome).toEqual({ itemCount: 5, consistency: 1, level: 'high' });
+
+    const v2 = assessReliability(v2Answers({}), 'v2');
+    expect(v2.isolationLevel?.itemCount).toBe(4);
+    expect(v2.motivationIntrinsic?.itemCount).toBe(3);
+    expect(v2.motivationExtrinsic?.itemCount).toBe(3);
+  });
+
+  it('flags a dimension whose items contradict each other', () => {
+    // Agreeing with both "I feel isolated" and "I have people I can be honest with"
+    const reliability = assessReliability(v2Answers({ 28: 'D', 29: 'D', 30: 'D', 31: 'D' }), 'v2');
+    expect(reliability.isolationLevel?.level).toBe('low');
+  });
+
+  it('keeps consistency within [0, 1]', () => {
+    fc.assert(
+      fc.property(valid25AnswersArb, (answers) => {
+        for (const value of Object.values(assessReliability(answers, 'v1'))) {
+          expect(value!.consistency).toBeGreaterThanOrEqual(0);
+          expect(value!.consistency).toBeLessThanOrEqual(1);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// Generator for a single-dimension item: optionally reverse-scored, optionally weighted
+const itemArb = fc.record({
+  reverseScored: fc.boolean(),
+  weight: fc.option(fc.integer({ min: 1, max: 5 }), { nil: undefined }),
+});
+
+// Generator for a small bank scoring one dimension, paired with one answer per item
+const scoredItemsArb = fc
+  .array(itemArb, { minLength: 1, maxLength: 8 })
+  .chain((items) =>
+    fc.tuple(fc.constant(items), fc.array(validAnswerArb, { minLength: items.length, maxLength: items.length }))
+  );
+
+const ANSWER_ORDER: AnswerValue[] = ['A', 'B', 'C', 'D'];
+const MIRRORED: Record<AnswerValue, AnswerValue> = { A: 'D', B: 'C', C: 'B', D: 'A' };
+
+function bankOf(items: Array<Pick<QuizQuestion, 'reverseScored' | 'weight'>>): QuestionBank {
+  return {
+    version: 'test',
+    questions: items.map((item, index) => ({
+      id: index + 1,
+      dimension: 'Imposter Syndrome',
+      key: 'imposterSyndrome',
+      text: `Item ${index + 1}`,
+      options: { A: 'Strongly Disagree', B: 'Disagree', C: 'Agree', D: 'Strongly Agree' },
+      ...item,
+    })),
+  };
+}
+
+describe('calculateDimensionScore - reverse scoring and weights', () => {
+  it('keeps scores within [0, 100] as integers', () => {
+    fc.assert(
+      fc.property(scoredItemsArb, ([items, answers]) => {
+        const score = calculateDimensionScore(answers, bankOf(items), 'imposterSyndrome');
+        expect(Number.isInteger(score)).toBe(true);
+        expect(score).toBeGreaterThanOrEqual(0);
+        expect(score).toBeLessThanOrEqual(100);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('moves up with agreement on normal items and down on reversed items', () => {
+    fc.assert(
+      fc.property(scoredItemsArb, fc.nat(), ([items, answers], pick) => {
+        const index = pick % items.length;
+        const level = ANSWER_ORDER.indexOf(answers[index]);
+        fc.pre(level < ANSWER_ORDER.length - 1);
+
+        const bank = bankOf(items);
+        const raised = [...answers];
+        raised[index] = ANSWER_ORDER[level + 1];
+
+        const before = calculateDimensionScore(answers, bank, 'imposterSyndrome');
+        const after = calculateDimensionScore(raised, bank, 'imposterSyndrome');
+        if (items[index].reverseScored) {
+          expect(after).toBeLessThanOrEqual(before);
+        } else {
+          expect(after).toBeGreaterThanOrEqual(before);
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('gives the same score when an item is reversed and its answer mirrored', () => {
+    fc.assert(
+      fc.property(scoredItemsArb, fc.nat(), ([items, answers], pick) => {
+        const index = pick % items.length;
+        const flippedItems = items.map((item, i) => (i === index ? { ...item, reverseScored: !item.reverseScored } : item));
+        const mirrored = answers.map((answer, i) => (i === index ? MIRRORED[answer] : answer));
+
+        expect(calculateDimensionScore(mirrored, bankOf(flippedItems), 'imposterSyndrome'))
+          .toBe(calculateDimensionScore(answers, bankOf(items), 'imposterSyndrome'));
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('mirrors the score around 50 when every item is reversed', () => {
+    fc.assert(
+      fc.property(scoredItemsArb, ([items, answers]) => {
+        const reversedItems = items.map((item) => ({ ...item, reverseScored: !item.reverseScored }));
+        const score = calculateDimensionScore(answers, bankOf(items), 'imposterSyndrome');
+        const reversed = calculateDimensionScore(answers, bankOf(reversedItems), 'imposterSyndrome');
+
+        // Both sides round independently, so allow one point of rounding difference
+        expect(Math.abs(score + reversed - 100)).toBeLessThanOrEqual(1);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('matches the plain average when all weights are equal', () => {
+    fc.assert(
+      fc.property(scoredItemsArb, fc.integer({ min: 1, max: 5 }), ([items, answers], weight) => {
+        const unweighted = items.map((item) => ({ ...item, weight: undefined }));
+        const uniform = items.map((item) => ({ ...item, weight }));
+
+        expect(calculateDimensionScore(answers, bankOf(uniform), 'imposterSyndrome'))
+          .toBe(calculateDimensionScore(answers, bankOf(unweighted), 'imposterSyndrome'));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('lets a heavier item pull the score towards its own value', () => {
+    const bank = bankOf([{ weight: 3 }, {}]);
+    expect(calculateDimensionScore(['D', 'A'], bank, 'imposterSyndrome')).toBe(75);
+    expect(calculateDimensionScore(['A', 'D'], bank, 'imposterSyndrome')).toBe(25);
+  });
+});
+
 // Generator for valid PsychologicalScores
 const validScoreArb = fc.integer({ min: 0, max: 100 });
 const motivationTypeArb = fc.constantFrom<MotivationType>('intrinsic', 'extrinsic', 'mixed');
@@ -551,3 +785,220 @@ describe('determineArchetype - Property-Based Tests', () => {
     });
   });
 });
+
+// The hardcoded if-chain the rule set replaced, kept as a reference
+function legacyArchetype(scores: PsychologicalScores): ArchetypeName {
+  const highDimensions = [
+    scores.imposterSyndrome,
+    scores.founderDoubt,
+    scores.identityFusion,
+    scores.fearOfRejection,
+    scores.isolationLevel,
+  ].filter(score => score > 70).length;
+  if (highDimensions >= 3) return 'Burning Out';
+  if (scores.imposterSyndrome > 60 && scores.founderDoubt > 60 && scores.riskTolerance < 50) return 'Perfectionist Builder';
+  if (scores.riskTolerance > 70 && scores.founderDoubt < 40 && scores.imposterSyndrome < 40) return 'Opportunistic Visionary';
+  if (scores.isolationLevel > 70 && (scores.identityFusion > 50 || scores.founderDoubt > 50)) return 'Isolated Dreamer';
+  if (scores.imposterSyndrome < 40 && scores.founderDoubt < 40 && scores.riskTolerance > 60) return 'Self-Assured Hustler';
+  if (scores.isolationLevel < 40 && (scores.imposterSyndrome < 50 || scores.founderDoubt < 50)) return 'Community-Driven';
+  const numericScores = [
+    scores.imposterSyndrome,
+    scores.founderDoubt,
+    scores.identityFusion,
+    scores.fearOfRejection,
+    scores.riskTolerance,
+    scores.isolationLevel,
+  ];
+  if (numericScores.every(s => s >= 40 && s <= 60)) return 'Balanced Founder';
+  return 'Growth Seeker';
+}
+
+describe('evaluateArchetype - rule engine', () => {
+  it('classifies exactly like the original if-chain', () => {
+    fc.assert(
+      fc.property(validPsychologicalScoresArb, (scores) => {
+        expect(evaluateArchetype(scores).archetype).toBe(legacyArchetype(scores));
+        expect(determineArchetype(scores).name).toBe(legacyArchetype(scores));
+      }),
+      { numRuns: 500 }
+    );
+  });
+
+  it('always explains the match and names a different runner-up', () => {
+    fc.assert(
+      fc.property(validPsychologicalScoresArb, (scores) => {
+        const evaluation = evaluateArchetype(scores);
+        expect(evaluation.reasons.length).toBeGreaterThan(0);
+        expect(evaluation.runnerUp).not.toBeNull();
+        expect(evaluation.runnerUp!.archetype).not.toBe(evaluation.archetype);
+        expect(evaluation.runnerUp!.margin).toBeGreaterThanOrEqual(0);
+        expect(evaluation.runnerUp!.unmet.length === 0).toBe(evaluation.runnerUp!.margin === 0);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('cites the scores behind a match', () => {
+    const scores: PsychologicalScores = {
+      imposterSyndrome: 72,
+      founderDoubt: 65,
+      identityFusion: 50,
+      fearOfRejection: 50,
+      riskTolerance: 30,
+      motivationType: 'mixed',
+      isolationLevel: 50,
+    };
+    const evaluation = evaluateArchetype(scores);
+
+    expect(evaluation.archetype).toBe('Perfectionist Builder');
+    expect(evaluation.reasons).toEqual([
+      'Imposter Syndrome is 72 (above 60)',
+      'Founder Doubt is 65 (above 60)',
+      'Risk Tolerance is 30 (below 50)',
+    ]);
+  });
+
+  it('measures how far the runner-up is from matching', () => {
+    // Two strain dimensions above 70; a third at 68 is 3 points short of Burning Out
+    const scores: PsychologicalScores = {
+      imposterSyndrome: 80,
+      founderDoubt: 75,
+      identityFusion: 68,
+      fearOfRejection: 20,
+      riskTolerance: 55,
+      motivationType: 'intrinsic',
+      isolationLevel: 20,
+    };
+    const evaluation = evaluateArchetype(scores);
+
+    expect(evaluation.archetype).toBe('Growth Seeker');
+    expect(evaluation.runnerUp).toEqual({
+      archetype: 'Burning Out',
+      margin: 3,
+      unmet: ['2 areas above 70 (needs 3)'],
+    });
+  });
+
+  it('reports a zero margin when a lower-priority archetype also matches', () => {
+    const scores: PsychologicalScores = {
+      imposterSyndrome: 20,
+      founderDoubt: 20,
+      identityFusion: 50,
+      fearOfRejection: 50,
+      riskTolerance: 90,
+      motivationType: 'mixed',
+      isolationLevel: 50,
+    };
+    const evaluation = evaluateArchetype(scores);
+
+    expect(evaluation.archetype).toBe('Opportunistic Visionary');
+    expect(evaluation.runnerUp).toMatchObject({ archetype: 'Self-Assured Hustler', margin: 0, unmet: [] });
+  });
+
+  it('explains the default archetype', () => {
+    const scores: PsychologicalScores = {
+      imposterSyndrome: 55,
+      founderDoubt: 55,
+      identityFusion: 80,
+      fearOfRejection: 30,
+      riskTolerance: 50,
+      motivationType: 'mixed',
+      isolationLevel: 55,
+    };
+    const evaluation = evaluateArchetype(scores);
+
+    expect(evaluation.archetype).toBe('Growth Seeker');
+    expect(evaluation.reasons).toEqual(["No other archetype's conditions were met"]);
+  });
+});
+
+describe('calculateArchetypeBlend', () => {
+  it('keeps the primary archetype identical to the single-archetype result', () => {
+    fc.assert(
+      fc.property(validPsychologicalScoresArb, (scores) => {
+        const result = determineArchetype(scores);
+        expect(result.blend?.primary).toBe(result.name);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('scores every archetype once, within [0, 100], strongest first', () => {
+    fc.assert(
+      fc.property(validPsychologicalScoresArb, (scores) => {
+        const { affinities } = calculateArchetypeBlend(scores);
+        expect(affinities.map((entry) => entry.name).sort()).toEqual([...VALID_ARCHETYPES].sort());
+        for (let i = 0; i < affinities.length; i++) {
+          expect(affinities[i].affinity).toBeGreaterThanOrEqual(0);
+          expect(affinities[i].affinity).toBeLessThanOrEqual(100);
+          if (i > 0) expect(affinities[i].affinity).toBeLessThanOrEqual(affinities[i - 1].affinity);
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('only reports a close, different secondary archetype', () => {
+    fc.assert(
+      fc.property(validPsychologicalScoresArb, (scores) => {
+        const blend = calculateArchetypeBlend(scores);
+        if (blend.secondary) {
+          expect(blend.secondary).not.toBe(blend.primary);
+          const secondary = blend.affinities.find((entry) => entry.name === blend.secondary)!;
+          expect(secondary.affinity).toBeGreaterThanOrEqual(SECONDARY_MIN_AFFINITY);
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('blends a founder sitting just under the Burning Out threshold', () => {
+    const scores: PsychologicalScores = {
+      imposterSyndrome: 80,
+      founderDoubt: 75,
+      identityFusion: 68,
+      fearOfRejection: 20,
+      riskTolerance: 55,
+      motivationType: 'intrinsic',
+      isolationLevel: 20,
+    };
+    const blend = calculateArchetypeBlend(scores);
+
+    expect(blend.primary).toBe('Growth Seeker');
+    expect(blend.secondary).toBe('Burning Out');
+    expect(blend.affinities[0]).toEqual({ name: 'Burning Out', affinity: 77 });
+  });
+
+  it('names a rule that also matches as the secondary archetype', () => {
+    const scores: PsychologicalScores = {
+      imposterSyndrome: 95,
+      founderDoubt: 95,
+      identityFusion: 95,
+      fearOfRejection: 95,
+      riskTolerance: 10,
+      motivationType: 'extrinsic',
+      isolationLevel: 95,
+    };
+    const blend = calculateArchetypeBlend(scores);
+
+    expect(blend.primary).toBe('Burning Out');
+    expect(blend.secondary).toBe('Perfectionist Builder');
+    expect(blend.affinities[1]).toEqual({ name: 'Perfectionist Builder', affinity: 100 });
+  });
+
+  it('reports no secondary archetype for a clear-cut profile', () => {
+    const scores: PsychologicalScores = {
+      imposterSyndrome: 50,
+      founderDoubt: 50,
+      identityFusion: 50,
+      fearOfRejection: 50,
+      riskTolerance: 50,
+      motivationType: 'intrinsic',
+      isolationLevel: 50,
+    };
+    const blend = calculateArchetypeBlend(scores);
+
+    expect(blend.primary).toBe('Balanced Founder');
+    expect(blend.secondary).toBeNull();
+  });
+});
@@ -1,17 +1,32 @@
-import { AnswerValue, MotivationType, PsychologicalScores, ArchetypeResult, ArchetypeName } from '../types/assessment';
+import {
+  AnswerValue,
+  MotivationType,
+  PsychologicalScores,
+  ArchetypeResult,
+  ArchetypeName,
+  QuestionBank,
+  QuestionKey,
+  QuizQuestion,
+  AssessmentReliability,
+  DimensionReliability,
+  ArchetypeEvaluation,
+  ArchetypeBlend,
+} from '../types/assessment';
 import { ANSWER_POINTS } from '../utils/constants';
 import { ARCHETYPES } from '../utils/archetypes';
+import { ARCHETYPE_RULES, DIMENSION_LABELS, type ArchetypeCondition, type ArchetypeRule } from '../utils/archetypeRules';
+import { getQuestionBank } from '../utils/questionBanks';
 
 /**
- * Validates that the answers array contains exactly 25 valid answers (A, B, C, or D)
+ * Validates that the answers array has one valid answer (A, B, C, or D) per bank question
  * @throws Error if validation fails
  */
-function validateAnswers(answers: string[]): asserts answers is AnswerValue[] {
+function validateAnswers(answers: string[], bank: QuestionBank): asserts answers is AnswerValue[] {
   if (!Array.isArray(answers)) {
     throw new Error('Answers must be an array');
   }
-  if (answers.length !== 25) {
-    throw new Error('Exactly 25 answers required');
+  if (answers.length !== bank.questions.length) {
+    throw new Error(`Exactly ${bank.questions.length} answers required`);
   }
   const validAnswers: AnswerValue[] = ['A', 'B', 'C', 'D'];
   for (let i = 0; i < answers.length; i++) {
@@ -22,146 +37,365 @@ function validateAnswers(answers: string[]): asserts answers is AnswerValue[] {
 }
 
 /**
- * Calculate average score for a range of questions (0-indexed)
- * @param answers - Array of validated answers
- * @param startIndex - Start index (inclusive, 0-indexed)
- * @param endIndex - End index (inclusive, 0-indexed)
- * @returns Average score rounded to nearest integer (0-100)
+ * Score a single answer against its question (0-100)
+ * Reverse-scored items are worded the other way round, so D = 0 and A = 100.
  */
-function calculateDimensionScore(answers: AnswerValue[], startIndex: number, endIndex: number): number {
-  const relevantAnswers = answers.slice(startIndex, endIndex + 1);
-  const sum = relevantAnswers.reduce((acc, answer) => acc + ANSWER_POINTS[answer], 0);
-  return Math.round(sum / relevantAnswers.length);
+export function scoreItem(question: QuizQuestion, answer: AnswerValue): number {
+  const points = ANSWER_POINTS[answer];
+  return question.reverseScored ? 100 - points : points;
 }
 
 /**
- * Determine motivation type from Q22-24 comparison
- * Q22 (index 21) = passion/intrinsic
- * Q23 (index 22) = financial/extrinsic
- * Q24 (index 23) = recognition/extrinsic
+ * Weighted mean of every answer whose bank question has the given key
+ * @throws Error if the bank has no items for the key
+ */
+function weightedAverageForKey(answers: AnswerValue[], bank: QuestionBank, key: QuestionKey): number {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  bank.questions.forEach((question, index) => {
+    if (question.key === key) {
+      const weight = question.weight ?? 1;
+      weightedSum += scoreItem(question, answers[index]) * weight;
+      totalWeight += weight;
+    }
+  });
+
+  if (totalWeight === 0) {
+    throw new Error(`Question bank has no items for ${key}`);
+  }
+  return weightedSum / totalWeight;
+}
+
+/**
+ * Calculate the score of all bank questions for a dimension
+ * Reverse-scored items are flipped and each item counts by its weight (default 1).
+ * @param answers - Array of validated answers, aligned with bank.questions
+ * @param bank - Question bank the answers were given for
+ * @param key - Dimension to score
+ * @returns Weighted average rounded to nearest integer (0-100)
+ */
+export function calculateDimensionScore(answers: AnswerValue[], bank: QuestionBank, key: QuestionKey): number {
+  return Math.round(weightedAverageForKey(answers, bank, key));
+}
+
+/**
+ * Determine motivation type by comparing the intrinsic and extrinsic subscales
+ * In v1: Q22 = passion/intrinsic, Q23 = financial/extrinsic, Q24 = recognition/extrinsic
  * 
- * If passion > avg(financial, recognition) → intrinsic
- * If avg(financial, recognition) > passion → extrinsic
+ * If avg(intrinsic) > avg(extrinsic) → intrinsic (weighted, after reverse scoring)
+ * If avg(extrinsic) > avg(intrinsic) → extrinsic
  * Otherwise → mixed
  */
-function determineMotivationType(answers: AnswerValue[]): MotivationType {
-  const passion = ANSWER_POINTS[answers[21]];      // Q22
-  const financial = ANSWER_POINTS[answers[22]];    // Q23
-  const recognition = ANSWER_POINTS[answers[23]];  // Q24
-  
-  const extrinsicAvg = (financial + recognition) / 2;
+function determineMotivationType(answers: AnswerValue[], bank: QuestionBank): MotivationType {
+  const intrinsicAvg = weightedAverageForKey(answers, bank, 'motivationIntrinsic');
+  const extrinsicAvg = weightedAverageForKey(answers, bank, 'motivationExtrinsic');
   
-  if (passion > extrinsicAvg) return 'intrinsic';
-  if (extrinsicAvg > passion) return 'extrinsic';
+  if (intrinsicAvg > extrinsicAvg) return 'intrinsic';
+  if (extrinsicAvg > intrinsicAvg) return 'extrinsic';
   return 'mixed';
 }
 
 /**
- * Calculate psychological scores from 25 quiz answers
+ * Continuous motivation score from the two subscales
+ * 0 = fully extrinsic, 50 = balanced, 100 = fully intrinsic
+ */
+function calculateMotivationScore(answers: AnswerValue[], bank: QuestionBank): number {
+  const intrinsicAvg = weightedAverageForKey(answers, bank, 'motivationIntrinsic');
+  const extrinsicAvg = weightedAverageForKey(answers, bank, 'motivationExtrinsic');
+  return Math.round(50 + (intrinsicAvg - extrinsicAvg) / 2);
+}
+
+/**
+ * Calculate psychological scores from quiz answers
  * 
- * Dimension mapping:
- * - Imposter Syndrome: Q1-5 (indices 0-4)
- * - Founder Doubt: Q6-9 (indices 5-8)
- * - Identity Fusion: Q10-13 (indices 9-12)
- * - Fear of Rejection: Q14-18 (indices 13-17)
- * - Risk Tolerance: Q19-21 (indices 18-20)
- * - Motivation Type: Q22-24 (indices 21-23) - comparison based
- * - Isolation Level: Q25 (index 24) - single question
+ * Each answer is scored against the question at the same position in the
+ * bank, and every dimension is the weighted average of its questions, with
+ * reverse-scored items flipped first. For bank v1 (no reversed items, equal weights):
+ * - Imposter Syndrome: Q1-5
+ * - Founder Doubt: Q6-9
+ * - Identity Fusion: Q10-13
+ * - Fear of Rejection: Q14-18
+ * - Risk Tolerance: Q19-21
+ * - Motivation Type: Q22-24 - comparison based
+ * - Isolation Level: Q25 - single question
+ * Bank v2 expands motivation (Q22-27) and isolation (Q28-31) into multi-item subscales.
  * 
- * @param answers - Array of 25 answers, each A/B/C/D
+ * @param answers - One answer per bank question, each A/B/C/D
+ * @param bankVersion - Question bank the answers were given for (defaults to the current bank)
  * @returns PsychologicalScores object with all 7 dimensions
- * @throws Error if validation fails
+ * @throws Error if validation fails or the bank version is unknown
  */
-export function calculateScores(answers: string[]): PsychologicalScores {
+export function calculateScores(answers: string[], bankVersion?: string): PsychologicalScores {
+  const bank = getQuestionBank(bankVersion);
+
   // Validate input
-  validateAnswers(answers);
+  validateAnswers(answers, bank);
   
   // Calculate each dimension
   const scores: PsychologicalScores = {
-    imposterSyndrome: calculateDimensionScore(answers, 0, 4),    // Q1-5
-    founderDoubt: calculateDimensionScore(answers, 5, 8),        // Q6-9
-    identityFusion: calculateDimensionScore(answers, 9, 12),     // Q10-13
-    fearOfRejection: calculateDimensionScore(answers, 13, 17),   // Q14-18
-    riskTolerance: calculateDimensionScore(answers, 18, 20),     // Q19-21
-    motivationType: determineMotivationType(answers),
-    isolationLevel: ANSWER_POINTS[answers[24]],                  // Q25
+    imposterSyndrome: calculateDimensionScore(answers, bank, 'imposterSyndrome'),
+    founderDoubt: calculateDimensionScore(answers, bank, 'founderDoubt'),
+    identityFusion: calculateDimensionScore(answers, bank, 'identityFusion'),
+    fearOfRejection: calculateDimensionScore(answers, bank, 'fearOfRejection'),
+    riskTolerance: calculateDimensionScore(answers, bank, 'riskTolerance'),
+    motivationType: determineMotivationType(answers, bank),
+    motivationScore: calculateMotivationScore(answers, bank),
+    isolationLevel: calculateDimensionScore(answers, bank, 'isolationLevel'),
   };
   
   return scores;
 }
 
 /**
- * Determine archetype based on psychological scores
+ * Re-score stored answers with the question bank they were given for
+ * @param assessment - Stored answers and the bank version recorded with them
+ * @returns PsychologicalScores recomputed with the current scoring rules
+ */
+export function rescoreAssessment(assessment: { answers: unknown; questionBankVersion: string }): PsychologicalScores {
+  return calculateScores(assessment.answers as string[], assessment.questionBankVersion);
+}
+
+// Largest possible standard deviation of item scores on a 0-100 scale
+const MAX_ITEM_SPREAD = 50;
+
+/**
+ * Classify a consistency value
+ * Adjacent answers (e.g. A and B) still count as high; A and D count as low.
+ */
+function reliabilityLevel(consistency: number): DimensionReliability['level'] {
+  if (consistency >= 0.6) return 'high';
+  if (consistency >= 0.3) return 'moderate';
+  return 'low';
+}
+
+/**
+ * Measure how consistently each multi-item dimension was answered
  * 
- * Priority order:
- * 1. Burning Out - 3+ dimensions > 70 (urgent)
- * 2. Perfectionist Builder - imposterSyndrome > 60 AND founderDoubt > 60 AND riskTolerance < 50
- * 3. Opportunistic Visionary - riskTolerance > 70 AND founderDoubt < 40 AND imposterSyndrome < 40
- * 4. Isolated Dreamer - isolationLevel > 70 AND (identityFusion > 50 OR founderDoubt > 50)
- * 5. Self-Assured Hustler - imposterSyndrome < 40 AND founderDoubt < 40 AND riskTolerance > 60
- * 6. Community-Driven - isolationLevel < 40 AND (imposterSyndrome < 50 OR founderDoubt < 50)
- * 7. Balanced Founder - all numeric scores between 40-60
- * 8. Growth Seeker - default (includes encouragement message)
+ * Population statistics such as Cronbach's alpha need many respondents, so a
+ * single submission is judged by the weighted spread of its item scores
+ * (after reverse scoring) instead: consistency = 1 - sd / 50. Low consistency
+ * means the dimension's items disagree and its score is less trustworthy.
  * 
- * @param scores - PsychologicalScores object with all 7 dimensions
- * @returns ArchetypeResult with name, description, traits, strength, challenge, recommendation
+ * @param answers - One answer per bank question, each A/B/C/D
+ * @param bankVersion - Question bank the answers were given for (defaults to the current bank)
+ * @returns Reliability for every dimension with at least two items
+ * @throws Error if validation fails or the bank version is unknown
  */
-export function determineArchetype(scores: PsychologicalScores): ArchetypeResult {
-  // Count dimensions > 70 for burnout check
-  // Only check the 5 "negative" dimensions (not riskTolerance which is positive)
-  const highDimensions = [
-    scores.imposterSyndrome,
-    scores.founderDoubt,
-    scores.identityFusion,
-    scores.fearOfRejection,
-    scores.isolationLevel,
-  ].filter(score => score > 70).length;
-
-  // 1. Check Burning Out first (highest priority - urgent)
-  if (highDimensions >= 3) {
-    return ARCHETYPES['Burning Out'];
-  }
+export function assessReliability(answers: string[], bankVersion?: string): AssessmentReliability {
+  const bank = getQuestionBank(bankVersion);
+  validateAnswers(answers, bank);
 
-  // 2. Perfectionist Builder
-  if (scores.imposterSyndrome > 60 && scores.founderDoubt > 60 && scores.riskTolerance < 50) {
-    return ARCHETYPES['Perfectionist Builder'];
-  }
+  const itemsByKey = new Map<QuestionKey, Array<{ score: number; weight: number }>>();
+  bank.questions.forEach((question, index) => {
+    if (question.key === 'attentionCheck') return;
+    const items = itemsByKey.get(question.key) ?? [];
+    items.push({ score: scoreItem(question, answers[index]), weight: question.weight ?? 1 });
+    itemsByKey.set(question.key, items);
+  });
 
-  // 3. Opportunistic Visionary
-  if (scores.riskTolerance > 70 && scores.founderDoubt < 40 && scores.imposterSyndrome < 40) {
-    return ARCHETYPES['Opportunistic Visionary'];
+  const reliability: AssessmentReliability = {};
+  for (const [key, items] of itemsByKey) {
+    if (items.length < 2) continue;
+
+    const totalWeight = items.reduce((acc, item) => acc + item.weight, 0);
+    const mean = items.reduce((acc, item) => acc + item.score * item.weight, 0) / totalWeight;
+    const variance = items.reduce((acc, item) => acc + item.weight * (item.score - mean) ** 2, 0) / totalWeight;
+    const consistency = Math.round((1 - Math.sqrt(variance) / MAX_ITEM_SPREAD) * 100) / 100;
+
+    reliability[key] = {
+      itemCount: items.length,
+      consistency,
+      level: reliabilityLevel(consistency),
+    };
   }
 
-  // 4. Isolated Dreamer
-  if (scores.isolationLevel > 70 && (scores.identityFusion > 50 || scores.founderDoubt > 50)) {
-    return ARCHETYPES['Isolated Dreamer'];
+  return reliability;
+}
+
+/**
+ * How many score points the scores are short of satisfying a condition (0 = met)
+ * Thresholds are strict and scores are integers, so "above 60" needs 61.
+ */
+function conditionDistance(condition: ArchetypeCondition, scores: PsychologicalScores): number {
+  switch (condition.type) {
+    case 'above':
+      return Math.max(0, condition.threshold + 1 - scores[condition.dimension]);
+    case 'below':
+      return Math.max(0, scores[condition.dimension] - (condition.threshold - 1));
+    case 'allBetween':
+      return condition.dimensions.reduce((acc, dimension) => {
+        const value = scores[dimension];
+        return acc + Math.max(0, condition.min - value, value - condition.max);
+      }, 0);
+    case 'countAbove': {
+      const shortfalls = condition.dimensions
+        .map((dimension) => Math.max(0, condition.threshold + 1 - scores[dimension]))
+        .sort((a, b) => a - b);
+      return shortfalls.slice(0, condition.count).reduce((acc, value) => acc + value, 0);
+    }
+    case 'any':
+      return Math.min(...condition.conditions.map((inner) => conditionDistance(inner, scores)));
   }
+}
 
-  // 5. Self-Assured Hustler
-  if (scores.imposterSyndrome < 40 && scores.founderDoubt < 40 && scores.riskTolerance > 60) {
-    return ARCHETYPES['Self-Assured Hustler'];
+/**
+ * Describe a condition with the scores behind it, e.g. "Imposter Syndrome is 72 (above 60)"
+ */
+function describeCondition(condition: ArchetypeCondition, scores: PsychologicalScores): string {
+  const met = conditionDistance(condition, scores) === 0;
+
+  switch (condition.type) {
+    case 'above':
+    case 'below': {
+      const label = DIMENSION_LABELS[condition.dimension];
+      const direction = condition.type === 'above' ? 'above' : 'below';
+      return `${label} is ${scores[condition.dimension]} (${met ? '' : 'needs '}${direction} ${condition.threshold})`;
+    }
+    case 'allBetween': {
+      const outside = condition.dimensions.filter(
+        (dimension) => scores[dimension] < condition.min || scores[dimension] > condition.max
+      );
+      return met
+        ? `All scores are between ${condition.min} and ${condition.max}`
+        : `${outside.map((dimension) => DIMENSION_LABELS[dimension]).join(', ')} outside ${condition.min}-${condition.max}`;
+    }
+    case 'countAbove': {
+      const high = condition.dimensions.filter((dimension) => scores[dimension] > condition.threshold);
+      const names = high.map((dimension) => DIMENSION_LABELS[dimension]).join(', ');
+      return met
+        ? `${high.length} areas above ${condition.threshold}: ${names}`
+        : `${high.length} areas above ${condition.threshold} (needs ${condition.count})`;
+    }
+    case 'any': {
+      const matched = condition.conditions.find((inner) => conditionDistance(inner, scores) === 0);
+      return matched
+        ? describeCondition(matched, scores)
+        : condition.conditions.map((inner) => describeCondition(inner, scores)).join(' or ');
+    }
   }
+}
+
+/**
+ * Total score points a rule is short of matching (0 = matches)
+ */
+function ruleDistance(rule: ArchetypeRule, scores: PsychologicalScores): number {
+  return rule.conditions.reduce((acc, condition) => acc + conditionDistance(condition, scores), 0);
+}
 
-  // 6. Community-Driven
-  if (scores.isolationLevel < 40 && (scores.imposterSyndrome < 50 || scores.founderDoubt < 50)) {
-    return ARCHETYPES['Community-Driven'];
+/**
+ * Evaluate the archetype rules against a set of scores
+ * 
+ * Rules are checked in priority order and the first match wins. The runner-up
+ * is the other conditional rule that is closest to matching; a margin of 0
+ * means it matched too but has lower priority.
+ * 
+ * @param scores - PsychologicalScores object with all 7 dimensions
+ * @param rules - Rule set to evaluate (defaults to ARCHETYPE_RULES)
+ * @returns The matched archetype, why it matched, and the runner-up
+ * @throws Error if no rule matches (the rule set has no default)
+ */
+export function evaluateArchetype(
+  scores: PsychologicalScores,
+  rules: ArchetypeRule[] = ARCHETYPE_RULES
+): ArchetypeEvaluation {
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+  const matched = ordered.find((rule) => ruleDistance(rule, scores) === 0);
+  if (!matched) {
+    throw new Error('No archetype rule matched');
   }
 
-  // 7. Balanced Founder - all numeric scores between 40-60
-  const numericScores = [
-    scores.imposterSyndrome,
-    scores.founderDoubt,
-    scores.identityFusion,
-    scores.fearOfRejection,
-    scores.riskTolerance,
-    scores.isolationLevel,
-  ];
-  if (numericScores.every(s => s >= 40 && s <= 60)) {
-    return ARCHETYPES['Balanced Founder'];
+  const reasons = matched.conditions.length > 0
+    ? matched.conditions.map((condition) => describeCondition(condition, scores))
+    : ['No other archetype\'s conditions were met'];
+
+  let runnerUp: ArchetypeEvaluation['runnerUp'] = null;
+  for (const rule of ordered) {
+    if (rule === matched || rule.conditions.length === 0) continue;
+    const margin = ruleDistance(rule, scores);
+    if (!runnerUp || margin < runnerUp.margin) {
+      runnerUp = {
+        archetype: rule.archetype,
+        margin,
+        unmet: rule.conditions
+          .filter((condition) => conditionDistance(condition, scores) > 0)
+          .map((condition) => describeCondition(condition, scores)),
+      };
+    }
   }
 
-  // 8. Default to Growth Seeker (includes encouragement)
-  return ARCHETYPES['Growth Seeker'];
+  return { archetype: matched.archetype, reasons, runnerUp };
+}
+
+// Affinity halves for every AFFINITY_HALF_DISTANCE points a rule is short of matching
+const AFFINITY_HALF_DISTANCE = 10;
+// A secondary archetype is only reported when it is at least this close
+export const SECONDARY_MIN_AFFINITY = 50;
+
+/**
+ * Score how strongly the scores fit every archetype, and pick a primary and secondary
+ * 
+ * Affinity = 100 / (1 + distance / 10), where distance is the total score
+ * points a rule is short of matching, so a matched rule scores 100 and one
+ * 10 points away scores 50. The default rule (no conditions) fits to the
+ * extent nothing else does: 100 minus the best conditional affinity.
+ * 
+ * @param scores - PsychologicalScores object with all 7 dimensions
+ * @param rules - Rule set to evaluate (defaults to ARCHETYPE_RULES)
+ * @returns The primary (priority-based) archetype, the closest other archetype and all affinities
+ */
+export function calculateArchetypeBlend(
+  scores: PsychologicalScores,
+  rules: ArchetypeRule[] = ARCHETYPE_RULES
+): ArchetypeBlend {
+  const primary = evaluateArchetype(scores, rules).archetype;
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+
+  const conditional = ordered
+    .filter((rule) => rule.conditions.length > 0)
+    .map((rule) => ({
+      name: rule.archetype,
+      affinity: Math.round(100 / (1 + ruleDistance(rule, scores) / AFFINITY_HALF_DISTANCE)),
+    }));
+  const bestConditional = Math.max(0, ...conditional.map((entry) => entry.affinity));
+  const defaults = ordered
+    .filter((rule) => rule.conditions.length === 0)
+    .map((rule) => ({ name: rule.archetype, affinity: 100 - bestConditional }));
+
+  // Stable sort keeps priority order between equal affinities
+  const affinities = [...conditional, ...defaults].sort((a, b) => b.affinity - a.affinity);
+  const secondary = affinities.find(
+    (entry) => entry.name !== primary && entry.affinity >= SECONDARY_MIN_AFFINITY
+  );
+
+  return {
+    primary,
+    secondary: secondary?.name ?? null,
+    affinities,
+  };
+}
+
+/**
+ * Determine archetype based on psychological scores
+ * 
+ * Evaluates ARCHETYPE_RULES (see utils/archetypeRules.ts). Priority order:
+ * 1. Burning Out - 3+ dimensions > 70 (urgent)
+ * 2. Perfectionist Builder - imposterSyndrome > 60 AND founderDoubt > 60 AND riskTolerance < 50
+ * 3. Opportunistic Visionary - riskTolerance > 70 AND founderDoubt < 40 AND imposterSyndrome < 40
+ * 4. Isolated Dreamer - isolationLevel > 70 AND (identityFusion > 50 OR founderDoubt > 50)
+ * 5. Self-Assured Hustler - imposterSyndrome < 40 AND founderDoubt < 40 AND riskTolerance > 60
+ * 6. Community-Driven - isolationLevel < 40 AND (imposterSyndrome < 50 OR founderDoubt < 50)
+ * 7. Balanced Founder - all numeric scores between 40-60
+ * 8. Growth Seeker - default (includes encouragement message)
+ * 
+ * The primary archetype's definition is returned with `blend` describing
+ * the secondary archetype and per-archetype affinities.
+ * 
+ * @param scores - PsychologicalScores object with all 7 dimensions
+ * @returns ArchetypeResult with name, description, traits, strength, challenge, recommendation, blend
+ */
+export function determineArchetype(scores: PsychologicalScores): ArchetypeResult {
+  const blend = calculateArchetypeBlend(scores);
+  return { ...ARCHETYPES[blend.primary], blend };
 }
 
 /**
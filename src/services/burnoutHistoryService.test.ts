@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import type { BurnoutScore } from '../db/schema';
+import {
+  aggregateDailyScores,
+  findRiskTransitions,
+  parseHistoryRange,
+  BurnoutHistoryValidationError,
+  DEFAULT_HISTORY_DAYS,
+  MAX_HISTORY_DAYS,
+} from './burnoutHistoryService';
+import { getRiskLevel } from './burnoutService';
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+function makeScore(calculatedAt: string, score: number, contributingFactors: string[] = []): BurnoutScore {
+  return {
+    id: `score-${calculatedAt}`,
+    userId: 'anonymous-abc',
+    journalEntryId: null,
+    score,
+    riskLevel: getRiskLevel(score),
+    contributingFactors,
+    components: [],
+    calculatedAt: new Date(calculatedAt),
+  };
+}
+
+describe('parseHistoryRange', () => {
+  it('defaults to the last 30 days up to today', () => {
+    expect(parseHistoryRange(null, null, NOW)).toEqual({ from: '2026-02-14', to: '2026-03-15' });
+    expect(DEFAULT_HISTORY_DAYS).toBe(30);
+  });
+
+  it('counts the default back from an explicit end', () => {
+    expect(parseHistoryRange(null, '2026-01-31', NOW)).toEqual({ from: '2026-01-02', to: '2026-01-31' });
+    expect(parseHistoryRange('2026-03-01', null, NOW)).toEqual({ from: '2026-03-01', to: '2026-03-15' });
+  });
+
+  it('rejects malformed dates, reversed ranges and ranges that are too long', () => {
+    expect(() => parseHistoryRange('03/01/2026', null, NOW)).toThrow(BurnoutHistoryValidationError);
+    expect(() => parseHistoryRange('2026-02-30', null, NOW)).toThrow('from must be a date');
+    expect(() => parseHistoryRange('2026-03-10', '2026-03-01', NOW)).toThrow('must not be after');
+    expect(() => parseHistoryRange('2025-01-01', '2026-03-15', NOW)).toThrow(`at most ${MAX_HISTORY_DAYS} days`);
+    expect(parseHistoryRange('2025-03-16', '2026-03-15', NOW).from).toBe('2025-03-16');
+  });
+});
+
+describe('aggregateDailyScores', () => {
+  it('averages the scores of a day and merges their factors', () => {
+    const days = aggregateDailyScores([
+      makeScore('2026-03-10T21:00:00Z', 70, ['High stress level', 'Low energy']),
+      makeScore('2026-03-10T08:00:00Z', 55, ['High stress level']),
+      makeScore('2026-03-09T20:00:00Z', 30),
+    ]);
+
+    expect(days).toEqual([
+      { date: '2026-03-09', score: 30, minScore: 30, maxScore: 30, count: 1, riskLevel: 'low', contributingFactors: [] },
+      {
+        date: '2026-03-10',
+        score: 63,
+        minScore: 55,
+        maxScore: 70,
+        count: 2,
+        riskLevel: 'high',
+        contributingFactors: ['High stress level', 'Low energy'],
+      },
+    ]);
+  });
+
+  it('returns nothing without scores', () => {
+    expect(aggregateDailyScores([])).toEqual([]);
+  });
+});
+
+describe('findRiskTransitions', () => {
+  it('records each change of level with its direction and factors', () => {
+    const days = aggregateDailyScores([
+      makeScore('2026-03-01T20:00:00Z', 35),
+      makeScore('2026-03-02T20:00:00Z', 38),
+      makeScore('2026-03-04T20:00:00Z', 72, ['High stress level']),
+      makeScore('2026-03-05T20:00:00Z', 85, ['High stress level', 'Very low mood']),
+      makeScore('2026-03-08T20:00:00Z', 50),
+    ]);
+
+    expect(findRiskTransitions(days)).toEqual([
+      { date: '2026-03-04', from: 'low', to: 'high', direction: 'worsened', score: 72, contributingFactors: ['High stress level'] },
+      {
+        date: '2026-03-05',
+        from: 'high',
+        to: 'critical',
+        direction: 'worsened',
+        score: 85,
+        contributingFactors: ['High stress level', 'Very low mood'],
+      },
+      { date: '2026-03-08', from: 'critical', to: 'caution', direction: 'improved', score: 50, contributingFactors: [] },
+    ]);
+  });
+
+  it('finds no transitions when the level holds', () => {
+    const days = aggregateDailyScores([
+      makeScore('2026-03-01T20:00:00Z', 45),
+      makeScore('2026-03-02T20:00:00Z', 58),
+      makeScore('2026-03-03T20:00:00Z', 41),
+    ]);
+
+    expect(findRiskTransitions(days)).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Burnout History Service
+ * Daily burnout scores over a range of days and the changes in risk level
+ *
+ * A day can be scored more than once (a check-in edited later, actions
+ * regenerated), so scores are combined per UTC day: the day's score is the
+ * rounded average and its risk level is the level of that average. A
+ * transition is recorded whenever a scored day's level differs from the
+ * previous scored day's; days without a score are skipped, not treated as low.
+ */
+
+import type { BurnoutScore } from '../db/schema';
+import type {
+  BurnoutDailyScore,
+  BurnoutHistoryResponse,
+  BurnoutRiskLevel,
+  BurnoutRiskTransition,
+} from '../types/assessment';
+import { getRiskLevel, getScoresBetween } from './burnoutService';
+
+export const DEFAULT_HISTORY_DAYS = 30;
+export const MAX_HISTORY_DAYS = 365;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const RISK_ORDER: BurnoutRiskLevel[] = ['low', 'caution', 'high', 'critical'];
+
+export interface HistoryRange {
+  from: string;                          // YYYY-MM-DD
+  to: string;                            // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Error class for invalid history ranges
+ */
+export class BurnoutHistoryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BurnoutHistoryValidationError';
+  }
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+/**
+ * Resolves the requested range of days
+ * @param from - First day (YYYY-MM-DD); default: DEFAULT_HISTORY_DAYS days up to `to`
+ * @param to - Last day, inclusive (YYYY-MM-DD); default: today
+ * @param now - Reference date for today (defaults to the current date)
+ * @throws BurnoutHistoryValidationError for malformed dates, a reversed range
+ *         or a range longer than MAX_HISTORY_DAYS
+ */
+export function parseHistoryRange(
+  from: string | null,
+  to: string | null,
+  now: Date = new Date()
+): HistoryRange {
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value !== null && !isValidDate(value)) {
+      throw new BurnoutHistoryValidationError(`${name} must be a date in YYYY-MM-DD format`);
+    }
+  }
+
+  const end = to ?? now.toISOString().split('T')[0];
+  const start = from ?? shiftDate(end, -(DEFAULT_HISTORY_DAYS - 1));
+
+  if (start > end) {
+    throw new BurnoutHistoryValidationError('from must not be after to');
+  }
+  if (daysBetween(start, end) + 1 > MAX_HISTORY_DAYS) {
+    throw new BurnoutHistoryValidationError(`The range can cover at most ${MAX_HISTORY_DAYS} days`);
+  }
+
+  return { from: start, to: end };
+}
+
+/**
+ * Combines burnout scores into one aggregate per day
+ * @param scores - Burnout scores in any order
+ * @returns One entry per scored day, oldest first
+ */
+export function aggregateDailyScores(scores: BurnoutScore[]): BurnoutDailyScore[] {
+  const byDate = new Map<string, BurnoutScore[]>();
+  const ordered = [...scores].sort((a, b) => a.calculatedAt.getTime() - b.calculatedAt.getTime());
+  for (const score of ordered) {
+    const date = score.calculatedAt.toISOString().split('T')[0];
+    byDate.set(date, [...(byDate.get(date) ?? []), score]);
+  }
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayScores]) => {
+      const values = dayScores.map((score) => score.score);
+      const average = Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+      const factors = dayScores.flatMap((score) => score.contributingFactors as string[]);
+
+      return {
+        date,
+        score: average,
+        minScore: Math.min(...values),
+        maxScore: Math.max(...values),
+        count: dayScores.length,
+        riskLevel: getRiskLevel(average),
+        contributingFactors: [...new Set(factors)],
+      };
+    });
+}
+
+/**
+ * Lists every scored day whose risk level differs from the previous scored day
+ * @param days - Daily scores, oldest first
+ */
+export function findRiskTransitions(days: BurnoutDailyScore[]): BurnoutRiskTransition[] {
+  const transitions: BurnoutRiskTransition[] = [];
+  for (let i = 1; i < days.length; i++) {
+    const from = days[i - 1].riskLevel;
+    const to = days[i].riskLevel;
+    if (from !== to) {
+      transitions.push({
+        date: days[i].date,
+        from,
+        to,
+        direction: RISK_ORDER.indexOf(to) > RISK_ORDER.indexOf(from) ? 'worsened' : 'improved',
+        score: days[i].score,
+        contributingFactors: days[i].contributingFactors,
+      });
+    }
+  }
+  return transitions;
+}
+
+/**
+ * Get a user's daily burnout scores and risk transitions over a range of days
+ */
+export async function getBurnoutHistory(userId: string, range: HistoryRange): Promise<BurnoutHistoryResponse> {
+  const days = aggregateDailyScores(await getScoresBetween(userId, range.from, range.to));
+  return {
+    from: range.from,
+    to: range.to,
+    days,
+    transitions: findRiskTransitions(days),
+  };
+}
@@ -1,12 +1,19 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { 
   calculateBurnoutScore, 
   getRiskLevel, 
   getContributingFactors,
+  getBurnoutModelConfig,
+  parseBurnoutModelConfig,
+  DEFAULT_BURNOUT_MODEL_CONFIG,
   type RiskLevel,
   type BurnoutScoreResult
 } from './burnoutService';
 import type { JournalEntry, Assessment } from '../db/schema';
+import type { MetricTrendStats } from './journalService';
+
+const FLAT: MetricTrendStats = { slopePerDay: 0, volatility: 0, changePoint: null };
+const STEADY_STATS = { moodStats: FLAT, energyStats: FLAT, stressStats: FLAT };
 
 // Helper to create mock journal entries
 function createMockJournalEntry(overrides: Partial<JournalEntry> = {}): JournalEntry {
@@ -31,15 +38,19 @@ function createMockAssessment(overrides: Partial<Assessment> = {}): Assessment {
     id: 'test-assessment-id',
     userId: 'test-user',
     answers: [],
+    questionBankVersion: 'v1',
     imposterSyndrome: 50,
     founderDoubt: 50,
     identityFusion: 50,
     fearOfRejection: 50,
     riskTolerance: 50,
     motivationType: 'mixed',
+    motivationScore: null,
     isolationLevel: 50,
     archetype: 'Balanced Founder',
     groqInsights: null,
+    insightsPromptVersion: null,
+    responseQuality: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -309,7 +320,8 @@ describe('calculateBurnoutScore', () => {
         moodAvg: 60, energyAvg: 70, stressAvg: 30,
         moodTrend: 'declining' as const, 
         energyTrend: 'stable' as const, 
-        stressTrend: 'stable' as const 
+        stressTrend: 'stable' as const,
+        ...STEADY_STATS,
       };
       
       const withoutTrends = calculateBurnoutScore(entry);
@@ -324,7 +336,8 @@ describe('calculateBurnoutScore', () => {
         moodAvg: 70, energyAvg: 60, stressAvg: 30,
         moodTrend: 'stable' as const, 
         energyTrend: 'declining' as const, 
-        stressTrend: 'stable' as const 
+        stressTrend: 'stable' as const,
+        ...STEADY_STATS,
       };
       
       const withoutTrends = calculateBurnoutScore(entry);
@@ -339,7 +352,8 @@ describe('calculateBurnoutScore', () => {
         moodAvg: 70, energyAvg: 70, stressAvg: 30,
         moodTrend: 'improving' as const, 
         energyTrend: 'improving' as const, 
-        stressTrend: 'improving' as const 
+        stressTrend: 'improving' as const,
+        ...STEADY_STATS,
       };
       
       const withoutTrends = calculateBurnoutScore(entry);
@@ -363,7 +377,8 @@ describe('calculateBurnoutScore', () => {
         moodAvg: 20, energyAvg: 20, stressAvg: 80,
         moodTrend: 'declining' as const, 
         energyTrend: 'declining' as const, 
-        stressTrend: 'declining' as const 
+        stressTrend: 'declining' as const,
+        ...STEADY_STATS,
       };
       
       const result = calculateBurnoutScore(entry, assessment, trends);
@@ -401,3 +416,114 @@ describe('calculateBurnoutScore', () => {
     });
   });
 });
+
+describe('burnout model components', () => {
+  // A week of check-ins ending on 2026-03-15, most recent first
+  const day = (date: number, mood: number, energy: number, stress: number) =>
+    createMockJournalEntry({ entryDate: `2026-03-${String(date).padStart(2, '0')}`, mood, energy, stress });
+
+  const contribution = (result: BurnoutScoreResult, name: string) =>
+    result.components.find((component) => component.name === name)?.contribution;
+
+  it('returns every component, and the contributions add up to the score', () => {
+    const entry = day(15, 30, 40, 70);
+    const assessment = createMockAssessment({ imposterSyndrome: 80 });
+
+    const result = calculateBurnoutScore(entry, assessment);
+
+    expect(result.components.map((component) => component.name)).toEqual([
+      'base', 'assessment', 'trend', 'volatility', 'badDayStreak', 'missedCheckIns', 'actionCompletion',
+    ]);
+    expect(contribution(result, 'base')).toBe(67);
+    expect(contribution(result, 'assessment')).toBe(10);
+    const total = result.components.reduce((sum, component) => sum + component.contribution, 0);
+    expect(result.score).toBe(Math.round(total));
+  });
+
+  it('adds points for a run of hard days and names it as a factor', () => {
+    const history = [day(14, 20, 20, 85), day(13, 25, 20, 90), day(12, 20, 25, 80)];
+    const entry = day(15, 20, 20, 85);
+
+    const result = calculateBurnoutScore(entry, null, undefined, { history });
+
+    // 4 hard days: 3 beyond the first, out of 6
+    expect(contribution(result, 'badDayStreak')).toBe(5);
+    expect(result.contributingFactors).toContain('4 hard days in a row');
+  });
+
+  it('adds points for large swings between days', () => {
+    const history = [day(14, 90, 90, 10), day(13, 20, 20, 90), day(12, 90, 90, 10)];
+
+    const result = calculateBurnoutScore(day(15, 20, 20, 90), null, undefined, { history });
+
+    expect(contribution(result, 'volatility')).toBe(5);
+    expect(result.contributingFactors).toContain('Large swings from day to day');
+  });
+
+  it('counts skipped days only since the first check-in of the week', () => {
+    const entry = day(15, 60, 60, 40);
+
+    const newUser = calculateBurnoutScore(entry, null, undefined, { history: [day(14, 60, 60, 40)] });
+    const skipping = calculateBurnoutScore(entry, null, undefined, { history: [day(9, 60, 60, 40)] });
+
+    expect(contribution(newUser, 'missedCheckIns')).toBe(0);
+    // 5 of the 6 days after the 9th were skipped
+    expect(contribution(skipping, 'missedCheckIns')).toBeCloseTo(4.2);
+    expect(skipping.contributingFactors).toContain('Several missed check-ins');
+  });
+
+  it('lowers the score when daily actions get done', () => {
+    const entry = day(15, 50, 50, 50);
+
+    const result = calculateBurnoutScore(entry, null, undefined, { completion: { totalActions: 9, completionRate: 80 } });
+
+    expect(contribution(result, 'actionCompletion')).toBe(-8);
+    expect(result.score).toBe(42);
+    expect(contribution(calculateBurnoutScore(entry, null, undefined, { completion: { totalActions: 0, completionRate: 0 } }), 'actionCompletion')).toBe(0);
+  });
+
+  it('uses the weights and base mix from the config', () => {
+    const entry = day(15, 50, 50, 80);
+    const config = parseBurnoutModelConfig(JSON.stringify({ weights: { trend: 20 }, baseMix: { mood: 0, energy: 0, stress: 1 } }));
+    const trends = {
+      moodAvg: 50, energyAvg: 50, stressAvg: 80,
+      moodTrend: 'declining' as const,
+      energyTrend: 'stable' as const,
+      stressTrend: 'stable' as const,
+      ...STEADY_STATS,
+    };
+
+    const result = calculateBurnoutScore(entry, null, trends, { config });
+
+    expect(contribution(result, 'base')).toBe(80);
+    expect(contribution(result, 'trend')).toBe(20);
+    expect(result.score).toBe(100);
+  });
+});
+
+describe('burnout model config', () => {
+  it('merges overrides over the defaults', () => {
+    const config = parseBurnoutModelConfig('{"weights": {"volatility": 8, "actionCompletion": -4}}');
+
+    expect(config.weights).toEqual({ ...DEFAULT_BURNOUT_MODEL_CONFIG.weights, volatility: 8, actionCompletion: -4 });
+    expect(config.baseMix).toEqual(DEFAULT_BURNOUT_MODEL_CONFIG.baseMix);
+  });
+
+  it('rejects unknown components, non-numeric weights and an empty base mix', () => {
+    expect(() => parseBurnoutModelConfig('{"weights": {"sleep": 5}}')).toThrow('Unknown burnout model component: sleep');
+    expect(() => parseBurnoutModelConfig('{"weights": {"trend": "5"}}')).toThrow('Weight for trend must be a number');
+    expect(() => parseBurnoutModelConfig('{"baseMix": {"mood": 0, "energy": 0, "stress": 0}}')).toThrow('must not all be zero');
+    expect(() => parseBurnoutModelConfig('{"baseMix": {"stress": -1}}')).toThrow('non-negative');
+    expect(() => parseBurnoutModelConfig('[1, 2]')).toThrow('JSON object');
+  });
+
+  it('reads BURNOUT_MODEL_CONFIG and falls back to the defaults when it is invalid', () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(getBurnoutModelConfig({}).weights.trend).toBe(5);
+    expect(getBurnoutModelConfig({ BURNOUT_MODEL_CONFIG: '{"weights": {"trend": 9}}' }).weights.trend).toBe(9);
+    expect(getBurnoutModelConfig({ BURNOUT_MODEL_CONFIG: '{not json' })).toBe(DEFAULT_BURNOUT_MODEL_CONFIG);
+    expect(consoleErrorSpy).toHaveBeenCalledOnce();
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -1,4 +1,4 @@
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, asc, and, gte, lt } from 'drizzle-orm';
 import { db } from '../db/connection';
 import { 
   type JournalEntry, 
@@ -8,9 +8,16 @@ import {
   burnoutScores 
 } from '../db/schema';
 import { type TrendData } from './journalService';
+import type { BurnoutComponentContribution, BurnoutComponentName } from '../types/assessment';
 
 /**
  * Burnout service for calculating burnout risk scores
+ *
+ * The score is the sum of named components. Each component measures a signal
+ * between 0 and 1 and adds signal * weight points, so its contribution can be
+ * shown on its own. Weights and the base score's mix of mood, energy and stress
+ * come from BURNOUT_MODEL_CONFIG (JSON, merged over DEFAULT_BURNOUT_MODEL_CONFIG)
+ * and can be tuned without code changes.
  */
 
 // Risk level type
@@ -21,8 +28,52 @@ export interface BurnoutScoreResult {
   score: number;
   riskLevel: RiskLevel;
   contributingFactors: string[];
+  components: BurnoutComponentContribution[];
 }
 
+export type BurnoutModelWeights = Record<BurnoutComponentName, number>;
+
+export interface BurnoutModelConfig {
+  weights: BurnoutModelWeights;          // Points each component adds at full signal
+  baseMix: {                             // Share of each rating in the base score (normalized to sum to 1)
+    mood: number;
+    energy: number;
+    stress: number;
+  };
+}
+
+// Journal history and action stats behind the components that look beyond today
+export interface BurnoutSignals {
+  history?: JournalEntry[];              // Recent entries, any order; today's entry may be included
+  completion?: { totalActions: number; completionRate: number } | null; // Daily actions over the last week
+  config?: BurnoutModelConfig;           // Default: getBurnoutModelConfig()
+}
+
+// Defaults reproduce the original formula for a single entry:
+// 0.3/0.3/0.4 base mix, +10 per high dimension (5 dimensions = 50) and +5 for a declining trend
+export const DEFAULT_BURNOUT_MODEL_CONFIG: BurnoutModelConfig = {
+  weights: {
+    base: 100,
+    assessment: 50,
+    trend: 5,
+    volatility: 5,
+    badDayStreak: 10,
+    missedCheckIns: 5,
+    actionCompletion: -10,
+  },
+  baseMix: { mood: 0.3, energy: 0.3, stress: 0.4 },
+};
+
+const COMPONENT_LABELS: Record<BurnoutComponentName, string> = {
+  base: "Today's check-in",
+  assessment: 'Assessment profile',
+  trend: 'Worsening trend',
+  volatility: 'Day-to-day swings',
+  badDayStreak: 'Run of hard days',
+  missedCheckIns: 'Missed check-ins',
+  actionCompletion: 'Daily actions completed',
+};
+
 // Assessment scores interface (extracted from Assessment table)
 export interface AssessmentScores {
   imposterSyndrome: number;
@@ -44,25 +95,37 @@ const RISK_THRESHOLDS = {
 // Assessment dimension threshold for contributing factors
 const HIGH_DIMENSION_THRESHOLD = 70;
 
-// Trend modifier value
-const DECLINING_TREND_MODIFIER = 5;
+// Dimensions where a high score adds to burnout risk
+// Note: riskTolerance is excluded as it's not a negative indicator
+const NEGATIVE_DIMENSIONS = ['imposterSyndrome', 'founderDoubt', 'identityFusion', 'fearOfRejection', 'isolationLevel'] as const;
+
+// Days of history the volatility, streak and missed check-in components look at
+const SIGNAL_WINDOW_DAYS = 7;
 
-// Assessment dimension modifiers
-const ASSESSMENT_MODIFIER = 10;
+// Standard deviation of daily base scores at which volatility reaches full signal
+const VOLATILITY_SATURATION = 25;
+
+// Volatility needs a few days to mean anything
+const MIN_VOLATILITY_ENTRIES = 3;
 
 /**
  * Calculate base burnout score from journal entry
- * Formula: (100 - mood) * 0.3 + (100 - energy) * 0.3 + stress * 0.4
+ * Formula (default mix): (100 - mood) * 0.3 + (100 - energy) * 0.3 + stress * 0.4
  * 
  * @param journalEntry - The journal entry with mood, energy, stress values
+ * @param baseMix - Share of each rating in the score
  * @returns Base burnout score (0-100)
  */
-function calculateBaseScore(journalEntry: JournalEntry): number {
-  const moodContribution = (100 - journalEntry.mood) * 0.3;
-  const energyContribution = (100 - journalEntry.energy) * 0.3;
-  const stressContribution = journalEntry.stress * 0.4;
+function calculateBaseScore(
+  journalEntry: Pick<JournalEntry, 'mood' | 'energy' | 'stress'>,
+  baseMix: BurnoutModelConfig['baseMix']
+): number {
+  const total = baseMix.mood + baseMix.energy + baseMix.stress;
+  const moodContribution = (100 - journalEntry.mood) * baseMix.mood;
+  const energyContribution = (100 - journalEntry.energy) * baseMix.energy;
+  const stressContribution = journalEntry.stress * baseMix.stress;
   
-  return moodContribution + energyContribution + stressContribution;
+  return (moodContribution + energyContribution + stressContribution) / total;
 }
 
 /**
@@ -83,44 +146,21 @@ function extractAssessmentScores(assessment: Assessment): AssessmentScores {
 }
 
 /**
- * Calculate assessment modifiers based on high-risk dimensions
- * Adds +10 for each dimension exceeding the threshold
- * 
- * @param scores - Assessment psychological scores
- * @returns Total modifier value
+ * Share of the negative dimensions scoring above the threshold (0-1)
  */
-function calculateAssessmentModifiers(scores: AssessmentScores): number {
-  let modifier = 0;
-  
-  // Check each "negative" dimension (higher = worse)
-  // Note: riskTolerance is excluded as it's not a negative indicator
-  if (scores.imposterSyndrome > HIGH_DIMENSION_THRESHOLD) {
-    modifier += ASSESSMENT_MODIFIER;
-  }
-  if (scores.founderDoubt > HIGH_DIMENSION_THRESHOLD) {
-    modifier += ASSESSMENT_MODIFIER;
-  }
-  if (scores.identityFusion > HIGH_DIMENSION_THRESHOLD) {
-    modifier += ASSESSMENT_MODIFIER;
-  }
-  if (scores.fearOfRejection > HIGH_DIMENSION_THRESHOLD) {
-    modifier += ASSESSMENT_MODIFIER;
-  }
-  if (scores.isolationLevel > HIGH_DIMENSION_THRESHOLD) {
-    modifier += ASSESSMENT_MODIFIER;
+function assessmentSignal(assessment?: Assessment | null): number {
+  if (!assessment) {
+    return 0;
   }
-  
-  return modifier;
+  const scores = extractAssessmentScores(assessment);
+  const high = NEGATIVE_DIMENSIONS.filter((dimension) => scores[dimension] > HIGH_DIMENSION_THRESHOLD).length;
+  return high / NEGATIVE_DIMENSIONS.length;
 }
 
 /**
- * Calculate trend modifier based on recent trends
- * Adds +5 if any key metric is declining
- * 
- * @param trends - Trend data from journal entries
- * @returns Trend modifier value
+ * 1 if any key metric is declining, otherwise 0
  */
-function calculateTrendModifier(trends?: TrendData): number {
+function trendSignal(trends?: TrendData): number {
   if (!trends) {
     return 0;
   }
@@ -131,7 +171,69 @@ function calculateTrendModifier(trends?: TrendData): number {
     trends.energyTrend === 'declining' || 
     trends.stressTrend === 'declining'; // For stress, 'declining' means stress is going up (bad)
   
-  return hasDecliningTrend ? DECLINING_TREND_MODIFIER : 0;
+  return hasDecliningTrend ? 1 : 0;
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * Entries in the signal window ending on the scored entry's date, keyed by date
+ * The scored entry wins over a stored copy of the same day.
+ */
+function entriesInWindow(journalEntry: JournalEntry, history: JournalEntry[]): Map<string, JournalEntry> {
+  const windowStart = shiftDate(journalEntry.entryDate, -(SIGNAL_WINDOW_DAYS - 1));
+  const byDate = new Map<string, JournalEntry>();
+  for (const entry of history) {
+    if (entry.entryDate >= windowStart && entry.entryDate < journalEntry.entryDate) {
+      byDate.set(entry.entryDate, entry);
+    }
+  }
+  byDate.set(journalEntry.entryDate, journalEntry);
+  return byDate;
+}
+
+/**
+ * Standard deviation of daily base scores, relative to VOLATILITY_SATURATION (0-1)
+ */
+function volatilitySignal(dailyScores: number[]): number {
+  if (dailyScores.length < MIN_VOLATILITY_ENTRIES) {
+    return 0;
+  }
+  const mean = dailyScores.reduce((sum, score) => sum + score, 0) / dailyScores.length;
+  const variance = dailyScores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / dailyScores.length;
+  return Math.min(1, Math.sqrt(variance) / VOLATILITY_SATURATION);
+}
+
+/**
+ * Consecutive days, ending on the scored day, whose base score is in the high range
+ */
+function countBadDayStreak(journalEntry: JournalEntry, byDate: Map<string, JournalEntry>, config: BurnoutModelConfig): number {
+  let streak = 0;
+  let date = journalEntry.entryDate;
+  let entry = byDate.get(date);
+  while (entry && calculateBaseScore(entry, config.baseMix) >= RISK_THRESHOLDS.high.min) {
+    streak++;
+    date = shiftDate(date, -1);
+    entry = byDate.get(date);
+  }
+  return streak;
+}
+
+/**
+ * Days without a check-in since the first check-in in the window, as a share of those days (0-1)
+ * New users aren't penalized for the days before they started.
+ */
+function missedCheckInSignal(journalEntry: JournalEntry, byDate: Map<string, JournalEntry>): number {
+  const firstDate = [...byDate.keys()].sort()[0];
+  let days = 0;
+  for (let date = firstDate; date <= journalEntry.entryDate; date = shiftDate(date, 1)) {
+    days++;
+  }
+  return days <= 1 ? 0 : (days - byDate.size) / (days - 1);
 }
 
 /**
@@ -205,49 +307,148 @@ export function getContributingFactors(
   return factors;
 }
 
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Parse a burnout model config, merging it over the defaults
+ * Any weight or mix share left out keeps its default value.
+ * @throws Error if the JSON is invalid, a value isn't a finite number, a mix
+ *         share is negative or the mix is all zeros
+ */
+export function parseBurnoutModelConfig(json: string): BurnoutModelConfig {
+  const value: unknown = JSON.parse(json);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Burnout model config must be a JSON object');
+  }
+  const { weights = {}, baseMix = {} } = value as { weights?: Record<string, unknown>; baseMix?: Record<string, unknown> };
+
+  const config: BurnoutModelConfig = {
+    weights: { ...DEFAULT_BURNOUT_MODEL_CONFIG.weights },
+    baseMix: { ...DEFAULT_BURNOUT_MODEL_CONFIG.baseMix },
+  };
+
+  for (const [name, weight] of Object.entries(weights)) {
+    if (!(name in config.weights)) {
+      throw new Error(`Unknown burnout model component: ${name}`);
+    }
+    if (!isFiniteNumber(weight)) {
+      throw new Error(`Weight for ${name} must be a number`);
+    }
+    config.weights[name as BurnoutComponentName] = weight;
+  }
+
+  for (const [rating, share] of Object.entries(baseMix)) {
+    if (!(rating in config.baseMix)) {
+      throw new Error(`Unknown base mix rating: ${rating}`);
+    }
+    if (!isFiniteNumber(share) || share < 0) {
+      throw new Error(`Base mix share for ${rating} must be a non-negative number`);
+    }
+    config.baseMix[rating as keyof BurnoutModelConfig['baseMix']] = share;
+  }
+
+  if (config.baseMix.mood + config.baseMix.energy + config.baseMix.stress <= 0) {
+    throw new Error('Base mix shares must not all be zero');
+  }
+
+  return config;
+}
+
+/**
+ * Get the burnout model config from BURNOUT_MODEL_CONFIG
+ * An invalid config is logged and the defaults used instead, so a bad setting
+ * never stops check-ins from being scored.
+ */
+export function getBurnoutModelConfig(env: Record<string, string | undefined> = process.env): BurnoutModelConfig {
+  const json = env.BURNOUT_MODEL_CONFIG?.trim();
+  if (json) {
+    try {
+      return parseBurnoutModelConfig(json);
+    } catch (error) {
+      console.error('Invalid BURNOUT_MODEL_CONFIG, using the defaults:', error);
+    }
+  }
+  return DEFAULT_BURNOUT_MODEL_CONFIG;
+}
+
 /**
  * Calculate burnout score from journal entry and optional assessment data
  * 
- * Formula:
- * - Base score from journal: (100 - mood) * 0.3 + (100 - energy) * 0.3 + stress * 0.4
- * - Assessment modifiers: +10 for each dimension > 70
- * - Trend modifier: +5 if declining trends detected
+ * Components (default weights, points at full signal):
+ * - base (100): today's ratings, (100 - mood) * 0.3 + (100 - energy) * 0.3 + stress * 0.4
+ * - assessment (50): share of the 5 negative dimensions above 70, i.e. +10 each
+ * - trend (5): any declining trend
+ * - volatility (5): standard deviation of daily base scores over the last week
+ * - badDayStreak (10): consecutive days in the high range, full at 7
+ * - missedCheckIns (5): days skipped since the first check-in of the last week
+ * - actionCompletion (-10): completion rate of daily actions, lowering the score
  * 
  * @param journalEntry - The journal entry with mood, energy, stress values
  * @param assessment - Optional assessment data for additional modifiers
  * @param trends - Optional trend data for trend-based modifiers
- * @returns BurnoutScoreResult with score, risk level, and contributing factors
+ * @param signals - Optional history, action stats and model config
+ * @returns BurnoutScoreResult with score, risk level, contributing factors and per-component contributions
  */
 export function calculateBurnoutScore(
   journalEntry: JournalEntry,
   assessment?: Assessment | null,
-  trends?: TrendData
+  trends?: TrendData,
+  signals: BurnoutSignals = {}
 ): BurnoutScoreResult {
-  // Calculate base score from journal entry
-  let score = calculateBaseScore(journalEntry);
-  
-  // Add assessment modifiers if available
-  if (assessment) {
-    const assessmentScores = extractAssessmentScores(assessment);
-    score += calculateAssessmentModifiers(assessmentScores);
-  }
-  
-  // Add trend modifier if available
-  score += calculateTrendModifier(trends);
-  
+  const config = signals.config ?? getBurnoutModelConfig();
+  const byDate = entriesInWindow(journalEntry, signals.history ?? []);
+  const dailyScores = [...byDate.values()].map((entry) => calculateBaseScore(entry, config.baseMix));
+  const badDayStreak = countBadDayStreak(journalEntry, byDate, config);
+  const completion = signals.completion;
+
+  const componentSignals: Record<BurnoutComponentName, number> = {
+    base: calculateBaseScore(journalEntry, config.baseMix) / 100,
+    assessment: assessmentSignal(assessment),
+    trend: trendSignal(trends),
+    volatility: volatilitySignal(dailyScores),
+    // A single hard day is already in the base score; the streak counts from the second
+    badDayStreak: Math.min(1, Math.max(0, badDayStreak - 1) / (SIGNAL_WINDOW_DAYS - 1)),
+    missedCheckIns: missedCheckInSignal(journalEntry, byDate),
+    actionCompletion: completion && completion.totalActions > 0 ? completion.completionRate / 100 : 0,
+  };
+
+  const components = (Object.keys(componentSignals) as BurnoutComponentName[]).map((name) => {
+    const signal = componentSignals[name];
+    const weight = config.weights[name];
+    // An absent signal contributes 0, not -0 from a negative weight
+    return { name, label: COMPONENT_LABELS[name], signal, weight, contribution: signal === 0 ? 0 : signal * weight };
+  });
+
   // Clamp final score to 0-100 range
-  score = Math.round(Math.max(0, Math.min(100, score)));
+  const total = components.reduce((sum, component) => sum + component.contribution, 0);
+  const score = Math.round(Math.max(0, Math.min(100, total)));
   
   // Determine risk level
   const riskLevel = getRiskLevel(score);
   
   // Get contributing factors
   const contributingFactors = getContributingFactors(journalEntry, assessment);
+  if (badDayStreak >= 3) {
+    contributingFactors.push(`${badDayStreak} hard days in a row`);
+  }
+  if (componentSignals.volatility >= 0.6) {
+    contributingFactors.push('Large swings from day to day');
+  }
+  if (componentSignals.missedCheckIns >= 0.5) {
+    contributingFactors.push('Several missed check-ins');
+  }
   
   return {
     score,
     riskLevel,
     contributingFactors,
+    components: components.map((component) => ({
+      ...component,
+      signal: Math.round(component.signal * 100) / 100,
+      contribution: Math.round(component.contribution * 10) / 10,
+    })),
   };
 }
 
@@ -271,6 +472,7 @@ export async function saveBurnoutScore(
       score: scoreResult.score,
       riskLevel: scoreResult.riskLevel,
       contributingFactors: scoreResult.contributingFactors,
+      components: scoreResult.components,
     };
 
     const createdScores = await db
@@ -306,3 +508,33 @@ export async function getLatestScore(userId: string): Promise<BurnoutScore | nul
     throw new Error('Failed to get latest burnout score');
   }
 }
+
+/**
+ * Get a user's burnout scores calculated within a range of days
+ * 
+ * @param userId - The user's odId
+ * @param from - First day (YYYY-MM-DD, UTC)
+ * @param to - Last day, inclusive (YYYY-MM-DD, UTC)
+ * @returns Burnout scores sorted by calculation time ascending
+ */
+export async function getScoresBetween(userId: string, from: string, to: string): Promise<BurnoutScore[]> {
+  const end = new Date(`${to}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+
+  try {
+    return await db
+      .select()
+      .from(burnoutScores)
+      .where(
+        and(
+          eq(burnoutScores.userId, userId),
+          gte(burnoutScores.calculatedAt, new Date(`${from}T00:00:00Z`)),
+          lt(burnoutScores.calculatedAt, end)
+        )
+      )
+      .orderBy(asc(burnoutScores.calculatedAt));
+  } catch (error) {
+    console.error('Database error in getScoresBetween:', error);
+    throw new Error('Failed to get burnout score history');
+  }
+}
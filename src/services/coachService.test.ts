@@ -0,0 +1,332 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SQL, Table } from 'drizzle-orm';
+import type { ActionItem, Assessment, CoachMessage, JournalEntry } from '../db/schema';
+
+// Minimal query-builder stand-in: selects return the stored assessments (in the
+// order the query asks for), conversation and messages, inserts and updates are recorded
+const state = vi.hoisted(() => ({
+  assessments: [] as Assessment[],
+  conversation: null as unknown,
+  messages: [] as unknown[],
+  inserts: [] as unknown[],
+  updates: [] as Record<string, unknown>[],
+}));
+
+vi.mock('../db/connection', async () => {
+  const { getTableName, sql } = await import('drizzle-orm');
+  const { PgDialect } = await import('drizzle-orm/pg-core');
+  const dialect = new PgDialect();
+
+  return {
+    db: {
+      select: () => ({
+        from: (table: Table) => ({
+          where: () => getTableName(table) === 'assessments'
+            ? {
+              orderBy: (order: SQL) => ({
+                limit: async (n: number) => {
+                  const sorted = [...state.assessments].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+                  const descending = dialect.sqlToQuery(sql`${order}`).sql.endsWith(' desc');
+                  return (descending ? sorted.reverse() : sorted).slice(0, n);
+                },
+              }),
+            }
+            : {
+              limit: async () => (state.conversation ? [state.conversation] : []),
+              orderBy: async () => state.messages,
+            },
+        }),
+      }),
+      insert: () => ({
+        values: (values: Record<string, unknown> | Record<string, unknown>[]) => ({
+          returning: async () => {
+            state.inserts.push(values);
+            if (Array.isArray(values)) {
+              return values.map((value, index) => ({ id: `message-${index}`, ...value }));
+            }
+            return [{ id: 'conversation-new', escalated: false, createdAt: new Date(), updatedAt: new Date(), ...values }];
+          },
+        }),
+      }),
+      update: () => ({
+        set: (values: Record<string, unknown>) => ({
+          where: async () => {
+            state.updates.push(values);
+          },
+        }),
+      }),
+    },
+  };
+});
+
+vi.mock('./journalService', () => ({
+  getRecentEntries: vi.fn(async () => []),
+}));
+
+vi.mock('./actionPlanService', () => ({
+  getTodaysActions: vi.fn(async () => []),
+}));
+
+vi.mock('./userDataService', () => ({
+  getAIPreferences: vi.fn(async () => ({ shareNotesWithAI: true })),
+}));
+
+import {
+  buildCoachSystemPrompt,
+  hasRiskSignal,
+  sendCoachMessage,
+  validateCoachMessage,
+  CoachValidationError,
+  COACH_CRISIS_REPLY,
+  COACH_HISTORY_MESSAGES,
+  MAX_COACH_MESSAGE_LENGTH,
+  MAX_COACH_TURNS,
+  getCoachContext,
+  type CoachContext,
+} from './coachService';
+import { StubLLMProvider, type LLMRequest } from './llmService';
+
+const ENTRY: JournalEntry = {
+  id: 'entry-1',
+  userId: 'anonymous-abc',
+  mood: 30,
+  energy: 25,
+  stress: 85,
+  notes: 'Lost our biggest pilot customer today.',
+  entryDate: '2026-03-14',
+  isSynced: true,
+  createdAt: new Date('2026-03-14T20:00:00Z'),
+  updatedAt: new Date('2026-03-14T20:00:00Z'),
+};
+
+const ACTION: ActionItem = {
+  id: 'action-1',
+  userId: 'anonymous-abc',
+  actionText: 'Take a 10-minute walk without your phone',
+  category: 'physical',
+  targetDimension: null,
+  isCompleted: false,
+  assignedDate: '2026-03-14',
+  completedAt: null,
+  createdAt: new Date('2026-03-14T08:00:00Z'),
+};
+
+const CONTEXT: CoachContext = {
+  scores: {
+    imposterSyndrome: 72,
+    founderDoubt: 60,
+    identityFusion: 81,
+    fearOfRejection: 55,
+    riskTolerance: 64,
+    motivationType: 'mixed',
+    isolationLevel: 70,
+  },
+  archetype: 'Burning Out',
+  entries: [ENTRY],
+  actions: [ACTION],
+  shareNotes: true,
+};
+
+function makeMessage(index: number): CoachMessage {
+  return {
+    id: `old-${index}`,
+    conversationId: 'conversation-1',
+    userId: 'anonymous-abc',
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    content: `Message ${index}`,
+    createdAt: new Date(Date.UTC(2026, 2, 14, 12, 0, index)),
+  };
+}
+
+function makeAssessment(id: string, createdAt: string, archetype: Assessment['archetype'], isolationLevel: number): Assessment {
+  return {
+    id,
+    userId: 'anonymous-abc',
+    answers: [],
+    questionBankVersion: 'v1',
+    imposterSyndrome: 50,
+    founderDoubt: 50,
+    identityFusion: 50,
+    fearOfRejection: 50,
+    riskTolerance: 50,
+    motivationType: 'mixed',
+    motivationScore: null,
+    isolationLevel,
+    archetype,
+    groqInsights: null,
+    insightsPromptVersion: null,
+    responseQuality: null,
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(createdAt),
+  };
+}
+
+function recordingProvider(reply: string) {
+  const requests: LLMRequest[] = [];
+  const provider = new StubLLMProvider((request) => {
+    requests.push(request);
+    return reply;
+  });
+  return { provider, requests };
+}
+
+describe('validateCoachMessage', () => {
+  it('trims valid messages and rejects empty or overlong ones', () => {
+    expect(validateCoachMessage('  Rough day.  ')).toBe('Rough day.');
+    expect(() => validateCoachMessage('   ')).toThrow(CoachValidationError);
+    expect(() => validateCoachMessage(42)).toThrow(CoachValidationError);
+    expect(() => validateCoachMessage('a'.repeat(MAX_COACH_MESSAGE_LENGTH + 1))).toThrow(CoachValidationError);
+  });
+});
+
+describe('hasRiskSignal', () => {
+  it('flags self-harm and suicidal language but not figures of speech about work', () => {
+    expect(hasRiskSignal("Honestly I just want to die, I can't do this anymore")).toBe(true);
+    expect(hasRiskSignal("I've been thinking about hurting myself")).toBe(true);
+    expect(hasRiskSignal("Some mornings I don't want to wake up")).toBe(true);
+    expect(hasRiskSignal('This launch is killing me')).toBe(false);
+    expect(hasRiskSignal('I want to quit the startup')).toBe(false);
+  });
+});
+
+describe('buildCoachSystemPrompt', () => {
+  it('includes scores, archetype, check-ins with notes and today\'s actions', () => {
+    const prompt = buildCoachSystemPrompt(CONTEXT);
+
+    expect(prompt).toContain('- Identity Fusion: 81');
+    expect(prompt).toContain('Their archetype is: Burning Out');
+    expect(prompt).toContain('- 2026-03-14: mood 30, energy 25, stress 85');
+    expect(prompt).toContain('Note: "Lost our biggest pilot customer today."');
+    expect(prompt).toContain('- Take a 10-minute walk without your phone (not done yet)');
+    expect(prompt).not.toContain('self-harm');
+  });
+
+  it('leaves notes out when the user opted out of sharing them', () => {
+    const prompt = buildCoachSystemPrompt({ ...CONTEXT, shareNotes: false });
+
+    expect(prompt).toContain('- 2026-03-14: mood 30, energy 25, stress 85');
+    expect(prompt).not.toContain('pilot customer');
+  });
+
+  it('copes with a user who has no assessment or check-ins yet', () => {
+    const prompt = buildCoachSystemPrompt({ scores: null, archetype: null, entries: [], actions: [], shareNotes: true });
+
+    expect(prompt).toContain('They have not taken the assessment yet.');
+    expect(prompt).toContain('They have no journal check-ins yet.');
+  });
+
+  it('keeps pointing to crisis lines once the conversation escalated', () => {
+    expect(buildCoachSystemPrompt(CONTEXT, true)).toContain('mentioned thoughts of self-harm');
+  });
+});
+
+describe('getCoachContext', () => {
+  beforeEach(() => {
+    state.assessments = [];
+  });
+
+  it('uses the latest assessment, so a retake replaces the original profile', async () => {
+    state.assessments = [
+      makeAssessment('original', '2026-01-01T10:00:00Z', 'Balanced Founder', 30),
+      makeAssessment('retake', '2026-03-01T10:00:00Z', 'Burning Out', 85),
+    ];
+
+    const context = await getCoachContext('anonymous-abc');
+
+    expect(context.archetype).toBe('Burning Out');
+    expect(context.scores?.isolationLevel).toBe(85);
+  });
+
+  it('has no scores before the first assessment', async () => {
+    const context = await getCoachContext('anonymous-abc');
+
+    expect(context.scores).toBeNull();
+    expect(context.archetype).toBeNull();
+  });
+});
+
+describe('sendCoachMessage', () => {
+  beforeEach(() => {
+    state.assessments = [];
+    state.conversation = null;
+    state.messages = [];
+    state.inserts = [];
+    state.updates = [];
+  });
+
+  it('starts a conversation and stores the exchange', async () => {
+    const { provider, requests } = recordingProvider('That sounds like a heavy day. What hit hardest?');
+
+    const response = await sendCoachMessage('anonymous-abc', null, 'Today was awful.', { provider });
+
+    expect(response).toMatchObject({
+      conversationId: 'conversation-new',
+      reply: { role: 'assistant', content: 'That sounds like a heavy day. What hit hardest?' },
+      crisisResources: null,
+      remainingTurns: MAX_COACH_TURNS - 1,
+    });
+    expect(requests[0].messages.map((message) => message.role)).toEqual(['system', 'user']);
+    expect(state.inserts[1]).toMatchObject([
+      { role: 'user', content: 'Today was awful.' },
+      { role: 'assistant', content: 'That sounds like a heavy day. What hit hardest?' },
+    ]);
+  });
+
+  it('answers risk signals with crisis resources without calling the LLM', async () => {
+    const { provider, requests } = recordingProvider('Should never be sent');
+
+    const response = await sendCoachMessage('anonymous-abc', null, 'I keep thinking everyone would be better off if I ended my life', { provider });
+
+    expect(requests).toHaveLength(0);
+    expect(response.reply.content).toBe(COACH_CRISIS_REPLY);
+    expect(response.crisisResources?.hotlines.length).toBeGreaterThan(0);
+    expect(state.updates[0]).toMatchObject({ escalated: true });
+  });
+
+  it('keeps crisis resources attached for the rest of an escalated conversation', async () => {
+    state.conversation = { id: 'conversation-1', userId: 'anonymous-abc', escalated: true };
+    state.messages = [makeMessage(0), makeMessage(1)];
+    const { provider, requests } = recordingProvider('I hear you. Have you been able to call one of those lines?');
+
+    const response = await sendCoachMessage('anonymous-abc', 'conversation-1', 'I feel a bit calmer now.', { provider });
+
+    expect(response.crisisResources).not.toBeNull();
+    expect(requests[0].messages[0].content).toContain('mentioned thoughts of self-harm');
+  });
+
+  it('sanitizes unsafe coach replies before storing them', async () => {
+    const { provider } = recordingProvider('You clearly have depression. Ask a doctor for Xanax. Rest tonight.');
+
+    const response = await sendCoachMessage('anonymous-abc', null, 'I feel flat all the time.', { provider });
+
+    expect(response.reply.content).not.toMatch(/depression|Xanax/);
+    expect(response.reply.content).toContain('Rest tonight.');
+  });
+
+  it('sends only the most recent history to the LLM', async () => {
+    state.conversation = { id: 'conversation-1', userId: 'anonymous-abc', escalated: false };
+    state.messages = Array.from({ length: 30 }, (_, index) => makeMessage(index));
+    const { provider, requests } = recordingProvider('Tell me more.');
+
+    const response = await sendCoachMessage('anonymous-abc', 'conversation-1', 'Still here.', { provider });
+
+    expect(requests[0].messages).toHaveLength(COACH_HISTORY_MESSAGES + 2);
+    expect(requests[0].messages[1].content).toBe(`Message ${30 - COACH_HISTORY_MESSAGES}`);
+    expect(response.remainingTurns).toBe(MAX_COACH_TURNS - 15 - 1);
+  });
+
+  it('refuses conversations that reached the turn limit or belong to someone else', async () => {
+    const { provider, requests } = recordingProvider('Tell me more.');
+
+    state.conversation = { id: 'conversation-1', userId: 'anonymous-abc', escalated: false };
+    state.messages = Array.from({ length: MAX_COACH_TURNS * 2 }, (_, index) => makeMessage(index));
+    await expect(sendCoachMessage('anonymous-abc', 'conversation-1', 'One more?', { provider }))
+      .rejects.toThrow('reached its limit');
+
+    state.conversation = null;
+    await expect(sendCoachMessage('anonymous-abc', 'conversation-other', 'Hello?', { provider }))
+      .rejects.toThrow('Conversation not found');
+
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -21,7 +21,8 @@ import {
   type Notification,
   type Assessment,
 } from '../db/schema';
-import type { ArchetypeName } from '../types/assessment';
+import type { ArchetypeName, ResponseQuality } from '../types/assessment';
+import { qualityMatchWeight } from './responseQualityService';
 
 // Constants
 const MAX_TITLE_LENGTH = 100;
@@ -457,7 +458,7 @@ export async function getUnreadCount(userId: string): Promise<number> {
 
 
 /**
- * Find peer matches based on archetype and dimensions
+ * Find peer matches based on archetype and dimensions, discounting low-quality submissions
  */
 export async function findPeerMatches(userId: string): Promise<PeerMatch[]> {
   // Get user's latest assessment
@@ -530,6 +531,9 @@ export async function findPeerMatches(userId: string): Promise<PeerMatch[]> {
       }
     }
 
+    // Discount profiles from low-effort submissions
+    score = Math.round(score * qualityMatchWeight(assessment.responseQuality as ResponseQuality | null));
+
     if (score >= 30) {
       matches.push({ matchedUserId, score, sharedDimensions });
     }
@@ -1,7 +1,8 @@
-import { eq } from 'drizzle-orm';
+import { eq, and, desc, isNull } from 'drizzle-orm';
 import { db } from '../db/connection';
 import { assessments, userProfiles, type Assessment, type NewAssessment, type UserProfile, type NewUserProfile } from '../db/schema';
-import type { AnswerValue, PsychologicalScores, ArchetypeName } from '../types/assessment';
+import type { AnswerValue, PsychologicalScores, ArchetypeName, ResponseQuality, AssessmentInsights } from '../types/assessment';
+import { CURRENT_QUESTION_BANK_VERSION } from '../utils/questionBanks';
 
 /**
  * Database service for PostgreSQL operations using Drizzle ORM
@@ -44,14 +45,87 @@ export async function createOrGetUserProfile(odId: string): Promise<UserProfile>
 }
 
 /**
- * Save assessment results to database
+ * Bind a session to a user profile for the first time
+ *
+ * Only succeeds while the profile has never had a session issued, so a legacy
+ * client-side odId can be exchanged for a signed session cookie exactly once.
+ *
+ * @returns The updated profile, or null if a session was already issued for it
+ */
+export async function claimProfileSession(odId: string): Promise<UserProfile | null> {
+  try {
+    const claimed = await db
+      .update(userProfiles)
+      .set({ sessionIssuedAt: new Date() })
+      .where(and(eq(userProfiles.odId, odId), isNull(userProfiles.sessionIssuedAt)))
+      .returning();
+
+    return claimed.length > 0 ? claimed[0] : null;
+  } catch (error) {
+    console.error('Database error in claimProfileSession:', error);
+    throw new Error('Failed to claim profile session');
+  }
+}
+
+/**
+ * Find the claimed (non-anonymous) profile that owns a pseudonym
+ */
+export async function findClaimedProfileByPseudonym(pseudonym: string): Promise<UserProfile | null> {
+  try {
+    const profiles = await db
+      .select()
+      .from(userProfiles)
+      .where(and(eq(userProfiles.pseudonym, pseudonym), eq(userProfiles.isAnonymous, false)))
+      .limit(1);
+
+    return profiles.length > 0 ? profiles[0] : null;
+  } catch (error) {
+    console.error('Database error in findClaimedProfileByPseudonym:', error);
+    throw new Error('Failed to find profile');
+  }
+}
+
+/**
+ * Store login credentials on a profile and mark it as no longer anonymous
+ */
+export async function setProfileCredentials(
+  odId: string,
+  credentials: { pseudonym: string; passwordHash: string }
+): Promise<UserProfile> {
+  try {
+    const updated = await db
+      .update(userProfiles)
+      .set({
+        pseudonym: credentials.pseudonym,
+        passwordHash: credentials.passwordHash,
+        isAnonymous: false,
+      })
+      .where(eq(userProfiles.odId, odId))
+      .returning();
+
+    if (updated.length === 0) {
+      throw new Error(`No profile found for ${odId}`);
+    }
+
+    return updated[0];
+  } catch (error) {
+    console.error('Database error in setProfileCredentials:', error);
+    throw new Error('Failed to save profile credentials');
+  }
+}
+
+/**
+ * Save assessment results to database, along with the question bank the answers belong to
+ * and the response-quality analysis of the submission
  */
 export async function saveAssessment(
   userId: string,
   answers: AnswerValue[],
   scores: PsychologicalScores,
   archetype: ArchetypeName,
-  groqInsights: string | null = null
+  groqInsights: AssessmentInsights | null = null,
+  questionBankVersion: string = CURRENT_QUESTION_BANK_VERSION,
+  responseQuality: ResponseQuality | null = null
 ): Promise<Assessment> {
   try {
     // Ensure user exists
@@ -60,15 +134,18 @@ export async function saveAssessment(
     const newAssessment: NewAssessment = {
       userId,
       answers: answers as any, // JSON field
+      questionBankVersion,
       imposterSyndrome: scores.imposterSyndrome,
       founderDoubt: scores.founderDoubt,
       identityFusion: scores.identityFusion,
       fearOfRejection: scores.fearOfRejection,
       riskTolerance: scores.riskTolerance,
       motivationType: scores.motivationType,
+      motivationScore: scores.motivationScore ?? null,
       isolationLevel: scores.isolationLevel,
       archetype,
       groqInsights,
+      responseQuality,
     };
 
     const createdAssessments = await db
@@ -85,6 +162,7 @@ export async function saveAssessment(
 
 /**
  * Get user's latest assessment
+ * After a retake this is the retake, which becomes the profile burnout scoring uses.
  */
 export async function getLatestAssessment(userId: string): Promise<Assessment | null> {
   try {
@@ -92,7 +170,7 @@ export async function getLatestAssessment(userId: string): Promise<Assessment |
       .select()
       .from(assessments)
       .where(eq(assessments.userId, userId))
-      .orderBy(assessments.createdAt)
+      .orderBy(desc(assessments.createdAt))
       .limit(1);
 
     return results.length > 0 ? results[0] : null;
@@ -119,20 +197,25 @@ export async function getUserAssessments(userId: string): Promise<Assessment[]>
 }
 
 /**
- * Update assessment with Groq insights
+ * Update one of the user's assessments with Groq insights
+ * @param promptVersion - Version of the prompt that produced the insights
+ * @returns The updated assessment, or null if it doesn't exist or belongs to another user
  */
 export async function updateAssessmentInsights(
   assessmentId: string,
-  insights: string
+  userId: string,
+  insights: AssessmentInsights,
+  promptVersion: string
 ): Promise<Assessment | null> {
   try {
     const updatedAssessments = await db
       .update(assessments)
       .set({ 
         groqInsights: insights,
+        insightsPromptVersion: promptVersion,
         updatedAt: new Date()
       })
-      .where(eq(assessments.id, assessmentId))
+      .where(and(eq(assessments.id, assessmentId), eq(assessments.userId, userId)))
       .returning();
 
     return updatedAssessments.length > 0 ? updatedAssessments[0] : null;
@@ -153,6 +236,7 @@ export function assessmentToScores(assessment: Assessment): PsychologicalScores
     fearOfRejection: assessment.fearOfRejection,
     riskTolerance: assessment.riskTolerance,
     motivationType: assessment.motivationType,
+    motivationScore: assessment.motivationScore ?? undefined,
     isolationLevel: assessment.isolationLevel,
   };
 }
\ No newline at end of file
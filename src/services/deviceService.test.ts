@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  describeUserAgent,
+  generateTransferCode,
+  normalizeTransferCode,
+  hashTransferCode,
+  redeemTransferCode,
+  createTransferCode,
+  DeviceValidationError,
+  TRANSFER_CODE_TTL_MINUTES,
+} from './deviceService';
+
+// Mock the database connection
+vi.mock('../db/connection', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+  }
+}));
+
+import { db } from '../db/connection';
+
+function mockUpdateReturning(...results: unknown[][]) {
+  const update = vi.mocked(db.update);
+  for (const result of results) {
+    update.mockReturnValueOnce({
+      set: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue(
+          Object.assign(Promise.resolve(result), {
+            returning: vi.fn().mockResolvedValue(result),
+          })
+        ),
+      }),
+    } as never);
+  }
+}
+
+function mockInsertReturning(result: unknown[]) {
+  const values = vi.fn().mockReturnValue({
+    returning: vi.fn().mockResolvedValue(result),
+  });
+  vi.mocked(db.insert).mockReturnValueOnce({ values } as never);
+  return values;
+}
+
+describe('Device Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('describeUserAgent', () => {
+    it('labels common browsers and platforms', () => {
+      expect(describeUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36'
+      )).toBe('Chrome on macOS');
+      expect(describeUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+      )).toBe('Safari on iOS');
+      expect(describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0'
+      )).toBe('Firefox on Windows');
+    });
+
+    it('falls back for missing user agents', () => {
+      expect(describeUserAgent(null)).toBe('Unknown device');
+    });
+  });
+
+  describe('transfer codes', () => {
+    it('generates XXXX-XXXX codes without ambiguous characters', () => {
+      for (let i = 0; i < 50; i++) {
+        expect(generateTransferCode()).toMatch(/^[A-HJKMNP-Z2-9]{4}-[A-HJKMNP-Z2-9]{4}$/);
+      }
+    });
+
+    it('hashes codes the same however they are typed', () => {
+      fc.assert(
+        fc.property(fc.stringMatching(/^[A-HJKMNP-Z2-9]{8}$/), (raw) => {
+          const code = `${raw.slice(0, 4)}-${raw.slice(4)}`;
+          const typed = ` ${raw.slice(0, 4).toLowerCase()} ${raw.slice(4)} `;
+          expect(normalizeTransferCode(typed)).toBe(raw);
+          expect(hashTransferCode(typed)).toBe(hashTransferCode(code));
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('stores only the hash and expires after the TTL', async () => {
+      const now = new Date('2026-01-01T12:00:00Z');
+      const values = mockInsertReturning([{
+        id: 'code-1',
+        expiresAt: new Date(now.getTime() + TRANSFER_CODE_TTL_MINUTES * 60 * 1000),
+      }]);
+
+      const result = await createTransferCode('user-1', 'device-1', now);
+      const stored = values.mock.calls[0][0];
+
+      expect(stored.codeHash).toBe(hashTransferCode(result.code));
+      expect(JSON.stringify(stored)).not.toContain(result.code);
+      expect(stored.expiresAt.getTime() - now.getTime()).toBe(TRANSFER_CODE_TTL_MINUTES * 60 * 1000);
+    });
+  });
+
+  describe('redeemTransferCode', () => {
+    it('rejects malformed codes before touching the database', async () => {
+      await expect(redeemTransferCode(undefined, null)).rejects.toThrow(DeviceValidationError);
+      await expect(redeemTransferCode('ABC', null)).rejects.toThrow(DeviceValidationError);
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('returns null when the code is unknown, used, revoked or expired', async () => {
+      mockUpdateReturning([]);
+
+      expect(await redeemTransferCode('ABCD-EFGH', 'Firefox/121.0')).toBeNull();
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it('registers a device for the code owner when the code is consumed', async () => {
+      mockUpdateReturning([{ id: 'code-1', userId: 'user-1' }], []);
+      mockInsertReturning([{ id: 'device-2', userId: 'user-1', label: 'Firefox' }]);
+
+      const device = await redeemTransferCode('abcd efgh', 'Firefox/121.0');
+
+      expect(device).toMatchObject({ id: 'device-2', userId: 'user-1' });
+      expect(db.update).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import { createHash, randomInt } from 'crypto';
+import { eq, and, isNull, gt, desc } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { userDevices, transferCodes, type UserDevice, type TransferCode } from '../db/schema';
+
+/**
+ * Device service for linking several browsers to one profile
+ *
+ * Every session cookie is bound to a row in user_devices, so a device can be
+ * unlinked from settings. Anonymous users link a second browser with a
+ * one-time transfer code instead of a passphrase.
+ */
+
+// Transfer code constants
+export const TRANSFER_CODE_TTL_MINUTES = 10;
+const TRANSFER_CODE_LENGTH = 8;
+// No 0/O, 1/I/L - codes are typed by hand
+const TRANSFER_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+// Only refresh last_seen_at once per hour to avoid a write on every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 60 * 1000;
+
+export interface LinkedDevice {
+  id: string;
+  label: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  isCurrent: boolean;
+}
+
+export interface ActiveTransferCode {
+  id: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Validation error class for device and transfer code operations
+ */
+export class DeviceValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeviceValidationError';
+  }
+}
+
+/**
+ * Build a short, human readable device label from a user agent string
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Normalize a transfer code as typed by a user (case, spaces and dashes)
+ */
+export function normalizeTransferCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Generate a random transfer code, formatted as XXXX-XXXX
+ */
+export function generateTransferCode(): string {
+  let code = '';
+  for (let i = 0; i < TRANSFER_CODE_LENGTH; i++) {
+    code += TRANSFER_CODE_ALPHABET[randomInt(TRANSFER_CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * Hash a transfer code for storage and lookup
+ */
+export function hashTransferCode(code: string): string {
+  return createHash('sha256').update(normalizeTransferCode(code)).digest('hex');
+}
+
+/**
+ * Register a new device for a user
+ */
+export async function createDevice(userId: string, userAgent: string | null): Promise<UserDevice> {
+  try {
+    const [device] = await db
+      .insert(userDevices)
+      .values({ userId, label: describeUserAgent(userAgent) })
+      .returning();
+
+    return device;
+  } catch (error) {
+    console.error('Database error in createDevice:', error);
+    throw new Error('Failed to register device');
+  }
+}
+
+/**
+ * Check that a device is still linked to a user, refreshing its last-seen time
+ */
+export async function isDeviceActive(deviceId: string, userId: string): Promise<boolean> {
+  try {
+    const [device] = await db
+      .select()
+      .from(userDevices)
+      .where(and(eq(userDevices.id, deviceId), eq(userDevices.userId, userId)))
+      .limit(1);
+
+    if (!device || device.revokedAt) {
+      return false;
+    }
+
+    if (Date.now() - device.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+      await db
+        .update(userDevices)
+        .set({ lastSeenAt: new Date() })
+        .where(eq(userDevices.id, deviceId));
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Database error in isDeviceActive:', error);
+    throw new Error('Failed to verify device');
+  }
+}
+
+/**
+ * List the devices currently linked to a user
+ */
+export async function listDevices(userId: string, currentDeviceId: string): Promise<LinkedDevice[]> {
+  try {
+    const devices = await db
+      .select()
+      .from(userDevices)
+      .where(and(eq(userDevices.userId, userId), isNull(userDevices.revokedAt)))
+      .orderBy(desc(userDevices.lastSeenAt));
+
+    return devices.map((device) => ({
+      id: device.id,
+      label: device.label,
+      createdAt: device.createdAt,
+      lastSeenAt: device.lastSeenAt,
+      isCurrent: device.id === currentDeviceId,
+    }));
+  } catch (error) {
+    console.error('Database error in listDevices:', error);
+    throw new Error('Failed to list devices');
+  }
+}
+
+/**
+ * Unlink a device; its session stops working on the next request
+ *
+ * @returns true if a linked device was revoked
+ */
+export async function revokeDevice(userId: string, deviceId: string): Promise<boolean> {
+  try {
+    const revoked = await db
+      .update(userDevices)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(userDevices.id, deviceId),
+        eq(userDevices.userId, userId),
+        isNull(userDevices.revokedAt)
+      ))
+      .returning();
+
+    return revoked.length > 0;
+  } catch (error) {
+    console.error('Database error in revokeDevice:', error);
+    throw new Error('Failed to unlink device');
+  }
+}
+
+/**
+ * Create a one-time transfer code for linking another browser
+ *
+ * Only the hash is stored; the plain code is returned once to show the user.
+ */
+export async function createTransferCode(
+  userId: string,
+  createdByDeviceId: string,
+  now: Date = new Date()
+): Promise<{ id: string; code: string; expiresAt: Date }> {
+  const code = generateTransferCode();
+  const expiresAt = new Date(now.getTime() + TRANSFER_CODE_TTL_MINUTES * 60 * 1000);
+
+  try {
+    const [created] = await db
+      .insert(transferCodes)
+      .values({
+        userId,
+        codeHash: hashTransferCode(code),
+        createdByDeviceId,
+        expiresAt,
+      })
+      .returning();
+
+    return { id: created.id, code, expiresAt: created.expiresAt };
+  } catch (error) {
+    console.error('Database error in createTransferCode:', error);
+    throw new Error('Failed to create transfer code');
+  }
+}
+
+/**
+ * List a user's unused, unexpired transfer codes
+ */
+export async function listActiveTransferCodes(
+  userId: string,
+  now: Date = new Date()
+): Promise<ActiveTransferCode[]> {
+  try {
+    const codes = await db
+      .select()
+      .from(transferCodes)
+      .where(and(
+        eq(transferCodes.userId, userId),
+        isNull(transferCodes.usedAt),
+        isNull(transferCodes.revokedAt),
+        gt(transferCodes.expiresAt, now)
+      ))
+      .orderBy(desc(transferCodes.createdAt));
+
+    return codes.map((code: TransferCode) => ({
+      id: code.id,
+      expiresAt: code.expiresAt,
+      createdAt: code.createdAt,
+    }));
+  } catch (error) {
+    console.error('Database error in listActiveTransferCodes:', error);
+    throw new Error('Failed to list transfer codes');
+  }
+}
+
+/**
+ * Revoke an unused transfer code
+ *
+ * @returns true if a pending code was revoked
+ */
+export async function revokeTransferCode(userId: string, codeId: string): Promise<boolean> {
+  try {
+    const revoked = await db
+      .update(transferCodes)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(transferCodes.id, codeId),
+        eq(transferCodes.userId, userId),
+        isNull(transferCodes.usedAt),
+        isNull(transferCodes.revokedAt)
+      ))
+      .returning();
+
+    return revoked.length > 0;
+  } catch (error) {
+    console.error('Database error in revokeTransferCode:', error);
+    throw new Error('Failed to revoke transfer code');
+  }
+}
+
+/**
+ * Redeem a transfer code and register the redeeming browser as a new device
+ *
+ * The code is consumed atomically, so it can only ever be used once.
+ *
+ * @returns The new device, or null if the code is unknown, used, revoked or expired
+ * @throws DeviceValidationError if the code is malformed
+ */
+export async function redeemTransferCode(
+  code: unknown,
+  userAgent: string | null,
+  now: Date = new Date()
+): Promise<UserDevice | null> {
+  if (typeof code !== 'string' || normalizeTransferCode(code).length !== TRANSFER_CODE_LENGTH) {
+    throw new DeviceValidationError(`Transfer code must be ${TRANSFER_CODE_LENGTH} characters`);
+  }
+
+  try {
+    const [consumed] = await db
+      .update(transferCodes)
+      .set({ usedAt: now })
+      .where(and(
+        eq(transferCodes.codeHash, hashTransferCode(code)),
+        isNull(transferCodes.usedAt),
+        isNull(transferCodes.revokedAt),
+        gt(transferCodes.expiresAt, now)
+      ))
+      .returning();
+
+    if (!consumed) {
+      return null;
+    }
+
+    const device = await createDevice(consumed.userId, userAgent);
+
+    await db
+      .update(transferCodes)
+      .set({ redeemedByDeviceId: device.id })
+      .where(eq(transferCodes.id, consumed.id));
+
+    return device;
+  } catch (error) {
+    console.error('Database error in redeemTransferCode:', error);
+    throw new Error('Failed to redeem transfer code');
+  }
+}
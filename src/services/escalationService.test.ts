@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import type { BurnoutEscalation as BurnoutEscalationRow } from '../db/schema';
+import type { BurnoutDailyScore } from '../types/assessment';
+import {
+  buildEscalationResponse,
+  detectEscalationTrigger,
+  nextEscalationStep,
+  validateEscalationUpdate,
+  EscalationValidationError,
+  ESCALATION_CRITICAL_DAYS,
+  FOLLOW_UP_DAYS,
+  TRUSTED_CONTACT_DRAFT,
+} from './escalationService';
+import { getRiskLevel } from './burnoutService';
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+const ESCALATION_ID = '6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f';
+
+// Daily scores on consecutive days from March 1st, or on the given days of March
+function makeDays(scores: number[], days?: number[]): BurnoutDailyScore[] {
+  return scores.map((score, index) => ({
+    date: `2026-03-${String(days?.[index] ?? index + 1).padStart(2, '0')}`,
+    score,
+    minScore: score,
+    maxScore: score,
+    count: 1,
+    riskLevel: getRiskLevel(score),
+    contributingFactors: [],
+  }));
+}
+
+function makeRow(overrides: Partial<BurnoutEscalationRow> = {}): BurnoutEscalationRow {
+  return {
+    id: ESCALATION_ID,
+    userId: 'anonymous-abc',
+    trigger: 'sustained_critical',
+    fromRiskLevel: 'critical',
+    riskLevel: 'critical',
+    score: 88,
+    triggerDate: '2026-03-10',
+    streaksPaused: true,
+    dismissedAt: null,
+    resolvedAt: null,
+    followUpDismissedAt: null,
+    createdAt: new Date('2026-03-10T20:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('detectEscalationTrigger', () => {
+  it('opens after consecutive critical days', () => {
+    expect(ESCALATION_CRITICAL_DAYS).toBe(3);
+    expect(detectEscalationTrigger(makeDays([85, 90]))).toBeNull();
+    expect(detectEscalationTrigger(makeDays([70, 85, 90, 88]))).toEqual({
+      trigger: 'sustained_critical',
+      fromRiskLevel: 'critical',
+      riskLevel: 'critical',
+      score: 88,
+      date: '2026-03-04',
+    });
+  });
+
+  it('does not count critical days separated by a gap as consecutive', () => {
+    expect(detectEscalationTrigger(makeDays([85, 90, 88], [1, 2, 5]))).toBeNull();
+  });
+
+  it('opens on a jump of two risk levels between scored days', () => {
+    expect(detectEscalationTrigger(makeDays([35, 65]))).toMatchObject({
+      trigger: 'risk_jump',
+      fromRiskLevel: 'low',
+      riskLevel: 'high',
+    });
+    expect(detectEscalationTrigger(makeDays([50, 85], [1, 6]))).toMatchObject({ trigger: 'risk_jump', riskLevel: 'critical' });
+    expect(detectEscalationTrigger(makeDays([35, 55]))).toBeNull();
+    expect(detectEscalationTrigger(makeDays([85, 35]))).toBeNull();
+  });
+
+  it('needs at least two scored days', () => {
+    expect(detectEscalationTrigger([])).toBeNull();
+    expect(detectEscalationTrigger(makeDays([95]))).toBeNull();
+  });
+});
+
+describe('nextEscalationStep', () => {
+  it('opens when there is no open escalation and a trigger fires', () => {
+    expect(nextEscalationStep(false, makeDays([30, 70]))).toMatchObject({ type: 'open', trigger: 'risk_jump' });
+    expect(nextEscalationStep(false, makeDays([30, 35]))).toBeNull();
+  });
+
+  it('keeps an open escalation open until two scored days are below high', () => {
+    expect(nextEscalationStep(true, makeDays([90, 90, 90, 30, 90]))).toBeNull();
+    expect(nextEscalationStep(true, makeDays([90, 90, 90, 70, 55]))).toBeNull();
+    expect(nextEscalationStep(true, makeDays([90, 90, 90, 55, 40]))).toEqual({ type: 'resolve' });
+  });
+
+  it('does not open a second escalation while one is open', () => {
+    expect(nextEscalationStep(true, makeDays([30, 70]))).toBeNull();
+  });
+});
+
+describe('buildEscalationResponse', () => {
+  it('attaches crisis resources and the contact draft while an escalation is open', () => {
+    const response = buildEscalationResponse([makeRow()], 'GB', NOW);
+
+    expect(response.escalation).toMatchObject({ id: ESCALATION_ID, status: 'active', streaksPaused: true });
+    expect(response.crisisResources).toMatchObject({ region: 'GB' });
+    expect(response.crisisResources?.hotlines.length).toBeGreaterThan(0);
+    expect(response.contactDraft).toBe(TRUSTED_CONTACT_DRAFT);
+    expect(response.followUp).toBeNull();
+  });
+
+  it('keeps a dismissed escalation open, with streaks as the user left them', () => {
+    const response = buildEscalationResponse([makeRow({ dismissedAt: NOW, streaksPaused: false })], 'INTL', NOW);
+
+    expect(response.escalation).toMatchObject({ status: 'dismissed', streaksPaused: false });
+  });
+
+  it('offers a follow-up on a recently resolved escalation until it is dismissed', () => {
+    const resolvedAt = new Date(NOW.getTime() - 3 * 24 * 60 * 60 * 1000);
+    const resolved = makeRow({ resolvedAt });
+
+    const response = buildEscalationResponse([resolved], 'INTL', NOW);
+    expect(response.escalation).toBeNull();
+    expect(response.crisisResources).toBeNull();
+    expect(response.followUp).toMatchObject({ status: 'resolved', streaksPaused: false });
+
+    expect(buildEscalationResponse([{ ...resolved, followUpDismissedAt: NOW }], 'INTL', NOW).followUp).toBeNull();
+
+    const longAgo = new Date(NOW.getTime() - (FOLLOW_UP_DAYS + 1) * 24 * 60 * 60 * 1000);
+    expect(buildEscalationResponse([makeRow({ resolvedAt: longAgo })], 'INTL', NOW).followUp).toBeNull();
+  });
+
+  it('returns an empty state without escalations', () => {
+    expect(buildEscalationResponse([], 'INTL', NOW)).toEqual({
+      escalation: null,
+      followUp: null,
+      crisisResources: null,
+      contactDraft: null,
+    });
+  });
+});
+
+describe('validateEscalationUpdate', () => {
+  it('accepts an id with at least one boolean choice', () => {
+    expect(validateEscalationUpdate({ id: ESCALATION_ID, dismissed: true })).toEqual({ id: ESCALATION_ID, dismissed: true });
+    expect(validateEscalationUpdate({ id: ESCALATION_ID, streaksPaused: false, followUpDismissed: true }))
+      .toEqual({ id: ESCALATION_ID, streaksPaused: false, followUpDismissed: true });
+  });
+
+  it('rejects a missing or malformed id, non-boolean values and empty updates', () => {
+    expect(() => validateEscalationUpdate(null)).toThrow(EscalationValidationError);
+    expect(() => validateEscalationUpdate({ dismissed: true })).toThrow('id is required');
+    expect(() => validateEscalationUpdate({ id: 'escalation-1', dismissed: true })).toThrow('id must be a UUID');
+    expect(() => validateEscalationUpdate({ id: ESCALATION_ID, dismissed: 'yes' })).toThrow('dismissed must be a boolean');
+    expect(() => validateEscalationUpdate({ id: ESCALATION_ID })).toThrow('Nothing to update');
+  });
+});
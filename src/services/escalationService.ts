@@ -0,0 +1,318 @@
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { burnoutEscalations, type BurnoutEscalation as BurnoutEscalationRow } from '../db/schema';
+import type {
+  BurnoutDailyScore,
+  BurnoutEscalation,
+  BurnoutEscalationResponse,
+  BurnoutEscalationStatus,
+  BurnoutEscalationTrigger,
+  BurnoutRiskLevel,
+  CrisisRegion,
+} from '../types/assessment';
+import { getScoresBetween } from './burnoutService';
+import { aggregateDailyScores } from './burnoutHistoryService';
+import { getCrisisResources, DEFAULT_CRISIS_REGION } from '../utils/crisisResources';
+
+/**
+ * Burnout escalation
+ *
+ * Checked each time a check-in is scored, on daily scores (see
+ * burnoutHistoryService). An escalation opens after ESCALATION_CRITICAL_DAYS
+ * consecutive critical days, or when risk rises ESCALATION_RISK_JUMP levels
+ * from one scored day to the next. While it is open the user sees a crisis
+ * banner with a suggested message for someone they trust, and streaks are
+ * paused so a hard week doesn't also read as a broken streak. The user can
+ * dismiss the banner and turn streaks back on. The escalation resolves once
+ * ESCALATION_RESOLVE_DAYS scored days in a row are below high; for
+ * FOLLOW_UP_DAYS after that the user is offered a follow-up, also dismissible.
+ *
+ * Each escalation is kept as a row, so past ones can be followed up on. At
+ * most one is open at a time.
+ */
+
+export const ESCALATION_CRITICAL_DAYS = 3;
+export const ESCALATION_RISK_JUMP = 2;
+export const ESCALATION_RESOLVE_DAYS = 2;
+export const FOLLOW_UP_DAYS = 14;
+
+// Daily scores looked at when a check-in is scored
+const LOOKBACK_DAYS = 14;
+
+const RISK_ORDER: BurnoutRiskLevel[] = ['low', 'caution', 'high', 'critical'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Escalation ids are UUIDs; Postgres rejects anything else in the lookup
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Shown for the user to edit and send themselves; never sent by the app
+export const TRUSTED_CONTACT_DRAFT =
+  "Hey, I've been having a really hard time lately and I'm not doing great. " +
+  "I don't need you to fix anything, but could we talk today or tomorrow? It would mean a lot.";
+
+export interface EscalationTriggerResult {
+  trigger: BurnoutEscalationTrigger;
+  fromRiskLevel: BurnoutRiskLevel;
+  riskLevel: BurnoutRiskLevel;
+  score: number;
+  date: string;                          // YYYY-MM-DD
+}
+
+export type EscalationStep =
+  | ({ type: 'open' } & EscalationTriggerResult)
+  | { type: 'resolve' };
+
+export interface EscalationUpdate {
+  id: string;
+  dismissed?: boolean;                   // Hide or show the crisis banner again
+  followUpDismissed?: boolean;
+  streaksPaused?: boolean;
+}
+
+/**
+ * Error class for invalid escalation updates
+ */
+export class EscalationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EscalationValidationError';
+  }
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+const riskIndex = (level: BurnoutRiskLevel) => RISK_ORDER.indexOf(level);
+
+/**
+ * Whether the latest scored day should open an escalation
+ * @param days - Daily scores, oldest first
+ * @returns The trigger, or null; sustained critical days win over a jump
+ */
+export function detectEscalationTrigger(days: BurnoutDailyScore[]): EscalationTriggerResult | null {
+  const latest = days[days.length - 1];
+  const previous = days[days.length - 2];
+  if (!latest || !previous) {
+    return null;
+  }
+
+  const run = days.slice(-ESCALATION_CRITICAL_DAYS);
+  const sustained = run.length === ESCALATION_CRITICAL_DAYS
+    && run.every((day) => day.riskLevel === 'critical')
+    && run[0].date === shiftDate(latest.date, -(ESCALATION_CRITICAL_DAYS - 1));
+  const jumped = riskIndex(latest.riskLevel) - riskIndex(previous.riskLevel) >= ESCALATION_RISK_JUMP;
+
+  if (!sustained && !jumped) {
+    return null;
+  }
+  return {
+    trigger: sustained ? 'sustained_critical' : 'risk_jump',
+    fromRiskLevel: previous.riskLevel,
+    riskLevel: latest.riskLevel,
+    score: latest.score,
+    date: latest.date,
+  };
+}
+
+/**
+ * Whether risk has stayed below high for long enough to close an escalation
+ * @param days - Daily scores, oldest first
+ */
+export function shouldResolveEscalation(days: BurnoutDailyScore[]): boolean {
+  const recent = days.slice(-ESCALATION_RESOLVE_DAYS);
+  return recent.length === ESCALATION_RESOLVE_DAYS
+    && recent.every((day) => riskIndex(day.riskLevel) < riskIndex('high'));
+}
+
+/**
+ * The state machine's next step for the latest daily scores
+ * @param isOpen - Whether the user has an open escalation
+ * @param days - Daily scores, oldest first
+ * @returns The step to take, or null to stay in the current state
+ */
+export function nextEscalationStep(isOpen: boolean, days: BurnoutDailyScore[]): EscalationStep | null {
+  if (isOpen) {
+    return shouldResolveEscalation(days) ? { type: 'resolve' } : null;
+  }
+  const trigger = detectEscalationTrigger(days);
+  return trigger ? { type: 'open', ...trigger } : null;
+}
+
+export function escalationStatus(row: Pick<BurnoutEscalationRow, 'dismissedAt' | 'resolvedAt'>): BurnoutEscalationStatus {
+  if (row.resolvedAt) return 'resolved';
+  return row.dismissedAt ? 'dismissed' : 'active';
+}
+
+export function toBurnoutEscalation(row: BurnoutEscalationRow): BurnoutEscalation {
+  return {
+    id: row.id,
+    trigger: row.trigger === 'sustained_critical' ? 'sustained_critical' : 'risk_jump',
+    status: escalationStatus(row),
+    fromRiskLevel: row.fromRiskLevel,
+    riskLevel: row.riskLevel,
+    score: row.score,
+    triggerDate: row.triggerDate,
+    streaksPaused: row.streaksPaused && !row.resolvedAt,
+    triggeredAt: row.createdAt.toISOString(),
+    resolvedAt: row.resolvedAt ? row.resolvedAt.toISOString() : null,
+  };
+}
+
+/**
+ * Builds the response from a user's escalations, most recent first
+ * @param crisisRegion - Whose crisis lines to attach while one is open
+ */
+export function buildEscalationResponse(
+  rows: BurnoutEscalationRow[],
+  crisisRegion: CrisisRegion = DEFAULT_CRISIS_REGION,
+  now: Date = new Date()
+): BurnoutEscalationResponse {
+  const open = rows.find((row) => !row.resolvedAt);
+  const followUp = open
+    ? undefined
+    : rows.find((row) =>
+        row.resolvedAt
+        && !row.followUpDismissedAt
+        && now.getTime() - row.resolvedAt.getTime() <= FOLLOW_UP_DAYS * MS_PER_DAY
+      );
+
+  return {
+    escalation: open ? toBurnoutEscalation(open) : null,
+    followUp: followUp ? toBurnoutEscalation(followUp) : null,
+    crisisResources: open ? getCrisisResources(crisisRegion) : null,
+    contactDraft: open ? TRUSTED_CONTACT_DRAFT : null,
+  };
+}
+
+/**
+ * Validates a request to update an escalation
+ * @throws EscalationValidationError if the id is missing or not a UUID, or no valid field is set
+ */
+export function validateEscalationUpdate(body: unknown): EscalationUpdate {
+  const input = (body ?? {}) as Record<string, unknown>;
+  if (typeof input.id !== 'string' || input.id.trim() === '') {
+    throw new EscalationValidationError('id is required');
+  }
+  if (!UUID_REGEX.test(input.id)) {
+    throw new EscalationValidationError('id must be a UUID');
+  }
+
+  const update: EscalationUpdate = { id: input.id };
+  for (const field of ['dismissed', 'followUpDismissed', 'streaksPaused'] as const) {
+    if (input[field] !== undefined) {
+      if (typeof input[field] !== 'boolean') {
+        throw new EscalationValidationError(`${field} must be a boolean`);
+      }
+      update[field] = input[field];
+    }
+  }
+
+  if (Object.keys(update).length === 1) {
+    throw new EscalationValidationError('Nothing to update: set dismissed, followUpDismissed or streaksPaused');
+  }
+  return update;
+}
+
+async function getEscalationRows(userId: string): Promise<BurnoutEscalationRow[]> {
+  return db
+    .select()
+    .from(burnoutEscalations)
+    .where(eq(burnoutEscalations.userId, userId))
+    .orderBy(desc(burnoutEscalations.createdAt))
+    .limit(10);
+}
+
+/**
+ * Open or resolve the user's escalation after a check-in was scored
+ * @returns The open escalation after the update, or null
+ */
+export async function updateEscalation(userId: string, now: Date = new Date()): Promise<BurnoutEscalation | null> {
+  const today = now.toISOString().split('T')[0];
+
+  try {
+    const days = aggregateDailyScores(await getScoresBetween(userId, shiftDate(today, -(LOOKBACK_DAYS - 1)), today));
+    const open = (await getEscalationRows(userId)).find((row) => !row.resolvedAt) ?? null;
+    const step = nextEscalationStep(open !== null, days);
+
+    if (step?.type === 'resolve' && open) {
+      await db
+        .update(burnoutEscalations)
+        .set({ resolvedAt: now })
+        .where(eq(burnoutEscalations.id, open.id));
+      return null;
+    }
+
+    if (step?.type === 'open') {
+      const [created] = await db
+        .insert(burnoutEscalations)
+        .values({
+          userId,
+          trigger: step.trigger,
+          fromRiskLevel: step.fromRiskLevel,
+          riskLevel: step.riskLevel,
+          score: step.score,
+          triggerDate: step.date,
+          createdAt: now,
+        })
+        .returning();
+      return toBurnoutEscalation(created);
+    }
+
+    return open ? toBurnoutEscalation(open) : null;
+  } catch (error) {
+    console.error('Database error in updateEscalation:', error);
+    throw new Error('Failed to update burnout escalation');
+  }
+}
+
+/**
+ * The user's open escalation and any follow-up due
+ */
+export async function getEscalationState(
+  userId: string,
+  crisisRegion: CrisisRegion = DEFAULT_CRISIS_REGION,
+  now: Date = new Date()
+): Promise<BurnoutEscalationResponse> {
+  try {
+    return buildEscalationResponse(await getEscalationRows(userId), crisisRegion, now);
+  } catch (error) {
+    console.error('Database error in getEscalationState:', error);
+    throw new Error('Failed to get burnout escalation');
+  }
+}
+
+/**
+ * Apply the user's choices to one of their escalations
+ * @returns The updated state, or null if the escalation doesn't exist or belongs to someone else
+ */
+export async function applyEscalationUpdate(
+  userId: string,
+  update: EscalationUpdate,
+  crisisRegion: CrisisRegion = DEFAULT_CRISIS_REGION,
+  now: Date = new Date()
+): Promise<BurnoutEscalationResponse | null> {
+  try {
+    const changes: Partial<BurnoutEscalationRow> = {};
+    if (update.dismissed !== undefined) changes.dismissedAt = update.dismissed ? now : null;
+    if (update.followUpDismissed !== undefined) changes.followUpDismissedAt = update.followUpDismissed ? now : null;
+    if (update.streaksPaused !== undefined) changes.streaksPaused = update.streaksPaused;
+
+    const updated = await db
+      .update(burnoutEscalations)
+      .set(changes)
+      .where(and(eq(burnoutEscalations.id, update.id), eq(burnoutEscalations.userId, userId)))
+      .returning();
+
+    if (updated.length === 0) {
+      return null;
+    }
+    return buildEscalationResponse(await getEscalationRows(userId), crisisRegion, now);
+  } catch (error) {
+    console.error('Database error in applyEscalationUpdate:', error);
+    throw new Error('Failed to update burnout escalation');
+  }
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SQL } from 'drizzle-orm';
+import type { Assessment, JournalEntry } from '../db/schema';
+
+// Assessment selects return the stored assessments in the order the query asks for
+const state = vi.hoisted(() => ({
+  assessments: [] as Assessment[],
+  entries: [] as JournalEntry[],
+}));
+
+vi.mock('../db/connection', async () => {
+  const { sql } = await import('drizzle-orm');
+  const { PgDialect } = await import('drizzle-orm/pg-core');
+  const dialect = new PgDialect();
+
+  return {
+    db: {
+      select: () => ({
+        from: () => ({
+          where: () => ({
+            orderBy: (order: SQL) => ({
+              limit: async (n: number) => {
+                const sorted = [...state.assessments].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+                const descending = dialect.sqlToQuery(sql`${order}`).sql.endsWith(' desc');
+                return (descending ? sorted.reverse() : sorted).slice(0, n);
+              },
+            }),
+          }),
+        }),
+      }),
+    },
+  };
+});
+
+vi.mock('./journalService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./journalService')>()),
+  getHistory: vi.fn(async () => state.entries),
+}));
+
+vi.mock('./burnoutService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./burnoutService')>()),
+  getLatestScore: vi.fn(async () => null),
+}));
+
+import { calculateBurnoutScore } from './burnoutService';
+import { calculateTrends } from './journalService';
+import {
+  dailyBurnoutScores,
+  fitDampedHolt,
+  forecastBurnout,
+  getBurnoutForecast,
+  FORECAST_HORIZON_DAYS,
+} from './forecastService';
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+function makeEntry(day: number, mood: number, energy: number, stress: number): JournalEntry {
+  const entryDate = `2026-03-${String(day).padStart(2, '0')}`;
+  return {
+    id: `entry-${day}`,
+    userId: 'anonymous-abc',
+    mood,
+    energy,
+    stress,
+    notes: null,
+    entryDate,
+    isSynced: true,
+    createdAt: new Date(`${entryDate}T20:00:00Z`),
+    updatedAt: new Date(`${entryDate}T20:00:00Z`),
+  };
+}
+
+// Steady days: base score 40 each
+const STEADY = [9, 10, 11, 12, 13, 14, 15].map((day) => makeEntry(day, 60, 60, 40));
+
+// Mood and energy sliding, stress climbing: about +3 a day, from low to the top of caution
+const WORSENING = [9, 10, 11, 12, 13, 14, 15].map((day, index) =>
+  makeEntry(day, 66 - index * 3, 66 - index * 3, 34 + index * 3)
+);
+
+function makeAssessment(id: string, createdAt: string, isolationLevel: number): Assessment {
+  return {
+    id,
+    userId: 'anonymous-abc',
+    answers: [],
+    questionBankVersion: 'v1',
+    imposterSyndrome: 50,
+    founderDoubt: 50,
+    identityFusion: 50,
+    fearOfRejection: 50,
+    riskTolerance: 50,
+    motivationType: 'mixed',
+    motivationScore: null,
+    isolationLevel,
+    archetype: 'Balanced Founder',
+    groqInsights: null,
+    insightsPromptVersion: null,
+    responseQuality: null,
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(createdAt),
+  };
+}
+
+describe('dailyBurnoutScores', () => {
+  it('scores one check-in per day, oldest first', () => {
+    const scores = dailyBurnoutScores([...STEADY].reverse());
+
+    expect(scores.map((point) => point.date)).toEqual(STEADY.map((entry) => entry.entryDate));
+    expect(scores.every((point) => point.score === 40)).toBe(true);
+  });
+
+  it('scores each day with the trends the stored score was given', () => {
+    const scores = dailyBurnoutScores(WORSENING);
+
+    // As the journal entry route scores the last check-in
+    const last = WORSENING[WORSENING.length - 1];
+    const stored = calculateBurnoutScore(last, null, calculateTrends(WORSENING), { history: WORSENING });
+    expect(scores[scores.length - 1].score).toBe(stored.score);
+  });
+});
+
+describe('fitDampedHolt', () => {
+  it('follows a steady series with no trend and no error', () => {
+    const fit = fitDampedHolt([0, 1, 2, 3].map((day) => ({ date: `2026-03-1${day}`, score: 40 })));
+
+    expect(fit).toEqual({ level: 40, trend: 0, residualStd: 0 });
+  });
+
+  it('fills days without a check-in before fitting', () => {
+    const fit = fitDampedHolt([
+      { date: '2026-03-10', score: 40 },
+      { date: '2026-03-12', score: 50 },
+      { date: '2026-03-16', score: 70 },
+    ]);
+
+    // A straight line of +5 a day, gaps included, is picked up as such
+    expect(fit.level).toBeGreaterThan(60);
+    expect(fit.trend).toBeGreaterThan(2);
+  });
+});
+
+describe('forecastBurnout', () => {
+  it('needs enough check-ins, one of them recent', () => {
+    expect(forecastBurnout(STEADY.slice(-4), null, null, NOW)).toBeNull();
+    expect(forecastBurnout(STEADY, null, null, new Date('2026-03-22T12:00:00Z'))).toBeNull();
+  });
+
+  it('projects a flat line for a steady week', () => {
+    const forecast = forecastBurnout(STEADY, null, null, NOW);
+
+    expect(forecast?.points).toHaveLength(FORECAST_HORIZON_DAYS);
+    expect(forecast?.points[0]).toEqual({ date: '2026-03-16', score: 40, lower: 40, upper: 40, riskLevel: 'low' });
+    expect(forecast?.earlyWarning).toBeNull();
+  });
+
+  it('warns when the projection reaches high before the current score does', () => {
+    const forecast = forecastBurnout(WORSENING, null, null, NOW);
+
+    expect(forecast?.currentRiskLevel).toBe('caution');
+    expect(forecast?.earlyWarning?.riskLevel).toBe('high');
+    const warningDay = forecast?.points.find((point) => point.date === forecast.earlyWarning?.date);
+    expect(warningDay?.score).toBeGreaterThan(60);
+  });
+
+  it('does not warn about a level the user has already reached', () => {
+    const forecast = forecastBurnout(WORSENING, null, { score: 75 }, NOW);
+
+    expect(forecast?.currentRiskLevel).toBe('high');
+    expect(forecast?.earlyWarning).toBeNull();
+  });
+
+  it('does not warn when the projection only stays at the level of the last day', () => {
+    // The last day already scores high; the stored score is lower, e.g. from completed actions
+    const sliding = [9, 10, 11, 12, 13, 14, 15].map((day, index) =>
+      makeEntry(day, 62 - index * 3, 62 - index * 3, 38 + index * 3)
+    );
+
+    const forecast = forecastBurnout(sliding, null, { score: 50 }, NOW);
+
+    expect(forecast?.history[forecast.history.length - 1].score).toBeGreaterThan(60);
+    expect(forecast?.points.every((point) => point.riskLevel === 'high')).toBe(true);
+    expect(forecast?.currentRiskLevel).toBe('caution');
+    expect(forecast?.earlyWarning).toBeNull();
+  });
+
+  it('keeps the band around the projection, widening with the horizon', () => {
+    const noisy = [9, 10, 11, 12, 13, 14, 15].map((day, index) =>
+      makeEntry(day, index % 2 === 0 ? 70 : 40, 50, index % 2 === 0 ? 30 : 70)
+    );
+
+    const points = forecastBurnout(noisy, null, null, NOW)?.points ?? [];
+
+    for (const point of points) {
+      expect(point.lower).toBeLessThanOrEqual(point.score);
+      expect(point.upper).toBeGreaterThanOrEqual(point.score);
+      expect(point.lower).toBeGreaterThanOrEqual(0);
+      expect(point.upper).toBeLessThanOrEqual(100);
+    }
+    const width = (index: number) => points[index].upper - points[index].lower;
+    expect(width(FORECAST_HORIZON_DAYS - 1)).toBeGreaterThan(width(0));
+  });
+});
+
+describe('getBurnoutForecast', () => {
+  beforeEach(() => {
+    state.assessments = [];
+    state.entries = WORSENING;
+  });
+
+  it('scores history with the latest assessment, so a retake replaces the original', async () => {
+    const original = makeAssessment('original', '2026-01-01T10:00:00Z', 20);
+    const retake = makeAssessment('retake', '2026-03-01T10:00:00Z', 90);
+    state.assessments = [original, retake];
+
+    const forecast = await getBurnoutForecast('anonymous-abc', NOW);
+
+    expect(forecast?.history).toEqual(dailyBurnoutScores(WORSENING, retake));
+    expect(forecast?.history).not.toEqual(dailyBurnoutScores(WORSENING, original));
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Forecast Service
+ * Projects the next days of burnout score from journal history
+ *
+ * Each check-in of the last FORECAST_HISTORY_DAYS is scored with the burnout
+ * model, days without a check-in are filled in linearly, and the daily series
+ * is fitted with damped Holt (double exponential) smoothing. The confidence
+ * band comes from the one-step-ahead errors on days with a real check-in and
+ * widens with the square root of the horizon.
+ */
+
+import type { Assessment, JournalEntry } from '../db/schema';
+import type { BurnoutForecast, BurnoutForecastPoint, BurnoutRiskLevel } from '../types/assessment';
+import { calculateBurnoutScore, getLatestScore, getRiskLevel } from './burnoutService';
+import { calculateTrends, getHistory } from './journalService';
+import { getLatestAssessment } from './databaseService';
+
+export const FORECAST_HORIZON_DAYS = 7;
+export const FORECAST_HISTORY_DAYS = 28;
+export const MIN_FORECAST_ENTRIES = 5;
+
+// Days of check-ins the journal entry route reads trends from when it stores a score
+const TREND_WINDOW_DAYS = 7;
+
+// A forecast needs a check-in at most this many days ago
+export const MAX_FORECAST_STALENESS_DAYS = 3;
+
+// Smoothing factors for the level and the trend, and how fast the trend fades
+const LEVEL_SMOOTHING = 0.5;
+const TREND_SMOOTHING = 0.3;
+const TREND_DAMPING = 0.9;
+
+// z-score of an 80% two-sided confidence band
+const BAND_Z = 1.28;
+
+const RISK_ORDER: BurnoutRiskLevel[] = ['low', 'caution', 'high', 'critical'];
+
+export interface DailyScore {
+  date: string;                          // YYYY-MM-DD
+  score: number;
+}
+
+export interface SmoothingResult {
+  level: number;
+  trend: number;
+  residualStd: number;                   // Of one-step-ahead errors on observed days
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+const clampScore = (score: number) => Math.max(0, Math.min(100, score));
+
+/**
+ * Burnout score of every day with a check-in, oldest first
+ * Scores include the assessment, the trends of the TREND_WINDOW_DAYS up to that
+ * day and the components that look at earlier days, as when the score was stored.
+ * Action completion isn't known for past days, so it is left out.
+ */
+export function dailyBurnoutScores(entries: JournalEntry[], assessment?: Assessment | null): DailyScore[] {
+  const byDate = new Map(entries.map((entry) => [entry.entryDate, entry]));
+  return [...byDate.values()]
+    .sort((a, b) => a.entryDate.localeCompare(b.entryDate))
+    .map((entry) => {
+      const windowStart = shiftDate(entry.entryDate, -TREND_WINDOW_DAYS);
+      const trends = calculateTrends(
+        entries.filter((other) => other.entryDate >= windowStart && other.entryDate <= entry.entryDate)
+      );
+      return {
+        date: entry.entryDate,
+        score: calculateBurnoutScore(entry, assessment, trends, { history: entries }).score,
+      };
+    });
+}
+
+/**
+ * Fits damped Holt smoothing to a daily series
+ * Days missing from the series are interpolated before fitting; they don't
+ * count towards the residuals.
+ * @param series - At least 2 daily scores, oldest first
+ */
+export function fitDampedHolt(series: DailyScore[]): SmoothingResult {
+  const values: Array<{ value: number; observed: boolean }> = [];
+  for (let index = 0; index < series.length - 1; index++) {
+    const from = series[index];
+    const to = series[index + 1];
+    const gap = daysBetween(from.date, to.date);
+    for (let step = 0; step < gap; step++) {
+      values.push({ value: from.score + ((to.score - from.score) * step) / gap, observed: step === 0 });
+    }
+  }
+  values.push({ value: series[series.length - 1].score, observed: true });
+
+  let level = values[0].value;
+  let trend = values.length > 1 ? values[1].value - values[0].value : 0;
+  const errors: number[] = [];
+
+  for (let index = 1; index < values.length; index++) {
+    const { value, observed: isObserved } = values[index];
+    const predicted = level + TREND_DAMPING * trend;
+    // The first step's trend was set from this value, so its error says nothing
+    if (isObserved && index > 1) {
+      errors.push(value - predicted);
+    }
+    const nextLevel = LEVEL_SMOOTHING * value + (1 - LEVEL_SMOOTHING) * predicted;
+    trend = TREND_SMOOTHING * (nextLevel - level) + (1 - TREND_SMOOTHING) * TREND_DAMPING * trend;
+    level = nextLevel;
+  }
+
+  const residualStd = errors.length > 0
+    ? Math.sqrt(errors.reduce((sum, error) => sum + error ** 2, 0) / errors.length)
+    : 0;
+
+  return { level, trend, residualStd };
+}
+
+/**
+ * Projected value h steps after the end of the fitted series
+ */
+function projectDampedHolt(fit: SmoothingResult, steps: number): number {
+  let dampedSteps = 0;
+  for (let step = 1; step <= steps; step++) {
+    dampedSteps += TREND_DAMPING ** step;
+  }
+  return fit.level + dampedSteps * fit.trend;
+}
+
+/**
+ * Projects the burnout score for each of the FORECAST_HORIZON_DAYS after today
+ * @param entries - Recent journal entries, any order
+ * @param assessment - The user's latest assessment, if any
+ * @param current - The user's latest stored score; default: the last day's score
+ * @param now - Reference date (defaults to the current date)
+ * @returns The forecast, or null with fewer than MIN_FORECAST_ENTRIES check-ins
+ *          or none in the last MAX_FORECAST_STALENESS_DAYS
+ */
+export function forecastBurnout(
+  entries: JournalEntry[],
+  assessment?: Assessment | null,
+  current?: { score: number } | null,
+  now: Date = new Date()
+): BurnoutForecast | null {
+  const today = now.toISOString().split('T')[0];
+  const history = dailyBurnoutScores(entries, assessment)
+    .filter((point) => point.date <= today && daysBetween(point.date, today) < FORECAST_HISTORY_DAYS);
+
+  if (history.length < MIN_FORECAST_ENTRIES) {
+    return null;
+  }
+  const lastDate = history[history.length - 1].date;
+  if (daysBetween(lastDate, today) > MAX_FORECAST_STALENESS_DAYS) {
+    return null;
+  }
+
+  const fit = fitDampedHolt(history);
+  const points: BurnoutForecastPoint[] = [];
+  for (let day = 1; day <= FORECAST_HORIZON_DAYS; day++) {
+    const date = shiftDate(today, day);
+    const steps = daysBetween(lastDate, date);
+    const score = Math.round(clampScore(projectDampedHolt(fit, steps)));
+    const margin = BAND_Z * fit.residualStd * Math.sqrt(steps);
+    points.push({
+      date,
+      score,
+      lower: Math.round(clampScore(score - margin)),
+      upper: Math.round(clampScore(score + margin)),
+      riskLevel: getRiskLevel(score),
+    });
+  }
+
+  const currentScore = current?.score ?? history[history.length - 1].score;
+  const currentRiskLevel = getRiskLevel(currentScore);
+
+  // The projection is on the scale of the rebuilt scores, so it is compared
+  // with the last rebuilt day as well as with the level the user already sees
+  const reachedLevel = Math.max(
+    RISK_ORDER.indexOf(currentRiskLevel),
+    RISK_ORDER.indexOf(getRiskLevel(history[history.length - 1].score))
+  );
+  const warning = points.find((point) =>
+    RISK_ORDER.indexOf(point.riskLevel) >= RISK_ORDER.indexOf('high')
+    && RISK_ORDER.indexOf(point.riskLevel) > reachedLevel
+  );
+
+  return {
+    history,
+    points,
+    currentScore,
+    currentRiskLevel,
+    earlyWarning: warning ? { riskLevel: warning.riskLevel, date: warning.date } : null,
+  };
+}
+
+/**
+ * Forecast the user's burnout score from their recent journal history
+ * @returns The forecast, or null when there isn't enough recent history
+ */
+export async function getBurnoutForecast(userId: string, now: Date = new Date()): Promise<BurnoutForecast | null> {
+  const [entries, assessment, latestScore] = await Promise.all([
+    getHistory(userId, FORECAST_HISTORY_DAYS),
+    getLatestAssessment(userId),
+    getLatestScore(userId),
+  ]);
+  return forecastBurnout(entries, assessment, latestScore, now);
+}
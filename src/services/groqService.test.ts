@@ -1,6 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as fc from 'fast-check';
-import { constructInsightPrompt, getInsights } from './groqService';
+import {
+  constructInsightPrompt,
+  finalizeInsightsReply,
+  generateInsights,
+  getInsights,
+  INSIGHTS_FALLBACK_TEXT,
+} from './groqService';
+import { DEFAULT_INSIGHTS_PROMPT_VERSION, getInsightPromptTemplate } from '../prompts/insights';
 import { PsychologicalScores, ArchetypeName, MotivationType } from '../types/assessment';
 
 // Generator for valid score values (0-100)
@@ -219,3 +226,106 @@ describe('Groq Service - Property-Based Tests', () => {
     });
   });
 });
+
+describe('generateInsights', () => {
+  const originalFetch = global.fetch;
+  const scores: PsychologicalScores = {
+    imposterSyndrome: 70,
+    founderDoubt: 40,
+    identityFusion: 80,
+    fearOfRejection: 55,
+    riskTolerance: 60,
+    motivationType: 'mixed',
+    isolationLevel: 65,
+  };
+  const structured = {
+    summary: 'Your work and your sense of self are closely tied right now.',
+    recommendations: ['Spend an evening on a hobby.', 'Share a worry with a peer.', 'Write down one win a day.'],
+    warningSign: 'Feeling worthless after a bad product day.',
+  };
+
+  function mockReply(content: string) {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ choices: [{ message: { content } }] }),
+    });
+    global.fetch = fetchMock;
+    return fetchMock;
+  }
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('requests JSON and returns the parsed insights', async () => {
+    const fetchMock = mockReply(JSON.stringify(structured));
+
+    const result = await generateInsights(scores, 'Burning Out');
+
+    expect(result).toMatchObject({ insights: structured, generated: true });
+    expect(result.stats).toMatchObject({ promptVersion: DEFAULT_INSIGHTS_PROMPT_VERSION, provider: 'groq', streamed: false });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('renders and records the template it was given', async () => {
+    const fetchMock = mockReply(JSON.stringify(structured));
+    const template = getInsightPromptTemplate('v3-json-dimensions');
+
+    const result = await generateInsights(scores, 'Burning Out', { template });
+
+    expect(result.stats.promptVersion).toBe('v3-json-dimensions');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).messages[0].content).toBe(constructInsightPrompt(scores, 'Burning Out', template));
+  });
+
+  it('keeps a reply that is not valid JSON as text', async () => {
+    const text = 'You are doing well overall, but watch how much of yourself you put into the company.';
+    mockReply(text);
+
+    await expect(generateInsights(scores, 'Burning Out')).resolves.toMatchObject({ insights: text, generated: true });
+  });
+
+  it('sanitizes unsafe content before returning it', async () => {
+    mockReply(JSON.stringify({ ...structured, recommendations: ['Skip sleep until the launch.', ...structured.recommendations.slice(1)] }));
+
+    const result = await generateInsights(scores, 'Burning Out');
+    expect(result.insights).toMatchObject({
+      recommendations: ['Protect the basics first: regular sleep, proper meals and time with people you trust.', ...structured.recommendations.slice(1)],
+    });
+  });
+
+  it('reports the fallback as not generated', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 400 });
+
+    await expect(generateInsights(scores, 'Burning Out')).resolves.toMatchObject({ insights: INSIGHTS_FALLBACK_TEXT, generated: false });
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('getInsights renders structured insights as text', async () => {
+    mockReply(JSON.stringify(structured));
+
+    const text = await getInsights(scores, 'Burning Out');
+    expect(text).toContain(structured.summary);
+    expect(text).toContain('1. Spend an evening on a hobby.');
+    expect(text).toContain(structured.warningSign);
+  });
+});
+
+describe('finalizeInsightsReply', () => {
+  it('sanitizes both structured and plain-text replies', () => {
+    const reply = JSON.stringify({
+      summary: 'You clearly have an anxiety disorder.',
+      recommendations: ['Ask your doctor for Xanax.'],
+      warningSign: 'Dreading every investor call.',
+    });
+
+    expect(finalizeInsightsReply(reply)).toEqual({
+      summary: 'Only a qualified professional can diagnose a mental health condition; if this resonates, consider talking to one.',
+      recommendations: ['Questions about medication or supplements are best answered by a doctor.'],
+      warningSign: 'Dreading every investor call.',
+    });
+    expect(finalizeInsightsReply('Take melatonin nightly. Rest more.'))
+      .toBe('Questions about medication or supplements are best answered by a doctor. Rest more.');
+  });
+});
@@ -1,90 +1,163 @@
-import { PsychologicalScores, ArchetypeName } from '../types/assessment';
+import { PsychologicalScores, ArchetypeName, AssessmentInsights } from '../types/assessment';
+import {
+  completeWithFallbackResult,
+  getLLMProvider,
+  streamLLM,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMUsage,
+} from './llmService';
+import { insightsToText, parseStructuredInsights } from '../utils/insights';
+import { sanitizeInsights } from '../utils/aiSafety';
+import { renderPromptTemplate, type PromptTemplate } from '../utils/promptTemplates';
+import { getActiveInsightPromptTemplate, insightPromptVariables } from '../prompts/insights';
 
-const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
-const GROQ_MODEL = 'llama-3.3-70b-versatile';
-const GROQ_TIMEOUT = 10000; // 10 seconds for reliable response
+// Meaningful insights are longer than this (requirement 6.6)
+export const MIN_INSIGHTS_LENGTH = 50;
 
-const FALLBACK_TEXT = "We're generating personalized insights for you. Check back in a moment.";
+export const INSIGHTS_FALLBACK_TEXT = "We're generating personalized insights for you. Check back in a moment.";
+
+// How one insights generation went, recorded per LLM call
+export interface InsightsGenerationStats {
+  promptVersion: string;
+  provider: string;
+  model: string;
+  usage: LLMUsage | null;                // null when the provider doesn't report it
+  latencyMs: number;
+  streamed: boolean;
+}
+
+export interface InsightsResult {
+  insights: AssessmentInsights;          // Structured, or the raw reply if it wasn't valid JSON
+  generated: boolean;                    // false when insights is the fallback text
+  stats: InsightsGenerationStats;
+}
+
+export interface InsightsStream {
+  chunks: AsyncGenerator<string>;
+  provider: string;
+  model: string;
+  promptVersion: string;
+}
+
+export interface InsightsOptions {
+  template?: PromptTemplate;             // Default: the active template
+  provider?: LLMProvider;                // Default: the configured provider
+}
 
 /**
  * Constructs the prompt for Groq API including all 7 dimensions and archetype
  * @param scores - PsychologicalScores object with all 7 dimensions
  * @param archetype - The determined archetype name
+ * @param template - The insights template to render (default: the active one, see prompts/insights)
  * @returns Formatted prompt string for Groq API
  */
-export function constructInsightPrompt(scores: PsychologicalScores, archetype: ArchetypeName): string {
-  return `You are a supportive founder psychologist. A young founder (age 16-24) just completed a psychological assessment. Here are their scores (0-100, higher = more intense):
-
-- Imposter Syndrome: ${scores.imposterSyndrome}
-- Founder Doubt: ${scores.founderDoubt}
-- Identity Fusion: ${scores.identityFusion}
-- Fear of Rejection: ${scores.fearOfRejection}
-- Risk Tolerance: ${scores.riskTolerance}
-- Motivation Type: ${scores.motivationType}
-- Isolation Level: ${scores.isolationLevel}
-
-Their archetype is: ${archetype}
+export function constructInsightPrompt(
+  scores: PsychologicalScores,
+  archetype: ArchetypeName,
+  template: PromptTemplate = getActiveInsightPromptTemplate()
+): string {
+  return renderPromptTemplate(template, insightPromptVariables(scores, archetype));
+}
 
-Provide:
-1. A brief assessment of their psychological state (2-3 sentences)
-2. 3 specific, actionable recommendations
-3. 1 warning sign to watch for
+/**
+ * Chat request for the insights prompt
+ */
+export function buildInsightsRequest(
+  scores: PsychologicalScores,
+  archetype: ArchetypeName,
+  template: PromptTemplate = getActiveInsightPromptTemplate()
+): LLMRequest {
+  return {
+    messages: [{ role: 'user', content: constructInsightPrompt(scores, archetype, template) }],
+    maxTokens: 500,
+    temperature: 0.7,
+    responseFormat: 'json',
+  };
+}
 
-Tone: Warm, supportive, non-clinical. Speak directly to the founder. Keep response under 300 words.`;
+/**
+ * Turn a complete reply into the insights shown to the user
+ * Parses the JSON schema (keeping unparseable replies as text), then runs the
+ * safety layer over every field.
+ */
+export function finalizeInsightsReply(reply: string): AssessmentInsights {
+  return sanitizeInsights(parseStructuredInsights(reply) ?? reply).insights;
 }
 
 /**
- * Fetches personalized psychological insights from Groq API
+ * Fetches personalized psychological insights from the configured LLM provider
  * 
- * - Uses llama-3.3-70b-versatile model
- * - 3000ms timeout
+ * - Provider, timeout and retries come from llmService
+ * - Replies are parsed against the insights JSON schema; replies that don't
+ *   parse are kept as plain text
+ * - Unsafe sentences are replaced (see utils/aiSafety)
  * - Returns fallback text on timeout or error (never throws)
  * - Logs errors to console
  * 
  * @param scores - PsychologicalScores object with all 7 dimensions
  * @param archetype - The determined archetype name
- * @returns Promise resolving to insights string (or fallback text on error)
+ * @param options - Template and provider overrides
+ * @returns Promise resolving to the insights, whether they were generated, and call stats
  */
-export async function getInsights(scores: PsychologicalScores, archetype: ArchetypeName): Promise<string> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), GROQ_TIMEOUT);
-
-  try {
-    const response = await fetch(GROQ_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.GROQ_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: GROQ_MODEL,
-        messages: [{ role: 'user', content: constructInsightPrompt(scores, archetype) }],
-        max_tokens: 500,
-        temperature: 0.7,
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
+export async function generateInsights(
+  scores: PsychologicalScores,
+  archetype: ArchetypeName,
+  options: InsightsOptions = {}
+): Promise<InsightsResult> {
+  const template = options.template ?? getActiveInsightPromptTemplate();
+  const result = await completeWithFallbackResult(buildInsightsRequest(scores, archetype, template), {
+    provider: options.provider,
+    fallback: INSIGHTS_FALLBACK_TEXT,
+    minLength: MIN_INSIGHTS_LENGTH,
+    label: 'Groq insights',
+  });
 
-    if (!response.ok) {
-      console.error(`Groq API error: ${response.status}`);
-      return FALLBACK_TEXT;
-    }
+  const stats: InsightsGenerationStats = {
+    promptVersion: template.version,
+    provider: result.provider,
+    model: result.model,
+    usage: result.completion?.usage ?? null,
+    latencyMs: result.latencyMs,
+    streamed: false,
+  };
 
-    const data = await response.json();
-    const insights = data.choices?.[0]?.message?.content || '';
+  if (!result.completion) {
+    return { insights: INSIGHTS_FALLBACK_TEXT, generated: false, stats };
+  }
+  return { insights: finalizeInsightsReply(result.content), generated: true, stats };
+}
 
-    // Validate response has meaningful content (> 50 chars per requirement 6.6)
-    if (insights.length < 50) {
-      console.error('Groq API returned insufficient content');
-      return FALLBACK_TEXT;
-    }
+/**
+ * Fetches personalized insights as plain text (see generateInsights)
+ * @returns Promise resolving to insights string (or fallback text on error)
+ */
+export async function getInsights(scores: PsychologicalScores, archetype: ArchetypeName): Promise<string> {
+  const { insights } = await generateInsights(scores, archetype);
+  return insightsToText(insights);
+}
 
-    return insights;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    console.error('Groq API error:', error);
-    return FALLBACK_TEXT;
-  }
+/**
+ * Streams personalized insights as they are generated
+ * Unlike getInsights this throws when the stream fails, possibly after some
+ * text was already yielded; the caller decides how to fall back.
+ * @param scores - PsychologicalScores object with all 7 dimensions
+ * @param archetype - The determined archetype name
+ * @param options - Template and provider overrides
+ * @returns Chunks of the reply (JSON unless the model ignored the schema), the provider producing them and the template version
+ * @throws Error if LLM_PROVIDER names an unknown provider
+ */
+export function streamInsights(
+  scores: PsychologicalScores,
+  archetype: ArchetypeName,
+  options: InsightsOptions = {}
+): InsightsStream {
+  const template = options.template ?? getActiveInsightPromptTemplate();
+  const provider = options.provider ?? getLLMProvider();
+  return {
+    chunks: streamLLM(buildInsightsRequest(scores, archetype, template), { provider }),
+    provider: provider.name,
+    model: provider.model,
+    promptVersion: template.version,
+  };
 }
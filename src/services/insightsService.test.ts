@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Minimal query-builder stand-in: selects return the stored row, inserts are recorded
+const state = vi.hoisted(() => ({
+  row: null as unknown,
+  inserts: [] as Record<string, unknown>[],
+}));
+
+vi.mock('../db/connection', () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          limit: async () => (state.row ? [state.row] : []),
+        }),
+      }),
+    }),
+    insert: () => ({
+      values: async (values: Record<string, unknown>) => {
+        state.inserts.push(values);
+      },
+    }),
+  },
+}));
+
+vi.mock('./databaseService', () => ({
+  updateAssessmentInsights: vi.fn(async () => null),
+}));
+
+import { getCachedInsights, saveInsightsGeneration } from './insightsService';
+import { updateAssessmentInsights } from './databaseService';
+import { INSIGHTS_FALLBACK_TEXT, type InsightsResult } from './groqService';
+import { DEFAULT_INSIGHTS_PROMPT_VERSION } from '../prompts/insights';
+
+const INSIGHTS = {
+  summary: 'You are pushing through on willpower alone.',
+  recommendations: ['Take one evening off.', 'Tell a peer how you feel.', 'Sleep eight hours twice.'],
+  warningSign: 'Dreading Mondays.',
+};
+
+function makeResult(overrides: Partial<InsightsResult> = {}): InsightsResult {
+  return {
+    insights: INSIGHTS,
+    generated: true,
+    stats: {
+      promptVersion: DEFAULT_INSIGHTS_PROMPT_VERSION,
+      provider: 'groq',
+      model: 'llama-3.3-70b-versatile',
+      usage: { promptTokens: 210, completionTokens: 140 },
+      latencyMs: 850,
+      streamed: false,
+    },
+    ...overrides,
+  };
+}
+
+describe('getCachedInsights', () => {
+  beforeEach(() => {
+    state.row = null;
+  });
+
+  it('serves insights produced by the current prompt', async () => {
+    state.row = { insights: INSIGHTS, promptVersion: DEFAULT_INSIGHTS_PROMPT_VERSION };
+    await expect(getCachedInsights('assessment-1', 'anonymous-abc')).resolves.toEqual(INSIGHTS);
+  });
+
+  it('treats insights from another prompt version as stale', async () => {
+    state.row = { insights: 'Older free-form insight', promptVersion: null };
+    await expect(getCachedInsights('assessment-1', 'anonymous-abc')).resolves.toBeNull();
+
+    state.row = { insights: INSIGHTS, promptVersion: 'v1' };
+    await expect(getCachedInsights('assessment-1', 'anonymous-abc')).resolves.toBeNull();
+  });
+
+  it('returns null for assessments without insights or of another user', async () => {
+    state.row = { insights: null, promptVersion: DEFAULT_INSIGHTS_PROMPT_VERSION };
+    await expect(getCachedInsights('assessment-1', 'anonymous-abc')).resolves.toBeNull();
+
+    state.row = null;
+    await expect(getCachedInsights('assessment-1', 'anonymous-abc')).resolves.toBeNull();
+  });
+});
+
+describe('saveInsightsGeneration', () => {
+  beforeEach(() => {
+    state.inserts = [];
+    vi.mocked(updateAssessmentInsights).mockClear();
+  });
+
+  it('records usage and latency and caches the insights on the assessment', async () => {
+    await saveInsightsGeneration('anonymous-abc', 'assessment-1', makeResult());
+
+    expect(state.inserts).toEqual([{
+      userId: 'anonymous-abc',
+      assessmentId: 'assessment-1',
+      promptVersion: DEFAULT_INSIGHTS_PROMPT_VERSION,
+      provider: 'groq',
+      model: 'llama-3.3-70b-versatile',
+      promptTokens: 210,
+      completionTokens: 140,
+      latencyMs: 850,
+      streamed: false,
+      succeeded: true,
+    }]);
+    expect(updateAssessmentInsights).toHaveBeenCalledWith('assessment-1', 'anonymous-abc', INSIGHTS, DEFAULT_INSIGHTS_PROMPT_VERSION);
+  });
+
+  it('records a fallback as a failed generation without caching it', async () => {
+    await saveInsightsGeneration('anonymous-abc', 'assessment-1', makeResult({
+      insights: INSIGHTS_FALLBACK_TEXT,
+      generated: false,
+    }));
+
+    expect(state.inserts[0]).toMatchObject({ succeeded: false });
+    expect(updateAssessmentInsights).not.toHaveBeenCalled();
+  });
+
+  it('records generations without an assessment and unknown usage', async () => {
+    const result = makeResult();
+    await saveInsightsGeneration('anonymous-abc', null, { ...result, stats: { ...result.stats, usage: null, streamed: true } });
+
+    expect(state.inserts[0]).toMatchObject({ assessmentId: null, promptTokens: null, completionTokens: null, streamed: true });
+    expect(updateAssessmentInsights).not.toHaveBeenCalled();
+  });
+});
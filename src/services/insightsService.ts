@@ -0,0 +1,80 @@
+/**
+ * Insights Service
+ * Caches generated insights on their assessment and records every generation
+ *
+ * Stored insights are keyed by assessment id plus prompt version: they are
+ * served as long as they were produced by the active prompt template, and
+ * regenerated on explicit request or once the active template changes.
+ */
+
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { assessments, insightGenerations, type NewInsightGeneration } from '../db/schema';
+import type { AssessmentInsights } from '../types/assessment';
+import { updateAssessmentInsights } from './databaseService';
+import type { InsightsResult } from './groqService';
+import { getActiveInsightPromptTemplate } from '../prompts/insights';
+
+/**
+ * Get the insights stored on one of the user's assessments
+ * @param promptVersion - Only insights produced by this prompt version count as cached
+ * @returns The stored insights, or null if there are none for this prompt version
+ */
+export async function getCachedInsights(
+  assessmentId: string,
+  userId: string,
+  promptVersion: string = getActiveInsightPromptTemplate().version
+): Promise<AssessmentInsights | null> {
+  try {
+    const rows = await db
+      .select({ insights: assessments.groqInsights, promptVersion: assessments.insightsPromptVersion })
+      .from(assessments)
+      .where(and(eq(assessments.id, assessmentId), eq(assessments.userId, userId)))
+      .limit(1);
+
+    const row = rows[0];
+    if (!row || row.insights == null || row.promptVersion !== promptVersion) {
+      return null;
+    }
+    return row.insights as AssessmentInsights;
+  } catch (error) {
+    console.error('Database error in getCachedInsights:', error);
+    throw new Error('Failed to get cached insights');
+  }
+}
+
+/**
+ * Record a generation's token usage and latency, and cache its insights on the assessment
+ * Fallback text is recorded as a failed generation but never cached.
+ * @param assessmentId - Assessment the insights were generated for, if known
+ */
+export async function saveInsightsGeneration(
+  userId: string,
+  assessmentId: string | null,
+  result: InsightsResult
+): Promise<void> {
+  const { stats } = result;
+  const generation: NewInsightGeneration = {
+    userId,
+    assessmentId,
+    promptVersion: stats.promptVersion,
+    provider: stats.provider,
+    model: stats.model,
+    promptTokens: stats.usage?.promptTokens ?? null,
+    completionTokens: stats.usage?.completionTokens ?? null,
+    latencyMs: stats.latencyMs,
+    streamed: stats.streamed,
+    succeeded: result.generated,
+  };
+
+  try {
+    await db.insert(insightGenerations).values(generation);
+  } catch (error) {
+    console.error('Database error in saveInsightsGeneration:', error);
+    throw new Error('Failed to record insights generation');
+  }
+
+  if (result.generated && assessmentId) {
+    await updateAssessmentInsights(assessmentId, userId, result.insights, stats.promptVersion);
+  }
+}
@@ -154,6 +154,9 @@ describe('calculateTrends', () => {
         moodTrend: 'stable',
         energyTrend: 'stable',
         stressTrend: 'stable',
+        moodStats: { slopePerDay: 0, volatility: 0, changePoint: null },
+        energyStats: { slopePerDay: 0, volatility: 0, changePoint: null },
+        stressStats: { slopePerDay: 0, volatility: 0, changePoint: null },
       });
     });
 
@@ -315,4 +318,65 @@ describe('calculateTrends', () => {
       expect(result.stressAvg).toBe(50);
     });
   });
+
+  describe('time series', () => {
+    // Most recent first, one entry per given date
+    const series = (days: Array<[string, number]>) =>
+      days
+        .map(([entryDate, mood]) => createMockEntry({ entryDate, mood }))
+        .reverse();
+
+    it('measures the slope per day, so gaps between check-ins count', () => {
+      const daily = calculateTrends(series([['2026-03-01', 50], ['2026-03-02', 54], ['2026-03-03', 58]]));
+      const sparse = calculateTrends(series([['2026-03-01', 50], ['2026-03-05', 54], ['2026-03-09', 58]]));
+
+      expect(daily.moodStats.slopePerDay).toBe(4);
+      expect(sparse.moodStats.slopePerDay).toBe(1);
+      expect(sparse.moodTrend).toBe('improving');
+    });
+
+    it('does not depend on the order of the input', () => {
+      const entries = series([['2026-03-01', 70], ['2026-03-03', 60], ['2026-03-06', 50]]);
+
+      expect(calculateTrends([...entries].reverse())).toEqual(calculateTrends(entries));
+      expect(calculateTrends(entries).moodTrend).toBe('declining');
+    });
+
+    it('is not thrown off by a single outlier', () => {
+      const result = calculateTrends(series([
+        ['2026-03-01', 60], ['2026-03-02', 61], ['2026-03-03', 60], ['2026-03-04', 61],
+        ['2026-03-05', 60], ['2026-03-06', 61], ['2026-03-07', 5],
+      ]));
+
+      expect(result.moodTrend).toBe('stable');
+      expect(Math.abs(result.moodStats.slopePerDay)).toBeLessThan(0.5);
+    });
+
+    it('reports volatility as the standard deviation', () => {
+      const steady = calculateTrends(series([['2026-03-01', 60], ['2026-03-02', 60], ['2026-03-03', 60]]));
+      const swinging = calculateTrends(series([['2026-03-01', 40], ['2026-03-02', 80], ['2026-03-03', 40], ['2026-03-04', 80]]));
+
+      expect(steady.moodStats.volatility).toBe(0);
+      expect(swinging.moodStats.volatility).toBe(20);
+    });
+
+    it('detects a lasting shift in level', () => {
+      const result = calculateTrends(series([
+        ['2026-03-01', 72], ['2026-03-02', 70], ['2026-03-03', 74],
+        ['2026-03-04', 40], ['2026-03-05', 42], ['2026-03-06', 38],
+      ]));
+
+      expect(result.moodStats.changePoint).toEqual({ date: '2026-03-04', before: 72, after: 40 });
+    });
+
+    it('reports no change point for noise around a steady level', () => {
+      const result = calculateTrends(series([
+        ['2026-03-01', 60], ['2026-03-02', 66], ['2026-03-03', 58],
+        ['2026-03-04', 63], ['2026-03-05', 57], ['2026-03-06', 64],
+      ]));
+
+      expect(result.moodStats.changePoint).toBeNull();
+      expect(result.energyStats.changePoint).toBeNull();
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { eq, and, desc, gte } from 'drizzle-orm';
+import { eq, and, asc, desc, gte } from 'drizzle-orm';
 import { db } from '../db/connection';
 import { journalEntries, type JournalEntry, type NewJournalEntry } from '../db/schema';
 
@@ -22,6 +22,23 @@ export interface TrendData {
   moodTrend: 'improving' | 'stable' | 'declining';
   energyTrend: 'improving' | 'stable' | 'declining';
   stressTrend: 'improving' | 'stable' | 'declining';
+  moodStats: MetricTrendStats;
+  energyStats: MetricTrendStats;
+  stressStats: MetricTrendStats;
+}
+
+// Time-series statistics for one metric
+export interface MetricTrendStats {
+  slopePerDay: number;                   // Change in points per day along the fitted line (2 decimals)
+  volatility: number;                    // Standard deviation of the values (1 decimal)
+  changePoint: TrendChangePoint | null;  // The clearest shift in level, if there is one
+}
+
+// A lasting shift in a metric's level
+export interface TrendChangePoint {
+  date: string;                          // First entry at the new level (YYYY-MM-DD)
+  before: number;                        // Average before the shift
+  after: number;                         // Average from the shift on
 }
 
 // Validation constants
@@ -235,40 +252,201 @@ export async function getHistory(
   }
 }
 
+/**
+ * Get the user's most recent journal entries, however far back they go
+ * @param userId - The user's ID
+ * @param limit - Maximum number of entries (default: 7)
+ * @returns Array of journal entries sorted by date descending
+ */
+export async function getRecentEntries(
+  userId: string,
+  limit: number = 7
+): Promise<JournalEntry[]> {
+  if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+    throw new JournalValidationError('userId is required and must be a non-empty string');
+  }
+
+  try {
+    return await db
+      .select()
+      .from(journalEntries)
+      .where(eq(journalEntries.userId, userId))
+      .orderBy(desc(journalEntries.entryDate))
+      .limit(limit);
+  } catch (error) {
+    console.error('Database error in getRecentEntries:', error);
+    throw new Error('Failed to get recent journal entries');
+  }
+}
 
 /**
- * Calculate trend direction based on comparing recent vs older entries
- * @param recentAvg - Average of recent entries (first half)
- * @param olderAvg - Average of older entries (second half)
- * @param isInverse - If true, lower is better (like stress)
- * @returns Trend direction
+ * Get every journal entry on or after a date
+ * @param userId - The user's ID
+ * @param since - First date to include (Date object or YYYY-MM-DD string)
+ * @returns Array of journal entries sorted by date ascending
+ */
+export async function getEntriesSince(
+  userId: string,
+  since: Date | string
+): Promise<JournalEntry[]> {
+  if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+    throw new JournalValidationError('userId is required and must be a non-empty string');
+  }
+
+  const sinceString = typeof since === 'string' ? since : since.toISOString().split('T')[0];
+
+  try {
+    return await db
+      .select()
+      .from(journalEntries)
+      .where(
+        and(
+          eq(journalEntries.userId, userId),
+          gte(journalEntries.entryDate, sinceString)
+        )
+      )
+      .orderBy(asc(journalEntries.entryDate));
+  } catch (error) {
+    console.error('Database error in getEntriesSince:', error);
+    throw new Error('Failed to get journal entries');
+  }
+}
+
+
+// Minimum change along the fitted line, across the whole period, to count as a trend
+const TREND_THRESHOLD = 5;
+
+// Minimum difference between the averages either side of a change point
+const CHANGE_POINT_MIN_SHIFT = 15;
+
+// Entries needed on each side of a change point
+const CHANGE_POINT_MIN_SEGMENT = 2;
+
+const EMPTY_STATS: MetricTrendStats = { slopePerDay: 0, volatility: 0, changePoint: null };
+
+type Metric = 'mood' | 'energy' | 'stress';
+
+interface SeriesPoint {
+  x: number;                             // Days since the first entry (or position, see toSeries)
+  date: string;
+  value: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Order entries oldest first and place them on a time axis in days
+ * Entries that share a date keep their order in the (most recent first) input.
+ * When every entry has the same date there is no time axis, so entries are
+ * spaced one unit apart in that order instead.
  */
-function calculateTrendDirection(
-  recentAvg: number,
-  olderAvg: number,
-  isInverse: boolean = false
-): 'improving' | 'stable' | 'declining' {
-  const threshold = 5; // Minimum difference to consider a trend
-  const diff = recentAvg - olderAvg;
-
-  if (Math.abs(diff) < threshold) {
-    return 'stable';
+function toSeries(entries: JournalEntry[], metric: Metric): SeriesPoint[] {
+  const ordered = entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => a.entry.entryDate.localeCompare(b.entry.entryDate) || b.index - a.index)
+    .map(({ entry }) => entry);
+
+  const firstDay = Date.parse(`${ordered[0].entryDate}T00:00:00Z`);
+  const datedAxis = new Set(ordered.map((entry) => entry.entryDate)).size > 1;
+
+  return ordered.map((entry, position) => ({
+    x: datedAxis ? Math.round((Date.parse(`${entry.entryDate}T00:00:00Z`) - firstDay) / 86_400_000) : position,
+    date: entry.entryDate,
+    value: entry[metric],
+  }));
+}
+
+/**
+ * Theil-Sen slope: the median of the slopes between every pair of points
+ * Unlike least squares, a single outlying day barely moves it.
+ */
+function theilSenSlope(series: SeriesPoint[]): number {
+  const slopes: number[] = [];
+  for (let i = 0; i < series.length; i++) {
+    for (let j = i + 1; j < series.length; j++) {
+      if (series[j].x !== series[i].x) {
+        slopes.push((series[j].value - series[i].value) / (series[j].x - series[i].x));
+      }
+    }
   }
+  return slopes.length > 0 ? median(slopes) : 0;
+}
 
-  if (isInverse) {
-    // For stress: lower is better, so negative diff is improving
-    return diff < 0 ? 'improving' : 'declining';
+/**
+ * Finds the split that best divides the series into two levels
+ * (smallest total squared error around each side's mean)
+ * @returns The change point, or null if no split shifts the level by CHANGE_POINT_MIN_SHIFT
+ */
+function detectChangePoint(series: SeriesPoint[]): TrendChangePoint | null {
+  let best: { index: number; cost: number } | null = null;
+  for (let index = CHANGE_POINT_MIN_SEGMENT; index <= series.length - CHANGE_POINT_MIN_SEGMENT; index++) {
+    const cost = [series.slice(0, index), series.slice(index)].reduce((sum, segment) => {
+      const segmentMean = mean(segment.map((point) => point.value));
+      return sum + segment.reduce((acc, point) => acc + (point.value - segmentMean) ** 2, 0);
+    }, 0);
+    if (!best || cost < best.cost) {
+      best = { index, cost };
+    }
+  }
+  if (!best) {
+    return null;
   }
 
-  // For mood/energy: higher is better, so positive diff is improving
-  return diff > 0 ? 'improving' : 'declining';
+  const before = mean(series.slice(0, best.index).map((point) => point.value));
+  const after = mean(series.slice(best.index).map((point) => point.value));
+  if (Math.abs(after - before) < CHANGE_POINT_MIN_SHIFT) {
+    return null;
+  }
+  return { date: series[best.index].date, before: Math.round(before), after: Math.round(after) };
+}
+
+/**
+ * Slope, volatility and change point of one metric, plus its direction
+ * @param isInverse - If true, lower is better (like stress)
+ */
+function analyzeMetric(
+  entries: JournalEntry[],
+  metric: Metric,
+  isInverse: boolean
+): { trend: 'improving' | 'stable' | 'declining'; stats: MetricTrendStats } {
+  const series = toSeries(entries, metric);
+  const values = series.map((point) => point.value);
+  const average = mean(values);
+  const volatility = Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+  const slope = theilSenSlope(series);
+
+  // How far the fitted line moves across the period
+  const change = slope * (series[series.length - 1].x - series[0].x);
+  let trend: 'improving' | 'stable' | 'declining' = 'stable';
+  if (Math.abs(change) >= TREND_THRESHOLD) {
+    // For stress: lower is better, so a falling line is improving
+    trend = (change > 0) !== isInverse ? 'improving' : 'declining';
+  }
+
+  return {
+    trend,
+    stats: {
+      slopePerDay: Math.round(slope * 100) / 100,
+      volatility: Math.round(volatility * 10) / 10,
+      changePoint: detectChangePoint(series),
+    },
+  };
 }
 
 /**
  * Calculate trends from journal entries
- * Computes averages and trend direction for mood, energy, and stress
- * @param entries - Array of journal entries (should be sorted by date descending)
- * @returns Trend data with averages and directions
+ * Computes averages, and per metric a robust regression slope in points per
+ * day (gaps between check-ins count), the volatility and the clearest change
+ * point. The direction is improving or declining when the fitted line moves
+ * at least TREND_THRESHOLD points across the period.
+ * @param entries - Array of journal entries (any order; ties on a date are read most recent first)
+ * @returns Trend data with averages, directions and per-metric statistics
  */
 export function calculateTrends(entries: JournalEntry[]): TrendData {
   if (!entries || entries.length === 0) {
@@ -279,54 +457,26 @@ export function calculateTrends(entries: JournalEntry[]): TrendData {
       moodTrend: 'stable',
       energyTrend: 'stable',
       stressTrend: 'stable',
+      moodStats: EMPTY_STATS,
+      energyStats: EMPTY_STATS,
+      stressStats: EMPTY_STATS,
     };
   }
 
-  // Calculate overall averages
-  const moodSum = entries.reduce((sum, e) => sum + e.mood, 0);
-  const energySum = entries.reduce((sum, e) => sum + e.energy, 0);
-  const stressSum = entries.reduce((sum, e) => sum + e.stress, 0);
-
-  const moodAvg = Math.round(moodSum / entries.length);
-  const energyAvg = Math.round(energySum / entries.length);
-  const stressAvg = Math.round(stressSum / entries.length);
-
-  // Calculate trends by comparing recent vs older entries
-  // Need at least 2 entries to calculate a trend
-  if (entries.length < 2) {
-    return {
-      moodAvg,
-      energyAvg,
-      stressAvg,
-      moodTrend: 'stable',
-      energyTrend: 'stable',
-      stressTrend: 'stable',
-    };
-  }
-
-  // Split entries into recent (first half) and older (second half)
-  // Entries are sorted descending, so first half is more recent
-  const midpoint = Math.floor(entries.length / 2);
-  const recentEntries = entries.slice(0, midpoint);
-  const olderEntries = entries.slice(midpoint);
-
-  // Calculate averages for each half
-  const recentMoodAvg = recentEntries.reduce((sum, e) => sum + e.mood, 0) / recentEntries.length;
-  const olderMoodAvg = olderEntries.reduce((sum, e) => sum + e.mood, 0) / olderEntries.length;
-
-  const recentEnergyAvg = recentEntries.reduce((sum, e) => sum + e.energy, 0) / recentEntries.length;
-  const olderEnergyAvg = olderEntries.reduce((sum, e) => sum + e.energy, 0) / olderEntries.length;
-
-  const recentStressAvg = recentEntries.reduce((sum, e) => sum + e.stress, 0) / recentEntries.length;
-  const olderStressAvg = olderEntries.reduce((sum, e) => sum + e.stress, 0) / olderEntries.length;
+  const mood = analyzeMetric(entries, 'mood', false);
+  const energy = analyzeMetric(entries, 'energy', false);
+  const stress = analyzeMetric(entries, 'stress', true);
 
   return {
-    moodAvg,
-    energyAvg,
-    stressAvg,
-    moodTrend: calculateTrendDirection(recentMoodAvg, olderMoodAvg, false),
-    energyTrend: calculateTrendDirection(recentEnergyAvg, olderEnergyAvg, false),
-    stressTrend: calculateTrendDirection(recentStressAvg, olderStressAvg, true),
+    moodAvg: Math.round(mean(entries.map((e) => e.mood))),
+    energyAvg: Math.round(mean(entries.map((e) => e.energy))),
+    stressAvg: Math.round(mean(entries.map((e) => e.stress))),
+    moodTrend: mood.trend,
+    energyTrend: energy.trend,
+    stressTrend: stress.trend,
+    moodStats: mood.stats,
+    energyStats: energy.stats,
+    stressStats: stress.stats,
   };
 }
 
@@ -0,0 +1,299 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  callLLM,
+  completeWithFallback,
+  completeWithFallbackResult,
+  getLLMProvider,
+  LLMProviderError,
+  OpenAICompatibleProvider,
+  StubLLMProvider,
+  streamLLM,
+  type LLMCompletion,
+  type LLMProvider,
+  type LLMRequest,
+} from './llmService';
+
+const REQUEST: LLMRequest = {
+  messages: [{ role: 'user', content: 'How am I doing?' }],
+  maxTokens: 200,
+  temperature: 0.2,
+};
+
+const COMPLETION: LLMCompletion = {
+  content: 'You are doing better than you think, and here is why in more than fifty characters.',
+  provider: 'scripted',
+  model: 'scripted',
+  usage: null,
+};
+
+// Provider that plays back a fixed sequence of outcomes, one per attempt
+function scriptedProvider(outcomes: Array<LLMCompletion | Error>): LLMProvider & { calls: number } {
+  return {
+    name: 'scripted',
+    model: 'scripted',
+    calls: 0,
+    async complete() {
+      const outcome = outcomes[Math.min(this.calls++, outcomes.length - 1)];
+      if (outcome instanceof Error) throw outcome;
+      return outcome;
+    },
+  };
+}
+
+describe('getLLMProvider', () => {
+  it('defaults to Groq', () => {
+    const provider = getLLMProvider({ GROQ_API_KEY: 'gsk_test' });
+    expect(provider.name).toBe('groq');
+    expect(provider.model).toBe('llama-3.3-70b-versatile');
+  });
+
+  it('selects the OpenAI-compatible provider and model from config', () => {
+    const provider = getLLMProvider({ LLM_PROVIDER: 'openai', LLM_MODEL: 'local-model' });
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.name).toBe('openai');
+    expect(provider.model).toBe('local-model');
+  });
+
+  it('selects the stub provider', () => {
+    expect(getLLMProvider({ LLM_PROVIDER: 'stub' })).toBeInstanceOf(StubLLMProvider);
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => getLLMProvider({ LLM_PROVIDER: 'carrier-pigeon' })).toThrow('Unknown LLM provider: carrier-pigeon');
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('posts a chat completion to the configured endpoint and reads usage', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({
+        model: 'served-model',
+        choices: [{ message: { content: 'Hello founder' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 },
+      }),
+    });
+    global.fetch = fetchMock;
+
+    const provider = new OpenAICompatibleProvider({
+      name: 'openai',
+      baseUrl: 'http://localhost:8080/v1/',
+      apiKey: 'secret',
+      model: 'local-model',
+    });
+    const completion = await provider.complete(REQUEST);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'local-model',
+      messages: REQUEST.messages,
+      max_tokens: 200,
+      temperature: 0.2,
+    });
+    expect(completion).toEqual({
+      content: 'Hello founder',
+      provider: 'openai',
+      model: 'served-model',
+      usage: { promptTokens: 12, completionTokens: 3 },
+    });
+  });
+
+  it('marks rate limits and server errors retryable, client errors not', async () => {
+    const provider = new OpenAICompatibleProvider({ name: 'groq', baseUrl: 'http://x', apiKey: 'k', model: 'm' });
+
+    for (const [status, retryable] of [[429, true], [503, true], [400, false], [401, false]] as const) {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status });
+      await expect(provider.complete(REQUEST)).rejects.toMatchObject({ status, retryable });
+    }
+  });
+});
+
+describe('StubLLMProvider', () => {
+  it('is deterministic', async () => {
+    const provider = new StubLLMProvider();
+    const first = await provider.complete(REQUEST);
+    const second = await provider.complete(REQUEST);
+
+    expect(first).toEqual(second);
+    expect(first.content.length).toBeGreaterThan(50);
+    expect(first.usage?.promptTokens).toBeGreaterThan(0);
+  });
+
+  it('accepts a custom responder', async () => {
+    const provider = new StubLLMProvider((request) => `echo: ${request.messages[0].content}`);
+    expect((await provider.complete(REQUEST)).content).toBe('echo: How am I doing?');
+  });
+});
+
+describe('callLLM', () => {
+  it('retries a transient failure', async () => {
+    const provider = scriptedProvider([new LLMProviderError('busy', true, 503), COMPLETION]);
+
+    await expect(callLLM(REQUEST, { provider })).resolves.toEqual(COMPLETION);
+    expect(provider.calls).toBe(2);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const provider = scriptedProvider([new LLMProviderError('busy', true, 503)]);
+
+    await expect(callLLM(REQUEST, { provider, retries: 2 })).rejects.toThrow('busy');
+    expect(provider.calls).toBe(3);
+  });
+
+  it('does not retry a permanent failure', async () => {
+    const provider = scriptedProvider([new LLMProviderError('bad key', false, 401), COMPLETION]);
+
+    await expect(callLLM(REQUEST, { provider })).rejects.toThrow('bad key');
+    expect(provider.calls).toBe(1);
+  });
+
+  it('aborts an attempt that runs past the timeout', async () => {
+    const provider: LLMProvider = {
+      name: 'slow',
+      model: 'slow',
+      complete: (_request, signal) =>
+        new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new LLMProviderError('timed out', true)));
+        }),
+    };
+
+    await expect(callLLM(REQUEST, { provider, timeoutMs: 20, retries: 0 })).rejects.toThrow('timed out');
+  });
+});
+
+describe('completeWithFallback', () => {
+  it('returns the completion text', async () => {
+    const provider = scriptedProvider([COMPLETION]);
+    await expect(completeWithFallback(REQUEST, { provider, fallback: 'fallback' })).resolves.toBe(COMPLETION.content);
+  });
+
+  it('falls back when every attempt fails (never throws)', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = scriptedProvider([new LLMProviderError('down', true, 500)]);
+
+    await expect(completeWithFallback(REQUEST, { provider, fallback: 'fallback', retries: 0 })).resolves.toBe('fallback');
+    expect(consoleErrorSpy).toHaveBeenCalled();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('reports the completion, provider and latency', async () => {
+    const provider = scriptedProvider([COMPLETION]);
+    const result = await completeWithFallbackResult(REQUEST, { provider, fallback: 'fallback' });
+
+    expect(result).toMatchObject({ content: COMPLETION.content, completion: COMPLETION, provider: 'scripted', model: 'scripted' });
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reports a null completion when falling back', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = scriptedProvider([new LLMProviderError('bad key', false, 401)]);
+
+    await expect(completeWithFallbackResult(REQUEST, { provider, fallback: 'fallback' }))
+      .resolves.toMatchObject({ content: 'fallback', completion: null, provider: 'scripted' });
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('falls back on replies shorter than the minimum', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = scriptedProvider([{ ...COMPLETION, content: 'ok' }]);
+
+    await expect(completeWithFallback(REQUEST, { provider, fallback: 'fallback', minLength: 50 })).resolves.toBe('fallback');
+    consoleErrorSpy.mockRestore();
+  });
+});
+
+async function collectStream(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('streamLLM', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('streams the stub reply word by word', async () => {
+    const provider = new StubLLMProvider(() => 'Take a real break today.');
+    expect(await collectStream(streamLLM(REQUEST, { provider }))).toEqual(['Take ', 'a ', 'real ', 'break ', 'today.']);
+  });
+
+  it('parses an OpenAI-compatible event stream', async () => {
+    const lines = [
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"del',
+      'ta":{"content":"lo"}}]}\n\n',
+      'data: [DONE]\n\n',
+    ];
+    const encoder = new TextEncoder();
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      body: new ReadableStream({
+        start(controller) {
+          for (const line of lines) controller.enqueue(encoder.encode(line));
+          controller.close();
+        },
+      }),
+    });
+    global.fetch = fetchMock;
+
+    const provider = new OpenAICompatibleProvider({ name: 'groq', baseUrl: 'http://x', apiKey: 'k', model: 'm' });
+
+    expect(await collectStream(streamLLM(REQUEST, { provider }))).toEqual(['Hel', 'lo']);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+  });
+
+  it('falls back to a single chunk for providers that cannot stream', async () => {
+    const provider = scriptedProvider([COMPLETION]);
+    expect(await collectStream(streamLLM(REQUEST, { provider }))).toEqual([COMPLETION.content]);
+  });
+
+  it('retries a stream that fails before its first chunk', async () => {
+    let attempts = 0;
+    const provider: LLMProvider = {
+      name: 'flaky',
+      model: 'flaky',
+      complete: async () => COMPLETION,
+      async *stream() {
+        if (attempts++ === 0) throw new LLMProviderError('busy', true, 503);
+        yield 'ok';
+      },
+    };
+
+    expect(await collectStream(streamLLM(REQUEST, { provider }))).toEqual(['ok']);
+    expect(attempts).toBe(2);
+  });
+
+  it('surfaces a failure after the first chunk instead of retrying', async () => {
+    let attempts = 0;
+    const provider: LLMProvider = {
+      name: 'breaks',
+      model: 'breaks',
+      complete: async () => COMPLETION,
+      async *stream() {
+        attempts++;
+        yield 'partial';
+        throw new LLMProviderError('connection reset', true);
+      },
+    };
+
+    const chunks: string[] = [];
+    await expect(async () => {
+      for await (const chunk of streamLLM(REQUEST, { provider })) chunks.push(chunk);
+    }).rejects.toThrow('connection reset');
+    expect(chunks).toEqual(['partial']);
+    expect(attempts).toBe(1);
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * Provider-agnostic LLM client
+ *
+ * Every LLM call goes through callLLM, streamLLM or completeWithFallback, which add a
+ * per-attempt timeout, retries for transient failures and a fallback text, so
+ * call sites never talk to a vendor API directly. The provider is chosen with
+ * LLM_PROVIDER:
+ * - groq (default): Groq's OpenAI-compatible API, key in GROQ_API_KEY
+ * - openai: any OpenAI-compatible endpoint (LLM_BASE_URL, LLM_API_KEY, LLM_MODEL)
+ * - stub: deterministic canned replies, for tests and offline development
+ */
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: 'text' | 'json';      // json asks the provider for a single JSON object
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  provider: string;
+  model: string;
+  usage: LLMUsage | null;                // null when the provider doesn't report it
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LLMRequest, signal?: AbortSignal): Promise<LLMCompletion>;
+  // Yields the reply in chunks as it is generated; providers without it are streamed as one chunk
+  stream?(request: LLMRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+/**
+ * Error raised by a provider; retryable errors are worth another attempt
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+// Shared call behavior
+export const DEFAULT_TIMEOUT_MS = 10000;
+export const DEFAULT_RETRIES = 1;
+const RETRY_DELAY_MS = 200; // Multiplied by the attempt number
+
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+const GROQ_DEFAULT_MODEL = 'llama-3.3-70b-versatile';
+const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey: string | undefined;
+  model: string;
+}
+
+/**
+ * Chat-completions client for any OpenAI-compatible API (Groq, OpenAI, local servers)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(private readonly config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.model = config.model;
+  }
+
+  private async post(request: LLMRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens ?? 500,
+          temperature: request.temperature ?? 0.7,
+          ...(stream ? { stream: true } : {}),
+          // Groq rejects JSON mode on streamed requests; the prompt still asks for JSON
+          ...(request.responseFormat === 'json' && !stream ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal,
+      });
+    } catch (error) {
+      // Network failures and timeouts are both worth retrying
+      const message = error instanceof Error ? error.message : String(error);
+      throw new LLMProviderError(`${this.name} request failed: ${message}`, true);
+    }
+
+    if (!response.ok) {
+      const retryable = response.status === 429 || response.status >= 500;
+      throw new LLMProviderError(`${this.name} API error: ${response.status}`, retryable, response.status);
+    }
+
+    return response;
+  }
+
+  async complete(request: LLMRequest, signal?: AbortSignal): Promise<LLMCompletion> {
+    const response = await this.post(request, false, signal);
+    const data = await response.json();
+    const usage = data.usage;
+
+    return {
+      content: data.choices?.[0]?.message?.content || '',
+      provider: this.name,
+      model: data.model || this.model,
+      usage: usage
+        ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 }
+        : null,
+    };
+  }
+
+  async *stream(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const response = await this.post(request, true, signal);
+    if (!response.body) {
+      throw new LLMProviderError(`${this.name} returned no stream`, true);
+    }
+
+    // The API streams server-sent events: "data: {json}" lines, ending with "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new LLMProviderError(`${this.name} stream interrupted: ${message}`, true);
+        }
+        if (chunk.done) return;
+
+        buffer += decoder.decode(chunk.value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') return;
+
+          const text = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
+
+/**
+ * Deterministic provider that never leaves the process
+ * Replies are a pure function of the request, so tests and offline runs are repeatable.
+ */
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub';
+  readonly model = 'stub';
+
+  constructor(private readonly respond: (request: LLMRequest) => string = defaultStubReply) {}
+
+  async complete(request: LLMRequest, signal?: AbortSignal): Promise<LLMCompletion> {
+    if (signal?.aborted) {
+      throw new LLMProviderError('stub request aborted', true);
+    }
+
+    const content = this.respond(request);
+    const promptLength = request.messages.reduce((acc, message) => acc + message.content.length, 0);
+
+    return {
+      content,
+      provider: this.name,
+      model: this.model,
+      // Rough 4-characters-per-token estimate, good enough for usage bookkeeping
+      usage: { promptTokens: Math.ceil(promptLength / 4), completionTokens: Math.ceil(content.length / 4) },
+    };
+  }
+
+  async *stream(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const { content } = await this.complete(request, signal);
+    // One chunk per word, keeping the whitespace that follows it
+    for (const word of content.match(/\S+\s*/g) ?? []) {
+      yield word;
+    }
+  }
+}
+
+function defaultStubReply(request: LLMRequest): string {
+  if (request.responseFormat === 'json') {
+    return JSON.stringify({
+      summary: 'You are carrying a lot right now, and noticing it is already a strength.',
+      recommendations: [
+        'Block one hour this week with no work at all.',
+        'Share one honest update with another founder.',
+        'Write down one thing that went well each evening.',
+      ],
+      warningSign: 'Skipping rest because everything feels urgent.',
+    });
+  }
+
+  return [
+    'You are carrying a lot right now, and noticing it is already a strength.',
+    '1. Block one hour this week with no work at all.',
+    '2. Share one honest update with another founder.',
+    '3. Write down one thing that went well each evening.',
+    'Warning sign to watch for: skipping rest because everything feels urgent.',
+  ].join('\n');
+}
+
+/**
+ * Build the provider named by LLM_PROVIDER
+ * @throws Error if the provider name is unknown
+ */
+export function getLLMProvider(env: Record<string, string | undefined> = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || 'groq').toLowerCase();
+
+  switch (name) {
+    case 'groq':
+      return new OpenAICompatibleProvider({
+        name: 'groq',
+        baseUrl: GROQ_BASE_URL,
+        apiKey: env.GROQ_API_KEY,
+        model: env.LLM_MODEL || GROQ_DEFAULT_MODEL,
+      });
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        name: 'openai',
+        baseUrl: env.LLM_BASE_URL || OPENAI_DEFAULT_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        model: env.LLM_MODEL || OPENAI_DEFAULT_MODEL,
+      });
+    case 'stub':
+      return new StubLLMProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+export interface LLMCallOptions {
+  provider?: LLMProvider;                // Defaults to getLLMProvider()
+  timeoutMs?: number;                    // Per attempt
+  retries?: number;                      // Extra attempts after a retryable failure
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Call the configured LLM with a per-attempt timeout and retries
+ * @throws LLMProviderError once every attempt has failed, or on a non-retryable error
+ */
+export async function callLLM(request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMCompletion> {
+  const provider = options.provider ?? getLLMProvider();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return await provider.complete(request, controller.signal);
+    } catch (error) {
+      const retryable = error instanceof LLMProviderError ? error.retryable : false;
+      if (!retryable || attempt >= retries) {
+        throw error;
+      }
+      await delay(RETRY_DELAY_MS * (attempt + 1));
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Stream a reply from the configured LLM
+ * The timeout applies to the wait for each chunk. Failures before the first
+ * chunk are retried like callLLM; once text has been yielded a failure is
+ * thrown to the caller, which has to decide what to do with the partial reply.
+ * @throws LLMProviderError when the stream cannot be started or breaks off
+ */
+export async function* streamLLM(request: LLMRequest, options: LLMCallOptions = {}): AsyncGenerator<string> {
+  const provider = options.provider ?? getLLMProvider();
+  if (!provider.stream) {
+    const completion = await callLLM(request, { ...options, provider });
+    yield completion.content;
+    return;
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    let yielded = false;
+
+    try {
+      for await (const chunk of provider.stream(request, controller.signal)) {
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+        if (chunk) {
+          yielded = true;
+          yield chunk;
+        }
+      }
+      return;
+    } catch (error) {
+      const retryable = error instanceof LLMProviderError ? error.retryable : false;
+      if (yielded || !retryable || attempt >= retries) {
+        throw error;
+      }
+      await delay(RETRY_DELAY_MS * (attempt + 1));
+    } finally {
+      clearTimeout(timeoutId);
+      controller.abort(); // Releases the connection if the caller stopped reading early
+    }
+  }
+}
+
+export interface FallbackOptions extends LLMCallOptions {
+  fallback: string;                      // Returned whenever the call fails
+  minLength?: number;                    // Shorter replies count as failures
+  label?: string;                        // Names the call site in logs
+}
+
+export interface FallbackResult {
+  content: string;                       // The reply, or the fallback text
+  completion: LLMCompletion | null;      // null when the fallback was used
+  provider: string;
+  model: string;
+  latencyMs: number;                     // Wall time across all attempts
+}
+
+/**
+ * Call the configured LLM, falling back on any failure, and report how the call went
+ * Never throws; failures are logged to console.
+ */
+export async function completeWithFallbackResult(request: LLMRequest, options: FallbackOptions): Promise<FallbackResult> {
+  const label = options.label ?? 'LLM';
+  const startedAt = Date.now();
+  let provider: LLMProvider | null = null;
+  const result = (completion: LLMCompletion | null): FallbackResult => ({
+    content: completion ? completion.content : options.fallback,
+    completion,
+    provider: provider?.name ?? 'unconfigured',
+    model: completion?.model ?? provider?.model ?? 'unconfigured',
+    latencyMs: Date.now() - startedAt,
+  });
+
+  try {
+    // Resolved inside the try: an unknown LLM_PROVIDER is a failure like any other
+    provider = options.provider ?? getLLMProvider();
+    const completion = await callLLM(request, { ...options, provider });
+
+    if (completion.content.length < (options.minLength ?? 1)) {
+      console.error(`${label} returned insufficient content`);
+      return result(null);
+    }
+
+    return result(completion);
+  } catch (error) {
+    console.error(`${label} error:`, error);
+    return result(null);
+  }
+}
+
+/**
+ * Call the configured LLM and return its text, or the fallback text on any failure
+ * Never throws; failures are logged to console.
+ */
+export async function completeWithFallback(request: LLMRequest, options: FallbackOptions): Promise<string> {
+  return (await completeWithFallbackResult(request, options)).content;
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  analyzeResponseQuality,
+  sanitizeTimings,
+  qualityMatchWeight,
+  MIN_ANSWER_MS,
+} from './responseQualityService';
+import { QUESTION_BANK_V1, QUESTION_BANK_V3 } from '../utils/questionBanks';
+import { AnswerValue } from '../types/assessment';
+
+const bank = QUESTION_BANK_V3;
+const count = bank.questions.length;
+
+// A varied, careful-looking response: cycles through answers, passes the attention check,
+// and answers every contradictory pair the same way
+function carefulAnswers(): AnswerValue[] {
+  const cycle: AnswerValue[] = ['B', 'C', 'A', 'C', 'D', 'B'];
+  const answers = bank.questions.map((question, index) => question.expectedAnswer ?? cycle[index % cycle.length]);
+  const indexOf = (id: number) => bank.questions.findIndex((question) => question.id === id);
+  for (const [firstId, secondId] of bank.contradictoryPairs ?? []) {
+    const first = bank.questions[indexOf(firstId)];
+    const second = bank.questions[indexOf(secondId)];
+    const mirrored: Record<AnswerValue, AnswerValue> = { A: 'D', B: 'C', C: 'B', D: 'A' };
+    const answer = answers[indexOf(firstId)];
+    answers[indexOf(secondId)] = first.reverseScored === second.reverseScored ? answer : mirrored[answer];
+  }
+  return answers;
+}
+
+const steadyTimings = (ms: number) => Array(count).fill(ms);
+
+describe('analyzeResponseQuality', () => {
+  it('raises no flags for a careful, varied response', () => {
+    const quality = analyzeResponseQuality(carefulAnswers(), bank, steadyTimings(4000));
+
+    expect(quality.flags).toEqual([]);
+    expect(quality.score).toBe(100);
+    expect(quality.level).toBe('good');
+    expect(quality.attentionChecks).toEqual({ passed: 1, total: 1 });
+    expect(quality.contradictions).toEqual({ count: 0, total: 6 });
+  });
+
+  it.each<AnswerValue>(['A', 'D'])('flags straight-lining all %s as poor quality', (answer) => {
+    const quality = analyzeResponseQuality(Array(count).fill(answer), bank);
+
+    expect(quality.flags).toContain('straight_lining');
+    expect(quality.flags).toContain('failed_attention_check');
+    expect(quality.straightLining).toEqual({ longestRun: count, modalShare: 1 });
+    expect(quality.level).toBe('poor');
+  });
+
+  it('flags a failed attention check', () => {
+    const answers = carefulAnswers();
+    const checkIndex = bank.questions.findIndex((question) => question.expectedAnswer);
+    answers[checkIndex] = 'D';
+
+    const quality = analyzeResponseQuality(answers, bank);
+    expect(quality.flags).toEqual(['failed_attention_check']);
+    expect(quality.attentionChecks).toEqual({ passed: 0, total: 1 });
+  });
+
+  it('flags answers at opposite extremes of items that measure the same thing', () => {
+    const answers = carefulAnswers();
+    // Feel isolated (Q29) but also have people to be honest with (Q30, reversed)
+    answers[28] = 'D';
+    answers[29] = 'D';
+    // Keep struggles to myself (Q31) but feel understood (Q32, reversed)
+    answers[30] = 'D';
+    answers[31] = 'D';
+
+    const quality = analyzeResponseQuality(answers, bank);
+    expect(quality.contradictions.count).toBe(2);
+    expect(quality.flags).toContain('contradictory_answers');
+  });
+
+  it('flags speeding when many answers come in under the reading time', () => {
+    const quality = analyzeResponseQuality(carefulAnswers(), bank, steadyTimings(MIN_ANSWER_MS / 3));
+
+    expect(quality.flags).toEqual(['speeding']);
+    expect(quality.timing).toMatchObject({ fastAnswers: count, timedAnswers: count });
+  });
+
+  it('ignores timing when most questions were not timed', () => {
+    const timings: (number | null)[] = Array(count).fill(null);
+    timings[0] = 10;
+
+    const quality = analyzeResponseQuality(carefulAnswers(), bank, timings);
+    expect(quality.timing).toBeNull();
+    expect(quality.flags).not.toContain('speeding');
+  });
+
+  it('works on banks without attention checks or contradictory pairs', () => {
+    const quality = analyzeResponseQuality(Array(25).fill('B'), QUESTION_BANK_V1);
+    expect(quality.attentionChecks).toEqual({ passed: 0, total: 0 });
+    expect(quality.contradictions).toEqual({ count: 0, total: 0 });
+  });
+
+  it('keeps the score within [0, 100] and consistent with the level', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.constantFrom<AnswerValue>('A', 'B', 'C', 'D'), { minLength: count, maxLength: count }),
+        fc.array(fc.option(fc.integer({ min: 0, max: 20000 }), { nil: null }), { minLength: count, maxLength: count }),
+        (answers, timings) => {
+          const quality = analyzeResponseQuality(answers, bank, timings);
+          expect(quality.score).toBeGreaterThanOrEqual(0);
+          expect(quality.score).toBeLessThanOrEqual(100);
+          if (quality.flags.length === 0 && quality.contradictions.count === 0) {
+            expect(quality.score).toBe(100);
+          }
+          expect(quality.level === 'good').toBe(quality.score >= 70);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('sanitizeTimings', () => {
+  it('accepts one non-negative number or null per question', () => {
+    expect(sanitizeTimings([1200, null, 0], 3)).toEqual([1200, null, 0]);
+  });
+
+  it('drops missing or malformed timings', () => {
+    expect(sanitizeTimings(undefined, 3)).toBeNull();
+    expect(sanitizeTimings([1200, 800], 3)).toBeNull();
+    expect(sanitizeTimings([1200, -1, 800], 3)).toBeNull();
+    expect(sanitizeTimings([1200, '800', 800], 3)).toBeNull();
+    expect(sanitizeTimings([1200, Infinity, 800], 3)).toBeNull();
+  });
+});
+
+describe('qualityMatchWeight', () => {
+  it('discounts low-quality profiles and keeps older ones at full weight', () => {
+    expect(qualityMatchWeight(null)).toBe(1);
+    expect(qualityMatchWeight({ level: 'good' })).toBe(1);
+    expect(qualityMatchWeight({ level: 'questionable' })).toBeLessThan(1);
+    expect(qualityMatchWeight({ level: 'poor' })).toBeLessThan(qualityMatchWeight({ level: 'questionable' }));
+  });
+});
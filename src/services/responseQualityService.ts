@@ -0,0 +1,190 @@
+import { AnswerValue, QuestionBank, ResponseQuality, ResponseQualityFlag } from '../types/assessment';
+import { scoreItem } from './assessmentService';
+
+/**
+ * Response-quality analysis for assessment submissions
+ *
+ * Flags low-effort responding: straight-lining, answering too fast to have
+ * read the question, failed attention checks and contradictory answers to
+ * items that measure the same thing. The result is stored with the assessment
+ * so features built on it (e.g. peer matching) can discount unreliable profiles.
+ */
+
+// Straight-lining: one answer dominates, or a long unbroken run of the same answer
+const STRAIGHT_LINE_MODAL_SHARE = 0.85;
+const STRAIGHT_LINE_RUN_SHARE = 0.5;
+
+// Speeding: answers faster than this can't have involved reading the statement
+export const MIN_ANSWER_MS = 1500;
+const SPEEDING_SHARE = 1 / 3;
+// Timings are only judged when most questions were timed (restored progress has gaps)
+const MIN_TIMED_SHARE = 0.5;
+
+// Contradiction: item scores (after reverse scoring) at least this far apart, e.g. A vs C
+const CONTRADICTION_GAP = 67;
+const CONTRADICTION_FLAG_COUNT = 2;
+
+// Score penalties per concern
+const PENALTIES = {
+  straightLining: 35,
+  speeding: 30,
+  failedAttentionCheck: 35,
+  contradiction: 10,
+};
+
+/**
+ * Keep only a well-formed timing array: one non-negative number (or null) per question
+ * @returns The timings, or null if they are missing or malformed
+ */
+export function sanitizeTimings(timings: unknown, questionCount: number): (number | null)[] | null {
+  if (!Array.isArray(timings) || timings.length !== questionCount) {
+    return null;
+  }
+  const valid = timings.every(
+    (value) => value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0)
+  );
+  return valid ? (timings as (number | null)[]) : null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function analyzeStraightLining(answers: AnswerValue[]): ResponseQuality['straightLining'] {
+  const counts: Partial<Record<AnswerValue, number>> = {};
+  let longestRun = 0;
+  let run = 0;
+
+  answers.forEach((answer, index) => {
+    counts[answer] = (counts[answer] ?? 0) + 1;
+    run = index > 0 && answers[index - 1] === answer ? run + 1 : 1;
+    longestRun = Math.max(longestRun, run);
+  });
+
+  const modalCount = Math.max(...Object.values(counts));
+  return { longestRun, modalShare: Math.round((modalCount / answers.length) * 100) / 100 };
+}
+
+function analyzeAttentionChecks(answers: AnswerValue[], bank: QuestionBank): ResponseQuality['attentionChecks'] {
+  let passed = 0;
+  let total = 0;
+  bank.questions.forEach((question, index) => {
+    if (question.expectedAnswer) {
+      total++;
+      if (answers[index] === question.expectedAnswer) passed++;
+    }
+  });
+  return { passed, total };
+}
+
+function analyzeContradictions(answers: AnswerValue[], bank: QuestionBank): ResponseQuality['contradictions'] {
+  const pairs = bank.contradictoryPairs ?? [];
+  const indexById = new Map(bank.questions.map((question, index) => [question.id, index]));
+
+  let count = 0;
+  for (const [firstId, secondId] of pairs) {
+    const first = indexById.get(firstId);
+    const second = indexById.get(secondId);
+    if (first === undefined || second === undefined) continue;
+
+    const gap = Math.abs(
+      scoreItem(bank.questions[first], answers[first]) - scoreItem(bank.questions[second], answers[second])
+    );
+    if (gap >= CONTRADICTION_GAP) count++;
+  }
+  return { count, total: pairs.length };
+}
+
+function analyzeTiming(timings: (number | null)[] | null): ResponseQuality['timing'] {
+  if (!timings) return null;
+
+  const timed = timings.filter((value): value is number => value !== null);
+  if (timed.length === 0 || timed.length < timings.length * MIN_TIMED_SHARE) {
+    return null;
+  }
+
+  return {
+    medianMs: Math.round(median(timed)),
+    fastAnswers: timed.filter((value) => value < MIN_ANSWER_MS).length,
+    timedAnswers: timed.length,
+  };
+}
+
+/**
+ * Classify a quality score
+ */
+function qualityLevel(score: number): ResponseQuality['level'] {
+  if (score >= 70) return 'good';
+  if (score >= 40) return 'questionable';
+  return 'poor';
+}
+
+/**
+ * Analyze how much effort a submission appears to reflect
+ * @param answers - Validated answers, one per bank question
+ * @param bank - Question bank the answers were given for
+ * @param timings - Optional milliseconds spent per question (see sanitizeTimings)
+ * @returns ResponseQuality with an overall score, level and the flags raised
+ */
+export function analyzeResponseQuality(
+  answers: AnswerValue[],
+  bank: QuestionBank,
+  timings: (number | null)[] | null = null
+): ResponseQuality {
+  const straightLining = analyzeStraightLining(answers);
+  const attentionChecks = analyzeAttentionChecks(answers, bank);
+  const contradictions = analyzeContradictions(answers, bank);
+  const timing = analyzeTiming(timings);
+
+  const flags: ResponseQualityFlag[] = [];
+  let score = 100;
+
+  if (
+    straightLining.modalShare >= STRAIGHT_LINE_MODAL_SHARE ||
+    straightLining.longestRun >= Math.ceil(answers.length * STRAIGHT_LINE_RUN_SHARE)
+  ) {
+    flags.push('straight_lining');
+    score -= PENALTIES.straightLining;
+  }
+
+  if (timing && (timing.fastAnswers >= timing.timedAnswers * SPEEDING_SHARE || timing.medianMs < MIN_ANSWER_MS)) {
+    flags.push('speeding');
+    score -= PENALTIES.speeding;
+  }
+
+  const failedChecks = attentionChecks.total - attentionChecks.passed;
+  if (failedChecks > 0) {
+    flags.push('failed_attention_check');
+    score -= PENALTIES.failedAttentionCheck * failedChecks;
+  }
+
+  if (contradictions.count >= CONTRADICTION_FLAG_COUNT) {
+    flags.push('contradictory_answers');
+  }
+  score -= PENALTIES.contradiction * contradictions.count;
+
+  score = Math.max(0, score);
+
+  return {
+    score,
+    level: qualityLevel(score),
+    flags,
+    straightLining,
+    attentionChecks,
+    contradictions,
+    timing,
+  };
+}
+
+/**
+ * Weight applied to a profile's match score in peer matching
+ * Older assessments have no quality data and count fully.
+ */
+export function qualityMatchWeight(quality: Pick<ResponseQuality, 'level'> | null | undefined): number {
+  if (!quality) return 1;
+  if (quality.level === 'poor') return 0.4;
+  if (quality.level === 'questionable') return 0.75;
+  return 1;
+}
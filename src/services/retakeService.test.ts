@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import type { UserProfile } from '../db/schema';
+
+// Minimal query-builder stand-in: selects return the stored profile, writes are recorded
+const state = vi.hoisted(() => ({
+  profile: null as unknown,
+  updates: [] as Record<string, unknown>[],
+  inserts: [] as Record<string, unknown>[],
+}));
+
+vi.mock('../db/connection', () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          limit: async () => (state.profile ? [state.profile] : []),
+        }),
+      }),
+    }),
+    update: () => ({
+      set: (values: Record<string, unknown>) => ({
+        where: async () => {
+          state.updates.push(values);
+        },
+      }),
+    }),
+    insert: () => ({
+      values: async (values: Record<string, unknown>) => {
+        state.inserts.push(values);
+      },
+    }),
+  },
+}));
+
+vi.mock('./burnoutService', () => ({
+  getLatestScore: vi.fn(async () => null),
+}));
+
+import {
+  getRetakeStatus,
+  recordRiskLevel,
+  scheduledRetakeDate,
+  shouldRetakeEarly,
+  RETAKE_INTERVAL_DAYS,
+} from './retakeService';
+import type { RiskLevel } from './burnoutService';
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+function makeProfile(overrides: Partial<UserProfile> = {}): UserProfile {
+  return {
+    id: 'id-anonymous-abc',
+    odId: 'anonymous-abc',
+    isAnonymous: true,
+    pseudonym: null,
+    passwordHash: null,
+    sessionIssuedAt: null,
+    retakeDueAt: new Date('2026-04-01T12:00:00Z'),
+    retakeDueReason: 'scheduled',
+    retakeBaselineRisk: 'low',
+    retakeReminderSentAt: null,
+    shareNotesWithAI: true,
+    crisisRegion: null,
+    createdAt: new Date('2026-01-01T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+const riskLevelArb = fc.constantFrom<RiskLevel>('low', 'caution', 'high', 'critical');
+
+describe('scheduledRetakeDate', () => {
+  it(`falls ${RETAKE_INTERVAL_DAYS} days after the assessment`, () => {
+    expect(scheduledRetakeDate(new Date('2026-03-01T08:30:00Z')).toISOString()).toBe('2026-03-31T08:30:00.000Z');
+  });
+});
+
+describe('shouldRetakeEarly', () => {
+  it('triggers on a rise of two or more levels', () => {
+    expect(shouldRetakeEarly('low', 'high')).toBe(true);
+    expect(shouldRetakeEarly('low', 'critical')).toBe(true);
+    expect(shouldRetakeEarly('caution', 'critical')).toBe(true);
+  });
+
+  it('ignores single-level rises and any fall', () => {
+    fc.assert(
+      fc.property(riskLevelArb, riskLevelArb, (baseline, current) => {
+        const order = ['low', 'caution', 'high', 'critical'];
+        const rise = order.indexOf(current) - order.indexOf(baseline);
+        expect(shouldRetakeEarly(baseline, current)).toBe(rise >= 2);
+      })
+    );
+  });
+});
+
+describe('getRetakeStatus', () => {
+  it('returns null before the first assessment', () => {
+    expect(getRetakeStatus(makeProfile({ retakeDueAt: null }), NOW)).toBeNull();
+  });
+
+  it('reports a future retake as not yet due', () => {
+    expect(getRetakeStatus(makeProfile(), NOW)).toEqual({
+      dueAt: '2026-04-01T12:00:00.000Z',
+      reason: 'scheduled',
+      isDue: false,
+    });
+  });
+
+  it('reports a retake as due from its due date on', () => {
+    const profile = makeProfile({ retakeDueAt: NOW, retakeDueReason: 'risk_increase' });
+    expect(getRetakeStatus(profile, NOW)).toMatchObject({ reason: 'risk_increase', isDue: true });
+  });
+});
+
+describe('recordRiskLevel', () => {
+  beforeEach(() => {
+    state.profile = makeProfile();
+    state.updates = [];
+    state.inserts = [];
+  });
+
+  it('does nothing before the first assessment', async () => {
+    state.profile = makeProfile({ retakeDueAt: null, retakeBaselineRisk: null });
+
+    await recordRiskLevel('anonymous-abc', 'critical', NOW);
+
+    expect(state.updates).toEqual([]);
+    expect(state.inserts).toEqual([]);
+  });
+
+  it('adopts the first score after an assessment as the baseline', async () => {
+    state.profile = makeProfile({ retakeBaselineRisk: null });
+
+    await recordRiskLevel('anonymous-abc', 'caution', NOW);
+
+    expect(state.updates).toEqual([{ retakeBaselineRisk: 'caution' }]);
+    expect(state.inserts).toEqual([]);
+  });
+
+  it('keeps the schedule when risk rises by one level', async () => {
+    await recordRiskLevel('anonymous-abc', 'caution', NOW);
+
+    expect(state.updates).toEqual([]);
+    expect(state.inserts).toEqual([]);
+  });
+
+  it('brings the retake forward and notifies once risk jumps two levels', async () => {
+    await recordRiskLevel('anonymous-abc', 'high', NOW);
+
+    expect(state.updates).toEqual([
+      { retakeDueAt: NOW, retakeDueReason: 'risk_increase' },
+      { retakeReminderSentAt: NOW },
+    ]);
+    expect(state.inserts).toHaveLength(1);
+    expect(state.inserts[0]).toMatchObject({ userId: 'anonymous-abc', type: 'system' });
+  });
+
+  it('does not notify twice for the same retake', async () => {
+    state.profile = makeProfile({ retakeDueAt: NOW, retakeReminderSentAt: NOW });
+
+    await recordRiskLevel('anonymous-abc', 'critical', new Date(NOW.getTime() + 60_000));
+
+    expect(state.inserts).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { eq, and, lte, isNull } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { notifications, userProfiles, type UserProfile } from '../db/schema';
+import { getLatestScore, type RiskLevel } from './burnoutService';
+
+/**
+ * Assessment retake scheduling
+ *
+ * Profiles feed peer matching and the burnout score, so they shouldn't go
+ * stale. A retake is due RETAKE_INTERVAL_DAYS after each assessment, or as
+ * soon as burnout risk climbs RISK_LEVEL_JUMP levels above where it was when
+ * the assessment was taken. Once a retake is due the user gets one in-app
+ * `system` notification; taking the assessment schedules the next one.
+ */
+
+export type RetakeReason = 'scheduled' | 'risk_increase';
+
+export interface RetakeStatus {
+  dueAt: string;                         // ISO timestamp
+  reason: RetakeReason;
+  isDue: boolean;
+}
+
+export const RETAKE_INTERVAL_DAYS = 30;    // Also in the backfill in migration 0008
+export const RISK_LEVEL_JUMP = 2;
+
+const RISK_LEVEL_ORDER: RiskLevel[] = ['low', 'caution', 'high', 'critical'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const REMINDER_TEXT: Record<RetakeReason, { title: string; message: string }> = {
+  scheduled: {
+    title: 'Time to retake your assessment',
+    message: `It's been ${RETAKE_INTERVAL_DAYS} days since your last assessment. Retake it to keep your profile, peer matches and burnout insights up to date.`,
+  },
+  risk_increase: {
+    title: 'Your check-ins have changed a lot',
+    message: 'Your burnout risk has risen since your last assessment. Retaking it now helps us tailor your insights and actions to where you are today.',
+  },
+};
+
+/**
+ * Date a scheduled retake falls due
+ */
+export function scheduledRetakeDate(takenAt: Date): Date {
+  return new Date(takenAt.getTime() + RETAKE_INTERVAL_DAYS * MS_PER_DAY);
+}
+
+/**
+ * Whether risk has climbed far enough above the baseline to bring the retake forward
+ */
+export function shouldRetakeEarly(baseline: RiskLevel, current: RiskLevel): boolean {
+  return RISK_LEVEL_ORDER.indexOf(current) - RISK_LEVEL_ORDER.indexOf(baseline) >= RISK_LEVEL_JUMP;
+}
+
+/**
+ * Current retake status for a profile
+ * @returns The status, or null before the first assessment
+ */
+export function getRetakeStatus(
+  profile: Pick<UserProfile, 'retakeDueAt' | 'retakeDueReason'>,
+  now: Date = new Date()
+): RetakeStatus | null {
+  if (!profile.retakeDueAt) return null;
+
+  return {
+    dueAt: profile.retakeDueAt.toISOString(),
+    reason: profile.retakeDueReason === 'risk_increase' ? 'risk_increase' : 'scheduled',
+    isDue: profile.retakeDueAt.getTime() <= now.getTime(),
+  };
+}
+
+/**
+ * Schedule the next retake after an assessment is taken
+ * The latest burnout risk becomes the baseline later scores are compared with.
+ */
+export async function scheduleRetake(userId: string, takenAt: Date = new Date()): Promise<void> {
+  try {
+    const latestScore = await getLatestScore(userId);
+
+    await db
+      .update(userProfiles)
+      .set({
+        retakeDueAt: scheduledRetakeDate(takenAt),
+        retakeDueReason: 'scheduled',
+        retakeBaselineRisk: latestScore?.riskLevel ?? null,
+        retakeReminderSentAt: null,
+      })
+      .where(eq(userProfiles.odId, userId));
+  } catch (error) {
+    console.error('Database error in scheduleRetake:', error);
+    throw new Error('Failed to schedule assessment retake');
+  }
+}
+
+/**
+ * Send the retake notification if the retake is due and the user hasn't been reminded yet
+ * @returns True if a notification was sent
+ */
+async function remindIfDue(profile: UserProfile, now: Date): Promise<boolean> {
+  const status = getRetakeStatus(profile, now);
+  if (!status?.isDue || profile.retakeReminderSentAt) {
+    return false;
+  }
+
+  const { title, message } = REMINDER_TEXT[status.reason];
+  await db.insert(notifications).values({ userId: profile.odId, type: 'system', title, message });
+  await db
+    .update(userProfiles)
+    .set({ retakeReminderSentAt: now })
+    .where(eq(userProfiles.odId, profile.odId));
+
+  return true;
+}
+
+/**
+ * Compare a new burnout risk level with the assessment baseline
+ * Brings the retake forward when risk has jumped, and reminds the user if it is now due.
+ * Scores recorded before any baseline exists become the baseline.
+ */
+export async function recordRiskLevel(
+  userId: string,
+  riskLevel: RiskLevel,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    const results = await db
+      .select()
+      .from(userProfiles)
+      .where(eq(userProfiles.odId, userId))
+      .limit(1);
+
+    const profile = results[0];
+    if (!profile?.retakeDueAt) {
+      return; // No assessment yet, nothing to retake
+    }
+
+    if (!profile.retakeBaselineRisk) {
+      await db
+        .update(userProfiles)
+        .set({ retakeBaselineRisk: riskLevel })
+        .where(eq(userProfiles.odId, userId));
+      return;
+    }
+
+    if (profile.retakeDueAt > now && shouldRetakeEarly(profile.retakeBaselineRisk, riskLevel)) {
+      await db
+        .update(userProfiles)
+        .set({ retakeDueAt: now, retakeDueReason: 'risk_increase' })
+        .where(eq(userProfiles.odId, userId));
+      profile.retakeDueAt = now;
+      profile.retakeDueReason = 'risk_increase';
+    }
+
+    await remindIfDue(profile, now);
+  } catch (error) {
+    console.error('Database error in recordRiskLevel:', error);
+    throw new Error('Failed to update assessment retake schedule');
+  }
+}
+
+/**
+ * Remind every user whose retake has fallen due
+ * Meant to run from a daily cron, since scheduled retakes don't depend on any user activity.
+ * @returns Number of notifications sent
+ */
+export async function sendDueRetakeReminders(now: Date = new Date()): Promise<number> {
+  try {
+    const dueProfiles = await db
+      .select()
+      .from(userProfiles)
+      .where(and(lte(userProfiles.retakeDueAt, now), isNull(userProfiles.retakeReminderSentAt)));
+
+    let sent = 0;
+    for (const profile of dueProfiles) {
+      if (await remindIfDue(profile, now)) sent++;
+    }
+    return sent;
+  } catch (error) {
+    console.error('Database error in sendDueRetakeReminders:', error);
+    throw new Error('Failed to send retake reminders');
+  }
+}
@@ -10,12 +10,22 @@ import {
   assessments,
   journalEntries,
   burnoutScores,
+  burnoutEscalations,
   actionItems,
   forumPosts,
   forumReplies,
   peerMatches,
   notifications,
+  userDevices,
+  transferCodes,
+  insightGenerations,
+  reflectionDigests,
+  coachConversations,
+  coachMessages,
 } from '../db/schema';
+import type { AIPreferences, CrisisRegion, CrisisResourcesResponse } from '../types/assessment';
+import { getCrisisResources, parseCrisisRegion, resolveCrisisRegion } from '../utils/crisisResources';
+import { findClaimedProfileByPseudonym } from './databaseService';
 
 // Constants
 const DATA_RETENTION_DAYS = 365; // 1 year
@@ -60,7 +70,7 @@ export async function regeneratePseudonymWithLimit(userId: string): Promise<{
   error?: string;
   nextAvailableDate?: string;
 }> {
-  const newPseudonym = generatePseudonym();
+  let newPseudonym = generatePseudonym();
 
   // Check if user exists
   const user = await db
@@ -77,6 +87,13 @@ export async function regeneratePseudonymWithLimit(userId: string): Promise<{
       isAnonymous: true,
     });
   } else {
+    // Claimed profiles log in by pseudonym, so it must stay unique among them
+    if (!user[0].isAnonymous) {
+      while (await findClaimedProfileByPseudonym(newPseudonym)) {
+        newPseudonym = generatePseudonym();
+      }
+    }
+
     // Update existing user
     await db
       .update(userProfiles)
@@ -90,6 +107,107 @@ export async function regeneratePseudonymWithLimit(userId: string): Promise<{
   };
 }
 
+/**
+ * Get the user's AI privacy preferences
+ * Users without a profile get the defaults.
+ */
+export async function getAIPreferences(userId: string): Promise<AIPreferences> {
+  try {
+    const [profile] = await db
+      .select({ shareNotesWithAI: userProfiles.shareNotesWithAI })
+      .from(userProfiles)
+      .where(eq(userProfiles.odId, userId))
+      .limit(1);
+
+    return { shareNotesWithAI: profile?.shareNotesWithAI ?? true };
+  } catch (error) {
+    console.error('Database error in getAIPreferences:', error);
+    throw new Error('Failed to get AI preferences');
+  }
+}
+
+/**
+ * Update the user's AI privacy preferences
+ */
+export async function updateAIPreferences(userId: string, preferences: AIPreferences): Promise<AIPreferences> {
+  try {
+    await db
+      .update(userProfiles)
+      .set({ shareNotesWithAI: preferences.shareNotesWithAI })
+      .where(eq(userProfiles.odId, userId));
+
+    return preferences;
+  } catch (error) {
+    console.error('Database error in updateAIPreferences:', error);
+    throw new Error('Failed to update AI preferences');
+  }
+}
+
+async function getCrisisRegionSetting(userId: string): Promise<CrisisRegion | null> {
+  const [profile] = await db
+    .select({ crisisRegion: userProfiles.crisisRegion })
+    .from(userProfiles)
+    .where(eq(userProfiles.odId, userId))
+    .limit(1);
+
+  return parseCrisisRegion(profile?.crisisRegion ?? null);
+}
+
+/**
+ * The region whose crisis resources the user sees
+ * Never throws: if the setting can't be read, the browser language decides,
+ * so a database error never holds crisis resources back.
+ * @param acceptLanguage - The request's Accept-Language header
+ */
+export async function getCrisisRegion(userId: string, acceptLanguage: string | null): Promise<CrisisRegion> {
+  let setting: CrisisRegion | null = null;
+  try {
+    setting = await getCrisisRegionSetting(userId);
+  } catch (error) {
+    console.error('Database error in getCrisisRegion:', error);
+  }
+  return resolveCrisisRegion(setting, acceptLanguage);
+}
+
+/**
+ * Get the user's crisis region setting and the resources it resolves to
+ * @param acceptLanguage - The request's Accept-Language header
+ */
+export async function getCrisisResourcesSetting(
+  userId: string,
+  acceptLanguage: string | null
+): Promise<CrisisResourcesResponse> {
+  try {
+    const setting = await getCrisisRegionSetting(userId);
+    return { setting, resources: getCrisisResources(resolveCrisisRegion(setting, acceptLanguage)) };
+  } catch (error) {
+    console.error('Database error in getCrisisResourcesSetting:', error);
+    throw new Error('Failed to get crisis region');
+  }
+}
+
+/**
+ * Update the user's crisis region setting
+ * @param region - The region, or null to follow the browser language
+ */
+export async function updateCrisisRegion(
+  userId: string,
+  region: CrisisRegion | null,
+  acceptLanguage: string | null
+): Promise<CrisisResourcesResponse> {
+  try {
+    await db
+      .update(userProfiles)
+      .set({ crisisRegion: region })
+      .where(eq(userProfiles.odId, userId));
+
+    return { setting: region, resources: getCrisisResources(resolveCrisisRegion(region, acceptLanguage)) };
+  } catch (error) {
+    console.error('Database error in updateCrisisRegion:', error);
+    throw new Error('Failed to update crisis region');
+  }
+}
+
 /**
  * Delete all user data (GDPR compliance)
  * Anonymizes forum posts/replies instead of deleting them
@@ -103,8 +221,10 @@ export async function deleteAllUserData(userId: string): Promise<{
     actionItems: number;
     peerMatches: number;
     notifications: number;
+    coachMessages: number;
     postsAnonymized: number;
     repliesAnonymized: number;
+    devices: number;
   };
 }> {
   const deletedCounts = {
@@ -114,8 +234,10 @@ export async function deleteAllUserData(userId: string): Promise<{
     actionItems: 0,
     peerMatches: 0,
     notifications: 0,
+    coachMessages: 0,
     postsAnonymized: 0,
     repliesAnonymized: 0,
+    devices: 0,
   };
 
   try {
@@ -126,6 +248,11 @@ export async function deleteAllUserData(userId: string): Promise<{
       .returning();
     deletedCounts.assessments = deletedAssessments.length;
 
+    // Delete the usage records of insights generated for them
+    await db
+      .delete(insightGenerations)
+      .where(eq(insightGenerations.userId, userId));
+
     // Delete journal entries
     const deletedJournals = await db
       .delete(journalEntries)
@@ -133,6 +260,11 @@ export async function deleteAllUserData(userId: string): Promise<{
       .returning();
     deletedCounts.journalEntries = deletedJournals.length;
 
+    // Delete the weekly reflections written from them
+    await db
+      .delete(reflectionDigests)
+      .where(eq(reflectionDigests.userId, userId));
+
     // Delete burnout scores
     const deletedBurnout = await db
       .delete(burnoutScores)
@@ -140,6 +272,11 @@ export async function deleteAllUserData(userId: string): Promise<{
       .returning();
     deletedCounts.burnoutScores = deletedBurnout.length;
 
+    // Delete the escalations raised from them
+    await db
+      .delete(burnoutEscalations)
+      .where(eq(burnoutEscalations.userId, userId));
+
     // Delete action items
     const deletedActions = await db
       .delete(actionItems)
@@ -161,6 +298,17 @@ export async function deleteAllUserData(userId: string): Promise<{
       .returning();
     deletedCounts.notifications = deletedNotifs.length;
 
+    // Delete coach conversations
+    const deletedCoachMessages = await db
+      .delete(coachMessages)
+      .where(eq(coachMessages.userId, userId))
+      .returning();
+    deletedCounts.coachMessages = deletedCoachMessages.length;
+
+    await db
+      .delete(coachConversations)
+      .where(eq(coachConversations.userId, userId));
+
     // Anonymize forum posts (keep content, remove user link)
     const anonymizedPosts = await db
       .update(forumPosts)
@@ -185,6 +333,17 @@ export async function deleteAllUserData(userId: string): Promise<{
       .returning();
     deletedCounts.repliesAnonymized = anonymizedReplies.length;
 
+    // Delete linked devices and transfer codes
+    const deletedDevices = await db
+      .delete(userDevices)
+      .where(eq(userDevices.userId, userId))
+      .returning();
+    deletedCounts.devices = deletedDevices.length;
+
+    await db
+      .delete(transferCodes)
+      .where(eq(transferCodes.userId, userId));
+
     // Delete user profile
     await db
       .delete(userProfiles)
@@ -204,8 +363,11 @@ export async function exportUserData(userId: string): Promise<{
   profile: unknown;
   assessments: unknown[];
   journalEntries: unknown[];
+  reflectionDigests: unknown[];
   burnoutScores: unknown[];
+  burnoutEscalations: unknown[];
   actionItems: unknown[];
+  coachMessages: unknown[];
   forumPosts: unknown[];
   forumReplies: unknown[];
   exportedAt: string;
@@ -226,16 +388,31 @@ export async function exportUserData(userId: string): Promise<{
     .from(journalEntries)
     .where(eq(journalEntries.userId, userId));
 
+  const userDigests = await db
+    .select()
+    .from(reflectionDigests)
+    .where(eq(reflectionDigests.userId, userId));
+
   const userBurnout = await db
     .select()
     .from(burnoutScores)
     .where(eq(burnoutScores.userId, userId));
 
+  const userEscalations = await db
+    .select()
+    .from(burnoutEscalations)
+    .where(eq(burnoutEscalations.userId, userId));
+
   const userActions = await db
     .select()
     .from(actionItems)
     .where(eq(actionItems.userId, userId));
 
+  const userCoachMessages = await db
+    .select()
+    .from(coachMessages)
+    .where(eq(coachMessages.userId, userId));
+
   const userPosts = await db
     .select()
     .from(forumPosts)
@@ -246,12 +423,18 @@ export async function exportUserData(userId: string): Promise<{
     .from(forumReplies)
     .where(eq(forumReplies.userId, userId));
 
+  // Never export the passphrase hash
+  const exportedProfile = profile ? { ...profile, passwordHash: undefined } : null;
+
   return {
-    profile: profile || null,
+    profile: exportedProfile,
     assessments: userAssessments,
     journalEntries: userJournals,
+    reflectionDigests: userDigests,
     burnoutScores: userBurnout,
+    burnoutEscalations: userEscalations,
     actionItems: userActions,
+    coachMessages: userCoachMessages,
     forumPosts: userPosts,
     forumReplies: userReplies,
     exportedAt: new Date().toISOString(),
@@ -291,6 +474,11 @@ export async function cleanupOldData(): Promise<{
       .returning();
     deletedCounts.deletedBurnoutScores = deletedBurnout.length;
 
+    // Delete old escalations along with the scores they were raised from
+    await db
+      .delete(burnoutEscalations)
+      .where(lt(burnoutEscalations.createdAt, cutoffDate));
+
     // Delete old action items
     const deletedActions = await db
       .delete(actionItems)
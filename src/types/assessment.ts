@@ -22,13 +22,27 @@ export interface PsychologicalScores {
   identityFusion: number;      // Q10-13 average (0-100)
   fearOfRejection: number;     // Q14-18 average (0-100)
   riskTolerance: number;       // Q19-21 average (0-100)
-  motivationType: MotivationType; // Q22-24 comparison
-  isolationLevel: number;      // Q25 (0-100)
+  motivationType: MotivationType; // Intrinsic vs extrinsic subscale comparison
+  motivationScore?: number;    // 0 = fully extrinsic, 50 = balanced, 100 = fully intrinsic (absent on older results)
+  isolationLevel: number;      // Isolation subscale average (0-100)
+}
+
+// How strongly a profile fits one archetype (0-100, 100 = meets all its conditions)
+export interface ArchetypeAffinity {
+  name: ArchetypeName;
+  affinity: number;
+}
+
+// Primary archetype plus the next-closest fit, for profiles near rule boundaries
+export interface ArchetypeBlend {
+  primary: ArchetypeName;
+  secondary: ArchetypeName | null;   // null when no other archetype is close
+  affinities: ArchetypeAffinity[];   // Every archetype, strongest first
 }
 
 // Archetype result
 export interface ArchetypeResult {
-  name: ArchetypeName;
+  name: ArchetypeName;      // Primary archetype
   description: string;
   traits: string[];
   strength: string;
@@ -36,6 +50,18 @@ export interface ArchetypeResult {
   recommendation: string;
   isUrgent: boolean;        // true for Burning Out
   encouragement?: string;   // for Growth Seeker
+  blend?: ArchetypeBlend;   // Set on computed results, absent on the static definitions
+}
+
+// Why an archetype matched, and how close the next-best archetype came
+export interface ArchetypeEvaluation {
+  archetype: ArchetypeName;
+  reasons: string[];          // Conditions that matched, with the scores behind them
+  runnerUp: {
+    archetype: ArchetypeName;
+    margin: number;           // Score points its unmet conditions are short by (0 = also matched)
+    unmet: string[];
+  } | null;
 }
 
 // Quiz option structure
@@ -44,11 +70,28 @@ export interface QuizOption {
   label: string;
 }
 
+// Numeric score dimensions that quiz items average into
+export type ScoredDimension =
+  | 'imposterSyndrome'
+  | 'founderDoubt'
+  | 'identityFusion'
+  | 'fearOfRejection'
+  | 'riskTolerance'
+  | 'isolationLevel';
+
+// What a quiz item measures: a scored dimension, one side of the motivation comparison,
+// or an unscored attention check
+export type QuestionKey = ScoredDimension | 'motivationIntrinsic' | 'motivationExtrinsic' | 'attentionCheck';
+
 // Quiz question structure
 export interface QuizQuestion {
   id: number;
-  dimension: string;
+  dimension: string;   // Display label
+  key: QuestionKey;    // Scoring target
   text: string;
+  reverseScored?: boolean; // Worded the other way round: A = 100, D = 0
+  weight?: number;         // Relative weight within its dimension (default 1)
+  expectedAnswer?: AnswerValue; // Attention checks: the answer the item asks for
   options: {
     A: string;
     B: string;
@@ -57,9 +100,46 @@ export interface QuizQuestion {
   };
 }
 
+// Versioned set of quiz questions; answers are scored against the bank they were given for
+export interface QuestionBank {
+  version: string;
+  questions: QuizQuestion[];
+  contradictoryPairs?: Array<[number, number]>; // Question ids that measure the same thing
+}
+
+// Response-quality concerns raised for a submission
+export type ResponseQualityFlag =
+  | 'straight_lining'
+  | 'speeding'
+  | 'failed_attention_check'
+  | 'contradictory_answers';
+
+// How much effort a submission appears to reflect
+export interface ResponseQuality {
+  score: number;                         // 0-100, 100 = no concerns
+  level: 'good' | 'questionable' | 'poor';
+  flags: ResponseQualityFlag[];
+  straightLining: { longestRun: number; modalShare: number };
+  attentionChecks: { passed: number; total: number };
+  contradictions: { count: number; total: number };
+  timing: { medianMs: number; fastAnswers: number; timedAnswers: number } | null; // null without timings
+}
+
+// Internal consistency of one respondent's answers within a multi-item dimension
+export interface DimensionReliability {
+  itemCount: number;
+  consistency: number;                   // 0-1, 1 = every item answered alike after reverse scoring
+  level: 'high' | 'moderate' | 'low';
+}
+
+// Reliability per dimension; single-item dimensions are omitted
+export type AssessmentReliability = Partial<Record<QuestionKey, DimensionReliability>>;
+
 // Assessment submission request
 export interface AssessmentSubmitRequest {
   answers: AnswerValue[];
+  questionBankVersion?: string; // Defaults to the current bank
+  answerTimings?: (number | null)[]; // Milliseconds spent on each question, null if unknown
 }
 
 // Assessment submission response
@@ -67,15 +147,287 @@ export interface AssessmentSubmitResponse {
   scores: PsychologicalScores;
   archetype: ArchetypeResult;
   recommendations: string[];
+  questionBankVersion: string;
+  reliability: AssessmentReliability;
+  quality: ResponseQuality;
+  archetypeExplanation: ArchetypeEvaluation;
+  assessmentId: string | null;           // null if the assessment couldn't be saved
+}
+
+// Scores compared between retakes
+export type ComparedDimension = ScoredDimension | 'motivationScore';
+
+// How one score moved between two assessments
+export interface DimensionChange {
+  dimension: ComparedDimension;
+  from: number;
+  to: number;
+  delta: number;                         // to - from
+  zScore: number;                        // delta / standard error of the difference
+  significant: boolean;                  // Larger than measurement noise at the 95% level
+}
+
+// Dimension-by-dimension comparison of two assessments
+export interface AssessmentDiff {
+  fromId: string;
+  toId: string;
+  daysBetween: number;
+  changes: DimensionChange[];
+  archetypeChanged: boolean;
+  motivationTypeChanged: boolean;
+}
+
+// A retake that landed on a different archetype than the one before it
+export interface ArchetypeTransition {
+  assessmentId: string;
+  at: string;                            // ISO timestamp of the retake
+  from: ArchetypeName;
+  to: ArchetypeName;
+}
+
+// Journal averages over the period an assessment was the latest one
+export interface PeriodJournalAverages {
+  entryCount: number;
+  moodAvg: number | null;                // null when no entries were logged
+  energyAvg: number | null;
+  stressAvg: number | null;
+}
+
+// One assessment in a user's history
+export interface AssessmentHistoryEntry {
+  id: string;
+  takenAt: string;                       // ISO timestamp
+  periodEnd: string | null;              // When the next retake was taken, null for the latest
+  questionBankVersion: string;
+  archetype: ArchetypeName;
+  scores: PsychologicalScores;
+  qualityLevel: ResponseQuality['level'] | null;
+  journal: PeriodJournalAverages;
+}
+
+// Assessment history response
+export interface AssessmentHistoryResponse {
+  assessments: AssessmentHistoryEntry[]; // Oldest first
+  transitions: ArchetypeTransition[];
+  diff: AssessmentDiff | null;           // null until there are two assessments
+}
+
+// Crisis hotline shown alongside high-risk content
+export interface CrisisHotline {
+  name: string;
+  number: string;
+  available: string;
+}
+
+// Region whose crisis lines are shown; INTL points to international directories
+export type CrisisRegion =
+  | 'US' | 'CA' | 'GB' | 'IE' | 'AU' | 'NZ' | 'IN' | 'FR' | 'DE' | 'ES' | 'BR' | 'NL' | 'INTL';
+
+// Directory of helplines worldwide, for anyone the listed lines don't cover
+export interface CrisisDirectory {
+  name: string;
+  url: string;
+}
+
+export interface CrisisResources {
+  region: CrisisRegion;
+  hotlines: CrisisHotline[];
+  directory: CrisisDirectory;
+  message: string;
+}
+
+// The user's crisis region setting and the resources shown to them
+export interface CrisisResourcesResponse {
+  setting: CrisisRegion | null;          // null follows the browser language
+  resources: CrisisResources;
+}
+
+// AI insights in the JSON shape the insights prompt asks for
+export interface StructuredInsights {
+  summary: string;                       // 2-3 sentence assessment
+  recommendations: string[];             // Up to 3 actionable recommendations
+  warningSign: string;
 }
 
+// Insights as stored on an assessment: structured, or the raw text when the reply didn't parse
+export type AssessmentInsights = StructuredInsights | string;
+
 // Groq insights request
 export interface GroqInsightsRequest {
   scores: PsychologicalScores;
   archetype: ArchetypeName;
+  assessmentId?: string;                 // Caches the insights on this assessment
+  regenerate?: boolean;                  // Ignore cached insights
 }
 
 // Groq insights response
 export interface GroqInsightsResponse {
-  insights: string;
+  insights: string;                      // Plain-text rendering, always present
+  structured: StructuredInsights | null; // null when the reply wasn't valid JSON
+  cached: boolean;                       // Served from the assessment rather than generated
+  crisisResources: CrisisResources | null; // Set when the insights touch on self-harm
+}
+
+// Weekly reflection written from the past 7 days of journal entries
+export interface WeeklyReflection {
+  summary: string;                       // 2-3 sentences on how the week went
+  patterns: string[];                    // Up to 3 patterns noticed across the week
+  focus: string;                         // One suggested focus for the coming week
+}
+
+// A user's latest reflection digest
+export interface ReflectionDigestSummary {
+  periodStart: string;                   // YYYY-MM-DD
+  periodEnd: string;                     // YYYY-MM-DD
+  reflection: WeeklyReflection;
+  entryCount: number;
+  includedNotes: boolean;                // Whether journal notes were sent to the LLM
+  generated: boolean;                    // false when written from trends alone
+  createdAt: string;                     // ISO timestamp
+}
+
+// Reflection digest response
+export interface ReflectionDigestResponse {
+  digest: ReflectionDigestSummary | null; // null until the first weekly digest
+  crisisResources: CrisisResources | null; // Set when the reflection touches on self-harm
+}
+
+// AI privacy preferences
+export interface AIPreferences {
+  shareNotesWithAI: boolean;             // Include journal notes in AI prompts
+}
+
+// One message in a check-in coach conversation
+export interface CoachChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;                     // ISO timestamp
+}
+
+// Coach chat request
+export interface CoachChatRequest {
+  conversationId?: string;               // Omit to start a new conversation
+  message: string;
+}
+
+// Coach chat response
+export interface CoachChatResponse {
+  conversationId: string;
+  reply: CoachChatMessage;
+  crisisResources: CrisisResources | null; // Set once the conversation showed a risk signal
+  remainingTurns: number;                // Messages the user can still send in this conversation
+}
+
+// The user's latest coach conversation
+export interface CoachConversationResponse {
+  conversationId: string | null;         // null before the first conversation
+  messages: CoachChatMessage[];          // Oldest first
+  crisisResources: CrisisResources | null;
+  remainingTurns: number;
+}
+
+// Named components of the burnout model (see services/burnoutService)
+export type BurnoutComponentName =
+  | 'base'                               // Today's mood, energy and stress
+  | 'assessment'                         // High-scoring assessment dimensions
+  | 'trend'                              // Mood, energy or stress getting worse
+  | 'volatility'                         // Day-to-day swings in how the user feels
+  | 'badDayStreak'                       // Consecutive days in the high range
+  | 'missedCheckIns'                     // Days skipped in the last week
+  | 'actionCompletion';                  // Share of daily actions completed (lowers the score)
+
+// One component's share of a burnout score
+export interface BurnoutComponentContribution {
+  name: BurnoutComponentName;
+  label: string;                         // Shown in the score breakdown
+  signal: number;                        // How strongly the component is present (0-1)
+  weight: number;                        // Points it adds at full signal (negative lowers the score)
+  contribution: number;                  // signal * weight, rounded to one decimal
+}
+
+export type BurnoutRiskLevel = 'low' | 'caution' | 'high' | 'critical';
+
+// One projected day of burnout score
+export interface BurnoutForecastPoint {
+  date: string;                          // YYYY-MM-DD
+  score: number;                         // Projected score (0-100)
+  lower: number;                         // Bottom of the 80% confidence band
+  upper: number;                         // Top of the 80% confidence band
+  riskLevel: BurnoutRiskLevel;           // Risk level of the projected score
+}
+
+// Projection of the next days of burnout score from journal history
+export interface BurnoutForecast {
+  history: Array<{ date: string; score: number }>; // Daily scores the projection was fitted to, oldest first
+  points: BurnoutForecastPoint[];        // One per day after today, oldest first
+  currentScore: number;
+  currentRiskLevel: BurnoutRiskLevel;
+  earlyWarning: {                        // First projected day reaching high or critical above the current level
+    riskLevel: BurnoutRiskLevel;
+    date: string;
+  } | null;
+}
+
+// Burnout forecast response
+export interface BurnoutForecastResponse {
+  forecast: BurnoutForecast | null;      // null until there is enough recent history
+  message?: string;
+}
+
+// Burnout scores of one day, combined when a day was scored more than once
+export interface BurnoutDailyScore {
+  date: string;                          // YYYY-MM-DD (UTC)
+  score: number;                         // Average of the day's scores, rounded
+  minScore: number;
+  maxScore: number;
+  count: number;                         // Scores calculated that day
+  riskLevel: BurnoutRiskLevel;           // Risk level of the average
+  contributingFactors: string[];         // Every factor present in any of the day's scores
+}
+
+// A day on which the daily risk level differs from the previous scored day
+export interface BurnoutRiskTransition {
+  date: string;                          // YYYY-MM-DD
+  from: BurnoutRiskLevel;
+  to: BurnoutRiskLevel;
+  direction: 'worsened' | 'improved';
+  score: number;                         // Daily score on that day
+  contributingFactors: string[];         // Factors present on that day
+}
+
+// Burnout score history response
+export interface BurnoutHistoryResponse {
+  from: string;                          // First day of the range (YYYY-MM-DD)
+  to: string;                            // Last day of the range, inclusive
+  days: BurnoutDailyScore[];             // Scored days only, oldest first
+  transitions: BurnoutRiskTransition[];  // Oldest first
+}
+
+// Why a burnout escalation was raised
+export type BurnoutEscalationTrigger =
+  | 'sustained_critical'                 // Several days in a row at critical
+  | 'risk_jump';                         // Risk rose two or more levels from one scored day to the next
+
+// active: banner shown; dismissed: banner hidden by the user; resolved: risk came back down
+export type BurnoutEscalationStatus = 'active' | 'dismissed' | 'resolved';
+
+export interface BurnoutEscalation {
+  id: string;
+  trigger: BurnoutEscalationTrigger;
+  status: BurnoutEscalationStatus;
+  fromRiskLevel: BurnoutRiskLevel;
+  riskLevel: BurnoutRiskLevel;
+  score: number;
+  triggerDate: string;                   // YYYY-MM-DD
+  streaksPaused: boolean;                // Streaks and celebrations hidden while the escalation is open
+  triggeredAt: string;                   // ISO timestamp
+  resolvedAt: string | null;
+}
+
+// Burnout escalation response
+export interface BurnoutEscalationResponse {
+  escalation: BurnoutEscalation | null;  // The open escalation, active or dismissed
+  followUp: BurnoutEscalation | null;    // Recently resolved escalation to check in about, until dismissed
+  crisisResources: CrisisResources | null; // Set while an escalation is open
+  contactDraft: string | null;           // Starting point for a message the user writes to someone they trust
 }
@@ -23,7 +23,7 @@ export type Dimension =
 export interface ActionTemplate {
   text: string;
   category: ActionCategory;
-  targetDimension: Dimension;
+  targetDimension: Dimension | null; // null for actions not aimed at one dimension (AI recommendations)
 }
 
 /**
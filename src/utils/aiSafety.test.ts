@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { completeSentencesLength, findSafetyIssues, needsCrisisResources, sanitizeInsights, sanitizeText } from './aiSafety';
+import { SAFE_OUTPUTS, UNSAFE_OUTPUTS } from './aiSafety.fixtures';
+
+function categories(text: string): string[] {
+  return [...new Set(findSafetyIssues(text).map((issue) => issue.category))].sort();
+}
+
+describe('AI safety layer - adversarial fixtures', () => {
+  describe.each(UNSAFE_OUTPUTS)('$name', (fixture) => {
+    it('flags exactly the expected categories', () => {
+      expect(categories(fixture.output)).toEqual([...fixture.flags].sort());
+    });
+
+    it('removes the unsafe content and keeps the rest', () => {
+      const { text } = sanitizeText(fixture.output);
+
+      for (const phrase of fixture.removed) {
+        expect(text.toLowerCase()).not.toContain(phrase.toLowerCase());
+      }
+      for (const phrase of fixture.kept) {
+        expect(text).toContain(phrase);
+      }
+    });
+
+    it('leaves nothing but self-harm mentions for a second pass', () => {
+      const { text } = sanitizeText(fixture.output);
+
+      expect(findSafetyIssues(text).every((issue) => issue.category === 'self_harm')).toBe(true);
+      expect(sanitizeText(text).text).toBe(text);
+    });
+
+    it(`${fixture.crisis ? 'attaches' : 'does not attach'} crisis resources`, () => {
+      expect(needsCrisisResources(sanitizeText(fixture.output).text)).toBe(fixture.crisis);
+    });
+  });
+
+  describe.each(SAFE_OUTPUTS)('$name', ({ output }) => {
+    it('passes untouched', () => {
+      expect(findSafetyIssues(output)).toEqual([]);
+      expect(sanitizeText(output).text).toBe(output);
+      expect(needsCrisisResources(output)).toBe(false);
+    });
+  });
+});
+
+describe('sanitizeText', () => {
+  it('uses each replacement once per text', () => {
+    const { text } = sanitizeText('Try Xanax. Melatonin also works. Rest well.');
+    expect(text).toBe('Questions about medication or supplements are best answered by a doctor. Rest well.');
+  });
+
+  it('keeps line breaks between sentences', () => {
+    const { text } = sanitizeText('1. Rest.\n2. Take Ambien nightly.\n3. Call a friend.');
+    expect(text.split('\n')).toHaveLength(3);
+  });
+});
+
+describe('completeSentencesLength', () => {
+  it('ends after the last sentence whose separator has arrived', () => {
+    expect(completeSentencesLength('Rest well. You should skip')).toBe('Rest well. '.length);
+    expect(completeSentencesLength('Rest.\nCall a')).toBe('Rest.\n'.length);
+    expect(completeSentencesLength('Rest well.')).toBe(0);
+  });
+
+  it('never splits an unsafe sentence before it can be checked', () => {
+    const reply = 'Rest well. You should skip meals this week. Call a friend.';
+    for (let length = 1; length <= reply.length; length++) {
+      const complete = reply.slice(0, completeSentencesLength(reply.slice(0, length)));
+      expect(complete === '' || complete === 'Rest well. ' || findSafetyIssues(complete).length > 0).toBe(true);
+    }
+  });
+});
+
+describe('sanitizeInsights', () => {
+  it('sanitizes every field of structured insights and merges duplicate replacements', () => {
+    const { insights, issues } = sanitizeInsights({
+      summary: 'You are showing clear signs of an anxiety disorder.',
+      recommendations: ['Try Xanax before pitches.', 'Ask your doctor about SSRIs.', 'Call a friend tonight.'],
+      warningSign: 'Thinking everyone would be better off without you, or that you want to die.',
+    });
+
+    expect(insights).toEqual({
+      summary: 'Only a qualified professional can diagnose a mental health condition; if this resonates, consider talking to one.',
+      recommendations: ['Questions about medication or supplements are best answered by a doctor.', 'Call a friend tonight.'],
+      warningSign: 'Thinking everyone would be better off without you, or that you want to die.',
+    });
+    expect(issues.map((issue) => issue.category)).toEqual(['diagnostic_claim', 'medication', 'medication', 'self_harm']);
+    expect(needsCrisisResources(insights)).toBe(true);
+  });
+
+  it('sanitizes plain-text insights', () => {
+    expect(sanitizeInsights('You have depression. Rest more.').insights)
+      .toBe('Only a qualified professional can diagnose a mental health condition; if this resonates, consider talking to one. Rest more.');
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Safety layer for AI-generated content
+ *
+ * The insights model talks to 16-24 year-olds about mental health, so every
+ * reply is checked sentence by sentence before it reaches them:
+ * - self_harm: mentions of suicide or self-harm are kept (the model is often
+ *   pointing towards help) but make the reply carry crisis resources
+ * - unsafe_instruction: advice that could hurt (skipping sleep or meals,
+ *   drinking to cope, self-harm encouragement) is replaced
+ * - diagnostic_claim: statements that the user has a condition are replaced
+ * - medication: advice about drugs, doses or supplements is replaced
+ *
+ * Replacement sentences never trip the checks themselves, so sanitizing is
+ * idempotent and stored insights can be re-checked when they are served.
+ */
+
+import type { AssessmentInsights } from '../types/assessment';
+
+export type SafetyCategory = 'self_harm' | 'unsafe_instruction' | 'diagnostic_claim' | 'medication';
+
+export interface SafetyIssue {
+  category: SafetyCategory;
+  excerpt: string;                       // The text that tripped the check
+}
+
+interface SafetyRule {
+  category: SafetyCategory;
+  pattern: RegExp;
+  negatable?: boolean;                   // "Don't skip meals" is advice against the behavior
+}
+
+const SELF_HARM =
+  /\b(suicid\w*|kill(?:ing)? (?:yourself|myself|themselves)|end(?:ed|ing)? (?:your|my|their) life|take (?:your|my|their) own life|(?:don'?t|do not) want to (?:live|wake up)|self[- ]?harm\w*|hurt(?:ing)? (?:yourself|myself)|cut(?:ting)? (?:yourself|myself)|no reason to (?:live|go on)|better off dead|end it all|wants? to die)\b/i;
+
+const DIAGNOSES =
+  '(?:clinical(?:ly)? depress\\w*|depression|depressed|major depressive \\w+|(?:an )?anxiety disorder|generali[sz]ed anxiety|bipolar(?: disorder)?|adhd|ptsd|ocd|borderline|(?:a )?personality disorder|narcissis\\w*|(?:a )?mental (?:illness|disorder)|burnout syndrome)';
+
+const RULES: SafetyRule[] = [
+  { category: 'self_harm', pattern: SELF_HARM },
+
+  // Self-harm encouragement
+  {
+    category: 'unsafe_instruction',
+    pattern: /\b(?:you should|try|go ahead and|it(?:'?s| is) (?:ok|okay|fine) to|just)\b[^.!?]{0,40}\b(?:hurt(?:ing)? yourself|cut(?:ting)? yourself|kill(?:ing)? yourself|end(?:ing)? (?:your life|it all)|starv\w* yourself)\b/i,
+  },
+  // Neglecting basic needs
+  {
+    category: 'unsafe_instruction',
+    pattern: /\b(?:skip(?:ping)?|give up|giving up|cut(?:ting)? out|sacrific\w+|stop(?:ping)?)\b[^.!?]{0,20}\b(?:sleep(?:ing)?|meals?|eating|food)\b/i,
+    negatable: true,
+  },
+  { category: 'unsafe_instruction', pattern: /\bpull(?:ing)? (?:an? |more )?all[- ]?nighters?\b/i, negatable: true },
+  { category: 'unsafe_instruction', pattern: /\b(?:fast(?:ing)?|stop eating) for \d+ days\b/i, negatable: true },
+  // Substances to cope
+  {
+    category: 'unsafe_instruction',
+    pattern: /\b(?:drinks?|drinking|alcohol|beers?|wine|weed|cannabis|edibles?)\b[^.!?]{0,30}\bto (?:relax|cope|unwind|sleep|take the edge off|numb)\b/i,
+    negatable: true,
+  },
+  {
+    category: 'unsafe_instruction',
+    pattern: /\b(?:energy drinks|caffeine pills|stimulants)\b[^.!?]{0,30}\bto (?:stay|keep) (?:awake|going|up)\b/i,
+    negatable: true,
+  },
+  // Isolation and pushing through illness
+  { category: 'unsafe_instruction', pattern: /\bcut(?:ting)? off (?:everyone|all (?:of )?your friends|your (?:family|friends))\b/i, negatable: true },
+  { category: 'unsafe_instruction', pattern: /\bwork(?:ing)? through (?:the )?(?:pain|illness|being sick|a breakdown)\b/i, negatable: true },
+
+  // Diagnostic claims about the user
+  {
+    category: 'diagnostic_claim',
+    pattern: new RegExp(`\\byou(?:'re| are)?\\b[^.!?]{0,30}\\b(?:have|are|'re|(?:'ve )?got|suffer(?:ing)? from|diagnosed with|show(?:ing)? (?:clear )?(?:signs|symptoms) of)\\b[^.!?]{0,25}\\b${DIAGNOSES}`, 'i'),
+  },
+  {
+    category: 'diagnostic_claim',
+    pattern: new RegExp(`\\b(?:classic|textbook|clear) (?:signs? of |symptoms? of |case of )?${DIAGNOSES}`, 'i'),
+  },
+
+  // Medication, supplements and doses
+  {
+    category: 'medication',
+    pattern: /\b(?:xanax|valium|ativan|klonopin|adderall|ritalin|vyvanse|modafinil|provigil|prozac|zoloft|lexapro|wellbutrin|ambien|benzos?|benzodiazepines?|ssris?|antidepressants?|sleeping pills?|beta[- ]blockers?|propranolol|melatonin|ashwagandha|microdos\w*|psilocybin|cbd)\b/i,
+  },
+  {
+    category: 'medication',
+    pattern: /\b(?:take|taking|try|start|increase|double|raise|lower|stop taking|come off|pop)\b[^.!?]{0,30}\b(?:pills?|medications?|meds|doses?|dosage|supplements?|\d+ ?mg)\b/i,
+  },
+];
+
+// Words that turn an unsafe instruction into advice against it
+const NEGATION = /\b(?:don'?t|do not|never|avoid|instead of|rather than|without|no more|resist)\b/i;
+const NEGATION_WINDOW = 20;
+
+const SELF_HARM_REPLACEMENT = 'If you are having thoughts of hurting yourself, please reach out to someone you trust or a crisis line right now.';
+
+// Replacement for sentences in each category that is removed rather than kept
+const REPLACEMENTS: Record<Exclude<SafetyCategory, 'self_harm'>, string> = {
+  unsafe_instruction: 'Protect the basics first: regular sleep, proper meals and time with people you trust.',
+  diagnostic_claim: 'Only a qualified professional can diagnose a mental health condition; if this resonates, consider talking to one.',
+  medication: 'Questions about medication or supplements are best answered by a doctor.',
+};
+
+// Most serious first: a sentence tripping several checks gets the first replacement
+const REPLACEMENT_ORDER: Array<keyof typeof REPLACEMENTS> = ['unsafe_instruction', 'medication', 'diagnostic_claim'];
+
+function isNegated(sentence: string, matchIndex: number): boolean {
+  return NEGATION.test(sentence.slice(Math.max(0, matchIndex - NEGATION_WINDOW), matchIndex));
+}
+
+/**
+ * Find every safety issue in a piece of text, in order of appearance
+ */
+export function findSafetyIssues(text: string): SafetyIssue[] {
+  return splitSentences(text)
+    .filter((_, index) => index % 2 === 0)
+    .flatMap(findSentenceIssues);
+}
+
+function findSentenceIssues(sentence: string): SafetyIssue[] {
+  const issues: SafetyIssue[] = [];
+
+  for (const rule of RULES) {
+    const match = rule.pattern.exec(sentence);
+    if (!match || (rule.negatable && isNegated(sentence, match.index))) continue;
+    if (!issues.some((issue) => issue.category === rule.category)) {
+      issues.push({ category: rule.category, excerpt: match[0] });
+    }
+  }
+  return issues;
+}
+
+// Whitespace after sentence-ending punctuation, or a line break
+const SENTENCE_SEPARATOR = /((?<=[.!?])[^\S\n]+|\n+)/g;
+
+/**
+ * Split text into sentences and the whitespace between them
+ * Even indexes are sentences, odd indexes separators, so joining gives back the text.
+ */
+function splitSentences(text: string): string[] {
+  return text.split(SENTENCE_SEPARATOR);
+}
+
+/**
+ * Length of the text up to the end of its last complete sentence
+ * A sentence is complete once the separator after it has arrived, so a
+ * streamed reply can be checked and sent one whole sentence at a time.
+ */
+export function completeSentencesLength(text: string): number {
+  let length = 0;
+  for (const match of text.matchAll(SENTENCE_SEPARATOR)) {
+    length = match.index + match[0].length;
+  }
+  return length;
+}
+
+export interface SanitizedText {
+  text: string;
+  issues: SafetyIssue[];
+}
+
+/**
+ * Replace unsafe sentences, keeping everything else as written
+ * A replacement is used at most once per text; later sentences it would replace are dropped.
+ */
+export function sanitizeText(text: string): SanitizedText {
+  const parts = splitSentences(text);
+  const issues: SafetyIssue[] = [];
+  const usedReplacements = new Set<string>();
+
+  for (let index = 0; index < parts.length; index += 2) {
+    const sentenceIssues = findSentenceIssues(parts[index]);
+    issues.push(...sentenceIssues);
+
+    const category = REPLACEMENT_ORDER.find((candidate) => sentenceIssues.some((issue) => issue.category === candidate));
+    if (!category) continue;
+
+    // Self-harm encouragement is answered with a pointer to help, which keeps the crisis trigger
+    const replacement = category === 'unsafe_instruction' && sentenceIssues.some((issue) => issue.category === 'self_harm')
+      ? SELF_HARM_REPLACEMENT
+      : REPLACEMENTS[category];
+    parts[index] = usedReplacements.has(replacement) ? '' : replacement;
+    usedReplacements.add(replacement);
+  }
+
+  return { text: parts.join('').replace(/[^\S\n]{2,}/g, ' ').trim(), issues };
+}
+
+export interface SanitizedInsights {
+  insights: AssessmentInsights;
+  issues: SafetyIssue[];
+}
+
+/**
+ * Sanitize every field of the insights
+ * Recommendations that end up identical after replacement are merged.
+ */
+export function sanitizeInsights(insights: AssessmentInsights): SanitizedInsights {
+  if (typeof insights === 'string') {
+    const { text, issues } = sanitizeText(insights);
+    return { insights: text, issues };
+  }
+
+  const summary = sanitizeText(insights.summary);
+  const recommendations = insights.recommendations.map(sanitizeText);
+  const warningSign = sanitizeText(insights.warningSign);
+
+  return {
+    insights: {
+      summary: summary.text,
+      recommendations: [...new Set(recommendations.map((recommendation) => recommendation.text))].filter(Boolean),
+      warningSign: warningSign.text,
+    },
+    issues: [summary, ...recommendations, warningSign].flatMap((field) => field.issues),
+  };
+}
+
+/**
+ * Whether the insights touch on self-harm and should carry crisis resources
+ */
+export function needsCrisisResources(insights: AssessmentInsights): boolean {
+  const texts = typeof insights === 'string'
+    ? [insights]
+    : [insights.summary, ...insights.recommendations, insights.warningSign];
+  return texts.some((text) => findSafetyIssues(text).some((issue) => issue.category === 'self_harm'));
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { ARCHETYPE_NAMES, ARCHETYPE_RULES, DIMENSION_LABELS } from './archetypeRules';
+import { ARCHETYPES } from './archetypes';
+import { archetypeEnum } from '../db/schema';
+import type { ArchetypeName, ScoredDimension } from '../types/assessment';
+
+// Compile-time: ARCHETYPE_NAMES lists every ArchetypeName (tsc fails otherwise)
+type MissingNames = Exclude<ArchetypeName, (typeof ARCHETYPE_NAMES)[number]>;
+const namesCoverType: [MissingNames] extends [never] ? true : false = true;
+
+describe('archetype definitions stay aligned', () => {
+  it('lists every ArchetypeName exactly once', () => {
+    expect(namesCoverType).toBe(true);
+    expect(new Set(ARCHETYPE_NAMES).size).toBe(ARCHETYPE_NAMES.length);
+  });
+
+  it('matches the database enum', () => {
+    expect(archetypeEnum.enumValues).toEqual([...ARCHETYPE_NAMES]);
+  });
+
+  it('has a definition for every archetype', () => {
+    expect(Object.keys(ARCHETYPES).sort()).toEqual([...ARCHETYPE_NAMES].sort());
+    for (const name of ARCHETYPE_NAMES) {
+      expect(ARCHETYPES[name].name).toBe(name);
+    }
+  });
+
+  it('has exactly one rule per archetype with unique priorities', () => {
+    expect(ARCHETYPE_RULES.map((rule) => rule.archetype).sort()).toEqual([...ARCHETYPE_NAMES].sort());
+    const priorities = ARCHETYPE_RULES.map((rule) => rule.priority);
+    expect(new Set(priorities).size).toBe(priorities.length);
+  });
+
+  it('ends with a single default rule so every score set gets an archetype', () => {
+    const defaults = ARCHETYPE_RULES.filter((rule) => rule.conditions.length === 0);
+    const lowestPriority = Math.max(...ARCHETYPE_RULES.map((rule) => rule.priority));
+
+    expect(defaults).toHaveLength(1);
+    expect(defaults[0].priority).toBe(lowestPriority);
+  });
+
+  it('labels every scored dimension', () => {
+    const dimensions: ScoredDimension[] = [
+      'imposterSyndrome',
+      'founderDoubt',
+      'identityFusion',
+      'fearOfRejection',
+      'riskTolerance',
+      'isolationLevel',
+    ];
+    expect(Object.keys(DIMENSION_LABELS).sort()).toEqual([...dimensions].sort());
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Declarative archetype rules
+ *
+ * Each archetype has a priority and a list of conditions that must all hold.
+ * Rules are checked in priority order and the first match wins; the rule with
+ * no conditions is the default. The evaluator in assessmentService also uses
+ * these rules to explain a match and to measure how close the runner-up was.
+ */
+
+import type { ArchetypeName, ScoredDimension } from '../types/assessment';
+
+// Every archetype name, in DB enum order
+export const ARCHETYPE_NAMES = [
+  'Perfectionist Builder',
+  'Opportunistic Visionary',
+  'Isolated Dreamer',
+  'Burning Out',
+  'Self-Assured Hustler',
+  'Community-Driven',
+  'Balanced Founder',
+  'Growth Seeker',
+] as const satisfies readonly ArchetypeName[];
+
+// Display names used in match explanations
+export const DIMENSION_LABELS: Record<ScoredDimension, string> = {
+  imposterSyndrome: 'Imposter Syndrome',
+  founderDoubt: 'Founder Doubt',
+  identityFusion: 'Identity Fusion',
+  fearOfRejection: 'Fear of Rejection',
+  riskTolerance: 'Risk Tolerance',
+  isolationLevel: 'Isolation Level',
+};
+
+// A single condition on the numeric scores (thresholds are strict)
+export type ArchetypeCondition =
+  | { type: 'above'; dimension: ScoredDimension; threshold: number }
+  | { type: 'below'; dimension: ScoredDimension; threshold: number }
+  | { type: 'allBetween'; dimensions: ScoredDimension[]; min: number; max: number } // inclusive
+  | { type: 'countAbove'; dimensions: ScoredDimension[]; threshold: number; count: number }
+  | { type: 'any'; conditions: ArchetypeCondition[] };
+
+export interface ArchetypeRule {
+  archetype: ArchetypeName;
+  priority: number;                  // Lower is checked first
+  conditions: ArchetypeCondition[];  // All must hold; empty = default rule
+}
+
+// The 5 "negative" dimensions (riskTolerance is positive)
+const STRAIN_DIMENSIONS: ScoredDimension[] = [
+  'imposterSyndrome',
+  'founderDoubt',
+  'identityFusion',
+  'fearOfRejection',
+  'isolationLevel',
+];
+
+const ALL_DIMENSIONS = Object.keys(DIMENSION_LABELS) as ScoredDimension[];
+
+export const ARCHETYPE_RULES: ArchetypeRule[] = [
+  {
+    // Urgent: strain across several areas outranks everything else
+    archetype: 'Burning Out',
+    priority: 1,
+    conditions: [{ type: 'countAbove', dimensions: STRAIN_DIMENSIONS, threshold: 70, count: 3 }],
+  },
+  {
+    archetype: 'Perfectionist Builder',
+    priority: 2,
+    conditions: [
+      { type: 'above', dimension: 'imposterSyndrome', threshold: 60 },
+      { type: 'above', dimension: 'founderDoubt', threshold: 60 },
+      { type: 'below', dimension: 'riskTolerance', threshold: 50 },
+    ],
+  },
+  {
+    archetype: 'Opportunistic Visionary',
+    priority: 3,
+    conditions: [
+      { type: 'above', dimension: 'riskTolerance', threshold: 70 },
+      { type: 'below', dimension: 'founderDoubt', threshold: 40 },
+      { type: 'below', dimension: 'imposterSyndrome', threshold: 40 },
+    ],
+  },
+  {
+    archetype: 'Isolated Dreamer',
+    priority: 4,
+    conditions: [
+      { type: 'above', dimension: 'isolationLevel', threshold: 70 },
+      {
+        type: 'any',
+        conditions: [
+          { type: 'above', dimension: 'identityFusion', threshold: 50 },
+          { type: 'above', dimension: 'founderDoubt', threshold: 50 },
+        ],
+      },
+    ],
+  },
+  {
+    archetype: 'Self-Assured Hustler',
+    priority: 5,
+    conditions: [
+      { type: 'below', dimension: 'imposterSyndrome', threshold: 40 },
+      { type: 'below', dimension: 'founderDoubt', threshold: 40 },
+      { type: 'above', dimension: 'riskTolerance', threshold: 60 },
+    ],
+  },
+  {
+    archetype: 'Community-Driven',
+    priority: 6,
+    conditions: [
+      { type: 'below', dimension: 'isolationLevel', threshold: 40 },
+      {
+        type: 'any',
+        conditions: [
+          { type: 'below', dimension: 'imposterSyndrome', threshold: 50 },
+          { type: 'below', dimension: 'founderDoubt', threshold: 50 },
+        ],
+      },
+    ],
+  },
+  {
+    archetype: 'Balanced Founder',
+    priority: 7,
+    conditions: [{ type: 'allBetween', dimensions: ALL_DIMENSIONS, min: 40, max: 60 }],
+  },
+  {
+    archetype: 'Growth Seeker',
+    priority: 8,
+    conditions: [],
+  },
+];
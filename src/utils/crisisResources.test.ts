@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatCrisisResources,
+  getCrisisResources,
+  parseCrisisRegion,
+  resolveCrisisRegion,
+  CRISIS_REGIONS,
+  DEFAULT_CRISIS_REGION,
+} from './crisisResources';
+
+describe('resolveCrisisRegion', () => {
+  it('prefers the user setting over the browser language', () => {
+    expect(resolveCrisisRegion('AU', 'en-US,en;q=0.9')).toBe('AU');
+    expect(resolveCrisisRegion('INTL', 'en-GB')).toBe('INTL');
+  });
+
+  it('takes the country of the most preferred language that names one', () => {
+    expect(resolveCrisisRegion(null, 'en-GB,en;q=0.9')).toBe('GB');
+    expect(resolveCrisisRegion(null, 'fr;q=0.8,de-DE;q=0.9')).toBe('DE');
+    expect(resolveCrisisRegion(null, 'en,pt-BR;q=0.7')).toBe('BR');
+    expect(resolveCrisisRegion(null, 'zh-Hant-TW,en-US;q=0.5')).toBe('INTL');
+    expect(resolveCrisisRegion(null, 'en_uk')).toBe('GB');
+  });
+
+  it('falls back to international directories rather than another country', () => {
+    expect(DEFAULT_CRISIS_REGION).toBe('INTL');
+    expect(resolveCrisisRegion(null, 'es-MX,es;q=0.9,en-US;q=0.8')).toBe('INTL');
+    expect(resolveCrisisRegion(null, 'en')).toBe('INTL');
+    expect(resolveCrisisRegion(null, '*')).toBe('INTL');
+    expect(resolveCrisisRegion(null, null)).toBe('INTL');
+  });
+
+  it('ignores a setting it does not list lines for', () => {
+    expect(resolveCrisisRegion('XX', 'en-IE')).toBe('IE');
+  });
+});
+
+describe('parseCrisisRegion', () => {
+  it('accepts listed codes in any case', () => {
+    expect(parseCrisisRegion('nz')).toBe('NZ');
+    expect(parseCrisisRegion(' intl ')).toBe('INTL');
+    expect(parseCrisisRegion('MX')).toBeNull();
+    expect(parseCrisisRegion(42)).toBeNull();
+  });
+});
+
+describe('getCrisisResources', () => {
+  it('lists lines and the international directory for every region', () => {
+    for (const { code } of CRISIS_REGIONS) {
+      const resources = getCrisisResources(code);
+      expect(resources.region).toBe(code);
+      expect(resources.hotlines.length).toBeGreaterThan(0);
+      expect(resources.directory.url).toMatch(/^https:\/\//);
+    }
+  });
+
+  it('lists no country lines in the international fallback', () => {
+    expect(getCrisisResources().hotlines.map((hotline) => hotline.number)).toEqual(['Your local emergency number']);
+    expect(getCrisisResources('US').hotlines.some((hotline) => hotline.number.includes('988'))).toBe(true);
+    expect(getCrisisResources('GB').hotlines.some((hotline) => hotline.number.includes('988'))).toBe(false);
+  });
+
+  it('renders the directory in the plain-text version', () => {
+    const text = formatCrisisResources(getCrisisResources('FR'));
+    expect(text).toContain('3114');
+    expect(text).toContain('https://findahelpline.com');
+  });
+});
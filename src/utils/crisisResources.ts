@@ -0,0 +1,177 @@
+/**
+ * Crisis resources shown alongside high-risk content
+ * Returned by /api/burnout/score for high and critical risk levels, and
+ * attached to AI insights whenever they touch on self-harm.
+ *
+ * Lines are listed per region. The region comes from the user's setting, or
+ * else from the first browser language that names a country; anyone else
+ * gets international directories rather than another country's lines.
+ */
+
+import type { CrisisDirectory, CrisisHotline, CrisisRegion, CrisisResources } from '../types/assessment';
+
+export const DEFAULT_CRISIS_REGION: CrisisRegion = 'INTL';
+
+const DIRECTORY: CrisisDirectory = {
+  name: 'Find A Helpline',
+  url: 'https://findahelpline.com',
+};
+
+const MESSAGE = 'If you are in crisis or having thoughts of self-harm, please reach out to one of these resources immediately. You are not alone.';
+
+const INTL_MESSAGE = 'If you are in crisis or having thoughts of self-harm, please call your local emergency number or find a free, confidential helpline in your country. You are not alone.';
+
+const HOTLINES: Record<CrisisRegion, CrisisHotline[]> = {
+  US: [
+    { name: '988 Suicide & Crisis Lifeline', number: 'Call or text 988', available: '24/7' },
+    { name: 'Crisis Text Line', number: 'Text HOME to 741741', available: '24/7' },
+    { name: 'SAMHSA National Helpline', number: '1-800-662-4357', available: '24/7' },
+  ],
+  CA: [
+    { name: '9-8-8 Suicide Crisis Helpline', number: 'Call or text 988', available: '24/7' },
+    { name: 'Kids Help Phone', number: '1-800-668-6868', available: '24/7' },
+  ],
+  GB: [
+    { name: 'Samaritans', number: '116 123', available: '24/7' },
+    { name: 'Shout', number: 'Text SHOUT to 85258', available: '24/7' },
+  ],
+  IE: [
+    { name: 'Samaritans', number: '116 123', available: '24/7' },
+    { name: 'Pieta', number: '1800 247 247', available: '24/7' },
+    { name: 'Text About It', number: 'Text HELLO to 50808', available: '24/7' },
+  ],
+  AU: [
+    { name: 'Lifeline', number: '13 11 14', available: '24/7' },
+    { name: 'Beyond Blue', number: '1300 22 4636', available: '24/7' },
+  ],
+  NZ: [
+    { name: 'Need to talk?', number: 'Call or text 1737', available: '24/7' },
+    { name: 'Lifeline Aotearoa', number: '0800 543 354', available: '24/7' },
+  ],
+  IN: [
+    { name: 'Tele MANAS', number: '14416', available: '24/7' },
+    { name: 'AASRA', number: '+91-9820466726', available: '24/7' },
+  ],
+  FR: [
+    { name: 'Numéro national de prévention du suicide', number: '3114', available: '24/7' },
+    { name: 'SOS Amitié', number: '09 72 39 40 50', available: '24/7' },
+  ],
+  DE: [
+    { name: 'TelefonSeelsorge', number: '0800 111 0 111 or 0800 111 0 222', available: '24/7' },
+  ],
+  ES: [
+    { name: 'Línea 024', number: '024', available: '24/7' },
+    { name: 'Teléfono de la Esperanza', number: '717 003 717', available: '24/7' },
+  ],
+  BR: [
+    { name: 'CVV - Centro de Valorização da Vida', number: '188', available: '24/7' },
+  ],
+  NL: [
+    { name: '113 Zelfmoordpreventie', number: '113 or 0800-0113', available: '24/7' },
+  ],
+  INTL: [
+    { name: 'Emergency services', number: 'Your local emergency number', available: '24/7' },
+  ],
+};
+
+// For the region setting, in display order
+export const CRISIS_REGIONS: { code: CrisisRegion; name: string }[] = [
+  { code: 'INTL', name: 'International' },
+  { code: 'AU', name: 'Australia' },
+  { code: 'BR', name: 'Brazil' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'FR', name: 'France' },
+  { code: 'DE', name: 'Germany' },
+  { code: 'IN', name: 'India' },
+  { code: 'IE', name: 'Ireland' },
+  { code: 'NL', name: 'Netherlands' },
+  { code: 'NZ', name: 'New Zealand' },
+  { code: 'ES', name: 'Spain' },
+  { code: 'GB', name: 'United Kingdom' },
+  { code: 'US', name: 'United States' },
+];
+
+// Country codes browsers send that differ from ours
+const REGION_ALIASES: Record<string, CrisisRegion> = {
+  UK: 'GB',
+};
+
+/**
+ * Parse a region code, case-insensitively
+ * @returns The region, or null if it isn't one we list lines for
+ */
+export function parseCrisisRegion(value: unknown): CrisisRegion | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const code = value.trim().toUpperCase();
+  if (code in REGION_ALIASES) {
+    return REGION_ALIASES[code];
+  }
+  return code in HOTLINES ? (code as CrisisRegion) : null;
+}
+
+/**
+ * The country named by the most preferred language in an Accept-Language header
+ * Tags without a country (`en`, `fr`) are skipped; the first tag with one decides,
+ * even when we have no lines for that country.
+ */
+function localeCountry(acceptLanguage: string): string | null {
+  const tags = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+      const quality = q ? Number(q.slice(2)) : 1;
+      return { tag: tag.trim(), quality: Number.isFinite(quality) ? quality : 0, index };
+    })
+    .filter(({ tag, quality }) => tag !== '' && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { tag } of tags) {
+    // Language, then optional script, then the country: en-GB, zh-Hant-TW
+    const country = tag.split(/[-_]/).slice(1).find((subtag) => /^[a-z]{2}$/i.test(subtag));
+    if (country) {
+      return country;
+    }
+  }
+  return null;
+}
+
+/**
+ * Choose the region whose crisis resources a user sees
+ * @param setting - The user's region setting, which wins when set
+ * @param acceptLanguage - The request's Accept-Language header
+ * @returns The region, or DEFAULT_CRISIS_REGION if neither names one we list
+ */
+export function resolveCrisisRegion(setting: string | null, acceptLanguage: string | null): CrisisRegion {
+  const chosen = parseCrisisRegion(setting);
+  if (chosen) {
+    return chosen;
+  }
+  const country = acceptLanguage ? localeCountry(acceptLanguage) : null;
+  return parseCrisisRegion(country) ?? DEFAULT_CRISIS_REGION;
+}
+
+/**
+ * Crisis resources for a region
+ */
+export function getCrisisResources(region: CrisisRegion = DEFAULT_CRISIS_REGION): CrisisResources {
+  return {
+    region,
+    hotlines: HOTLINES[region],
+    directory: DIRECTORY,
+    message: region === 'INTL' ? INTL_MESSAGE : MESSAGE,
+  };
+}
+
+/**
+ * Plain-text rendering, for appending to text that has no room for structure
+ */
+export function formatCrisisResources(resources: CrisisResources = getCrisisResources()): string {
+  return [
+    resources.message,
+    ...resources.hotlines.map((hotline) => `- ${hotline.name}: ${hotline.number} (${hotline.available})`),
+    `- ${resources.directory.name}: ${resources.directory.url}`,
+  ].join('\n');
+}
@@ -17,6 +17,8 @@ export const USER_ERROR_MESSAGES = {
   SUBMISSION_FAILED: 'Submission failed. Try again.',
   SESSION_EXPIRED: 'Session expired. Your progress is saved.',
   OFFLINE: "You're offline. Progress saved locally.",
+  NO_SESSION: 'No active session. Please refresh the page.',
+  INVALID_LOGIN: 'Pseudonym or passphrase is incorrect.',
 } as const;
 
 // Patterns that should never appear in user-facing messages
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  insightsToText,
+  parseStructuredInsights,
+  previewStreamingInsights,
+  toStructuredInsights,
+  MAX_INSIGHT_RECOMMENDATIONS,
+} from './insights';
+import type { StructuredInsights } from '../types/assessment';
+
+const INSIGHTS: StructuredInsights = {
+  summary: 'You push hard and doubt yourself quietly.',
+  recommendations: ['Take a real day off.', 'Tell a peer one worry.', 'Log one win daily.'],
+  warningSign: 'Working through weekends without noticing.',
+};
+
+const nonBlankArb = fc.string({ minLength: 1 }).filter((value) => value.trim() === value && value.length > 0);
+
+describe('parseStructuredInsights', () => {
+  it('round-trips any valid insights object', () => {
+    fc.assert(
+      fc.property(
+        fc.record({
+          summary: nonBlankArb,
+          recommendations: fc.array(nonBlankArb, { minLength: 1, maxLength: MAX_INSIGHT_RECOMMENDATIONS }),
+          warningSign: nonBlankArb,
+        }),
+        (insights) => {
+          expect(parseStructuredInsights(JSON.stringify(insights))).toEqual(insights);
+        }
+      )
+    );
+  });
+
+  it('accepts JSON wrapped in a code fence or prose', () => {
+    const reply = 'Here you go:\n```json\n' + JSON.stringify(INSIGHTS) + '\n```';
+    expect(parseStructuredInsights(reply)).toEqual(INSIGHTS);
+  });
+
+  it('trims fields, drops blank recommendations and keeps at most three', () => {
+    const reply = JSON.stringify({
+      summary: '  Summary.  ',
+      recommendations: ['One.', '   ', 'Two.', 'Three.', 'Four.'],
+      warningSign: 'Sign. ',
+    });
+
+    expect(parseStructuredInsights(reply)).toEqual({
+      summary: 'Summary.',
+      recommendations: ['One.', 'Two.', 'Three.'],
+      warningSign: 'Sign.',
+    });
+  });
+
+  it('rejects free-form text, malformed JSON and objects missing fields', () => {
+    expect(parseStructuredInsights('1. Rest more\n2. Talk to people')).toBeNull();
+    expect(parseStructuredInsights('{"summary": "cut off')).toBeNull();
+    expect(parseStructuredInsights(JSON.stringify({ ...INSIGHTS, warningSign: '' }))).toBeNull();
+    expect(parseStructuredInsights(JSON.stringify({ ...INSIGHTS, recommendations: 'Rest more' }))).toBeNull();
+    expect(parseStructuredInsights(JSON.stringify({ ...INSIGHTS, recommendations: [] }))).toBeNull();
+  });
+});
+
+describe('toStructuredInsights', () => {
+  it('treats stored plain text and null as unstructured', () => {
+    expect(toStructuredInsights('Some older free-form insight')).toBeNull();
+    expect(toStructuredInsights(null)).toBeNull();
+    expect(toStructuredInsights(INSIGHTS)).toEqual(INSIGHTS);
+  });
+});
+
+describe('insightsToText', () => {
+  it('passes plain text through', () => {
+    expect(insightsToText('Plain insight')).toBe('Plain insight');
+  });
+
+  it('renders every field of structured insights', () => {
+    expect(insightsToText(INSIGHTS)).toBe(
+      'You push hard and doubt yourself quietly.\n\n'
+      + '1. Take a real day off.\n2. Tell a peer one worry.\n3. Log one win daily.\n\n'
+      + 'Warning sign to watch for: Working through weekends without noticing.'
+    );
+  });
+});
+
+describe('previewStreamingInsights', () => {
+  it('shows the summary received so far instead of raw JSON', () => {
+    const reply = JSON.stringify(INSIGHTS);
+    const cut = reply.indexOf('doubt');
+
+    expect(previewStreamingInsights(reply.slice(0, 5))).toBe('');
+    expect(previewStreamingInsights(reply.slice(0, cut))).toBe('You push hard and ');
+    expect(previewStreamingInsights(reply)).toBe(INSIGHTS.summary);
+  });
+
+  it('never throws on any prefix of a reply', () => {
+    const reply = JSON.stringify({ ...INSIGHTS, summary: 'Line one\nLine "two" é \\ done' });
+    for (let end = 0; end <= reply.length; end++) {
+      expect(typeof previewStreamingInsights(reply.slice(0, end))).toBe('string');
+    }
+  });
+
+  it('shows replies that are not JSON as they are', () => {
+    expect(previewStreamingInsights('You are doing')).toBe('You are doing');
+  });
+});
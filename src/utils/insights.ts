@@ -0,0 +1,101 @@
+/**
+ * Parsing and rendering of AI insights
+ * Shared by the insights API (parsing LLM replies) and the results page
+ * (rendering stored or streamed insights), so it has no server dependencies.
+ */
+
+import type { AssessmentInsights, StructuredInsights } from '../types/assessment';
+
+export const MAX_INSIGHT_RECOMMENDATIONS = 3;
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Cut the JSON object out of a reply
+ * Models sometimes wrap JSON in a ```json fence or add a sentence around it.
+ */
+export function extractJsonObject(text: string): string | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : null;
+}
+
+/**
+ * Parse and validate an LLM reply against the insights schema
+ * Extra recommendations beyond MAX_INSIGHT_RECOMMENDATIONS are dropped; blank ones are ignored.
+ * @returns The structured insights, or null if the reply isn't a valid insights object
+ */
+export function parseStructuredInsights(text: string): StructuredInsights | null {
+  const json = extractJsonObject(text);
+  if (!json) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  return toStructuredInsights(value);
+}
+
+/**
+ * Validate an already-parsed value against the insights schema
+ * @returns The normalized insights, or null if a field is missing or has the wrong type
+ */
+export function toStructuredInsights(value: unknown): StructuredInsights | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const { summary, recommendations, warningSign } = value as Record<string, unknown>;
+  if (!nonEmptyString(summary) || !nonEmptyString(warningSign) || !Array.isArray(recommendations)) {
+    return null;
+  }
+
+  const validRecommendations = recommendations
+    .filter(nonEmptyString)
+    .map((recommendation) => recommendation.trim())
+    .slice(0, MAX_INSIGHT_RECOMMENDATIONS);
+  if (validRecommendations.length === 0) return null;
+
+  return {
+    summary: summary.trim(),
+    recommendations: validRecommendations,
+    warningSign: warningSign.trim(),
+  };
+}
+
+/**
+ * Plain-text rendering of insights, for clients and call sites that want a single string
+ */
+export function insightsToText(insights: AssessmentInsights): string {
+  if (typeof insights === 'string') return insights;
+
+  return [
+    insights.summary,
+    insights.recommendations.map((recommendation, index) => `${index + 1}. ${recommendation}`).join('\n'),
+    `Warning sign to watch for: ${insights.warningSign}`,
+  ].join('\n\n');
+}
+
+/**
+ * Readable preview of a reply that is still streaming
+ * While a JSON reply arrives, shows the part of the summary received so far
+ * instead of raw JSON; replies that aren't JSON are shown as they are.
+ */
+export function previewStreamingInsights(partial: string): string {
+  if (!partial.trimStart().startsWith('{') && !partial.trimStart().startsWith('```')) {
+    return partial;
+  }
+
+  const match = partial.match(/"summary"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  if (!match) return '';
+
+  // Drop a half-received \u escape so the fragment is a valid JSON string body
+  const fragment = match[1].replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+  try {
+    return JSON.parse(`"${fragment}"`);
+  } catch {
+    return fragment;
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findPromptTemplate,
+  renderPromptTemplate,
+  templatePlaceholders,
+  PromptTemplateError,
+  type PromptTemplate,
+} from './promptTemplates';
+import {
+  getActiveInsightPromptTemplate,
+  insightPromptVariables,
+  DEFAULT_INSIGHTS_PROMPT_VERSION,
+  INSIGHT_PROMPT_TEMPLATES,
+} from '../prompts/insights';
+import type { PsychologicalScores } from '../types/assessment';
+
+const GREETING: PromptTemplate = {
+  version: 'greeting-v1',
+  description: 'Test template',
+  variables: ['name', 'count'],
+  text: 'Hi {{name}}, you have {{ count }} new check-ins, {{name}}.',
+};
+
+const SCORES: PsychologicalScores = {
+  imposterSyndrome: 72,
+  founderDoubt: 60,
+  identityFusion: 81,
+  fearOfRejection: 55,
+  riskTolerance: 64,
+  motivationType: 'mixed',
+  isolationLevel: 70,
+};
+
+describe('renderPromptTemplate', () => {
+  it('fills every placeholder, including repeated ones', () => {
+    expect(renderPromptTemplate(GREETING, { name: 'Ada', count: 3 })).toBe('Hi Ada, you have 3 new check-ins, Ada.');
+  });
+
+  it('throws when a placeholder has no value', () => {
+    expect(() => renderPromptTemplate(GREETING, { name: 'Ada' })).toThrow(PromptTemplateError);
+  });
+
+  it('renders an empty string value as nothing', () => {
+    expect(renderPromptTemplate(GREETING, { name: '', count: 0 })).toBe('Hi , you have 0 new check-ins, .');
+  });
+});
+
+describe('findPromptTemplate', () => {
+  it('finds templates by version and names the known ones otherwise', () => {
+    expect(findPromptTemplate([GREETING], 'greeting-v1')).toBe(GREETING);
+    expect(() => findPromptTemplate([GREETING], 'greeting-v2')).toThrow('known: greeting-v1');
+  });
+});
+
+describe('insight prompt templates', () => {
+  it('have unique versions and declare exactly the placeholders they use', () => {
+    const versions = INSIGHT_PROMPT_TEMPLATES.map((template) => template.version);
+    expect(new Set(versions).size).toBe(versions.length);
+
+    for (const template of INSIGHT_PROMPT_TEMPLATES) {
+      expect([...templatePlaceholders(template.text)].sort()).toEqual([...template.variables].sort());
+      expect(Object.keys(insightPromptVariables(SCORES, 'Burning Out')).sort()).toEqual([...template.variables].sort());
+    }
+  });
+
+  it('only mention the motivation score when the assessment has one', () => {
+    const [template] = INSIGHT_PROMPT_TEMPLATES;
+
+    expect(renderPromptTemplate(template, insightPromptVariables(SCORES, 'Burning Out'))).toContain('- Motivation Type: mixed\n');
+    expect(renderPromptTemplate(template, insightPromptVariables({ ...SCORES, motivationScore: 40 }, 'Burning Out')))
+      .toContain('- Motivation Type: mixed (40/100 toward intrinsic)\n');
+  });
+
+  it('use INSIGHTS_PROMPT_VERSION when it names a template and the default otherwise', () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(getActiveInsightPromptTemplate({}).version).toBe(DEFAULT_INSIGHTS_PROMPT_VERSION);
+    expect(getActiveInsightPromptTemplate({ INSIGHTS_PROMPT_VERSION: 'v3-json-dimensions' }).version).toBe('v3-json-dimensions');
+    expect(getActiveInsightPromptTemplate({ INSIGHTS_PROMPT_VERSION: 'v9-missing' }).version).toBe(DEFAULT_INSIGHTS_PROMPT_VERSION);
+    expect(consoleErrorSpy).toHaveBeenCalledOnce();
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Prompt Templates
+ * Versioned prompt text with {{variable}} placeholders
+ *
+ * A template's version is recorded with everything it produces, so its text
+ * must never change once it has been used: edit a prompt by adding a new
+ * template under a new version.
+ */
+
+export interface PromptTemplate {
+  version: string;                       // Unique, recorded with every generation
+  description: string;                   // What changed compared to earlier versions
+  variables: readonly string[];          // Every placeholder the text uses
+  text: string;
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Error class for templates that can't be found or rendered
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * Names of the placeholders used in a template text, in order of first use
+ */
+export function templatePlaceholders(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(PLACEHOLDER), (match) => match[1]))];
+}
+
+/**
+ * Fills in a template's placeholders
+ * @throws PromptTemplateError if a placeholder has no value
+ */
+export function renderPromptTemplate(template: PromptTemplate, values: PromptVariables): string {
+  return template.text.replace(PLACEHOLDER, (_, name: string) => {
+    if (!(name in values)) {
+      throw new PromptTemplateError(`Prompt template ${template.version} is missing a value for {{${name}}}`);
+    }
+    return String(values[name]);
+  });
+}
+
+/**
+ * Finds a template by version
+ * @throws PromptTemplateError if no template has that version
+ */
+export function findPromptTemplate(templates: readonly PromptTemplate[], version: string): PromptTemplate {
+  const template = templates.find((candidate) => candidate.version === version);
+  if (!template) {
+    const known = templates.map((candidate) => candidate.version).join(', ');
+    throw new PromptTemplateError(`Unknown prompt template version "${version}" (known: ${known})`);
+  }
+  return template;
+}
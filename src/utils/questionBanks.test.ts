@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QUESTION_BANKS,
+  CURRENT_QUESTION_BANK,
+  CURRENT_QUESTION_BANK_VERSION,
+  getQuestionBank,
+  isQuestionBankVersion,
+} from './questionBanks';
+import type { QuestionKey } from '../types/assessment';
+
+const REQUIRED_KEYS: QuestionKey[] = [
+  'imposterSyndrome',
+  'founderDoubt',
+  'identityFusion',
+  'fearOfRejection',
+  'riskTolerance',
+  'isolationLevel',
+  'motivationIntrinsic',
+  'motivationExtrinsic',
+];
+
+describe('question banks', () => {
+  it.each(Object.values(QUESTION_BANKS))('bank $version covers every dimension', (bank) => {
+    const keys = new Set(bank.questions.map((question) => question.key));
+    for (const key of REQUIRED_KEYS) {
+      expect(keys.has(key)).toBe(true);
+    }
+  });
+
+  it.each(Object.values(QUESTION_BANKS))('bank $version has unique question ids', (bank) => {
+    const ids = bank.questions.map((question) => question.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it.each(Object.values(QUESTION_BANKS))('bank $version uses positive item weights', (bank) => {
+    for (const question of bank.questions) {
+      const weight = question.weight ?? 1;
+      expect(Number.isFinite(weight) && weight > 0).toBe(true);
+    }
+  });
+
+  it('registers each bank under its own version', () => {
+    for (const [version, bank] of Object.entries(QUESTION_BANKS)) {
+      expect(bank.version).toBe(version);
+    }
+  });
+
+  it('serves the current bank by default', () => {
+    expect(getQuestionBank()).toBe(CURRENT_QUESTION_BANK);
+    expect(CURRENT_QUESTION_BANK.version).toBe(CURRENT_QUESTION_BANK_VERSION);
+  });
+
+  it('keeps the original 25-question bank available', () => {
+    expect(getQuestionBank('v1').questions).toHaveLength(25);
+  });
+
+  it('expands isolation and motivation into multi-item subscales in v2', () => {
+    const countOf = (key: QuestionKey) => getQuestionBank('v2').questions.filter((question) => question.key === key).length;
+    expect(countOf('isolationLevel')).toBeGreaterThanOrEqual(3);
+    expect(countOf('motivationIntrinsic')).toBeGreaterThanOrEqual(2);
+    expect(countOf('motivationExtrinsic')).toBeGreaterThanOrEqual(2);
+  });
+
+  it.each(Object.values(QUESTION_BANKS))('bank $version pairs only items from the same dimension', (bank) => {
+    const byId = new Map(bank.questions.map((question) => [question.id, question]));
+    for (const [firstId, secondId] of bank.contradictoryPairs ?? []) {
+      expect(byId.get(firstId)?.key).toBeDefined();
+      expect(byId.get(firstId)?.key).toBe(byId.get(secondId)?.key);
+    }
+  });
+
+  it.each(Object.values(QUESTION_BANKS))('bank $version keeps attention checks out of scoring', (bank) => {
+    for (const question of bank.questions) {
+      expect(question.key === 'attentionCheck').toBe(question.expectedAnswer !== undefined);
+    }
+  });
+
+  it('rejects unknown versions', () => {
+    expect(isQuestionBankVersion('v0')).toBe(false);
+    expect(isQuestionBankVersion(1)).toBe(false);
+    expect(isQuestionBankVersion('toString')).toBe(false);
+    expect(() => getQuestionBank('v0')).toThrow('Unknown question bank version');
+  });
+});
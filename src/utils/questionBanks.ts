@@ -0,0 +1,141 @@
+import { QuestionBank, QuizQuestion } from '../types/assessment';
+import { QUIZ_QUESTIONS } from './constants';
+
+/**
+ * Versioned question banks
+ *
+ * Each bank declares its questions, the dimension each one scores into, and
+ * optionally which items are reverse-scored and how much each one weighs.
+ * Banks can also carry response-quality checks: attention-check items and
+ * pairs of items that should not be answered at opposite extremes.
+ * Assessments record the bank version they were taken with, so older answers
+ * can still be re-scored after the quiz changes. Never edit a published bank;
+ * add a new version and point CURRENT_QUESTION_BANK_VERSION at it.
+ */
+
+// Original 25-question quiz
+export const QUESTION_BANK_V1: QuestionBank = {
+  version: 'v1',
+  questions: QUIZ_QUESTIONS,
+};
+
+const LIKERT_OPTIONS: QuizQuestion['options'] = {
+  A: 'Strongly Disagree',
+  B: 'Disagree',
+  C: 'Agree',
+  D: 'Strongly Agree',
+};
+
+// v2 additions: motivation used to hinge on three single answers
+const V2_MOTIVATION_ITEMS: Omit<QuizQuestion, 'id'>[] = [
+  {
+    dimension: 'Motivation Type',
+    key: 'motivationIntrinsic',
+    text: 'I would keep working on this problem even if it never made me rich',
+    options: LIKERT_OPTIONS,
+  },
+  {
+    dimension: 'Motivation Type',
+    key: 'motivationIntrinsic',
+    text: 'The chance to learn and grow matters more to me than the outcome',
+    options: LIKERT_OPTIONS,
+  },
+  {
+    dimension: 'Motivation Type',
+    key: 'motivationExtrinsic',
+    text: 'Being seen as a successful founder is a big part of why I do this',
+    options: LIKERT_OPTIONS,
+  },
+];
+
+// v2 additions: isolation used to be a single question; two items are reverse-worded
+const V2_ISOLATION_ITEMS: Omit<QuizQuestion, 'id'>[] = [
+  {
+    dimension: 'Isolation',
+    key: 'isolationLevel',
+    text: 'I have people I can be honest with about the hard parts of building my company',
+    reverseScored: true,
+    options: LIKERT_OPTIONS,
+  },
+  {
+    dimension: 'Isolation',
+    key: 'isolationLevel',
+    text: 'I keep my struggles as a founder to myself',
+    options: LIKERT_OPTIONS,
+  },
+  {
+    dimension: 'Isolation',
+    key: 'isolationLevel',
+    text: 'I feel understood by the people around me when it comes to my startup',
+    reverseScored: true,
+    options: LIKERT_OPTIONS,
+  },
+];
+
+// 31 questions: v1 plus multi-item motivation (Q22-27) and isolation (Q28-31) subscales
+export const QUESTION_BANK_V2: QuestionBank = {
+  version: 'v2',
+  questions: [
+    ...QUIZ_QUESTIONS.slice(0, 24),
+    ...V2_MOTIVATION_ITEMS,
+    QUIZ_QUESTIONS[24],
+    ...V2_ISOLATION_ITEMS,
+  ].map((question, index) => ({ ...question, id: index + 1 })),
+};
+
+// v3 addition: an instructed-response item, not scored
+const V3_ATTENTION_CHECK: Omit<QuizQuestion, 'id'> = {
+  dimension: 'Attention Check',
+  key: 'attentionCheck',
+  text: 'To show you are reading each statement, please choose "Disagree" here',
+  expectedAnswer: 'B',
+  options: LIKERT_OPTIONS,
+};
+
+// 32 questions: v2 with an attention check at Q16 and declared contradictory pairs
+export const QUESTION_BANK_V3: QuestionBank = {
+  version: 'v3',
+  questions: [
+    ...QUESTION_BANK_V2.questions.slice(0, 15),
+    V3_ATTENTION_CHECK,
+    ...QUESTION_BANK_V2.questions.slice(15),
+  ].map((question, index) => ({ ...question, id: index + 1 })),
+  contradictoryPairs: [
+    [1, 4],   // Feel like a fraud / don't deserve my position
+    [11, 13], // Define myself as a founder / can't separate identity from role
+    [17, 18], // Fear negative feedback / fear being judged negatively
+    [23, 26], // Driven by passion / would keep going without the money
+    [29, 30], // Feel isolated / have people to be honest with (reversed)
+    [31, 32], // Keep struggles to myself / feel understood (reversed)
+  ],
+};
+
+// All published banks by version
+export const QUESTION_BANKS: Record<string, QuestionBank> = {
+  [QUESTION_BANK_V1.version]: QUESTION_BANK_V1,
+  [QUESTION_BANK_V2.version]: QUESTION_BANK_V2,
+  [QUESTION_BANK_V3.version]: QUESTION_BANK_V3,
+};
+
+// Bank served to new quiz takers
+export const CURRENT_QUESTION_BANK_VERSION = QUESTION_BANK_V3.version;
+export const CURRENT_QUESTION_BANK: QuestionBank = QUESTION_BANKS[CURRENT_QUESTION_BANK_VERSION];
+
+/**
+ * Check whether a value names a published question bank
+ */
+export function isQuestionBankVersion(version: unknown): version is string {
+  return typeof version === 'string' && Object.prototype.hasOwnProperty.call(QUESTION_BANKS, version);
+}
+
+/**
+ * Look up a question bank by version
+ * @param version - Bank version, defaults to the current bank
+ * @throws Error if the version is unknown
+ */
+export function getQuestionBank(version: string = CURRENT_QUESTION_BANK_VERSION): QuestionBank {
+  if (!isQuestionBankVersion(version)) {
+    throw new Error(`Unknown question bank version: ${version}`);
+  }
+  return QUESTION_BANKS[version];
+}
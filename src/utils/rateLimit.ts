@@ -62,6 +62,14 @@ export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
   windowMs: 60 * 1000, // 1 minute
 };
 
+/**
+ * Login rate limit configuration: 5 attempts per 15 minutes
+ */
+export const LOGIN_RATE_LIMIT: RateLimitConfig = {
+  maxRequests: 5,
+  windowMs: 15 * 60 * 1000, // 15 minutes
+};
+
 /**
  * Check if a request is allowed under the rate limit
  * 
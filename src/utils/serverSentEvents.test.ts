@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { formatServerSentEvent, readServerSentEvents, type ServerSentEvent } from './serverSentEvents';
+
+// Body that delivers the given text split at arbitrary points
+function bodyFromChunks(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+function splitAt(text: string, cuts: number[]): string[] {
+  const points = [...new Set(cuts.map((cut) => cut % (text.length + 1)))].sort((a, b) => a - b);
+  const chunks: string[] = [];
+  let start = 0;
+  for (const point of points) {
+    chunks.push(text.slice(start, point));
+    start = point;
+  }
+  chunks.push(text.slice(start));
+  return chunks;
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  await readServerSentEvents(body, (event) => events.push(event));
+  return events;
+}
+
+describe('serverSentEvents', () => {
+  it('formats an event with a JSON payload', () => {
+    expect(formatServerSentEvent('token', { text: 'Hi' })).toBe('event: token\ndata: {"text":"Hi"}\n\n');
+  });
+
+  it('reads back every event however the body is chunked', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.string(), { minLength: 1, maxLength: 8 }),
+        fc.array(fc.nat(), { maxLength: 6 }),
+        async (texts, cuts) => {
+          const stream = texts.map((text) => formatServerSentEvent('token', { text })).join('')
+            + formatServerSentEvent('done', {});
+
+          const events = await collect(bodyFromChunks(splitAt(stream, cuts)));
+
+          expect(events).toEqual([
+            ...texts.map((text) => ({ event: 'token', data: { text } })),
+            { event: 'done', data: {} },
+          ]);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('keeps multi-byte characters intact across chunk boundaries', async () => {
+    const bytes = new TextEncoder().encode(formatServerSentEvent('token', { text: 'héllo ✨' }));
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const byte of bytes) controller.enqueue(new Uint8Array([byte]));
+        controller.close();
+      },
+    });
+
+    expect(await collect(body)).toEqual([{ event: 'token', data: { text: 'héllo ✨' } }]);
+  });
+
+  it('ignores blocks without data and defaults the event name', async () => {
+    const events = await collect(bodyFromChunks([': keep-alive\n\n', 'data: 1\n\n']));
+    expect(events).toEqual([{ event: 'message', data: 1 }]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Minimal server-sent events helpers
+ *
+ * Used for streamed responses read with fetch rather than EventSource, since
+ * EventSource can only make GET requests. Every event carries a JSON payload.
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Serialize one event for a text/event-stream response
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse a single event block ("event: x" and "data: y" lines)
+ * @returns The event, or null if the block has no data
+ */
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice('event:'.length).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice('data:'.length).trim());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: JSON.parse(dataLines.join('\n')) };
+}
+
+/**
+ * Read every event from a text/event-stream body
+ * @param body - Response body
+ * @param onEvent - Called for each event, in order
+ * @throws Error if the connection drops or an event is malformed
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; keep any incomplete one for the next chunk
+      const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+      buffer = done ? '' : blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const event = parseEventBlock(block);
+        if (event) onEvent(event);
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextResponse } from 'next/server';
+
+// Device lookups hit the database; devices whose id starts with 'dead' count as unlinked
+vi.mock('../services/deviceService', () => ({
+  isDeviceActive: vi.fn(async (deviceId: string) => !deviceId.startsWith('dead')),
+  createDevice: vi.fn(),
+}));
+
+import {
+  createSessionToken,
+  verifySessionToken,
+  readCookie,
+  getSession,
+  setSessionCookie,
+  withSession,
+  SessionConfigError,
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE,
+} from './session';
+
+const DEVICE_ID = '6f1c2d3e-0000-4000-8000-000000000001';
+const REVOKED_DEVICE_ID = 'dead0000-0000-4000-8000-000000000002';
+
+function requestWithCookie(cookie?: string): Request {
+  return new Request('http://localhost/api/test', {
+    headers: cookie ? { cookie } : {},
+  });
+}
+
+describe('session tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('round-trips the odId and device through sign and verify', () => {
+    const token = createSessionToken('anonymous-abc', DEVICE_ID, 1_000);
+    expect(verifySessionToken(token, 2_000)).toEqual({ odId: 'anonymous-abc', deviceId: DEVICE_ID, issuedAt: 1_000 });
+  });
+
+  it('rejects a token whose odId or device was swapped', () => {
+    const token = createSessionToken('anonymous-abc', DEVICE_ID, 1_000);
+    const [encodedOdId, deviceId, issuedAt, signature] = token.split('.');
+    const forgedUser = `${Buffer.from('anonymous-victim').toString('base64url')}.${deviceId}.${issuedAt}.${signature}`;
+    const forgedDevice = `${encodedOdId}.${REVOKED_DEVICE_ID}.${issuedAt}.${signature}`;
+    expect(verifySessionToken(forgedUser, 2_000)).toBeNull();
+    expect(verifySessionToken(forgedDevice, 2_000)).toBeNull();
+  });
+
+  it('rejects a token signed with a different secret', () => {
+    const token = createSessionToken('anonymous-abc', DEVICE_ID, 1_000);
+    vi.stubEnv('SESSION_SECRET', 'another-secret');
+    expect(verifySessionToken(token, 2_000)).toBeNull();
+  });
+
+  it('rejects expired and future-dated tokens', () => {
+    const token = createSessionToken('anonymous-abc', DEVICE_ID, 1_000);
+    expect(verifySessionToken(token, 1_000 + SESSION_MAX_AGE * 1000 + 1)).toBeNull();
+    expect(verifySessionToken(token, 500)).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(verifySessionToken(undefined)).toBeNull();
+    expect(verifySessionToken('')).toBeNull();
+    expect(verifySessionToken('not-a-token')).toBeNull();
+    expect(verifySessionToken('a.b.c')).toBeNull();
+    expect(verifySessionToken('a.b.c.d.e')).toBeNull();
+  });
+
+  it('throws a config error when no secret is set', () => {
+    vi.stubEnv('SESSION_SECRET', '');
+    vi.stubEnv('NEXTAUTH_SECRET', '');
+    expect(() => createSessionToken('anonymous-abc', DEVICE_ID)).toThrow(SessionConfigError);
+  });
+});
+
+describe('readCookie', () => {
+  it('finds a cookie among several', () => {
+    const request = requestWithCookie(`theme=dark; ${SESSION_COOKIE_NAME}=abc.123.sig; other=1`);
+    expect(readCookie(request, SESSION_COOKIE_NAME)).toBe('abc.123.sig');
+  });
+
+  it('returns null when the cookie is missing', () => {
+    expect(readCookie(requestWithCookie('theme=dark'), SESSION_COOKIE_NAME)).toBeNull();
+    expect(readCookie(requestWithCookie(), SESSION_COOKIE_NAME)).toBeNull();
+  });
+});
+
+describe('withSession', () => {
+  beforeEach(() => {
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('returns 401 without calling the handler when there is no session', async () => {
+    const handler = vi.fn();
+    const route = withSession(handler);
+
+    const response = await route(requestWithCookie(), undefined);
+
+    expect(response.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('passes the verified odId and route context to the handler', async () => {
+    const handler = vi.fn(async (_request: Request, odId: string, context: { id: string }) =>
+      NextResponse.json({ odId, id: context.id })
+    );
+    const route = withSession(handler);
+    const token = createSessionToken('anonymous-abc', DEVICE_ID);
+
+    const response = await route(requestWithCookie(`${SESSION_COOKIE_NAME}=${token}`), { id: 'post-1' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ odId: 'anonymous-abc', id: 'post-1' });
+  });
+
+  it('returns 401 once the session\'s device has been unlinked', async () => {
+    const handler = vi.fn();
+    const route = withSession(handler);
+    const token = createSessionToken('anonymous-abc', REVOKED_DEVICE_ID);
+
+    const response = await route(requestWithCookie(`${SESSION_COOKIE_NAME}=${token}`), undefined);
+
+    expect(response.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('issues cookies that later requests resolve to the same user and device', async () => {
+    const response = setSessionCookie(NextResponse.json({}), 'anonymous-abc', DEVICE_ID);
+    const cookie = response.cookies.get(SESSION_COOKIE_NAME);
+
+    expect(cookie?.httpOnly).toBe(true);
+    const session = await getSession(requestWithCookie(`${SESSION_COOKIE_NAME}=${cookie?.value}`));
+    expect(session).toMatchObject({ odId: 'anonymous-abc', deviceId: DEVICE_ID });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Server-verified anonymous sessions
+ *
+ * Every API route resolves the current user from a signed, HTTP-only cookie
+ * instead of trusting an odId sent by the client. The cookie value is:
+ *
+ *   base64url(odId).deviceId.issuedAt.base64url(hmacSha256(secret, "base64url(odId).deviceId.issuedAt"))
+ *
+ * The deviceId points at a user_devices row, so a session stops working as
+ * soon as its device is unlinked. The secret comes from SESSION_SECRET
+ * (falling back to NEXTAUTH_SECRET).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { handleError, USER_ERROR_MESSAGES } from './errorHandler';
+import { createDevice, isDeviceActive } from '../services/deviceService';
+
+export const SESSION_COOKIE_NAME = 'fmindset_session';
+
+/** Session lifetime in seconds (matches the 1 year data retention policy) */
+export const SESSION_MAX_AGE = 365 * 24 * 60 * 60;
+
+export interface SessionPayload {
+  odId: string;
+  /** user_devices.id of the browser holding this session */
+  deviceId: string;
+  /** Unix timestamp (ms) at which the session was issued */
+  issuedAt: number;
+}
+
+/**
+ * Error thrown when sessions cannot be signed or verified
+ */
+export class SessionConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionConfigError';
+  }
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new SessionConfigError('SESSION_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSessionSecret()).update(value).digest('base64url');
+}
+
+/**
+ * Create a signed session token for a user
+ *
+ * @param odId - The user's odId (as stored in user_profiles.od_id)
+ * @param deviceId - The device the session is issued to (user_devices.id)
+ * @param issuedAt - Issue timestamp in ms (defaults to now)
+ * @returns Signed token suitable for the session cookie
+ */
+export function createSessionToken(odId: string, deviceId: string, issuedAt: number = Date.now()): string {
+  if (!odId || odId.trim() === '') {
+    throw new SessionConfigError('Cannot create a session without an odId');
+  }
+  if (!/^[0-9a-f-]+$/i.test(deviceId)) {
+    throw new SessionConfigError('Cannot create a session without a valid deviceId');
+  }
+  const unsigned = `${Buffer.from(odId, 'utf8').toString('base64url')}.${deviceId}.${issuedAt}`;
+  return `${unsigned}.${sign(unsigned)}`;
+}
+
+/**
+ * Verify a session token and extract its payload
+ *
+ * @param token - Raw cookie value
+ * @param now - Current timestamp in ms (injectable for tests)
+ * @returns The session payload, or null if the token is malformed, tampered with or expired
+ */
+export function verifySessionToken(
+  token: string | null | undefined,
+  now: number = Date.now()
+): SessionPayload | null {
+  if (!token) {
+    return null;
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const [encodedOdId, deviceId, issuedAtRaw, signature] = parts;
+  const expected = Buffer.from(sign(`${encodedOdId}.${deviceId}.${issuedAtRaw}`));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const issuedAt = Number(issuedAtRaw);
+  if (!Number.isFinite(issuedAt) || issuedAt > now || now - issuedAt > SESSION_MAX_AGE * 1000) {
+    return null;
+  }
+
+  const odId = Buffer.from(encodedOdId, 'base64url').toString('utf8');
+  if (!odId) {
+    return null;
+  }
+
+  return { odId, deviceId, issuedAt };
+}
+
+/**
+ * Read a single cookie value from a request's Cookie header
+ */
+export function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie');
+  if (!header) {
+    return null;
+  }
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+    if (part.slice(0, separator).trim() === name) {
+      return part.slice(separator + 1).trim();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the current session from the session cookie
+ *
+ * Checks the signature and that the session's device has not been unlinked.
+ *
+ * @returns The verified session, or null if there is no valid session
+ */
+export async function getSession(request: Request): Promise<SessionPayload | null> {
+  const session = verifySessionToken(readCookie(request, SESSION_COOKIE_NAME));
+  if (!session) {
+    return null;
+  }
+
+  return (await isDeviceActive(session.deviceId, session.odId)) ? session : null;
+}
+
+/**
+ * Attach a freshly signed session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, odId: string, deviceId: string): NextResponse {
+  response.cookies.set(SESSION_COOKIE_NAME, createSessionToken(odId, deviceId), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  });
+  return response;
+}
+
+/**
+ * Register the requesting browser as a device of a user and sign it in
+ */
+export async function issueSession(
+  request: Request,
+  response: NextResponse,
+  odId: string
+): Promise<NextResponse> {
+  const device = await createDevice(odId, request.headers.get('user-agent'));
+  return setSessionCookie(response, odId, device.id);
+}
+
+/**
+ * Remove the session cookie (e.g. after the user deletes their data)
+ */
+export function clearSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.set(SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+  return response;
+}
+
+/**
+ * Route handler middleware that requires a valid session
+ *
+ * Resolves the user server-side and passes the verified odId to the handler
+ * (the full session, including the device, is passed last). Requests without
+ * a valid session cookie get a 401 before the handler runs.
+ *
+ * @example
+ * export const GET = withSession(async (request, odId) => { ... });
+ */
+export function withSession<TContext = unknown>(
+  handler: (
+    request: Request,
+    odId: string,
+    context: TContext,
+    session: SessionPayload
+  ) => Promise<NextResponse>
+): (request: Request, context: TContext) => Promise<NextResponse> {
+  return async (request: Request, context: TContext) => {
+    let session: SessionPayload | null;
+    try {
+      session = await getSession(request);
+    } catch (error) {
+      handleError('withSession', error);
+      return NextResponse.json(
+        { error: USER_ERROR_MESSAGES.SERVER_ERROR },
+        { status: 500 }
+      );
+    }
+
+    if (!session) {
+      return NextResponse.json(
+        { error: USER_ERROR_MESSAGES.NO_SESSION },
+        { status: 401 }
+      );
+    }
+
+    return handler(request, session.odId, context, session);
+  };
+}
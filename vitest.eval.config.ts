@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Offline prompt evaluations (npm run eval:insights), kept out of npm test
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'node',
+    include: ['src/**/*.eval.ts'],
+  },
+});